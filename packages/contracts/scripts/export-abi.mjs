@@ -8,7 +8,8 @@ const CONTRACTS = [
   'MerkleVestingFactory',
   'MerkleVestingDeployer',
   'VestingWalletCliffConcrete',
-  'VestingWalletFeeWrapper'
+  'VestingWalletFeeWrapper',
+  'MerkleTreeRegistry'
 ];
 
 const OUT_DIR = path.join(__dirname, '..', 'out');
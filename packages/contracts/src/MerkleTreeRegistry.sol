@@ -0,0 +1,99 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {IMerkleTreeRegistry} from "./interfaces/IMerkleTreeRegistry.sol";
+
+/// @title MerkleTreeRegistry
+/// @notice Maps deployed merkle roots to the IPFS CID of their full tree for disaster recovery
+/// @dev Registrations are authorized by an EIP-712 signature from the owner and may be relayed by anyone
+contract MerkleTreeRegistry is IMerkleTreeRegistry, Ownable, EIP712 {
+    /// @notice EIP-712 typehash for registration authorizations
+    bytes32 public constant REGISTRATION_TYPEHASH = keccak256(
+        "Registration(uint256 chainId,address distributor,bytes32 merkleRoot,string ipfsCid,uint256 deadline)"
+    );
+
+    /// @dev Registry key => entry
+    mapping(bytes32 => Entry) private _entries;
+
+    /// @dev keccak256(ipfsCid) => registry keys
+    mapping(bytes32 => bytes32[]) private _keysByCid;
+
+    /// @param initialOwner Account whose signatures authorize registrations
+    constructor(address initialOwner) Ownable(initialOwner) EIP712("MerkleTreeRegistry", "1") {}
+
+    // ============ View Functions ============
+
+    /// @inheritdoc IMerkleTreeRegistry
+    function getKey(uint256 chainId, address distributor, bytes32 merkleRoot) public pure returns (bytes32) {
+        return keccak256(abi.encode(chainId, distributor, merkleRoot));
+    }
+
+    /// @inheritdoc IMerkleTreeRegistry
+    function lookup(uint256 chainId, address distributor, bytes32 merkleRoot)
+        external
+        view
+        returns (Entry memory entry)
+    {
+        return _entries[getKey(chainId, distributor, merkleRoot)];
+    }
+
+    /// @inheritdoc IMerkleTreeRegistry
+    function lookupByCid(string calldata ipfsCid) external view returns (Entry[] memory entries) {
+        bytes32[] storage keys = _keysByCid[keccak256(bytes(ipfsCid))];
+        entries = new Entry[](keys.length);
+
+        for (uint256 i = 0; i < keys.length; i++) {
+            entries[i] = _entries[keys[i]];
+        }
+    }
+
+    /// @inheritdoc IMerkleTreeRegistry
+    function DOMAIN_SEPARATOR() external view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
+    // ============ State-Changing Functions ============
+
+    /// @inheritdoc IMerkleTreeRegistry
+    function register(
+        uint256 chainId,
+        address distributor,
+        bytes32 merkleRoot,
+        string calldata ipfsCid,
+        uint256 deadline,
+        bytes calldata signature
+    ) external returns (bytes32 key) {
+        // Validate inputs
+        if (distributor == address(0)) revert ZeroAddress();
+        if (merkleRoot == bytes32(0)) revert ZeroMerkleRoot();
+        if (bytes(ipfsCid).length == 0) revert EmptyCid();
+        if (block.timestamp > deadline) revert AuthorizationExpired();
+
+        // Verify the owner authorized exactly this entry
+        bytes32 structHash = keccak256(
+            abi.encode(REGISTRATION_TYPEHASH, chainId, distributor, merkleRoot, keccak256(bytes(ipfsCid)), deadline)
+        );
+        if (!SignatureChecker.isValidSignatureNow(owner(), _hashTypedDataV4(structHash), signature)) {
+            revert InvalidAuthorization();
+        }
+
+        // Entries are write-once, which also makes replaying an authorization a no-op
+        key = getKey(chainId, distributor, merkleRoot);
+        if (_entries[key].registeredAt != 0) revert AlreadyRegistered(key);
+
+        _entries[key] = Entry({
+            chainId: chainId,
+            distributor: distributor,
+            merkleRoot: merkleRoot,
+            ipfsCid: ipfsCid,
+            registeredAt: uint64(block.timestamp),
+            registrant: msg.sender
+        });
+        _keysByCid[keccak256(bytes(ipfsCid))].push(key);
+
+        emit TreeRegistered(key, distributor, merkleRoot, chainId, ipfsCid, msg.sender);
+    }
+}
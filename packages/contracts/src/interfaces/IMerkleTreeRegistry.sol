@@ -0,0 +1,106 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+/// @title IMerkleTreeRegistry
+/// @notice On-chain index from (chainId, distributor, merkleRoot) to the IPFS CID of the full tree
+/// @dev Entries are write-once. Registrations must carry an EIP-712 signature from the registry owner,
+///      so any account can relay them without being trusted itself.
+interface IMerkleTreeRegistry {
+    // ============ Structs ============
+
+    /// @notice A registered merkle tree backup
+    /// @param chainId Chain the distributor is deployed on (may differ from the registry's chain)
+    /// @param distributor The MerkleVestingDeployer using this tree
+    /// @param merkleRoot The merkle root of allocations
+    /// @param ipfsCid CID of the serialized tree on IPFS
+    /// @param registeredAt Block timestamp of registration (zero for unknown keys)
+    /// @param registrant The account that submitted the registration
+    struct Entry {
+        uint256 chainId;
+        address distributor;
+        bytes32 merkleRoot;
+        string ipfsCid;
+        uint64 registeredAt;
+        address registrant;
+    }
+
+    // ============ Events ============
+
+    /// @notice Emitted when a tree is registered
+    /// @param key The registry key (see getKey)
+    /// @param distributor The distributor address
+    /// @param merkleRoot The merkle root of allocations
+    /// @param chainId Chain the distributor is deployed on
+    /// @param ipfsCid CID of the serialized tree
+    /// @param registrant The account that submitted the registration
+    event TreeRegistered(
+        bytes32 indexed key,
+        address indexed distributor,
+        bytes32 indexed merkleRoot,
+        uint256 chainId,
+        string ipfsCid,
+        address registrant
+    );
+
+    // ============ Errors ============
+
+    /// @notice Thrown when a zero address is provided
+    error ZeroAddress();
+
+    /// @notice Thrown when merkle root is zero
+    error ZeroMerkleRoot();
+
+    /// @notice Thrown when the CID is empty
+    error EmptyCid();
+
+    /// @notice Thrown when the authorization deadline has passed
+    error AuthorizationExpired();
+
+    /// @notice Thrown when the authorization was not signed by the registry owner
+    error InvalidAuthorization();
+
+    /// @notice Thrown when the key is already registered
+    error AlreadyRegistered(bytes32 key);
+
+    // ============ View Functions ============
+
+    /// @notice Compute the registry key for a tree
+    /// @return keccak256(abi.encode(chainId, distributor, merkleRoot))
+    function getKey(uint256 chainId, address distributor, bytes32 merkleRoot) external pure returns (bytes32);
+
+    /// @notice Look up a registered tree
+    /// @return entry The entry, with registeredAt == 0 when the key is not registered
+    function lookup(uint256 chainId, address distributor, bytes32 merkleRoot)
+        external
+        view
+        returns (Entry memory entry);
+
+    /// @notice Look up every entry registered with a CID
+    /// @param ipfsCid CID of the serialized tree
+    /// @return entries Matching entries in registration order
+    function lookupByCid(string calldata ipfsCid) external view returns (Entry[] memory entries);
+
+    /// @notice The EIP-712 domain separator used for registration authorizations
+    function DOMAIN_SEPARATOR() external view returns (bytes32);
+
+    // ============ State-Changing Functions ============
+
+    /// @notice Register a tree backup
+    /// @dev The signature is over the EIP-712 struct
+    ///      Registration(uint256 chainId,address distributor,bytes32 merkleRoot,string ipfsCid,uint256 deadline)
+    /// @param chainId Chain the distributor is deployed on
+    /// @param distributor The distributor address
+    /// @param merkleRoot The merkle root of allocations
+    /// @param ipfsCid CID of the serialized tree
+    /// @param deadline Timestamp after which the authorization is no longer valid
+    /// @param signature EIP-712 signature by the registry owner (EOA or ERC-1271)
+    /// @return key The registry key
+    function register(
+        uint256 chainId,
+        address distributor,
+        bytes32 merkleRoot,
+        string calldata ipfsCid,
+        uint256 deadline,
+        bytes calldata signature
+    ) external returns (bytes32 key);
+}
@@ -0,0 +1,171 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Test} from "forge-std/Test.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {MerkleTreeRegistry} from "../src/MerkleTreeRegistry.sol";
+import {IMerkleTreeRegistry} from "../src/interfaces/IMerkleTreeRegistry.sol";
+
+contract MerkleTreeRegistryTest is Test {
+    MerkleTreeRegistry public registry;
+
+    uint256 public ownerKey = 0xA11CE;
+    address public owner;
+    address public relayer = address(0xBEEF);
+
+    uint256 public chainId = 1;
+    address public distributor = address(0xD157);
+    bytes32 public merkleRoot = bytes32(uint256(1));
+    string public cid = "bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy";
+    uint256 public deadline;
+
+    event TreeRegistered(
+        bytes32 indexed key,
+        address indexed distributor,
+        bytes32 indexed merkleRoot,
+        uint256 chainId,
+        string ipfsCid,
+        address registrant
+    );
+
+    function setUp() public {
+        owner = vm.addr(ownerKey);
+        registry = new MerkleTreeRegistry(owner);
+        deadline = block.timestamp + 1 hours;
+    }
+
+    function _sign(uint256 signerKey, uint256 chainId_, address distributor_, bytes32 root, string memory ipfsCid, uint256 deadline_)
+        internal
+        view
+        returns (bytes memory)
+    {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                registry.REGISTRATION_TYPEHASH(), chainId_, distributor_, root, keccak256(bytes(ipfsCid)), deadline_
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", registry.DOMAIN_SEPARATOR(), structHash));
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(signerKey, digest);
+        return abi.encodePacked(r, s, v);
+    }
+
+    function _register() internal returns (bytes32) {
+        bytes memory signature = _sign(ownerKey, chainId, distributor, merkleRoot, cid, deadline);
+        vm.prank(relayer);
+        return registry.register(chainId, distributor, merkleRoot, cid, deadline, signature);
+    }
+
+    // ============ Registration Tests ============
+
+    function test_registerStoresEntry() public {
+        bytes32 key = _register();
+
+        assertEq(key, registry.getKey(chainId, distributor, merkleRoot), "Key mismatch");
+
+        IMerkleTreeRegistry.Entry memory entry = registry.lookup(chainId, distributor, merkleRoot);
+        assertEq(entry.chainId, chainId, "ChainId mismatch");
+        assertEq(entry.distributor, distributor, "Distributor mismatch");
+        assertEq(entry.merkleRoot, merkleRoot, "MerkleRoot mismatch");
+        assertEq(entry.ipfsCid, cid, "Cid mismatch");
+        assertEq(entry.registeredAt, block.timestamp, "RegisteredAt mismatch");
+        assertEq(entry.registrant, relayer, "Registrant should be the relayer");
+    }
+
+    function test_registerEmitsEvent() public {
+        bytes32 key = registry.getKey(chainId, distributor, merkleRoot);
+
+        vm.expectEmit(true, true, true, true);
+        emit TreeRegistered(key, distributor, merkleRoot, chainId, cid, relayer);
+        _register();
+    }
+
+    function test_registerRevertsWhenAlreadyRegistered() public {
+        bytes32 key = _register();
+        bytes memory signature = _sign(ownerKey, chainId, distributor, merkleRoot, "bafkreiother", deadline);
+
+        vm.expectRevert(abi.encodeWithSelector(IMerkleTreeRegistry.AlreadyRegistered.selector, key));
+        registry.register(chainId, distributor, merkleRoot, "bafkreiother", deadline, signature);
+    }
+
+    function test_registerRevertsForNonOwnerSignature() public {
+        bytes memory signature = _sign(0xB0B, chainId, distributor, merkleRoot, cid, deadline);
+
+        vm.expectRevert(IMerkleTreeRegistry.InvalidAuthorization.selector);
+        registry.register(chainId, distributor, merkleRoot, cid, deadline, signature);
+    }
+
+    function test_registerRevertsWhenSignedFieldsChange() public {
+        bytes memory signature = _sign(ownerKey, chainId, distributor, merkleRoot, cid, deadline);
+
+        vm.expectRevert(IMerkleTreeRegistry.InvalidAuthorization.selector);
+        registry.register(chainId, distributor, merkleRoot, "bafkreitampered", deadline, signature);
+
+        vm.expectRevert(IMerkleTreeRegistry.InvalidAuthorization.selector);
+        registry.register(137, distributor, merkleRoot, cid, deadline, signature);
+    }
+
+    function test_registerRevertsAfterDeadline() public {
+        bytes memory signature = _sign(ownerKey, chainId, distributor, merkleRoot, cid, deadline);
+        vm.warp(deadline + 1);
+
+        vm.expectRevert(IMerkleTreeRegistry.AuthorizationExpired.selector);
+        registry.register(chainId, distributor, merkleRoot, cid, deadline, signature);
+    }
+
+    function test_registerRevertsForInvalidInputs() public {
+        bytes memory signature = _sign(ownerKey, chainId, distributor, merkleRoot, cid, deadline);
+
+        vm.expectRevert(IMerkleTreeRegistry.ZeroAddress.selector);
+        registry.register(chainId, address(0), merkleRoot, cid, deadline, signature);
+
+        vm.expectRevert(IMerkleTreeRegistry.ZeroMerkleRoot.selector);
+        registry.register(chainId, distributor, bytes32(0), cid, deadline, signature);
+
+        vm.expectRevert(IMerkleTreeRegistry.EmptyCid.selector);
+        registry.register(chainId, distributor, merkleRoot, "", deadline, signature);
+    }
+
+    function test_transferredOwnershipChangesSigner() public {
+        address newOwner = vm.addr(0xB0B);
+        vm.prank(owner);
+        registry.transferOwnership(newOwner);
+
+        bytes memory staleSignature = _sign(ownerKey, chainId, distributor, merkleRoot, cid, deadline);
+        vm.expectRevert(IMerkleTreeRegistry.InvalidAuthorization.selector);
+        registry.register(chainId, distributor, merkleRoot, cid, deadline, staleSignature);
+
+        bytes memory signature = _sign(0xB0B, chainId, distributor, merkleRoot, cid, deadline);
+        registry.register(chainId, distributor, merkleRoot, cid, deadline, signature);
+    }
+
+    function test_onlyOwnerCanTransferOwnership() public {
+        vm.prank(relayer);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, relayer));
+        registry.transferOwnership(relayer);
+    }
+
+    // ============ Lookup Tests ============
+
+    function test_lookupReturnsEmptyEntryForUnknownKey() public view {
+        IMerkleTreeRegistry.Entry memory entry = registry.lookup(chainId, distributor, merkleRoot);
+
+        assertEq(entry.registeredAt, 0, "Unknown key should have zero registeredAt");
+        assertEq(bytes(entry.ipfsCid).length, 0, "Unknown key should have empty cid");
+    }
+
+    function test_lookupByCidReturnsAllEntries() public {
+        _register();
+
+        address otherDistributor = address(0xD158);
+        bytes memory signature = _sign(ownerKey, 137, otherDistributor, merkleRoot, cid, deadline);
+        registry.register(137, otherDistributor, merkleRoot, cid, deadline, signature);
+
+        IMerkleTreeRegistry.Entry[] memory entries = registry.lookupByCid(cid);
+        assertEq(entries.length, 2, "Should return both entries");
+        assertEq(entries[0].distributor, distributor, "First entry mismatch");
+        assertEq(entries[1].distributor, otherDistributor, "Second entry mismatch");
+        assertEq(entries[1].chainId, 137, "Second entry chainId mismatch");
+
+        assertEq(registry.lookupByCid("bafkreiunknown").length, 0, "Unknown cid should return no entries");
+    }
+}
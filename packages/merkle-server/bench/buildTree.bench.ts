@@ -0,0 +1,110 @@
+/**
+ * buildTree benchmark
+ *
+ * 1. Checks that buildTree produces the same root and proofs as the previous
+ *    per-leaf proof construction (which rebuilt every layer for each leaf),
+ *    at sizes where that approach is still fast enough to run.
+ * 2. Times buildTree at airdrop scale and verifies a sample of proofs.
+ *
+ * Usage: bun run bench [sizes...]   e.g. bun run bench 10000 250000
+ */
+import type { Hex } from 'viem';
+import { buildTree, getLeaf, getRoot, hashPair, verifyProof } from '../src/services/merkle';
+import type { Allocation } from '../src/types';
+
+const REFERENCE_SIZES = [64, 256, 512];
+const DEFAULT_SIZES = [1_000, 10_000, 100_000];
+const SAMPLED_PROOFS = 1_000;
+
+function generateAllocations(count: number): Allocation[] {
+  return Array.from({ length: count }, (_, i) => ({
+    beneficiary: `0x${(i + 1).toString(16).padStart(40, '0')}` as Hex,
+    amount: `${(i + 1) * 1_000_000}`,
+  }));
+}
+
+/**
+ * Previous buildTree proof construction: O(n) hashing per leaf
+ */
+function referenceProof(leaves: Hex[], index: number): Hex[] {
+  let layer = [...leaves];
+  while ((layer.length & (layer.length - 1)) !== 0) {
+    layer.push(leaves[leaves.length - 1]);
+  }
+
+  const proof: Hex[] = [];
+  let currentIndex = index;
+  while (layer.length > 1) {
+    proof.push(layer[currentIndex % 2 === 0 ? currentIndex + 1 : currentIndex - 1]);
+    const nextLayer: Hex[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      nextLayer.push(hashPair(layer[i], layer[i + 1]));
+    }
+    layer = nextLayer;
+    currentIndex = Math.floor(currentIndex / 2);
+  }
+
+  return proof;
+}
+
+function time<T>(fn: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = fn();
+  return { result, ms: performance.now() - start };
+}
+
+function format(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(1)}ms`;
+}
+
+function fail(message: string): never {
+  console.error(`✗ ${message}`);
+  process.exit(1);
+}
+
+console.log('Root and proof equality against per-leaf construction');
+for (const size of REFERENCE_SIZES) {
+  const allocations = generateAllocations(size);
+  const current = time(() => buildTree(allocations));
+
+  const reference = time(() => {
+    const leaves = allocations.map((alloc) => getLeaf(alloc.beneficiary, alloc.amount));
+    return { root: getRoot(leaves), proofs: leaves.map((_, index) => referenceProof(leaves, index)) };
+  });
+
+  if (current.result.root !== reference.result.root) {
+    fail(`${size} allocations: root ${current.result.root} != reference ${reference.result.root}`);
+  }
+  current.result.allocations.forEach((alloc, index) => {
+    if (alloc.proof.join() !== reference.result.proofs[index].join()) {
+      fail(`${size} allocations: proof for index ${index} differs from reference`);
+    }
+  });
+
+  console.log(
+    `  ✓ ${size.toLocaleString()} allocations: identical root ${current.result.root.slice(0, 10)}… ` +
+      `(cached layers ${format(current.ms)}, per-leaf ${format(reference.ms)})`
+  );
+}
+
+const sizes = process.argv.slice(2).map(Number).filter((n) => Number.isInteger(n) && n > 0);
+
+console.log('\nbuildTree');
+for (const size of sizes.length > 0 ? sizes : DEFAULT_SIZES) {
+  const allocations = generateAllocations(size);
+  const { result: tree, ms } = time(() => buildTree(allocations));
+
+  const step = Math.max(1, Math.floor(size / SAMPLED_PROOFS));
+  for (let index = 0; index < size; index += step) {
+    const alloc = tree.allocations[index];
+    if (!verifyProof(alloc.proof, tree.root, alloc.leaf)) {
+      fail(`${size} allocations: proof for index ${index} does not verify`);
+    }
+  }
+
+  const rssMb = Math.round(process.memoryUsage().rss / 1024 / 1024);
+  console.log(
+    `  ${size.toLocaleString().padStart(9)} allocations: ${format(ms).padStart(8)} ` +
+      `(${((size / ms) * 1000).toFixed(0)} leaves/s, depth ${tree.allocations[0].proof.length}, rss ${rssMb}MB)`
+  );
+}
@@ -1,26 +1,80 @@
 import { Hono } from 'hono';
 import { logger } from 'hono/logger';
 import { cors } from 'hono/cors';
+import { z } from 'zod';
 import { trees } from './routes/trees';
+import { beneficiaries } from './routes/beneficiaries';
+import { audit } from './routes/audit';
+import { admin } from './routes/admin';
+import { health } from './routes/health';
 import { validateProofPackage, verifyProofPackageAgainstRoot } from './services/proofPackage';
-import type { ProofPackage } from './types';
+import { verifyMultiProof } from './services/merkle';
+import { createIpfsClient, type IpfsClient } from './services/ipfs';
+import { createStorage, loadStorageConfig } from './services/storage';
+import { createRegistryClientFromEnv, type RegistryClient } from './services/registry';
+import { createAuthenticatorFromEnv, type Authenticator } from './services/auth';
+import { loadRetentionDays } from './services/retention';
+import { createAuditLogFromEnv, type AuditLog } from './services/audit';
+import { createReconciler, type Reconciler } from './services/reconciliation';
+import { loadHealthCheckTimeoutMs } from './services/health';
+import type { Hex } from 'viem';
+import type { AppEnv, Multiproof, ProofPackage, StorageBackend } from './types';
 
-export function createApp(options: { logging?: boolean } = {}): Hono {
-  const app = new Hono();
+const bytes32Schema = z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid bytes32');
+
+const multiproofSchema = z.object({
+  root: bytes32Schema,
+  leaves: z.array(bytes32Schema),
+  proof: z.array(bytes32Schema),
+  proofFlags: z.array(z.boolean()),
+});
+
+export interface AppOptions {
+  logging?: boolean;
+  storage?: StorageBackend; // Defaults to the storage configured via environment
+  ipfs?: IpfsClient;
+  registry?: RegistryClient | null; // Defaults to the registry configured via environment, if any
+  auth?: Authenticator | null; // Defaults to the API keys configured via environment (see createAuthenticatorFromEnv); null disables auth
+  retentionDays?: number; // Soft-delete retention; defaults to DELETION_RETENTION_DAYS or 30
+  audit?: AuditLog; // Defaults to the JSON lines file at AUDIT_LOG_PATH
+  reconciler?: Reconciler; // Defaults to an unscheduled reconciler for `storage` that audits to `audit`
+  healthCheckTimeoutMs?: number; // Per-component readiness limit; defaults to HEALTH_CHECK_TIMEOUT_MS or 3000
+}
+
+export function createApp(options: AppOptions = {}): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+  const storage = options.storage ?? createStorage(loadStorageConfig());
+  const ipfs = options.ipfs ?? createIpfsClient();
+  const registry = options.registry === undefined ? createRegistryClientFromEnv() : options.registry;
+  const auth = options.auth === undefined ? createAuthenticatorFromEnv() : options.auth;
+  const retentionDays = options.retentionDays ?? loadRetentionDays();
+  const auditLog = options.audit ?? createAuditLogFromEnv();
+  const reconciler = options.reconciler ?? createReconciler(storage, auditLog);
+  const healthCheckTimeoutMs = options.healthCheckTimeoutMs ?? loadHealthCheckTimeoutMs();
 
   // Middleware
   if (options.logging !== false) {
     app.use('*', logger());
   }
   app.use('*', cors());
-
-  // Health check
-  app.get('/health', (c) => {
-    return c.json({ status: 'ok', timestamp: new Date().toISOString() });
+  app.use('*', async (c, next) => {
+    c.set('storage', storage);
+    c.set('ipfs', ipfs);
+    c.set('registry', registry);
+    c.set('auth', auth);
+    c.set('retentionDays', retentionDays);
+    c.set('audit', auditLog);
+    c.set('reconciler', reconciler);
+    c.set('healthCheckTimeoutMs', healthCheckTimeoutMs);
+    await next();
   });
 
   // Mount routes
+  app.route('/health', health);
   app.route('/trees', trees);
+  app.route('/beneficiaries', beneficiaries);
+  app.route('/audit', audit);
+  app.route('/admin', admin);
 
   // Verify proof package endpoint
   app.post('/verify-package', async (c) => {
@@ -39,6 +93,19 @@ export function createApp(options: { logging?: boolean } = {}): Hono {
     return c.json({ valid: verified });
   });
 
+  // Verify multiproof endpoint (see POST /trees/:id/multiproof)
+  app.post('/verify-multiproof', async (c) => {
+    const body = await c.req.json();
+    const result = multiproofSchema.safeParse(body);
+
+    if (!result.success) {
+      return c.json({ valid: false, errors: result.error.issues.map((issue) => issue.message) }, 400);
+    }
+
+    const { root, ...multiproof } = result.data;
+    return c.json({ valid: verifyMultiProof(multiproof as Multiproof, root as Hex) });
+  });
+
   // 404 handler
   app.notFound((c) => {
     return c.json({ error: 'Not found' }, 404);
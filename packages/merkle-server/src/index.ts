@@ -1,9 +1,39 @@
 import { createApp } from './app';
+import { createStorage, loadStorageConfig, ReplicatedStorage } from './services/storage';
+import { startPurgeJob } from './services/retention';
+import { createReconciler, loadReconcileIntervalMs } from './services/reconciliation';
+import { createAuthenticatorFromEnv } from './services/auth';
+import { createAuditLogFromEnv } from './services/audit';
 
-const app = createApp();
+const storageConfig = loadStorageConfig();
+const storage = createStorage(storageConfig);
+// Routes and background jobs append to one audit log, so its hash chain stays in order
+const audit = createAuditLogFromEnv();
+const reconciler = createReconciler(storage, audit);
+const auth = createAuthenticatorFromEnv();
+const app = createApp({ storage, reconciler, auth, audit });
 const port = parseInt(process.env.PORT || '3000', 10);
 
 console.log(`Starting Merkle Tree Server on port ${port}...`);
+const replicaTypes = storageConfig.replicas.map((replica) => replica.type).join(', ') || 'none';
+console.log(`Storage: ${storageConfig.primary.type} (replicas: ${replicaTypes}, write quorum: ${storageConfig.writeQuorum ?? 0})`);
+if (!auth) {
+  console.warn('Authentication is disabled (AUTH_DISABLED=true): every route is open to anyone who can reach the server');
+}
+
+// Hard-delete soft-deleted trees once their retention period has passed
+startPurgeJob(storage, audit);
+
+// Retry replica writes that failed, with exponential backoff
+if (storage instanceof ReplicatedStorage) {
+  storage.startRetryJob();
+}
+
+// Repair missing, differing and corrupt replica copies in the background
+const reconcileIntervalMs = loadReconcileIntervalMs();
+if (reconciler.replicated && reconcileIntervalMs !== null) {
+  reconciler.start(reconcileIntervalMs);
+}
 
 export default {
   port,
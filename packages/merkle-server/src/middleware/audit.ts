@@ -0,0 +1,48 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import type { AppEnv, AuditAction, AuditTarget, MerkleTree } from '../types';
+
+/**
+ * Record the outcome of a mutating route in the audit log
+ * Runs after the handler; the handler names the tree it acted on with setAuditTarget,
+ * otherwise the entry falls back to the :id route parameter. Place after requireRole so
+ * the entry carries the authenticated key name.
+ * A failed append is logged and does not change the response: the operation has already happened.
+ */
+export function audited(action: AuditAction): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    await next();
+
+    const target = c.var.auditTarget;
+    const status = c.res.status;
+
+    try {
+      await c.var.audit.append({
+        actor: c.var.apiKey?.name ?? 'anonymous',
+        action,
+        treeId: target?.id ?? c.req.param('id'),
+        root: target?.root,
+        inputHash: target?.inputHash,
+        result: status < 400 ? 'success' : 'failure',
+        status,
+        details: target?.details,
+      });
+    } catch (error) {
+      console.error(`Failed to record audit entry for ${action}:`, error);
+    }
+  };
+}
+
+/**
+ * Name the tree an audited route acted on
+ */
+export function setAuditTarget(
+  c: Context<AppEnv>,
+  tree: Pick<MerkleTree, 'id' | 'root' | 'inputHash'>,
+  details?: Record<string, string>
+): void {
+  const target: AuditTarget = { id: tree.id, root: tree.root, inputHash: tree.inputHash };
+  if (details) {
+    target.details = details;
+  }
+  c.set('auditTarget', target);
+}
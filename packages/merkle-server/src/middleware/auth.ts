@@ -0,0 +1,42 @@
+import type { MiddlewareHandler } from 'hono';
+import { hasRole, type Role } from '../services/auth';
+import type { AppEnv } from '../types';
+
+/**
+ * Require an API key with at least `role`
+ * Keys are read from `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ * A no-op when the app has no authenticator (no keys configured).
+ */
+export function requireRole(role: Role): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const auth = c.var.auth;
+    if (!auth) {
+      return next();
+    }
+
+    const key = readApiKey(c.req.header('Authorization'), c.req.header('X-API-Key'));
+    if (!key) {
+      return c.json({ error: 'Authentication required' }, 401, { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    const principal = auth.authenticate(key);
+    if (!principal) {
+      return c.json({ error: 'Invalid API key' }, 401, { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+    }
+
+    if (!hasRole(principal.role, role)) {
+      return c.json({ error: `This action requires the ${role} role` }, 403);
+    }
+
+    c.set('apiKey', principal);
+    await next();
+  };
+}
+
+function readApiKey(authorization?: string, apiKeyHeader?: string): string | null {
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (bearer) {
+    return bearer[1].trim();
+  }
+  return apiKeyHeader?.trim() || null;
+}
@@ -0,0 +1,29 @@
+import { Hono } from 'hono';
+import { requireRole } from '../middleware/auth';
+import type { AppEnv } from '../types';
+
+const admin = new Hono<AppEnv>();
+
+/**
+ * POST /admin/storage/reconcile - Reconcile replicas now and return the run
+ * Waits for a scheduled run that is already in progress instead of starting another.
+ * Repaired trees are audited under the calling key's name.
+ */
+admin.post('/storage/reconcile', requireRole('admin'), async (c) => {
+  const reconciler = c.var.reconciler;
+
+  if (!reconciler.replicated) {
+    return c.json({ error: 'Storage has no replicas to reconcile' }, 409);
+  }
+
+  return c.json(await reconciler.run(c.var.apiKey?.name ?? 'anonymous'));
+});
+
+/**
+ * GET /admin/storage/status - Reconciliation schedule and the last run's per-backend divergence
+ */
+admin.get('/storage/status', requireRole('admin'), (c) => {
+  return c.json(c.var.reconciler.status());
+});
+
+export { admin };
@@ -0,0 +1,46 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { requireRole } from '../middleware/auth';
+import { AUDIT_ACTIONS, listAuditPage, verifyAuditChain } from '../services/audit';
+import type { AppEnv } from '../types';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1_000;
+
+const auditQuerySchema = z.object({
+  treeId: z.string().min(1).optional(),
+  actor: z.string().min(1).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  limit: z.coerce.number().int().min(1)
+    .max(MAX_PAGE_SIZE, `limit cannot exceed ${MAX_PAGE_SIZE}`)
+    .default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().regex(/^\d+$/, 'Invalid cursor').optional(),
+});
+
+const audit = new Hono<AppEnv>();
+
+/**
+ * GET /audit - List audit log entries, oldest first
+ * Query params: ?treeId=...&actor=...&action=delete&limit=100&cursor=...
+ */
+audit.get('/', requireRole('admin'), async (c) => {
+  const query = auditQuerySchema.safeParse(c.req.query());
+
+  if (!query.success) {
+    return c.json({ error: 'Validation failed', details: query.error.issues }, 400);
+  }
+
+  return c.json(await listAuditPage(c.var.audit, query.data));
+});
+
+/**
+ * GET /audit/verify - Check the audit log's hash chain
+ * Responds 409 with the first broken sequence number when an entry was edited, removed or reordered
+ */
+audit.get('/verify', requireRole('admin'), async (c) => {
+  const result = verifyAuditChain(await c.var.audit.entries());
+
+  return c.json(result, result.valid ? 200 : 409);
+});
+
+export { audit };
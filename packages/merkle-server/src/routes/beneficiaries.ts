@@ -0,0 +1,50 @@
+import { Hono } from 'hono';
+import type { Hex } from 'viem';
+import { computeVestingStatus } from '../services/vesting';
+import { findTreesByBeneficiary } from '../services/storage';
+import type { AppEnv, BeneficiaryTreesResponse } from '../types';
+
+const beneficiaries = new Hono<AppEnv>();
+
+/**
+ * GET /beneficiaries/:address - Every tree an address appears in, oldest first
+ * Trees with vesting include the address's vesting progress as of now
+ */
+beneficiaries.get('/:address', async (c) => {
+  const address = c.req.param('address');
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return c.json({ error: 'Invalid address' }, 400);
+  }
+
+  const entries = await findTreesByBeneficiary(c.var.storage, address as Hex);
+  const currentTime = Math.floor(Date.now() / 1000);
+
+  const response: BeneficiaryTreesResponse = {
+    beneficiary: address as Hex,
+    trees: entries.map(({ vesting, ...entry }) => {
+      if (!vesting) {
+        return entry;
+      }
+
+      const status = computeVestingStatus(entry.amount, vesting, currentTime);
+      return {
+        ...entry,
+        vesting: {
+          vestingStart: status.vestingStart,
+          vestingEnd: status.vestingEnd,
+          cliffEnd: status.cliffEnd,
+          vestedAmount: status.vestedAmount,
+          unvestedAmount: status.unvestedAmount,
+          percentVested: status.percentVested,
+          cliffPassed: status.cliffPassed,
+          fullyVested: status.fullyVested,
+        },
+      };
+    }),
+  };
+
+  return c.json(response);
+});
+
+export { beneficiaries };
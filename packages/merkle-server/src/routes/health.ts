@@ -0,0 +1,51 @@
+import { Hono } from 'hono';
+import { ReplicatedStorage } from '../services/storage';
+import { checkReadiness } from '../services/health';
+import type { AppEnv } from '../types';
+
+const health = new Hono<AppEnv>();
+
+/**
+ * GET /health - Basic health check, with the replica outbox depth when replicas are configured
+ * An unreadable outbox is reported as `outboxError` rather than failing the check.
+ */
+health.get('/', async (c) => {
+  const storage = c.var.storage;
+  let outbox: { pendingReplicaWrites: number } | { outboxError: string } | undefined;
+
+  if (storage instanceof ReplicatedStorage) {
+    try {
+      outbox = { pendingReplicaWrites: await storage.pendingWriteCount() };
+    } catch (error) {
+      outbox = { outboxError: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  return c.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    ...outbox,
+  });
+});
+
+/**
+ * GET /health/live - Liveness: the process is serving requests; no dependencies are checked
+ */
+health.get('/live', (c) => {
+  return c.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+/**
+ * GET /health/ready - Readiness: status and latency of storage (per backend), IPFS and the registry
+ * Responds 503 when storage is down, 200 otherwise (including `degraded`)
+ */
+health.get('/ready', async (c) => {
+  const report = await checkReadiness(
+    { storage: c.var.storage, ipfs: c.var.ipfs, registry: c.var.registry },
+    c.var.healthCheckTimeoutMs
+  );
+
+  return c.json(report, report.status === 'unavailable' ? 503 : 200);
+});
+
+export { health };
@@ -1,27 +1,65 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { z } from 'zod';
-import { v4 as uuidv4 } from 'uuid';
 import type { Hex } from 'viem';
-import { buildTree } from '../services/merkle';
+import { getAllocationsMultiProof, toStandardMerkleTreeDump } from '../services/merkle';
 import { computeVestingStatus } from '../services/vesting';
-import { saveTree, getTree, deleteTree, listTrees } from '../services/storage';
-import { canonicalizeAllocations, computeInputHash, BUILD_SPEC } from '../services/canonicalize';
-import { rebuildTree, rebuildFromStoredInput } from '../services/rebuild';
+import { getBuildSpec } from '../services/canonicalize';
+import { rebuildTreeInWorker, rebuildFromStoredInput, type RebuildResult } from '../services/rebuild';
 import { generateProofPackage, generateBatchProofPackage } from '../services/proofPackage';
-import { serializeTreeForIpfs, computeContentHash } from '../services/ipfs';
+import {
+  serializeTreeForIpfs,
+  computeContentHash,
+  uploadTreeToIpfs,
+  downloadTreeFromIpfs,
+} from '../services/ipfs';
+import { parseAllocationsCsv } from '../services/csv';
+import {
+  findAllocation,
+  findAllocations,
+  getBeneficiaryIndex,
+  listAllocations,
+  getTreeOverview,
+  getDeletedTree,
+  listTreePage,
+  decodeTreeListCursor,
+  summarizeTree,
+  toTreeOverview,
+  WriteQuorumError,
+} from '../services/storage';
+import { createRegistryKey } from '../services/registry';
+import { requireRole } from '../middleware/auth';
+import { audited, setAuditTarget } from '../middleware/audit';
+import { AUDIT_ACTIONS, listAuditPage } from '../services/audit';
+import { createTreeVersion, getTreeLineage } from '../services/versions';
+import { diffTrees, treeDiffToCsv } from '../services/diff';
+import { createTombstone, isTreeDeployed } from '../services/retention';
 import type {
+  AllocationDiff,
+  AllocationListPage,
+  AppEnv,
+  BackupRecord,
+  BatchProofResponse,
   CreateTreeRequest,
   MerkleTree,
+  MultiproofResponse,
   ProofResponse,
+  RecoveryResult,
   VestingStatus,
   FrontEndFeeParams,
 } from '../types';
 
-const trees = new Hono();
+const trees = new Hono<AppEnv>();
+
+// Access (when API keys are configured): per-address proof and vesting reads are public,
+// tree-wide reads need reader, creating/amending/backing up needs issuer, delete and recover need admin
 
 // DoS protection limits
-const MAX_ALLOCATIONS = 10000;
+// buildTree hashes each layer once, so 500k allocations build in ~20s (see bench/); builds of
+// WORKER_THRESHOLD or more allocations run in a worker thread so other requests are still served
+const MAX_ALLOCATIONS = 500_000;
 const MAX_UINT256_DIGITS = 78; // 2^256-1 has 78 digits
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1_000;
 
 // Validation schemas
 const hexSchema = z.string().regex(/^0x[a-fA-F0-9]+$/, 'Invalid hex string');
@@ -51,6 +89,8 @@ const platformFeeSchema = z.object({
   message: 'feeRecipient is required when feeBps is greater than 0',
 });
 
+const buildSpecVersionSchema = z.enum(['1.0.0', '2.0.0']);
+
 const createTreeRequestSchema = z.object({
   allocations: z.array(allocationSchema)
     .min(1, 'At least one allocation required')
@@ -58,6 +98,107 @@ const createTreeRequestSchema = z.object({
   token: addressSchema.optional(),
   vesting: vestingSchema.optional(),
   platformFee: platformFeeSchema.optional(),
+  buildSpecVersion: buildSpecVersionSchema.optional(),
+});
+
+const allocationDiffSchema = z.object({
+  add: z.array(allocationSchema).max(MAX_ALLOCATIONS, `Maximum ${MAX_ALLOCATIONS} additions allowed`).optional(),
+  remove: z.array(addressSchema).max(MAX_ALLOCATIONS, `Maximum ${MAX_ALLOCATIONS} removals allowed`).optional(),
+  change: z.array(allocationSchema).max(MAX_ALLOCATIONS, `Maximum ${MAX_ALLOCATIONS} changes allowed`).optional(),
+});
+
+const timestampParam = z.string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Invalid timestamp' })
+  .transform((value) => new Date(value).toISOString());
+
+const listQuerySchema = z.object({
+  token: addressSchema.optional(),
+  root: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid merkle root').optional(),
+  createdFrom: timestampParam.optional(),
+  createdTo: timestampParam.optional(),
+  sortBy: z.enum(['createdAt', 'allocationCount', 'totalAmount']).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  // Paging is opt-in: without limit or cursor the route answers with every matching summary
+  limit: z.coerce.number().int().min(1)
+    .max(MAX_PAGE_SIZE, `limit cannot exceed ${MAX_PAGE_SIZE}`)
+    .optional(),
+  cursor: z.string().optional(),
+});
+
+// Amounts are canonicalized so storage backends can compare them as decimal strings
+const amountParam = uint256Schema.transform((value) => BigInt(value).toString());
+
+const allocationsQuerySchema = z.object({
+  beneficiaryPrefix: z.string().regex(/^0x[a-fA-F0-9]{0,40}$/, 'Invalid beneficiary prefix').optional(),
+  minAmount: amountParam.optional(),
+  maxAmount: amountParam.optional(),
+  includeProofs: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1)
+    .max(MAX_PAGE_SIZE, `limit cannot exceed ${MAX_PAGE_SIZE}`)
+    .default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().regex(/^\d+$/, 'Invalid cursor').optional(),
+});
+
+const treeAuditQuerySchema = z.object({
+  actor: z.string().min(1).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  limit: z.coerce.number().int().min(1)
+    .max(MAX_PAGE_SIZE, `limit cannot exceed ${MAX_PAGE_SIZE}`)
+    .default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().regex(/^\d+$/, 'Invalid cursor').optional(),
+});
+
+const diffQuerySchema = z.object({
+  format: z.enum(['json', 'csv']).optional(),
+});
+
+const multiproofRequestSchema = z.object({
+  addresses: z.array(addressSchema)
+    .min(1, 'At least one address required')
+    .max(MAX_PAGE_SIZE, `Maximum ${MAX_PAGE_SIZE} addresses allowed`),
+});
+
+const batchProofRequestSchema = z.object({
+  addresses: z.array(addressSchema)
+    .min(1, 'At least one address required')
+    .max(MAX_PAGE_SIZE, `Maximum ${MAX_PAGE_SIZE} addresses allowed`),
+});
+
+const recoverFromCidSchema = z.object({
+  cid: z.string().min(1, 'cid must be a non-empty string'),
+  save: z.boolean().optional(),
+});
+
+const recoverFromRegistrySchema = z.object({
+  chainId: z.number().int().positive(),
+  distributor: addressSchema,
+  merkleRoot: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid merkle root'),
+  save: z.boolean().optional(),
+});
+
+// CSV uploads carry tree options in the query string; numbers arrive as strings
+const optionalIntParam = z.coerce.number().int().optional();
+
+const csvQuerySchema = z.object({
+  decimals: optionalIntParam.refine((value) => value === undefined || (value >= 0 && value <= 77), {
+    message: 'decimals must be between 0 and 77',
+  }),
+  token: addressSchema.optional(),
+  vestingStart: optionalIntParam,
+  vestingDuration: optionalIntParam,
+  cliffDuration: optionalIntParam,
+  feeRecipient: addressSchema.optional(),
+  feeBps: optionalIntParam,
+  buildSpecVersion: buildSpecVersionSchema.optional(),
+});
+
+const backupQuerySchema = z.object({
+  register: z.enum(['true', 'false']).optional(),
+  chainId: z.coerce.number().int().positive().optional(),
+  distributor: addressSchema.optional(),
+}).refine((query) => query.register !== 'true' || (query.chainId !== undefined && query.distributor !== undefined), {
+  message: 'chainId and distributor are required when register=true',
+  path: ['register'],
 });
 
 type FrontEndFeeParseResult = {
@@ -119,17 +260,106 @@ function parseFrontEndFeeParams(
 }
 
 /**
- * GET /trees - List all trees
+ * GET /trees - List trees
+ * Query params: ?token=0x...&root=0x...&createdFrom=<ISO>&createdTo=<ISO>
+ *               &sortBy=createdAt|allocationCount|totalAmount&order=asc|desc&limit=100&cursor=...
+ * createdFrom is inclusive, createdTo exclusive. Without limit or cursor the response is an array
+ * of every matching summary, as before paging was added. With either, it is one
+ * `{ items, nextCursor }` page (limit defaults to 100); pass nextCursor as ?cursor= (with the same
+ * filters and sort) to fetch the following page.
  */
-trees.get('/', async (c) => {
-  const summaries = await listTrees();
-  return c.json(summaries);
+trees.get('/', requireRole('reader'), async (c) => {
+  const query = listQuerySchema.safeParse(c.req.query());
+
+  if (!query.success) {
+    return c.json({ error: 'Validation failed', details: query.error.issues }, 400);
+  }
+
+  const { token, root, cursor, limit, ...options } = query.data;
+  const filters = { ...options, token: token as Hex | undefined, root: root as Hex | undefined };
+
+  if (limit === undefined && cursor === undefined) {
+    return c.json(await c.var.storage.list(filters));
+  }
+
+  if (cursor !== undefined) {
+    try {
+      decodeTreeListCursor(cursor, options.sortBy ?? 'createdAt', options.order ?? 'asc');
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Invalid cursor' }, 400);
+    }
+  }
+
+  const page = await listTreePage(c.var.storage, { ...filters, limit: limit ?? DEFAULT_PAGE_SIZE, cursor });
+
+  return c.json(page);
 });
 
+/**
+ * Canonicalize, hash and build a tree from a validated create request
+ * Large trees are built in a worker thread (see rebuildTreeInWorker)
+ * @throws Error if canonicalization fails (e.g., duplicate beneficiaries)
+ */
+function createTreeFromRequest(request: CreateTreeRequest): Promise<MerkleTree> {
+  return rebuildTreeInWorker({
+    allocations: request.allocations,
+    token: request.token as Hex | undefined,
+    vesting: request.vesting,
+    platformFee: request.platformFee,
+    buildSpec: getBuildSpec(request.buildSpecVersion),
+  });
+}
+
+/**
+ * Respond 503 to a write that reached the primary but missed the replica write quorum
+ * The write is not rolled back, so the audit entry still names the tree and records how many
+ * backends (primary included) applied it.
+ */
+function writeQuorumResponse(
+  c: Context<AppEnv>,
+  error: WriteQuorumError,
+  tree: Pick<MerkleTree, 'id' | 'root' | 'inputHash'> | null,
+  details?: Record<string, string>,
+  body?: Record<string, unknown>
+) {
+  const appliedBackends = error.applied + 1;
+  const requiredBackends = error.required + 1;
+
+  if (tree) {
+    setAuditTarget(c, tree, {
+      ...details,
+      appliedBackends: String(appliedBackends),
+      requiredBackends: String(requiredBackends),
+    });
+  }
+
+  return c.json({ ...body, error: error.message, treeId: error.treeId, appliedBackends, requiredBackends }, 503);
+}
+
+/**
+ * Save a newly created tree and respond 201 with its overview
+ * The response leaves out allocations and proofs, which for a large tree run to hundreds of
+ * megabytes; clients fetch proofs per address. A save that misses the replica write quorum has still reached the primary, so it responds 503
+ * with the tree's ID instead of failing like a tree that could not be built.
+ */
+async function saveCreatedTree(c: Context<AppEnv>, tree: MerkleTree, details?: Record<string, string>) {
+  try {
+    await c.var.storage.save(tree);
+  } catch (error) {
+    if (!(error instanceof WriteQuorumError)) {
+      throw error;
+    }
+    return writeQuorumResponse(c, error, tree, details);
+  }
+
+  setAuditTarget(c, tree, details);
+  return c.json(toTreeOverview(tree, summarizeTree(tree)), 201);
+}
+
 /**
  * POST /trees - Create a new tree
  */
-trees.post('/', async (c) => {
+trees.post('/', requireRole('issuer'), audited('create'), async (c) => {
   const body = await c.req.json();
   const result = createTreeRequestSchema.safeParse(body);
 
@@ -140,45 +370,75 @@ trees.post('/', async (c) => {
   const request: CreateTreeRequest = result.data as CreateTreeRequest;
 
   try {
-    // Canonicalize allocations (normalize and sort)
-    const canonicalAllocations = canonicalizeAllocations(request.allocations);
-
-    // Compute input hash for deterministic tree building
-    const inputHash = computeInputHash(
-      canonicalAllocations,
-      request.token as Hex | undefined,
-      request.vesting,
-      request.platformFee
-    );
+    const tree = await createTreeFromRequest(request);
 
-    // Build the merkle tree with canonicalized allocations
-    const { root, allocations } = buildTree(canonicalAllocations);
+    // Save to storage
+    return await saveCreatedTree(c, tree);
+  } catch (error) {
+    // Handle canonicalization errors (e.g., duplicates, invalid data)
+    return c.json({ error: error instanceof Error ? error.message : 'Failed to create tree' }, 400);
+  }
+});
 
-    // Create the tree object
-    const tree: MerkleTree = {
-      id: uuidv4(),
-      root,
-      token: request.token as Hex | undefined,
-      createdAt: new Date().toISOString(),
-      allocations,
-      vesting: request.vesting,
-      platformFee: request.platformFee,
-      buildSpec: BUILD_SPEC,
-      originalInput: {
-        allocations: request.allocations,
-        token: request.token as Hex | undefined,
-        vesting: request.vesting,
-        platformFee: request.platformFee,
-      },
-      inputHash,
-    };
+/**
+ * POST /trees/csv - Create a new tree from a CSV/TSV allocation list
+ * Body: `beneficiary,amount` rows (header optional)
+ * Query params: ?decimals=18&token=0x...&vestingStart=...&vestingDuration=...&cliffDuration=...
+ *               &feeRecipient=0x...&feeBps=250
+ */
+trees.post('/csv', requireRole('issuer'), audited('create-csv'), async (c) => {
+  const query = csvQuerySchema.safeParse(c.req.query());
 
-    // Save to storage
-    await saveTree(tree);
+  if (!query.success) {
+    return c.json({ error: 'Validation failed', details: query.error.issues }, 400);
+  }
+
+  const {
+    decimals,
+    token,
+    vestingStart,
+    vestingDuration,
+    cliffDuration,
+    feeRecipient,
+    feeBps,
+    buildSpecVersion,
+  } = query.data;
+  const contentType = c.req.header('Content-Type') ?? '';
+  const delimiter = contentType.includes('tab-separated-values')
+    ? '\t'
+    : contentType.includes('csv')
+      ? ','
+      : undefined;
+
+  const parsed = parseAllocationsCsv(await c.req.text(), {
+    delimiter,
+    decimals,
+    maxRows: MAX_ALLOCATIONS,
+  });
+
+  if (parsed.errors.length > 0) {
+    return c.json({ error: 'CSV validation failed', rows: parsed.errors }, 400);
+  }
+
+  const hasVesting = vestingStart !== undefined || vestingDuration !== undefined || cliffDuration !== undefined;
+  const hasPlatformFee = feeRecipient !== undefined || feeBps !== undefined;
+
+  const result = createTreeRequestSchema.safeParse({
+    allocations: parsed.allocations,
+    token,
+    vesting: hasVesting ? { vestingStart, vestingDuration, cliffDuration: cliffDuration ?? 0 } : undefined,
+    platformFee: hasPlatformFee ? { feeRecipient: feeRecipient ?? ZERO_ADDRESS, feeBps: feeBps ?? 0 } : undefined,
+    buildSpecVersion,
+  });
 
-    return c.json(tree, 201);
+  if (!result.success) {
+    return c.json({ error: 'Validation failed', details: result.error.issues }, 400);
+  }
+
+  try {
+    const tree = await createTreeFromRequest(result.data as CreateTreeRequest);
+    return await saveCreatedTree(c, tree);
   } catch (error) {
-    // Handle canonicalization errors (e.g., duplicates, invalid data)
     return c.json({ error: error instanceof Error ? error.message : 'Failed to create tree' }, 400);
   }
 });
@@ -186,9 +446,9 @@ trees.post('/', async (c) => {
 /**
  * GET /trees/:id - Get a tree by ID
  */
-trees.get('/:id', async (c) => {
+trees.get('/:id', requireRole('reader'), async (c) => {
   const id = c.req.param('id');
-  const tree = await getTree(id);
+  const tree = await c.var.storage.get(id);
 
   if (!tree) {
     return c.json({ error: 'Tree not found' }, 404);
@@ -197,23 +457,71 @@ trees.get('/:id', async (c) => {
   return c.json(tree);
 });
 
+/**
+ * GET /trees/:id/summary - Tree metadata and totals, without allocations or original input
+ */
+trees.get('/:id/summary', requireRole('reader'), async (c) => {
+  const id = c.req.param('id');
+  const overview = await getTreeOverview(c.var.storage, id);
+
+  if (!overview) {
+    return c.json({ error: 'Tree not found' }, 404);
+  }
+
+  return c.json(overview);
+});
+
+/**
+ * GET /trees/:id/allocations - List allocations in tree order, one page at a time
+ * Query params: ?beneficiaryPrefix=0xab&minAmount=...&maxAmount=...&includeProofs=false&limit=100&cursor=...
+ * Amount bounds are inclusive. Pass the response's nextCursor as ?cursor= (with the same
+ * filters) to fetch the following page.
+ */
+trees.get('/:id/allocations', requireRole('reader'), async (c) => {
+  const query = allocationsQuerySchema.safeParse(c.req.query());
+
+  if (!query.success) {
+    return c.json({ error: 'Validation failed', details: query.error.issues }, 400);
+  }
+
+  const { beneficiaryPrefix, minAmount, maxAmount, includeProofs, limit, cursor } = query.data;
+  const id = c.req.param('id');
+
+  // Ask for one extra allocation to learn whether another page follows
+  const result = await listAllocations(c.var.storage, id, {
+    beneficiaryPrefix: beneficiaryPrefix?.toLowerCase(),
+    minAmount,
+    maxAmount,
+    afterIndex: cursor === undefined ? undefined : Number(cursor),
+    limit: limit + 1,
+    includeProofs: includeProofs !== 'false',
+  });
+
+  if (!result) {
+    return c.json({ error: 'Tree not found' }, 404);
+  }
+
+  const page: AllocationListPage = { items: result.allocations.slice(0, limit) };
+  if (result.allocations.length > limit) {
+    page.nextCursor = String(page.items[page.items.length - 1].index);
+  }
+
+  return c.json(page);
+});
+
 /**
  * GET /trees/:id/proof/:address - Get proof for an address
  */
 trees.get('/:id/proof/:address', async (c) => {
   const id = c.req.param('id');
-  const address = c.req.param('address').toLowerCase();
+  const address = c.req.param('address') as Hex;
 
-  const tree = await getTree(id);
-  if (!tree) {
+  const lookup = await findAllocation(c.var.storage, id, address);
+  if (!lookup) {
     return c.json({ error: 'Tree not found' }, 404);
   }
 
-  // Find the allocation for this address
-  const allocation = tree.allocations.find(
-    (a) => a.beneficiary.toLowerCase() === address
-  );
-
+  const { tree, allocation } = lookup;
   if (!allocation) {
     return c.json({ error: 'Address not found in tree' }, 404);
   }
@@ -229,27 +537,67 @@ trees.get('/:id/proof/:address', async (c) => {
   return c.json(response);
 });
 
+/**
+ * POST /trees/:id/proofs - Get proofs for several addresses at once
+ * Body: { addresses: address[] }
+ * Addresses not in the tree are listed in `missing` rather than failing the request
+ */
+trees.post('/:id/proofs', async (c) => {
+  const body = await c.req.json();
+  const result = batchProofRequestSchema.safeParse(body);
+
+  if (!result.success) {
+    return c.json({ error: 'Validation failed', details: result.error.issues }, 400);
+  }
+
+  const seen = new Set<string>();
+  for (const address of result.data.addresses) {
+    const key = address.toLowerCase();
+    if (seen.has(key)) {
+      return c.json({ error: `Duplicate address: ${address}` }, 400);
+    }
+    seen.add(key);
+  }
+
+  const id = c.req.param('id');
+  const lookup = await findAllocations(c.var.storage, id, result.data.addresses as Hex[]);
+  if (!lookup) {
+    return c.json({ error: 'Tree not found' }, 404);
+  }
+
+  const { tree, allocations, missing } = lookup;
+  const response: BatchProofResponse = {
+    root: tree.root,
+    proofs: allocations.map((allocation) => ({
+      beneficiary: allocation.beneficiary,
+      amount: allocation.amount,
+      leaf: allocation.leaf,
+      proof: allocation.proof,
+      root: tree.root,
+    })),
+    missing,
+  };
+
+  return c.json(response);
+});
+
 /**
  * GET /trees/:id/vesting/:address - Get vesting status for an address
  */
 trees.get('/:id/vesting/:address', async (c) => {
   const id = c.req.param('id');
-  const address = c.req.param('address').toLowerCase();
+  const address = c.req.param('address') as Hex;
 
-  const tree = await getTree(id);
-  if (!tree) {
+  const lookup = await findAllocation(c.var.storage, id, address);
+  if (!lookup) {
     return c.json({ error: 'Tree not found' }, 404);
   }
 
+  const { tree, allocation } = lookup;
   if (!tree.vesting) {
     return c.json({ error: 'Tree does not have vesting parameters' }, 400);
   }
 
-  // Find the allocation for this address
-  const allocation = tree.allocations.find(
-    (a) => a.beneficiary.toLowerCase() === address
-  );
-
   if (!allocation) {
     return c.json({ error: 'Address not found in tree' }, 404);
   }
@@ -271,32 +619,123 @@ trees.get('/:id/vesting/:address', async (c) => {
 });
 
 /**
- * DELETE /trees/:id - Delete a tree
+ * DELETE /trees/:id - Soft-delete a tree
+ * The tree moves to the trash and can be restored until its retention period ends.
+ * Trees whose root is deployed on-chain are never deleted (409). A tree that cannot be read, e.g. one
+ * failing its integrity check, is not deleted either (422): its backups, and so whether it is
+ * deployed, cannot be trusted.
  */
-trees.delete('/:id', async (c) => {
+trees.delete('/:id', requireRole('admin'), audited('delete'), async (c) => {
   const id = c.req.param('id');
-  const deleted = await deleteTree(id);
 
-  if (!deleted) {
+  let tree: MerkleTree | null;
+  try {
+    tree = await c.var.storage.get(id);
+  } catch (error) {
+    return c.json({
+      error: `Tree cannot be deleted because it could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    }, 422);
+  }
+
+  if (!tree) {
     return c.json({ error: 'Tree not found' }, 404);
   }
+  setAuditTarget(c, tree);
+
+  let deployed: boolean;
+  try {
+    deployed = await isTreeDeployed(tree, c.var.registry);
+  } catch (error) {
+    return c.json({
+      error: `Could not check whether the tree is deployed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    }, 503);
+  }
+
+  if (deployed) {
+    return c.json({ error: 'Tree root is deployed on-chain and cannot be deleted', root: tree.root }, 409);
+  }
+
+  const tombstone = createTombstone(c.var.retentionDays, new Date(), c.var.apiKey?.name);
+  try {
+    if (!(await c.var.storage.softDelete(id, tombstone))) {
+      return c.json({ error: 'Tree not found' }, 404);
+    }
+  } catch (error) {
+    if (!(error instanceof WriteQuorumError)) {
+      throw error;
+    }
+    return writeQuorumResponse(c, error, tree, { purgeAfter: tombstone.purgeAfter });
+  }
+
+  return c.json({ success: true, deletedAt: tombstone.deletedAt, purgeAfter: tombstone.purgeAfter });
+});
+
+/**
+ * POST /trees/:id/restore - Restore a soft-deleted tree before it is purged
+ * Refused (409) while a live tree has the same ID, which restoring would overwrite. A live copy
+ * that fails to read still counts.
+ */
+trees.post('/:id/restore', requireRole('admin'), audited('restore'), async (c) => {
+  const id = c.req.param('id');
+
+  const live = await c.var.storage.get(id).then((tree) => tree !== null, () => true);
+  if (live) {
+    return c.json({ error: 'A live tree with this ID exists; delete it before restoring' }, 409);
+  }
+
+  let restored: boolean;
+  try {
+    restored = await c.var.storage.restore(id);
+  } catch (error) {
+    if (!(error instanceof WriteQuorumError)) {
+      throw error;
+    }
+    return writeQuorumResponse(c, error, await c.var.storage.get(id).catch(() => null));
+  }
+
+  if (!restored) {
+    return c.json({ error: 'Deleted tree not found' }, 404);
+  }
+
+  const tree = await c.var.storage.get(id);
+  if (tree) {
+    setAuditTarget(c, tree);
+  }
 
   return c.json({ success: true });
 });
 
+/**
+ * GET /trees/:id/audit - Audit log entries for a tree, oldest first
+ * History outlives the tree, so a deleted or unknown ID returns its entries (or none) rather than 404.
+ * Entries name the API keys that acted, so this needs issuer like the operations it records.
+ * Query params: ?actor=...&action=backup&limit=100&cursor=...
+ */
+trees.get('/:id/audit', requireRole('issuer'), async (c) => {
+  const query = treeAuditQuerySchema.safeParse(c.req.query());
+
+  if (!query.success) {
+    return c.json({ error: 'Validation failed', details: query.error.issues }, 400);
+  }
+
+  return c.json(await listAuditPage(c.var.audit, { ...query.data, treeId: c.req.param('id') }));
+});
+
 /**
  * POST /trees/:id/rebuild - Rebuild from stored input, verify match
  */
-trees.post('/:id/rebuild', async (c) => {
+trees.post('/:id/rebuild', requireRole('issuer'), audited('rebuild'), async (c) => {
   const id = c.req.param('id');
-  const tree = await getTree(id);
+  const tree = await c.var.storage.get(id);
 
   if (!tree) {
     return c.json({ error: 'Tree not found' }, 404);
   }
+  setAuditTarget(c, tree);
 
   try {
-    const result = rebuildFromStoredInput(tree);
+    const result = await rebuildFromStoredInput(tree);
+    setAuditTarget(c, tree, { rebuiltRoot: result.tree.root, matchesOriginal: String(result.matchesOriginal) });
 
     return c.json({
       success: result.matchesOriginal,
@@ -314,7 +753,7 @@ trees.post('/:id/rebuild', async (c) => {
 /**
  * POST /trees/rebuild-from-input - Rebuild from provided allocations
  */
-trees.post('/rebuild-from-input', async (c) => {
+trees.post('/rebuild-from-input', requireRole('issuer'), async (c) => {
   const body = await c.req.json();
   const result = createTreeRequestSchema.safeParse(body);
 
@@ -325,11 +764,12 @@ trees.post('/rebuild-from-input', async (c) => {
   const request: CreateTreeRequest = result.data as CreateTreeRequest;
 
   try {
-    const rebuilt = rebuildTree({
+    const rebuilt = await rebuildTreeInWorker({
       allocations: request.allocations,
       token: request.token as Hex | undefined,
       vesting: request.vesting,
       platformFee: request.platformFee,
+      buildSpec: getBuildSpec(request.buildSpecVersion),
     });
 
     return c.json(rebuilt);
@@ -343,9 +783,9 @@ trees.post('/rebuild-from-input', async (c) => {
 /**
  * GET /trees/:id/input - Get original allocations
  */
-trees.get('/:id/input', async (c) => {
+trees.get('/:id/input', requireRole('reader'), async (c) => {
   const id = c.req.param('id');
-  const tree = await getTree(id);
+  const tree = await c.var.storage.get(id);
 
   if (!tree) {
     return c.json({ error: 'Tree not found' }, 404);
@@ -365,6 +805,157 @@ trees.get('/:id/input', async (c) => {
   });
 });
 
+/**
+ * POST /trees/:id/multiproof - Single multiproof covering several addresses
+ * Compatible with MerkleProof.multiProofVerify; `allocations` lists the values of `leaves` in order
+ */
+trees.post('/:id/multiproof', requireRole('reader'), async (c) => {
+  const body = await c.req.json();
+  const result = multiproofRequestSchema.safeParse(body);
+
+  if (!result.success) {
+    return c.json({ error: 'Validation failed', details: result.error.issues }, 400);
+  }
+
+  const id = c.req.param('id');
+  const tree = await c.var.storage.get(id);
+
+  if (!tree) {
+    return c.json({ error: 'Tree not found' }, 404);
+  }
+
+  const indexByAddress = getBeneficiaryIndex(tree);
+  const indices: number[] = [];
+  const missing: string[] = [];
+  const seen = new Set<string>();
+
+  for (const address of result.data.addresses) {
+    const key = address.toLowerCase();
+    if (seen.has(key)) {
+      return c.json({ error: `Duplicate address: ${address}` }, 400);
+    }
+    seen.add(key);
+
+    const index = indexByAddress.get(key);
+    if (index === undefined) {
+      missing.push(address);
+    } else {
+      indices.push(index);
+    }
+  }
+
+  if (missing.length > 0) {
+    return c.json({ error: 'Addresses not found in tree', addresses: missing }, 404);
+  }
+
+  const { multiproof, allocations } = getAllocationsMultiProof(tree, indices);
+
+  const response: MultiproofResponse = {
+    root: tree.root,
+    ...multiproof,
+    allocations,
+  };
+
+  return c.json(response);
+});
+
+/**
+ * POST /trees/:id/versions - Amend a tree with an allocation diff
+ * Body: { add?: Allocation[], remove?: address[], change?: Allocation[] }
+ * The amended tree is saved under a new ID that links back to :id
+ */
+trees.post('/:id/versions', requireRole('issuer'), audited('create-version'), async (c) => {
+  const body = await c.req.json();
+  const result = allocationDiffSchema.safeParse(body);
+
+  if (!result.success) {
+    return c.json({ error: 'Validation failed', details: result.error.issues }, 400);
+  }
+
+  const id = c.req.param('id');
+  const parent = await c.var.storage.get(id);
+
+  if (!parent) {
+    return c.json({ error: 'Tree not found' }, 404);
+  }
+
+  const diff = result.data as AllocationDiff;
+  const resultingCount = parent.allocations.length + (diff.add?.length ?? 0) - (diff.remove?.length ?? 0);
+  if (resultingCount > MAX_ALLOCATIONS) {
+    return c.json({ error: `Maximum ${MAX_ALLOCATIONS} allocations allowed` }, 400);
+  }
+
+  try {
+    const tree = await createTreeVersion(parent, diff);
+    return await saveCreatedTree(c, tree, { parentId: parent.id });
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Failed to create version' }, 400);
+  }
+});
+
+/**
+ * GET /trees/:id/versions - Version history from the original tree up to :id
+ */
+trees.get('/:id/versions', requireRole('reader'), async (c) => {
+  const id = c.req.param('id');
+  const lineage = await getTreeLineage(c.var.storage, id);
+
+  if (!lineage) {
+    return c.json({ error: 'Tree not found' }, 404);
+  }
+
+  return c.json(lineage);
+});
+
+/**
+ * GET /trees/:id/diff/:otherId - Allocation and parameter changes from :id to :otherId
+ * Query params: ?format=json|csv (default json)
+ */
+trees.get('/:id/diff/:otherId', requireRole('reader'), async (c) => {
+  const query = diffQuerySchema.safeParse(c.req.query());
+
+  if (!query.success) {
+    return c.json({ error: 'Validation failed', details: query.error.issues }, 400);
+  }
+
+  const id = c.req.param('id');
+  const otherId = c.req.param('otherId');
+  const [from, to] = await Promise.all([c.var.storage.get(id), c.var.storage.get(otherId)]);
+
+  if (!from || !to) {
+    return c.json({ error: 'Tree not found', id: from ? otherId : id }, 404);
+  }
+
+  const diff = diffTrees(from, to);
+
+  if (query.data.format === 'csv') {
+    c.header('Content-Disposition', `attachment; filename="diff-${id}-${otherId}.csv"`);
+    c.header('Content-Type', 'text/csv; charset=utf-8');
+    return c.body(treeDiffToCsv(diff, from, to));
+  }
+
+  return c.json(diff);
+});
+
+/**
+ * GET /trees/:id/dump - OpenZeppelin StandardMerkleTree JSON dump
+ * Only available for trees built with build spec 2.0.0
+ */
+trees.get('/:id/dump', requireRole('reader'), async (c) => {
+  const id = c.req.param('id');
+  const tree = await c.var.storage.get(id);
+
+  if (!tree) {
+    return c.json({ error: 'Tree not found' }, 404);
+  }
+
+  try {
+    return c.json(toStandardMerkleTreeDump(tree));
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Failed to dump tree' }, 400);
+  }
+});
+
 /**
  * GET /trees/:id/download/:address - Download individual proof package
  */
@@ -372,7 +963,7 @@ trees.get('/:id/download/:address', async (c) => {
   const id = c.req.param('id');
   const address = c.req.param('address') as Hex;
 
-  const tree = await getTree(id);
+  const tree = await c.var.storage.get(id);
   if (!tree) {
     return c.json({ error: 'Tree not found' }, 404);
   }
@@ -410,10 +1001,10 @@ trees.get('/:id/download/:address', async (c) => {
 /**
  * GET /trees/:id/download - Download batch proof package (all beneficiaries)
  */
-trees.get('/:id/download', async (c) => {
+trees.get('/:id/download', requireRole('reader'), async (c) => {
   const id = c.req.param('id');
 
-  const tree = await getTree(id);
+  const tree = await c.var.storage.get(id);
   if (!tree) {
     return c.json({ error: 'Tree not found' }, 404);
   }
@@ -444,41 +1035,145 @@ trees.get('/:id/download', async (c) => {
  * POST /trees/:id/backup - Backup to IPFS (registry registration optional)
  * Query params: ?register=true&chainId=1&distributor=0x...
  */
-trees.post('/:id/backup', async (c) => {
+trees.post('/:id/backup', requireRole('issuer'), audited('backup'), async (c) => {
   const id = c.req.param('id');
-  const tree = await getTree(id);
+  const query = backupQuerySchema.safeParse(c.req.query());
+
+  if (!query.success) {
+    return c.json({ error: 'Validation failed', details: query.error.issues }, 400);
+  }
+
+  const register = query.data.register === 'true';
+  const registry = c.var.registry;
+
+  if (register && !registry) {
+    return c.json({ error: 'Registry not configured' }, 503);
+  }
+
+  const tree = await c.var.storage.get(id);
 
   if (!tree) {
     return c.json({ error: 'Tree not found' }, 404);
   }
+  setAuditTarget(c, tree);
 
-  // For now, just compute what WOULD be uploaded
-  // Real IPFS requires running node
-  const serialized = serializeTreeForIpfs(tree);
-  const contentHash = computeContentHash(tree);
+  const ipfs = c.var.ipfs;
+  const size = serializeTreeForIpfs(tree).length;
 
-  return c.json({
+  let upload: { cid: string; contentHash: Hex };
+  try {
+    upload = await uploadTreeToIpfs(tree, ipfs);
+  } catch (error) {
+    return c.json({
+      error: `IPFS upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    }, 502);
+  }
+
+  // /add already pins on upload; pinning explicitly surfaces pin failures separately
+  let pinned = true;
+  try {
+    await ipfs.pin(upload.cid);
+  } catch (error) {
+    pinned = false;
+    console.warn(
+      `IPFS pin failed for ${upload.cid}:`,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+
+  let registryTxHash: Hex | undefined;
+  let registryError: string | undefined;
+  if (register && registry) {
+    try {
+      ({ txHash: registryTxHash } = await registry.register({
+        chainId: query.data.chainId!,
+        distributorAddress: query.data.distributor! as Hex,
+        merkleRoot: tree.root,
+        ipfsCid: upload.cid,
+      }));
+    } catch (error) {
+      registryError = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  const backup: BackupRecord = {
+    cid: upload.cid,
+    contentHash: upload.contentHash,
+    backedUpAt: new Date().toISOString(),
+    pinned,
+    ...(registryTxHash && { registryTxHash }),
+  };
+
+  // The IPFS backup is recorded even when registration fails, so it can be registered later.
+  // If recording fails the CID and transaction hash are still returned, with a warning; a record
+  // that reached the primary but missed the replica write quorum is answered with 503.
+  let warning: string | undefined;
+  let quorumError: WriteQuorumError | undefined;
+  try {
+    await c.var.storage.save({ ...tree, backups: [...(tree.backups ?? []), backup] });
+  } catch (error) {
+    if (error instanceof WriteQuorumError) {
+      quorumError = error;
+    } else {
+      warning = `Backup could not be recorded on the tree: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.warn(`Tree ${id}:`, warning);
+    }
+  }
+  const auditDetails = { cid: upload.cid, ...(registryTxHash && { registryTxHash }) };
+  setAuditTarget(c, tree, auditDetails);
+
+  const result = {
     treeId: id,
-    contentHash,
-    size: serialized.length,
-    // cid: would be returned from real IPFS
-    message: 'IPFS backup prepared (connect IPFS node to upload)',
-  });
+    cid: upload.cid,
+    contentHash: upload.contentHash,
+    size,
+    pinned,
+    backedUpAt: backup.backedUpAt,
+    ...(registryTxHash && { registryTxHash }),
+    ...(warning && { warning }),
+  };
+
+  if (registryError) {
+    return c.json({ error: `Registry registration failed: ${registryError}`, ...result }, 502);
+  }
+  if (quorumError) {
+    return writeQuorumResponse(c, quorumError, tree, auditDetails, result);
+  }
+
+  return c.json(result);
 });
 
 /**
  * GET /trees/:id/recovery - Recovery info
  */
-trees.get('/:id/recovery', async (c) => {
+trees.get('/:id/recovery', requireRole('reader'), async (c) => {
   const id = c.req.param('id');
-  const tree = await getTree(id);
+  const tree = await c.var.storage.get(id);
 
   if (tree) {
+    const contentHash = computeContentHash(tree);
+    const backups = tree.backups ?? [];
+
+    // Only a pinned copy of the current content counts as an off-site backup
+    const current = backups.filter((b) => b.pinned && b.contentHash === contentHash);
+    const sources: RecoveryResult['source'][] = ['local'];
+    if (current.length > 0) {
+      sources.push('ipfs');
+    }
+    if (current.some((b) => b.registryTxHash)) {
+      sources.push('registry');
+    }
+
     return c.json({
       source: 'local',
       available: true,
       root: tree.root,
       inputHash: tree.inputHash,
+      contentHash,
+      backedUp: current.length > 0,
+      sources,
+      latestBackup: current.at(-1) ?? null,
+      backups,
     });
   }
 
@@ -490,9 +1185,107 @@ trees.get('/:id/recovery', async (c) => {
 });
 
 /**
- * POST /trees/recover - Recover from IPFS CID or input
+ * Download a tree from IPFS, check it against a rebuild from its stored input,
+ * and optionally save it with the CID recorded as a backup
+ * @param expectedRoot - Root the tree must have (the registered root, for registry recovery)
  */
-trees.post('/recover', async (c) => {
+async function recoverTreeFromCid(
+  c: Context<AppEnv>,
+  cid: string,
+  save: boolean | undefined,
+  source: RecoveryResult['source'],
+  expectedRoot?: Hex
+): Promise<Response> {
+  let tree: MerkleTree;
+  try {
+    tree = await downloadTreeFromIpfs(cid, c.var.ipfs);
+  } catch (error) {
+    return c.json({
+      error: `IPFS download failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    }, 502);
+  }
+
+  // The registered root is the trust anchor; the CID is only a pointer to content
+  if (expectedRoot !== undefined && tree.root.toLowerCase() !== expectedRoot.toLowerCase()) {
+    return c.json({
+      error: 'Tree at the registered CID does not match the registered merkle root',
+      cid,
+      merkleRoot: expectedRoot,
+    }, 422);
+  }
+
+  // Prove the downloaded tree is internally consistent before trusting it
+  let verification: RebuildResult;
+  try {
+    verification = await rebuildFromStoredInput(tree);
+  } catch (error) {
+    return c.json({
+      error: error instanceof Error ? error.message : 'Failed to rebuild tree',
+    }, 422);
+  }
+
+  if (!verification.matchesOriginal) {
+    return c.json({
+      error: 'Downloaded tree does not match a rebuild from its stored input',
+      root: tree.root,
+      rebuiltRoot: verification.tree.root,
+    }, 422);
+  }
+
+  setAuditTarget(c, tree, { source, cid });
+
+  let saved = false;
+  if (save) {
+    // Saving would leave a live copy beside the trashed one, which restore then refuses to replace
+    if (await getDeletedTree(c.var.storage, tree.id)) {
+      return c.json({
+        error: `Tree ${tree.id} is in the trash; restore it with POST /trees/${tree.id}/restore instead`,
+      }, 409);
+    }
+
+    const existing = await c.var.storage.get(tree.id);
+    if (existing && existing.root !== tree.root) {
+      return c.json({
+        error: `A different tree with ID ${tree.id} already exists`,
+        existingRoot: existing.root,
+      }, 409);
+    }
+
+    // The CID we just downloaded is itself a verified off-site copy
+    const backups = existing?.backups ?? [];
+    const recovered: BackupRecord = {
+      cid,
+      contentHash: computeContentHash(tree),
+      backedUpAt: new Date().toISOString(),
+      pinned: false,
+    };
+
+    try {
+      await c.var.storage.save({
+        ...tree,
+        backups: backups.some((b) => b.cid === cid) ? backups : [...backups, recovered],
+      });
+    } catch (error) {
+      if (!(error instanceof WriteQuorumError)) {
+        throw error;
+      }
+      return writeQuorumResponse(c, error, tree, { source, cid, saved: 'true' });
+    }
+    saved = true;
+    setAuditTarget(c, tree, { source, cid, saved: 'true' });
+  }
+
+  const recovery: RecoveryResult = { success: true, source, tree };
+  return c.json({ ...recovery, cid, saved });
+}
+
+/**
+ * POST /trees/recover - Recover from input, IPFS CID or the on-chain registry
+ * Body: { input: CreateTreeRequest }
+ *    or { cid: string, save?: boolean }
+ *    or { chainId: number, distributor: Hex, merkleRoot: Hex, save?: boolean }
+ */
+trees.post('/recover', requireRole('admin'), audited('recover'), async (c) => {
   const body = await c.req.json();
 
   if (body.input) {
@@ -507,14 +1300,56 @@ trees.post('/recover', async (c) => {
     }
 
     // Rebuild from input
-    const tree = rebuildTree(body.input);
+    const tree = await rebuildTreeInWorker({ ...body.input, buildSpec: getBuildSpec(result.data.buildSpecVersion) });
+    setAuditTarget(c, tree, { source: 'rebuild' });
     return c.json({ source: 'rebuild', tree });
   }
 
-  // CID recovery would need IPFS client
+  if (body.cid !== undefined) {
+    const result = recoverFromCidSchema.safeParse(body);
+
+    if (!result.success) {
+      return c.json({ error: 'Validation failed', details: result.error.issues }, 400);
+    }
+
+    return recoverTreeFromCid(c, result.data.cid, result.data.save, 'ipfs');
+  }
+
+  if (body.merkleRoot !== undefined) {
+    const result = recoverFromRegistrySchema.safeParse(body);
+
+    if (!result.success) {
+      return c.json({ error: 'Validation failed', details: result.error.issues }, 400);
+    }
+
+    const registry = c.var.registry;
+    if (!registry) {
+      return c.json({ error: 'Registry not configured' }, 503);
+    }
+
+    const { chainId, distributor, merkleRoot, save } = result.data;
+    const key = { chainId, distributorAddress: distributor as Hex, merkleRoot: merkleRoot as Hex };
+
+    let cid: string;
+    try {
+      const entry = await registry.lookup(key);
+      if (!entry) {
+        return c.json({ error: 'No registry entry for this merkle root', key: createRegistryKey(key) }, 404);
+      }
+      cid = entry.ipfsCid;
+    } catch (error) {
+      return c.json({
+        error: `Registry lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }, 502);
+    }
+
+    return recoverTreeFromCid(c, cid, save, 'registry', merkleRoot as Hex);
+  }
+
   return c.json({
-    error: 'Recovery from IPFS CID requires IPFS node connection',
-    hint: 'Provide input.allocations to rebuild from allocations'
+    error: 'Provide input, cid or a registry key to recover a tree',
+    hint: 'Provide input.allocations to rebuild from allocations, cid to download from IPFS, ' +
+      'or chainId, distributor and merkleRoot to resolve the CID from the on-chain registry'
   }, 400);
 });
 
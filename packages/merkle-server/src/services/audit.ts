@@ -0,0 +1,227 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { keccak256, toBytes, type Hex } from 'viem';
+import type { AuditAction, AuditEntry, AuditPage, AuditQuery, AuditRecord } from '../types';
+
+/**
+ * Default audit log file (packages/merkle-server/data/audit.jsonl)
+ */
+export const DEFAULT_AUDIT_LOG_PATH = join(import.meta.dir, '../../data/audit.jsonl');
+
+/**
+ * prevHash of the first entry in a log
+ */
+export const GENESIS_AUDIT_HASH: Hex = `0x${'0'.repeat(64)}`;
+
+/**
+ * Every AuditAction, for validating filters
+ */
+export const AUDIT_ACTIONS = [
+  'create',
+  'create-csv',
+  'create-version',
+  'rebuild',
+  'backup',
+  'recover',
+  'delete',
+  'restore',
+  'reconcile',
+  'purge',
+] as const satisfies readonly AuditAction[];
+
+/**
+ * Actor recorded for entries written by scheduled jobs
+ */
+export const SYSTEM_ACTOR = 'system';
+
+/**
+ * Append-only, hash-chained record of mutating operations
+ */
+export interface AuditLog {
+  append(record: AuditRecord): Promise<AuditEntry>;
+  // Entries in log order; `after` is a sequence number, `limit` caps the result
+  query(query?: AuditQuery): Promise<AuditEntry[]>;
+  // Every entry, for chain verification
+  entries(): Promise<AuditEntry[]>;
+}
+
+/**
+ * Hash of an entry's fields (everything but `hash`), chained through prevHash
+ * Fields are serialized in a fixed order so the hash does not depend on key order in storage
+ */
+export function computeAuditHash(entry: Omit<AuditEntry, 'hash'>): Hex {
+  const details = entry.details
+    ? Object.fromEntries(Object.entries(entry.details).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+    : undefined;
+
+  return keccak256(toBytes(JSON.stringify([
+    entry.seq,
+    entry.timestamp,
+    entry.actor,
+    entry.action,
+    entry.treeId ?? null,
+    entry.root ?? null,
+    entry.inputHash ?? null,
+    entry.result,
+    entry.status,
+    details ?? null,
+    entry.prevHash,
+  ])));
+}
+
+/**
+ * Check that every entry's hash matches its contents and links to the entry before it
+ * @returns The first broken sequence number, if any
+ */
+export function verifyAuditChain(entries: AuditEntry[]): { valid: boolean; entries: number; brokenAt?: number } {
+  let prevHash = GENESIS_AUDIT_HASH;
+
+  for (const [i, entry] of entries.entries()) {
+    const { hash, ...fields } = entry;
+    if (entry.seq !== i + 1 || entry.prevHash !== prevHash || computeAuditHash(fields) !== hash) {
+      return { valid: false, entries: entries.length, brokenAt: entry.seq ?? i + 1 };
+    }
+    prevHash = hash;
+  }
+
+  return { valid: true, entries: entries.length };
+}
+
+/**
+ * Filter and limit entries in memory
+ */
+export function applyAuditQuery(entries: AuditEntry[], query: AuditQuery = {}): AuditEntry[] {
+  const matches = entries.filter((entry) =>
+    (query.treeId === undefined || entry.treeId === query.treeId) &&
+    (query.actor === undefined || entry.actor === query.actor) &&
+    (query.action === undefined || entry.action === query.action) &&
+    (query.after === undefined || entry.seq > query.after)
+  );
+
+  return query.limit === undefined ? matches : matches.slice(0, query.limit);
+}
+
+/**
+ * List one page of audit entries; the cursor is the last entry's sequence number
+ */
+export async function listAuditPage(
+  audit: AuditLog,
+  query: Omit<AuditQuery, 'after' | 'limit'> & { cursor?: string; limit: number }
+): Promise<AuditPage> {
+  const { cursor, limit, ...filters } = query;
+
+  // Ask for one extra entry to learn whether another page follows
+  const entries = await audit.query({
+    ...filters,
+    after: cursor === undefined ? undefined : Number(cursor),
+    limit: limit + 1,
+  });
+
+  if (entries.length <= limit) {
+    return { items: entries };
+  }
+
+  const items = entries.slice(0, limit);
+  return { items, nextCursor: String(items[items.length - 1].seq) };
+}
+
+/**
+ * Shared chaining for audit logs: appends are serialized so each entry links to the last
+ */
+abstract class ChainedAuditLog implements AuditLog {
+  private tail: Promise<unknown> = Promise.resolve();
+  private last?: { seq: number; hash: Hex };
+
+  protected abstract readAll(): Promise<AuditEntry[]>;
+  protected abstract write(entry: AuditEntry): Promise<void>;
+
+  append(record: AuditRecord): Promise<AuditEntry> {
+    const next = this.tail.then(async () => {
+      if (!this.last) {
+        const existing = await this.readAll();
+        const last = existing[existing.length - 1];
+        this.last = last ? { seq: last.seq, hash: last.hash } : { seq: 0, hash: GENESIS_AUDIT_HASH };
+      }
+
+      const fields: Omit<AuditEntry, 'hash'> = {
+        seq: this.last.seq + 1,
+        timestamp: new Date().toISOString(),
+        ...record,
+        prevHash: this.last.hash,
+      };
+      const entry: AuditEntry = { ...fields, hash: computeAuditHash(fields) };
+
+      await this.write(entry);
+      this.last = { seq: entry.seq, hash: entry.hash };
+      return entry;
+    });
+
+    // Keep the queue going after a failed append; the caller still sees the error
+    this.tail = next.catch(() => {});
+    return next;
+  }
+
+  async query(query?: AuditQuery): Promise<AuditEntry[]> {
+    return applyAuditQuery(await this.readAll(), query);
+  }
+
+  entries(): Promise<AuditEntry[]> {
+    return this.readAll();
+  }
+}
+
+/**
+ * In-memory audit log (primarily for testing)
+ */
+export class MemoryAuditLog extends ChainedAuditLog {
+  private log: AuditEntry[] = [];
+
+  protected async readAll(): Promise<AuditEntry[]> {
+    return [...this.log];
+  }
+
+  protected async write(entry: AuditEntry): Promise<void> {
+    this.log.push(entry);
+  }
+}
+
+/**
+ * Audit log stored as JSON lines, one entry per line, only ever appended to
+ */
+export class FileAuditLog extends ChainedAuditLog {
+  constructor(private path: string) {
+    super();
+  }
+
+  protected async readAll(): Promise<AuditEntry[]> {
+    let data: string;
+    try {
+      data = await readFile(this.path, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    return data
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line, i) => {
+        try {
+          return JSON.parse(line) as AuditEntry;
+        } catch {
+          throw new Error(`Audit log ${this.path} is corrupt at line ${i + 1}`);
+        }
+      });
+  }
+
+  protected async write(entry: AuditEntry): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(entry) + '\n');
+  }
+}
+
+/**
+ * Create the audit log from AUDIT_LOG_PATH, defaulting to DEFAULT_AUDIT_LOG_PATH
+ */
+export function createAuditLogFromEnv(env: Record<string, string | undefined> = process.env): AuditLog {
+  return new FileAuditLog(env.AUDIT_LOG_PATH || DEFAULT_AUDIT_LOG_PATH);
+}
@@ -0,0 +1,159 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+
+/**
+ * API key roles, lowest to highest; each role can do everything the roles before it can
+ */
+export const ROLES = ['reader', 'issuer', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/**
+ * The API key a request authenticated with
+ */
+export interface ApiKeyPrincipal {
+  name: string;
+  role: Role;
+}
+
+/**
+ * Resolves presented API keys to their principal
+ */
+export interface Authenticator {
+  authenticate(key: string): ApiKeyPrincipal | null;
+}
+
+// Keys must be long enough that guessing is not an option
+const MIN_KEY_LENGTH = 16;
+
+const apiKeySchema = z.object({
+  name: z.string().min(1),
+  role: z.enum(ROLES),
+  key: z.string().min(MIN_KEY_LENGTH, `key must be at least ${MIN_KEY_LENGTH} characters`).optional(),
+  sha256: z.string().regex(/^[a-fA-F0-9]{64}$/, 'sha256 must be a hex SHA-256 digest').optional(),
+}).refine((entry) => (entry.key === undefined) !== (entry.sha256 === undefined), {
+  message: 'exactly one of key or sha256 is required',
+});
+
+const authConfigSchema = z.object({
+  keys: z.array(apiKeySchema).min(1, 'at least one key is required'),
+});
+
+/**
+ * Configured API keys; each carries the key itself or its SHA-256 digest
+ */
+export type AuthConfig = z.infer<typeof authConfigSchema>;
+
+/**
+ * Load API keys from the environment
+ *
+ * - API_KEYS_FILE: path to a JSON file `{ keys: [{ name, role, key | sha256 }] }` (takes precedence)
+ * - API_KEYS: comma-separated `role:key` entries, e.g. `issuer:s3cret-issuer-key,admin:s3cret-admin-key`
+ *
+ * @returns null when neither is set (authentication disabled)
+ */
+export function loadAuthConfig(env: Record<string, string | undefined> = process.env): AuthConfig | null {
+  if (env.API_KEYS_FILE) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(env.API_KEYS_FILE, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Failed to read API key file ${env.API_KEYS_FILE}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    return parseAuthConfig(raw);
+  }
+
+  if (!env.API_KEYS) {
+    return null;
+  }
+
+  const entries = env.API_KEYS.split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+  return parseAuthConfig({
+    keys: entries.map((entry, i) => {
+      const separator = entry.indexOf(':');
+      return separator === -1
+        ? { name: `API_KEYS[${i}]`, role: entry }
+        : { name: `API_KEYS[${i}]`, role: entry.slice(0, separator), key: entry.slice(separator + 1) };
+    }),
+  });
+}
+
+/**
+ * Validate an API key configuration object
+ * @throws Error describing every invalid field, or if two entries share a key
+ */
+export function parseAuthConfig(raw: unknown): AuthConfig {
+  const result = authConfigSchema.safeParse(raw);
+
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'config'}: ${issue.message}`);
+    throw new Error(`Invalid API key config: ${issues.join('; ')}`);
+  }
+
+  const digests = new Set<string>();
+  for (const entry of result.data.keys) {
+    const digest = keyDigest(entry);
+    if (digests.has(digest)) {
+      throw new Error(`Invalid API key config: key for ${entry.name} is used more than once`);
+    }
+    digests.add(digest);
+  }
+
+  return result.data;
+}
+
+/**
+ * Create an authenticator for a set of API keys
+ * Keys are held only as SHA-256 digests and matched by digest
+ */
+export function createAuthenticator(config: AuthConfig): Authenticator {
+  const principals = new Map<string, ApiKeyPrincipal>(
+    config.keys.map((entry) => [keyDigest(entry), { name: entry.name, role: entry.role }])
+  );
+
+  return {
+    authenticate(key) {
+      return principals.get(sha256(key)) ?? null;
+    },
+  };
+}
+
+/**
+ * Create an authenticator from API_KEYS_FILE / API_KEYS
+ * Running without keys has to be asked for with AUTH_DISABLED=true, so a missing or misspelled
+ * variable cannot leave every route open.
+ * @returns null if no keys are configured and AUTH_DISABLED=true (authentication disabled)
+ * @throws Error if no keys are configured and AUTH_DISABLED is not `true`
+ */
+export function createAuthenticatorFromEnv(env: Record<string, string | undefined> = process.env): Authenticator | null {
+  const config = loadAuthConfig(env);
+  if (config) {
+    return createAuthenticator(config);
+  }
+
+  if (env.AUTH_DISABLED !== 'true') {
+    throw new Error('No API keys configured: set API_KEYS or API_KEYS_FILE, or AUTH_DISABLED=true to run without authentication');
+  }
+  return null;
+}
+
+/**
+ * Whether a principal's role includes the required role
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+function keyDigest(entry: AuthConfig['keys'][number]): string {
+  return entry.sha256?.toLowerCase() ?? sha256(entry.key!);
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
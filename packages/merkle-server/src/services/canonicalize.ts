@@ -1,10 +1,18 @@
 import { keccak256, encodePacked, concatHex, type Hex } from 'viem';
-import type { Allocation, CanonicalAllocation, BuildSpec, VestingParams, PlatformFeeParams } from '../types';
+import type {
+  Allocation,
+  CanonicalAllocation,
+  BuildSpec,
+  BuildSpecV1,
+  BuildSpecV2,
+  VestingParams,
+  PlatformFeeParams,
+} from '../types';
 
 /**
- * The BuildSpec constant that defines how merkle trees are built
+ * The default BuildSpec, matching MerkleVestingDeployer's leaf encoding
  */
-export const BUILD_SPEC: BuildSpec = {
+export const BUILD_SPEC: BuildSpecV1 = {
   version: '1.0.0',
   leafEncoding: 'abi.encodePacked(address,uint256)',
   hashFunction: 'keccak256',
@@ -14,6 +22,36 @@ export const BUILD_SPEC: BuildSpec = {
   paddingStrategy: 'duplicate-last',
 };
 
+/**
+ * BuildSpec producing OpenZeppelin StandardMerkleTree-compatible roots and proofs
+ */
+export const STANDARD_BUILD_SPEC: BuildSpecV2 = {
+  version: '2.0.0',
+  leafEncoding: 'keccak256(keccak256(abi.encode(address,uint256)))',
+  hashFunction: 'keccak256',
+  sortPairs: true,
+  sortAllocations: 'beneficiary-asc',
+  duplicateHandling: 'reject',
+  paddingStrategy: 'none',
+  sortLeaves: 'hash-asc',
+  treeFormat: 'standard-v1',
+};
+
+/**
+ * Look up a BuildSpec by version
+ * @throws Error for unknown versions
+ */
+export function getBuildSpec(version: string = BUILD_SPEC.version): BuildSpec {
+  switch (version) {
+    case BUILD_SPEC.version:
+      return BUILD_SPEC;
+    case STANDARD_BUILD_SPEC.version:
+      return STANDARD_BUILD_SPEC;
+    default:
+      throw new Error(`Unsupported build spec version: ${version}`);
+  }
+}
+
 /**
  * Normalize an address to lowercase hex format
  * @param address - The address to normalize
@@ -104,41 +142,36 @@ export function computeInputHash(
   vesting?: VestingParams,
   platformFee?: PlatformFeeParams
 ): Hex {
-  // Start with empty hex
-  let data: Hex = '0x';
+  // Collect every part and concatenate once; growing one hex string per allocation is quadratic
+  const parts: Hex[] = [];
 
-  // Concatenate each allocation's beneficiary + amount
+  // Each allocation's beneficiary + amount
   for (const alloc of allocations) {
-    data = concatHex([
-      data,
-      encodePacked(['address', 'uint256'], [alloc.beneficiary, BigInt(alloc.amount)])
-    ]);
+    parts.push(encodePacked(['address', 'uint256'], [alloc.beneficiary, BigInt(alloc.amount)]));
   }
 
   // Include token if provided
   if (token) {
-    data = concatHex([data, normalizeAddress(token)]);
+    parts.push(normalizeAddress(token));
   }
 
   // Include vesting params if provided
   if (vesting) {
-    data = concatHex([
-      data,
+    parts.push(
       encodePacked(
         ['uint256', 'uint256', 'uint256'],
         [BigInt(vesting.vestingStart), BigInt(vesting.vestingDuration), BigInt(vesting.cliffDuration)]
       )
-    ]);
+    );
   }
 
   if (platformFee) {
-    data = concatHex([
-      data,
+    parts.push(
       normalizeAddress(platformFee.feeRecipient),
       encodePacked(['uint256'], [BigInt(platformFee.feeBps)])
-    ]);
+    );
   }
 
   // Hash the combined data
-  return keccak256(data);
+  return keccak256(concatHex(parts));
 }
@@ -0,0 +1,230 @@
+import type { Hex } from 'viem';
+import type { Allocation } from '../types';
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+const MAX_DECIMALS = 77; // 10^78 already exceeds uint256
+
+/**
+ * A single problem found while parsing an allocation spreadsheet
+ */
+export interface CsvRowError {
+  row: number; // 1-based line number in the uploaded file
+  column?: 'beneficiary' | 'amount';
+  message: string;
+}
+
+/**
+ * Options for parsing an allocation spreadsheet
+ */
+export interface ParseAllocationsCsvOptions {
+  delimiter?: ',' | '\t';
+  decimals?: number; // When set, amounts are token units (e.g. "1.5") scaled by 10^decimals
+  maxRows?: number;
+}
+
+/**
+ * Result of parsing an allocation spreadsheet
+ */
+export interface ParseAllocationsCsvResult {
+  allocations: Allocation[];
+  errors: CsvRowError[];
+}
+
+/**
+ * Parse `beneficiary,amount` rows from CSV or TSV text
+ *
+ * A header row is optional; when present it may name the columns in any order
+ * (`beneficiary` or `address`, and `amount`). Blank lines are ignored. Errors are
+ * collected per row instead of stopping at the first one, so the whole file can be
+ * fixed in a single pass.
+ */
+export function parseAllocationsCsv(
+  text: string,
+  options: ParseAllocationsCsvOptions = {}
+): ParseAllocationsCsvResult {
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  const decimals = options.decimals;
+
+  if (decimals !== undefined && (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS)) {
+    throw new Error(`decimals must be an integer between 0 and ${MAX_DECIMALS}`);
+  }
+
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const allocations: Allocation[] = [];
+  const errors: CsvRowError[] = [];
+  const seen = new Map<string, number>();
+
+  let beneficiaryColumn = 0;
+  let amountColumn = 1;
+  let sawFirstRow = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const row = i + 1;
+    if (lines[i].trim() === '') continue;
+
+    let cells: string[];
+    try {
+      cells = splitRow(lines[i], delimiter).map((cell) => cell.trim());
+    } catch (error) {
+      errors.push({ row, message: error instanceof Error ? error.message : 'Malformed row' });
+      continue;
+    }
+
+    if (!sawFirstRow) {
+      sawFirstRow = true;
+      const header = parseHeader(cells);
+      if (header) {
+        beneficiaryColumn = header.beneficiary;
+        amountColumn = header.amount;
+        continue;
+      }
+    }
+
+    if (options.maxRows !== undefined && allocations.length >= options.maxRows) {
+      errors.push({ row, message: `Maximum ${options.maxRows} allocations allowed` });
+      break;
+    }
+
+    const rawBeneficiary = cells[beneficiaryColumn];
+    const rawAmount = cells[amountColumn];
+
+    if (rawBeneficiary === undefined || rawAmount === undefined) {
+      errors.push({ row, message: `Expected beneficiary and amount columns, got ${cells.length} column(s)` });
+      continue;
+    }
+
+    let rowValid = true;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(rawBeneficiary)) {
+      errors.push({ row, column: 'beneficiary', message: `Invalid address: ${rawBeneficiary || '(empty)'}` });
+      rowValid = false;
+    } else {
+      const key = rawBeneficiary.toLowerCase();
+      const firstRow = seen.get(key);
+      if (firstRow !== undefined) {
+        errors.push({
+          row,
+          column: 'beneficiary',
+          message: `Duplicate beneficiary ${rawBeneficiary} (first seen on row ${firstRow})`,
+        });
+        rowValid = false;
+      } else {
+        seen.set(key, row);
+      }
+    }
+
+    const amount = parseAmount(rawAmount, decimals);
+    if ('error' in amount) {
+      errors.push({ row, column: 'amount', message: amount.error });
+      rowValid = false;
+    }
+
+    if (rowValid && 'value' in amount) {
+      allocations.push({ beneficiary: rawBeneficiary as Hex, amount: amount.value });
+    }
+  }
+
+  if (allocations.length === 0 && errors.length === 0) {
+    errors.push({ row: 0, message: 'No allocation rows found' });
+  }
+
+  return { allocations, errors };
+}
+
+/**
+ * Convert an amount cell to a uint256 decimal string
+ */
+function parseAmount(raw: string, decimals?: number): { value: string } | { error: string } {
+  if (raw === '') {
+    return { error: 'Amount is empty' };
+  }
+
+  let units: bigint;
+
+  if (decimals === undefined) {
+    if (!/^\d+$/.test(raw)) {
+      return { error: `Invalid amount: ${raw} (must be a non-negative integer in base units)` };
+    }
+    units = BigInt(raw);
+  } else {
+    const match = /^(\d*)(?:\.(\d*))?$/.exec(raw);
+    if (!match || (match[1] === '' && !match[2])) {
+      return { error: `Invalid amount: ${raw} (must be a non-negative decimal number)` };
+    }
+
+    const whole = match[1] || '0';
+    const fraction = (match[2] ?? '').replace(/0+$/, '');
+    if (fraction.length > decimals) {
+      return { error: `Amount ${raw} has more than ${decimals} decimal places` };
+    }
+
+    units = BigInt(whole) * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+  }
+
+  if (units > MAX_UINT256) {
+    return { error: `Amount ${raw} overflows uint256` };
+  }
+
+  return { value: units.toString() };
+}
+
+/**
+ * Detect named columns in a header row, or return null if the row is data
+ */
+function parseHeader(cells: string[]): { beneficiary: number; amount: number } | null {
+  const names = cells.map((cell) => cell.toLowerCase());
+  const beneficiary = names.findIndex((name) => name === 'beneficiary' || name === 'address');
+  const amount = names.indexOf('amount');
+
+  if (beneficiary === -1 || amount === -1) {
+    return null;
+  }
+
+  return { beneficiary, amount };
+}
+
+/**
+ * Pick tab as the delimiter if the first non-empty line contains one
+ */
+function detectDelimiter(text: string): ',' | '\t' {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim() !== '') ?? '';
+  return firstLine.includes('\t') ? '\t' : ',';
+}
+
+/**
+ * Split a single row, honouring double-quoted fields ("" escapes a quote)
+ */
+function splitRow(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+
+  cells.push(current);
+  return cells;
+}
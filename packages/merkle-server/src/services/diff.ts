@@ -0,0 +1,133 @@
+import type { Hex } from 'viem';
+import type { Allocation, MerkleTree, PlatformFeeParams, TreeDiff, VestingParams } from '../types';
+
+/**
+ * Compare the allocations and parameters of two trees
+ * Beneficiaries are matched case-insensitively; each list is ordered by beneficiary
+ */
+export function diffTrees(from: MerkleTree, to: MerkleTree): TreeDiff {
+  const fromAmounts = amountsByBeneficiary(from.allocations);
+  const toAmounts = amountsByBeneficiary(to.allocations);
+
+  const added: Allocation[] = [];
+  const removed: Allocation[] = [];
+  const changed: TreeDiff['changed'] = [];
+
+  for (const [key, { beneficiary, amount }] of fromAmounts) {
+    const other = toAmounts.get(key);
+    if (!other) {
+      removed.push({ beneficiary, amount: amount.toString() });
+    } else if (other.amount !== amount) {
+      changed.push({
+        beneficiary: other.beneficiary,
+        fromAmount: amount.toString(),
+        toAmount: other.amount.toString(),
+        delta: (other.amount - amount).toString(),
+      });
+    }
+  }
+
+  for (const [key, { beneficiary, amount }] of toAmounts) {
+    if (!fromAmounts.has(key)) {
+      added.push({ beneficiary, amount: amount.toString() });
+    }
+  }
+
+  const byBeneficiary = (a: { beneficiary: string }, b: { beneficiary: string }) =>
+    a.beneficiary.toLowerCase() < b.beneficiary.toLowerCase() ? -1 : 1;
+
+  const fromTotal = total(fromAmounts);
+  const toTotal = total(toAmounts);
+
+  return {
+    fromId: from.id,
+    toId: to.id,
+    fromRoot: from.root,
+    toRoot: to.root,
+    added: added.sort(byBeneficiary),
+    removed: removed.sort(byBeneficiary),
+    changed: changed.sort(byBeneficiary),
+    fromTotal: fromTotal.toString(),
+    toTotal: toTotal.toString(),
+    totalDelta: (toTotal - fromTotal).toString(),
+    vestingChanged: !sameVesting(from.vesting, to.vesting),
+    platformFeeChanged: !samePlatformFee(from.platformFee, to.platformFee),
+  };
+}
+
+/**
+ * Render a tree diff as CSV: `type,beneficiary,fromAmount,toAmount,delta`
+ *
+ * One row per added, removed or changed beneficiary, then a `total` row. `vesting` and
+ * `platformFee` rows follow only when those parameters differ, with the values in the
+ * amount columns (`start/duration/cliff` and `recipient/bps`, empty when unset).
+ */
+export function treeDiffToCsv(diff: TreeDiff, from: MerkleTree, to: MerkleTree): string {
+  const rows: string[][] = [['type', 'beneficiary', 'fromAmount', 'toAmount', 'delta']];
+
+  for (const alloc of diff.added) {
+    rows.push(['added', alloc.beneficiary, '0', alloc.amount, alloc.amount]);
+  }
+  for (const alloc of diff.removed) {
+    rows.push(['removed', alloc.beneficiary, alloc.amount, '0', (-BigInt(alloc.amount)).toString()]);
+  }
+  for (const change of diff.changed) {
+    rows.push(['changed', change.beneficiary, change.fromAmount, change.toAmount, change.delta]);
+  }
+
+  rows.push(['total', '', diff.fromTotal, diff.toTotal, diff.totalDelta]);
+
+  if (diff.vestingChanged) {
+    rows.push(['vesting', '', formatVesting(from.vesting), formatVesting(to.vesting), '']);
+  }
+  if (diff.platformFeeChanged) {
+    rows.push(['platformFee', '', formatPlatformFee(from.platformFee), formatPlatformFee(to.platformFee), '']);
+  }
+
+  return rows.map((row) => row.join(',')).join('\n') + '\n';
+}
+
+/**
+ * Index allocations by lowercased beneficiary, keeping the stored address casing
+ */
+function amountsByBeneficiary(allocations: Allocation[]): Map<string, { beneficiary: Hex; amount: bigint }> {
+  return new Map(
+    allocations.map((alloc) => [
+      alloc.beneficiary.toLowerCase(),
+      { beneficiary: alloc.beneficiary, amount: BigInt(alloc.amount) },
+    ])
+  );
+}
+
+function total(amounts: Map<string, { amount: bigint }>): bigint {
+  let sum = 0n;
+  for (const { amount } of amounts.values()) {
+    sum += amount;
+  }
+  return sum;
+}
+
+/**
+ * Compare optional parameter objects field by field (both unset counts as equal)
+ */
+function sameVesting(a?: VestingParams, b?: VestingParams): boolean {
+  if (!a || !b) return a === b;
+  return (
+    a.vestingStart === b.vestingStart &&
+    a.vestingDuration === b.vestingDuration &&
+    a.cliffDuration === b.cliffDuration
+  );
+}
+
+function samePlatformFee(a?: PlatformFeeParams, b?: PlatformFeeParams): boolean {
+  if (!a || !b) return a === b;
+  return a.feeRecipient.toLowerCase() === b.feeRecipient.toLowerCase() && a.feeBps === b.feeBps;
+}
+
+function formatVesting(vesting?: VestingParams): string {
+  return vesting ? `${vesting.vestingStart}/${vesting.vestingDuration}/${vesting.cliffDuration}` : '';
+}
+
+function formatPlatformFee(platformFee?: PlatformFeeParams): string {
+  return platformFee ? `${platformFee.feeRecipient}/${platformFee.feeBps}` : '';
+}
@@ -0,0 +1,122 @@
+import type { IpfsClient } from './ipfs';
+import type { RegistryClient } from './registry';
+import type { BackendHealth, ComponentHealth, ReadinessReport, StorageBackend } from '../types';
+
+/**
+ * How long a readiness check waits for each component
+ */
+export const DEFAULT_HEALTH_CHECK_TIMEOUT_MS = 3000;
+
+/**
+ * Load the per-component readiness timeout from HEALTH_CHECK_TIMEOUT_MS
+ * @throws Error if the value is not a positive integer
+ */
+export function loadHealthCheckTimeoutMs(env: Record<string, string | undefined> = process.env): number {
+  const raw = env.HEALTH_CHECK_TIMEOUT_MS;
+  if (raw === undefined || raw === '') {
+    return DEFAULT_HEALTH_CHECK_TIMEOUT_MS;
+  }
+
+  const timeoutMs = Number(raw);
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw new Error(`Invalid HEALTH_CHECK_TIMEOUT_MS: ${raw} (expected a positive integer)`);
+  }
+  return timeoutMs;
+}
+
+/**
+ * What a readiness check probes
+ */
+export interface HealthDependencies {
+  storage: StorageBackend;
+  ipfs: IpfsClient;
+  registry: RegistryClient | null;
+}
+
+// Result of a component's health(); ReplicatedStorage adds per-backend status and the outbox depth
+type HealthResult = {
+  healthy: boolean;
+  error?: string;
+  backends?: BackendHealth[];
+  pendingReplicaWrites?: number;
+};
+
+/**
+ * Check storage, IPFS and the registry in parallel
+ * Each check is cut off after `timeoutMs` and reported as down. Storage is `degraded` rather than
+ * `down` while its primary is healthy, e.g. when only a replica fails.
+ */
+export async function checkReadiness(
+  deps: HealthDependencies,
+  timeoutMs: number = DEFAULT_HEALTH_CHECK_TIMEOUT_MS
+): Promise<ReadinessReport> {
+  const [storage, ipfs, registry] = await Promise.all([
+    probe(() => deps.storage.health(), timeoutMs).then(
+      ({ result, latencyMs }): ComponentHealth => {
+        const primaryHealthy = result.backends ? result.backends[0].healthy : result.healthy;
+        return {
+          status: result.healthy ? 'up' : primaryHealthy ? 'degraded' : 'down',
+          latencyMs,
+          ...(result.error !== undefined && { error: result.error }),
+          ...(result.backends && { backends: result.backends }),
+          ...(result.pendingReplicaWrites !== undefined && { pendingReplicaWrites: result.pendingReplicaWrites }),
+        };
+      }
+    ),
+    probe(() => deps.ipfs.health(), timeoutMs).then(toComponentHealth),
+    deps.registry
+      ? probe(() => deps.registry!.health(), timeoutMs).then(toComponentHealth)
+      : ({ status: 'disabled' } satisfies ComponentHealth),
+  ]);
+
+  const status =
+    storage.status === 'down'
+      ? 'unavailable'
+      : [storage, ipfs, registry].every((component) => component.status === 'up' || component.status === 'disabled')
+        ? 'ok'
+        : 'degraded';
+
+  return { status, timestamp: new Date().toISOString(), components: { storage, ipfs, registry } };
+}
+
+function toComponentHealth({
+  result,
+  latencyMs,
+}: {
+  result: HealthResult;
+  latencyMs: number;
+}): ComponentHealth {
+  return {
+    status: result.healthy ? 'up' : 'down',
+    latencyMs,
+    ...(result.error !== undefined && { error: result.error }),
+  };
+}
+
+/**
+ * Run a health check with a time limit; a check that throws or times out is reported as unhealthy
+ */
+async function probe(
+  check: () => Promise<HealthResult>,
+  timeoutMs: number
+): Promise<{ result: HealthResult; latencyMs: number }> {
+  const startedAt = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<HealthResult>((resolve) => {
+    timer = setTimeout(() => resolve({ healthy: false, error: `Timed out after ${timeoutMs} ms` }), timeoutMs);
+  });
+
+  try {
+    const result = await Promise.race([
+      check().catch((error): HealthResult => ({
+        healthy: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })),
+      timeout,
+    ]);
+    return { result, latencyMs: Math.round(performance.now() - startedAt) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,122 @@
+import type { Hex } from 'viem';
+import type { Allocation, MerkleTree, MerkleTreeHeader } from '../types';
+import { canonicalizeAllocations, computeInputHash, getBuildSpec } from './canonicalize';
+import { buildTree, getLeafForSpec, verifyProof } from './merkle';
+
+/**
+ * Check that a stored tree is consistent with itself
+ *
+ * - every leaf and proof matches the tree rebuilt from the allocations under the tree's build spec
+ * - the root of that rebuilt tree matches `root`
+ * - the allocations are the canonicalized `originalInput` allocations
+ * - `inputHash` matches `originalInput`, and token, vesting and fees match it too
+ *
+ * This hashes every leaf and layer, as long as building the tree; backends run it for large trees
+ * in a worker thread (see verifyStoredTree).
+ *
+ * @returns Problems found; empty when the tree is intact
+ */
+export function verifyTreeIntegrity(tree: MerkleTree): string[] {
+  let spec: MerkleTree['buildSpec'];
+  try {
+    spec = getBuildSpec(tree.buildSpec?.version);
+  } catch (error) {
+    return [error instanceof Error ? error.message : 'Unknown build spec'];
+  }
+
+  if (!Array.isArray(tree.allocations) || tree.allocations.length === 0) {
+    return ['Tree has no allocations'];
+  }
+
+  const problems: string[] = [];
+
+  const rebuilt = buildTree(tree.allocations, spec);
+
+  const badLeaves = tree.allocations.filter((alloc, i) => alloc.leaf !== rebuilt.allocations[i].leaf).length;
+  if (badLeaves > 0) {
+    problems.push(`${badLeaves} leaf hash(es) do not match their allocation`);
+  }
+
+  const badProofs = tree.allocations.filter((alloc, i) => {
+    const proof = rebuilt.allocations[i].proof;
+    return (
+      !Array.isArray(alloc.proof) ||
+      alloc.proof.length !== proof.length ||
+      alloc.proof.some((node, j) => node !== proof[j])
+    );
+  }).length;
+  if (badProofs > 0) {
+    problems.push(`${badProofs} proof(s) do not match the tree`);
+  }
+
+  if (rebuilt.root !== tree.root) {
+    problems.push(`Root recomputed from allocations is ${rebuilt.root}, stored root is ${tree.root}`);
+  }
+
+  const input = tree.originalInput;
+  if (!input) {
+    problems.push('Tree has no stored input');
+    return problems;
+  }
+
+  let canonical: ReturnType<typeof canonicalizeAllocations>;
+  try {
+    canonical = canonicalizeAllocations(input.allocations);
+  } catch (error) {
+    problems.push(`Stored input is invalid: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return problems;
+  }
+
+  const matchesInput = canonical.length === tree.allocations.length && canonical.every(
+    (alloc, i) => alloc.beneficiary === tree.allocations[i].beneficiary && alloc.amount === tree.allocations[i].amount
+  );
+  if (!matchesInput) {
+    problems.push('Allocations do not match the stored input');
+  }
+
+  const inputHash = computeInputHash(canonical, input.token, input.vesting, input.platformFee);
+  if (inputHash !== tree.inputHash) {
+    problems.push(`inputHash recomputed from stored input is ${inputHash}, stored inputHash is ${tree.inputHash}`);
+  }
+
+  for (const field of ['token', 'vesting', 'platformFee'] as const) {
+    if (JSON.stringify(tree[field] ?? null) !== JSON.stringify(input[field] ?? null)) {
+      problems.push(`${field} does not match the stored input`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Throw if a tree fails verifyTreeIntegrity
+ * @throws Error naming the tree and every problem found
+ */
+export function assertTreeIntegrity(tree: MerkleTree): void {
+  const problems = verifyTreeIntegrity(tree);
+  if (problems.length > 0) {
+    throw new Error(`Integrity check failed for tree ${tree.id}: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * Check allocations read without the rest of their tree against its stored root
+ * Each leaf must match its allocation under the tree's build spec and each proof must lead from
+ * the leaf to `root`, so single lookups are checked without loading every allocation.
+ * @throws Error naming the tree and the number of allocations that fail
+ */
+export function assertAllocationIntegrity(
+  tree: MerkleTreeHeader,
+  allocations: Array<Allocation & { leaf: Hex; proof: Hex[] }>
+): void {
+  const spec = getBuildSpec(tree.buildSpec?.version);
+  const bad = allocations.filter(
+    (alloc) =>
+      getLeafForSpec(alloc.beneficiary, alloc.amount, spec) !== alloc.leaf ||
+      !verifyProof(alloc.proof, tree.root, alloc.leaf)
+  ).length;
+
+  if (bad > 0) {
+    throw new Error(`Integrity check failed for tree ${tree.id}: ${bad} allocation(s) do not match the stored root`);
+  }
+}
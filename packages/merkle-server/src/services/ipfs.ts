@@ -7,8 +7,12 @@ import type { MerkleTree } from '../types';
  * Keys are sorted alphabetically to ensure determinism
  */
 export function serializeTreeForIpfs(tree: MerkleTree): string {
+  // Backup metadata is not part of the tree content, so backing up a tree
+  // never changes its serialized form or content hash
+  const { backups: _backups, ...content } = tree;
+
   // Deep sort all object keys for determinism
-  const sortedTree = sortObjectKeys(tree);
+  const sortedTree = sortObjectKeys(content);
   return JSON.stringify(sortedTree);
 }
 
@@ -17,6 +21,15 @@ const hexSchema = z.string().regex(/^0x[a-fA-F0-9]+$/, 'Invalid hex string');
 const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address');
 const uint256StringSchema = z.string().regex(/^\d+$/, 'Invalid uint256 string');
 
+const buildSpecFieldsSchema = z.object({
+  leafEncoding: z.string(),
+  hashFunction: z.string(),
+  sortPairs: z.boolean(),
+  sortAllocations: z.string(),
+  duplicateHandling: z.string(),
+  paddingStrategy: z.string(),
+});
+
 const merkleTreeSchema = z.object({
   id: z.string(),
   root: hexSchema,
@@ -37,15 +50,14 @@ const merkleTreeSchema = z.object({
     feeRecipient: addressSchema,
     feeBps: z.number().int().min(0).max(10_000),
   }).optional(),
-  buildSpec: z.object({
-    version: z.string(),
-    leafEncoding: z.string(),
-    hashFunction: z.string(),
-    sortPairs: z.boolean(),
-    sortAllocations: z.string(),
-    duplicateHandling: z.string(),
-    paddingStrategy: z.string(),
-  }),
+  buildSpec: z.discriminatedUnion('version', [
+    buildSpecFieldsSchema.extend({ version: z.literal('1.0.0') }),
+    buildSpecFieldsSchema.extend({
+      version: z.literal('2.0.0'),
+      sortLeaves: z.string(),
+      treeFormat: z.string(),
+    }),
+  ]),
   originalInput: z.object({
     allocations: z.array(z.object({
       beneficiary: addressSchema,
@@ -63,6 +75,16 @@ const merkleTreeSchema = z.object({
     }).optional(),
   }),
   inputHash: hexSchema,
+  version: z.object({
+    number: z.number().int().min(2),
+    parentId: z.string(),
+    parentRoot: hexSchema,
+    diff: z.object({
+      add: z.array(z.object({ beneficiary: addressSchema, amount: uint256StringSchema })).optional(),
+      remove: z.array(addressSchema).optional(),
+      change: z.array(z.object({ beneficiary: addressSchema, amount: uint256StringSchema })).optional(),
+    }),
+  }).optional(),
 });
 
 /**
@@ -112,6 +134,7 @@ export interface IpfsClient {
   upload(data: string): Promise<string>; // Returns CID
   download(cid: string): Promise<string>;
   pin(cid: string): Promise<void>;
+  health(): Promise<{ healthy: boolean; error?: string }>;
 }
 
 /**
@@ -157,30 +180,125 @@ export async function verifyIpfsData(
 }
 
 /**
- * Create an IPFS client (stub implementation)
- * In production, this would connect to an IPFS node via HTTP API
+ * Configuration for the Kubo-compatible HTTP API client
+ */
+export interface IpfsClientConfig {
+  apiUrl?: string;
+  timeoutMs?: number; // Per-attempt timeout
+  retries?: number; // Additional attempts after the first failure
+  retryDelayMs?: number; // Base delay, doubled after each failed attempt
+  fetch?: typeof fetch;
+}
+
+const DEFAULT_IPFS_TIMEOUT_MS = 30_000;
+const DEFAULT_IPFS_RETRIES = 2;
+const DEFAULT_IPFS_RETRY_DELAY_MS = 250;
+
+/**
+ * Create an IPFS client backed by a Kubo-compatible HTTP API
+ * (`/api/v0/add`, `/api/v0/cat`, `/api/v0/pin/add`, `/api/v0/version` for health checks)
+ *
+ * Network errors, timeouts and 5xx responses are retried with exponential backoff;
+ * 4xx responses fail immediately. Health checks are not retried.
  */
-export function createIpfsClient(config?: { apiUrl?: string }): IpfsClient {
-  const apiUrl = config?.apiUrl || process.env.IPFS_API_URL || 'http://127.0.0.1:5001';
+export function createIpfsClient(config: IpfsClientConfig = {}): IpfsClient {
+  const apiUrl = (config.apiUrl || process.env.IPFS_API_URL || 'http://127.0.0.1:5001').replace(/\/+$/, '');
+  const timeoutMs = config.timeoutMs ?? parseInt(process.env.IPFS_TIMEOUT_MS || `${DEFAULT_IPFS_TIMEOUT_MS}`, 10);
+  const retries = config.retries ?? parseInt(process.env.IPFS_RETRIES || `${DEFAULT_IPFS_RETRIES}`, 10);
+  const retryDelayMs = config.retryDelayMs ?? DEFAULT_IPFS_RETRY_DELAY_MS;
+  const fetchFn = config.fetch ?? fetch;
+
+  async function call(
+    path: string,
+    params: Record<string, string>,
+    body?: FormData,
+    maxRetries = retries
+  ): Promise<Response> {
+    const url = `${apiUrl}/api/v0/${path}?${new URLSearchParams(params)}`;
+    let lastError: Error = new Error(`IPFS ${path} failed`);
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) {
+        await Bun.sleep(retryDelayMs * 2 ** (attempt - 1));
+      }
+
+      let response: Response;
+      try {
+        // Kubo's RPC API only accepts POST
+        response = await fetchFn(url, {
+          method: 'POST',
+          body,
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (error) {
+        lastError = new Error(
+          `IPFS ${path} request to ${apiUrl} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+        continue;
+      }
+
+      if (response.ok) {
+        return response;
+      }
+
+      lastError = new Error(`IPFS ${path} failed with HTTP ${response.status}: ${await readErrorMessage(response)}`);
+      if (response.status < 500) {
+        break;
+      }
+    }
+
+    throw lastError;
+  }
 
   return {
     async upload(data: string): Promise<string> {
-      // Stub: In production, would POST to /api/v0/add
-      throw new Error(`IPFS client not implemented. Configure IPFS_API_URL (current: ${apiUrl})`);
+      const form = new FormData();
+      form.append('file', new Blob([data], { type: 'application/json' }), 'tree.json');
+
+      const response = await call('add', { pin: 'true', 'cid-version': '1' }, form);
+      const result = (await response.json()) as { Hash?: string };
+
+      if (!result.Hash) {
+        throw new Error('IPFS add response did not include a CID');
+      }
+
+      return result.Hash;
     },
 
     async download(cid: string): Promise<string> {
-      // Stub: In production, would GET from /api/v0/cat
-      throw new Error(`IPFS client not implemented. Configure IPFS_API_URL (current: ${apiUrl})`);
+      const response = await call('cat', { arg: cid });
+      return response.text();
     },
 
     async pin(cid: string): Promise<void> {
-      // Stub: In production, would POST to /api/v0/pin/add
-      throw new Error(`IPFS client not implemented. Configure IPFS_API_URL (current: ${apiUrl})`);
+      await call('pin/add', { arg: cid });
+    },
+
+    async health(): Promise<{ healthy: boolean; error?: string }> {
+      try {
+        await call('version', {}, undefined, 0);
+        return { healthy: true };
+      } catch (error) {
+        return { healthy: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
     },
   };
 }
 
+/**
+ * Extract the error message from a Kubo error response ({ Message, Code, Type })
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  const text = await response.text();
+
+  try {
+    const parsed = JSON.parse(text) as { Message?: string };
+    return parsed.Message || text;
+  } catch {
+    return text || response.statusText;
+  }
+}
+
 /**
  * Recursively sort object keys for deterministic serialization
  */
@@ -1,5 +1,14 @@
-import { keccak256, encodePacked, concat, type Hex } from 'viem';
-import type { Allocation, AllocationWithProof } from '../types';
+import { LRUCache } from 'lru-cache';
+import { keccak256, encodePacked, encodeAbiParameters, concat, type Hex } from 'viem';
+import type {
+  Allocation,
+  AllocationWithProof,
+  BuildSpec,
+  MerkleTree,
+  Multiproof,
+  StandardMerkleTreeDump,
+} from '../types';
+import { BUILD_SPEC } from './canonicalize';
 
 /**
  * Generate a leaf hash matching Solidity: keccak256(abi.encodePacked(beneficiary, amount))
@@ -8,6 +17,27 @@ export function getLeaf(beneficiary: Hex, amount: string): Hex {
   return keccak256(encodePacked(['address', 'uint256'], [beneficiary, BigInt(amount)]));
 }
 
+/**
+ * Generate a StandardMerkleTree leaf hash: keccak256(keccak256(abi.encode(beneficiary, amount)))
+ * Double hashing prevents second-preimage attacks with 64-byte leaves
+ */
+export function getStandardLeaf(beneficiary: Hex, amount: string): Hex {
+  const encoded = encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [beneficiary, BigInt(amount)]);
+  return keccak256(keccak256(encoded, 'bytes'));
+}
+
+/**
+ * Generate the leaf hash for an allocation under a build spec
+ */
+export function getLeafForSpec(beneficiary: Hex, amount: string, spec: BuildSpec): Hex {
+  switch (spec.version) {
+    case '1.0.0':
+      return getLeaf(beneficiary, amount);
+    case '2.0.0':
+      return getStandardLeaf(beneficiary, amount);
+  }
+}
+
 /**
  * Hash a pair of nodes with sorted order for OpenZeppelin MerkleProof compatibility
  */
@@ -20,57 +50,81 @@ export function hashPair(a: Hex, b: Hex): Hex {
 }
 
 /**
- * Compute the merkle root from an array of leaves
+ * Compute every layer of the tree, from the padded leaves up to the root
  * Pads to next power of 2 by duplicating the last leaf
  */
-export function getRoot(leaves: Hex[]): Hex {
+export function getLayers(leaves: Hex[]): Hex[][] {
   if (leaves.length === 0) {
-    throw new Error('Cannot compute root of empty leaves array');
+    throw new Error('Cannot compute layers of empty leaves array');
   }
 
-  // Pad to next power of 2
-  const paddedLeaves = padToPowerOfTwo([...leaves]);
+  const layers: Hex[][] = [padToPowerOfTwo([...leaves])];
 
-  // Build tree layer by layer
-  let layer = paddedLeaves;
+  let layer = layers[0];
   while (layer.length > 1) {
-    const nextLayer: Hex[] = [];
+    const nextLayer: Hex[] = new Array(layer.length / 2);
     for (let i = 0; i < layer.length; i += 2) {
-      nextLayer.push(hashPair(layer[i], layer[i + 1]));
+      nextLayer[i / 2] = hashPair(layer[i], layer[i + 1]);
     }
+    layers.push(nextLayer);
     layer = nextLayer;
   }
 
-  return layer[0];
+  return layers;
+}
+
+/**
+ * Compute the merkle root from an array of leaves
+ * Pads to next power of 2 by duplicating the last leaf
+ */
+export function getRoot(leaves: Hex[]): Hex {
+  if (leaves.length === 0) {
+    throw new Error('Cannot compute root of empty leaves array');
+  }
+
+  const layers = getLayers(leaves);
+  return layers[layers.length - 1][0];
+}
+
+/**
+ * Compute the merkle root of allocation leaves (in allocation order) under a build spec
+ */
+export function getRootForSpec(leaves: Hex[], spec: BuildSpec): Hex {
+  switch (spec.version) {
+    case '1.0.0':
+      return getRoot(leaves);
+    case '2.0.0':
+      return makeStandardTree([...leaves].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)))[0];
+  }
 }
 
 /**
  * Get the proof for a leaf at a given index
+ * Builds every layer; use getProofFromLayers to derive many proofs from one build
  */
 export function getProof(leaves: Hex[], index: number): Hex[] {
   if (index >= leaves.length) {
     throw new Error(`Index ${index} out of bounds for leaves array of length ${leaves.length}`);
   }
 
-  // Pad to next power of 2
-  const paddedLeaves = padToPowerOfTwo([...leaves]);
-  const proof: Hex[] = [];
+  return getProofFromLayers(getLayers(leaves), index);
+}
 
-  let currentIndex = index;
-  let layer = paddedLeaves;
+/**
+ * Derive the proof for a leaf from precomputed layers (see getLayers)
+ */
+export function getProofFromLayers(layers: Hex[][], index: number): Hex[] {
+  if (index >= layers[0].length) {
+    throw new Error(`Index ${index} out of bounds for leaf layer of length ${layers[0].length}`);
+  }
 
-  while (layer.length > 1) {
-    // Get sibling index
-    const siblingIndex = currentIndex % 2 === 0 ? currentIndex + 1 : currentIndex - 1;
-    proof.push(layer[siblingIndex]);
+  const proof: Hex[] = new Array(layers.length - 1);
 
-    // Build next layer
-    const nextLayer: Hex[] = [];
-    for (let i = 0; i < layer.length; i += 2) {
-      nextLayer.push(hashPair(layer[i], layer[i + 1]));
-    }
-    layer = nextLayer;
-    currentIndex = Math.floor(currentIndex / 2);
+  let currentIndex = index;
+  for (let depth = 0; depth < layers.length - 1; depth++) {
+    // Sibling of an even index is to its right, of an odd index to its left
+    proof[depth] = layers[depth][currentIndex ^ 1];
+    currentIndex >>= 1;
   }
 
   return proof;
@@ -90,24 +144,42 @@ export function verifyProof(proof: Hex[], root: Hex, leaf: Hex): boolean {
 }
 
 /**
- * Build a complete merkle tree from allocations
+ * Build a complete merkle tree from allocations using the given build spec
+ * Allocations keep their input order; only the tree layout depends on the spec
  */
-export function buildTree(allocations: Allocation[]): {
+export function buildTree(allocations: Allocation[], spec: BuildSpec = BUILD_SPEC): {
+  root: Hex;
+  allocations: AllocationWithProof[];
+} {
+  switch (spec.version) {
+    case '1.0.0':
+      return buildPaddedTree(allocations);
+    case '2.0.0':
+      return buildStandardTree(allocations);
+  }
+}
+
+/**
+ * BuildSpec 1.0.0: encodePacked leaves in input order, padded to a power of 2
+ */
+function buildPaddedTree(allocations: Allocation[]): {
   root: Hex;
   allocations: AllocationWithProof[];
 } {
   // Generate leaves for all allocations
   const leaves = allocations.map((alloc) => getLeaf(alloc.beneficiary, alloc.amount));
 
-  // Compute root
-  const root = getRoot(leaves);
+  // Hash every layer once; each proof is then a walk up the cached layers,
+  // so building is O(n log n) instead of rebuilding the tree per leaf
+  const layers = getLayers(leaves);
+  const root = layers[layers.length - 1][0];
 
   // Generate proofs for each allocation
   const allocationsWithProof: AllocationWithProof[] = allocations.map((alloc, index) => ({
     beneficiary: alloc.beneficiary,
     amount: alloc.amount,
     leaf: leaves[index],
-    proof: getProof(leaves, index),
+    proof: getProofFromLayers(layers, index),
   }));
 
   return {
@@ -116,6 +188,281 @@ export function buildTree(allocations: Allocation[]): {
   };
 }
 
+/**
+ * BuildSpec 2.0.0: StandardMerkleTree.of(values, ['address', 'uint256'])
+ */
+function buildStandardTree(allocations: Allocation[]): {
+  root: Hex;
+  allocations: AllocationWithProof[];
+} {
+  const { tree, leaves, treeIndices } = makeStandardTreeFromAllocations(allocations);
+
+  const allocationsWithProof: AllocationWithProof[] = allocations.map((alloc, index) => ({
+    beneficiary: alloc.beneficiary,
+    amount: alloc.amount,
+    leaf: leaves[index],
+    proof: getStandardProof(tree, treeIndices[index]),
+  }));
+
+  return {
+    root: tree[0],
+    allocations: allocationsWithProof,
+  };
+}
+
+/**
+ * Build a StandardMerkleTree heap array from leaves that are already sorted
+ * Leaves fill the end of the array in reverse order; node i has children 2i+1 and 2i+2,
+ * and tree[0] is the root. No padding: an n-leaf tree has exactly 2n-1 nodes.
+ */
+export function makeStandardTree(leaves: Hex[]): Hex[] {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build tree from empty leaves array');
+  }
+
+  const tree: Hex[] = new Array(2 * leaves.length - 1);
+
+  leaves.forEach((leaf, i) => {
+    tree[tree.length - 1 - i] = leaf;
+  });
+
+  for (let i = tree.length - 1 - leaves.length; i >= 0; i--) {
+    tree[i] = hashPair(tree[2 * i + 1], tree[2 * i + 2]);
+  }
+
+  return tree;
+}
+
+/**
+ * Get the proof for the node at a heap-array index (see makeStandardTree)
+ */
+export function getStandardProof(tree: Hex[], treeIndex: number): Hex[] {
+  if (treeIndex < 0 || treeIndex >= tree.length) {
+    throw new Error(`Tree index ${treeIndex} out of bounds for tree of length ${tree.length}`);
+  }
+
+  const proof: Hex[] = [];
+
+  let index = treeIndex;
+  while (index > 0) {
+    // Left children have odd indices, so their sibling is to the right
+    proof.push(tree[index % 2 === 1 ? index + 1 : index - 1]);
+    index = (index - 1) >> 1;
+  }
+
+  return proof;
+}
+
+/**
+ * Hash and sort allocation leaves and lay them out as a StandardMerkleTree
+ * @returns The heap array, each allocation's leaf, and each allocation's tree index
+ */
+function makeStandardTreeFromAllocations(allocations: Allocation[]): {
+  tree: Hex[];
+  leaves: Hex[];
+  treeIndices: number[];
+} {
+  const leaves = allocations.map((alloc) => getStandardLeaf(alloc.beneficiary, alloc.amount));
+
+  // Leaves are ordered by hash (StandardMerkleTree's default sortLeaves)
+  const order = leaves.map((_, index) => index).sort((a, b) => (leaves[a] < leaves[b] ? -1 : leaves[a] > leaves[b] ? 1 : 0));
+  const tree = makeStandardTree(order.map((index) => leaves[index]));
+
+  const treeIndices: number[] = new Array(allocations.length);
+  order.forEach((valueIndex, leafIndex) => {
+    treeIndices[valueIndex] = tree.length - 1 - leafIndex;
+  });
+
+  return { tree, leaves, treeIndices };
+}
+
+/**
+ * Produce the `@openzeppelin/merkle-tree` JSON dump of a BuildSpec 2.0.0 tree
+ * The result can be loaded with `StandardMerkleTree.load(dump)`
+ * @throws Error if the tree was built with a different spec
+ */
+export function toStandardMerkleTreeDump(tree: Pick<MerkleTree, 'allocations' | 'buildSpec'>): StandardMerkleTreeDump {
+  if (tree.buildSpec.version !== '2.0.0') {
+    throw new Error(
+      `StandardMerkleTree dumps require build spec 2.0.0, but the tree uses ${tree.buildSpec.version}`
+    );
+  }
+
+  const { tree: nodes, treeIndices } = makeStandardTreeFromAllocations(tree.allocations);
+
+  return {
+    format: 'standard-v1',
+    leafEncoding: ['address', 'uint256'],
+    tree: nodes,
+    values: tree.allocations.map((alloc, index) => ({
+      value: [alloc.beneficiary, alloc.amount],
+      treeIndex: treeIndices[index],
+    })),
+  };
+}
+
+/**
+ * Build a multiproof for leaves of a heap-array tree (see makeStandardTree)
+ * Follows `@openzeppelin/merkle-tree`'s getMultiProof: leaves are returned deepest first,
+ * which is the order MerkleProof.multiProofVerify consumes them in
+ */
+export function getMultiProof(tree: Hex[], treeIndices: number[]): Multiproof {
+  for (const index of treeIndices) {
+    if (!Number.isInteger(index) || index < 0 || index >= tree.length || 2 * index + 1 < tree.length) {
+      throw new Error(`Tree index ${index} is not a leaf of tree of length ${tree.length}`);
+    }
+  }
+
+  const indices = [...treeIndices].sort((a, b) => b - a);
+  if (indices.some((index, i) => i > 0 && index === indices[i - 1])) {
+    throw new Error('Cannot build a multiproof with duplicate leaves');
+  }
+
+  // Queue of nodes whose parents are still to be hashed; parents always sort after children
+  const queue = [...indices];
+  let head = 0;
+  const proof: Hex[] = [];
+  const proofFlags: boolean[] = [];
+
+  while (head < queue.length && queue[head] > 0) {
+    const index = queue[head++];
+    const sibling = index % 2 === 1 ? index + 1 : index - 1;
+
+    if (queue[head] === sibling) {
+      // Sibling is known to the verifier: hash the two queued nodes together
+      proofFlags.push(true);
+      head++;
+    } else {
+      proofFlags.push(false);
+      proof.push(tree[sibling]);
+    }
+
+    queue.push((index - 1) >> 1);
+  }
+
+  if (indices.length === 0) {
+    proof.push(tree[0]);
+  }
+
+  return {
+    leaves: indices.map((index) => tree[index]),
+    proof,
+    proofFlags,
+  };
+}
+
+// Heap arrays built for multiproofs, keyed by build spec and root; sized by node count so a few
+// large trees cannot pin unbounded memory
+const heapTrees = new LRUCache<string, { nodes: Hex[]; treeIndices: number[] }>({
+  maxSize: 4_000_000,
+  sizeCalculation: (heap) => heap.nodes.length,
+});
+
+/**
+ * Build a multiproof for a subset of a tree's allocations under its build spec
+ * The tree's heap array is cached by root, so repeated multiproofs for one tree hash it once.
+ * @param allocationIndices Indices into tree.allocations
+ * @returns The multiproof and the allocations matching its leaves, in leaf order
+ */
+export function getAllocationsMultiProof(
+  tree: Pick<MerkleTree, 'root' | 'allocations' | 'buildSpec'>,
+  allocationIndices: number[]
+): { multiproof: Multiproof; allocations: Allocation[] } {
+  const cacheKey = `${tree.buildSpec.version}:${tree.root}`;
+  let heap = heapTrees.get(cacheKey);
+
+  if (!heap || heap.treeIndices.length !== tree.allocations.length) {
+    switch (tree.buildSpec.version) {
+      case '1.0.0': {
+        // The padded tree is perfect, so its layers read root-first form a heap array
+        const layers = getLayers(tree.allocations.map((alloc) => alloc.leaf));
+        const nodes = layers.reverse().flat();
+        const leafStart = nodes.length - layers[layers.length - 1].length;
+        heap = { nodes, treeIndices: tree.allocations.map((_, index) => leafStart + index) };
+        break;
+      }
+      case '2.0.0': {
+        const { tree: nodes, treeIndices } = makeStandardTreeFromAllocations(tree.allocations);
+        heap = { nodes, treeIndices };
+        break;
+      }
+    }
+    heapTrees.set(cacheKey, heap);
+  }
+
+  const { nodes, treeIndices } = heap;
+
+  for (const index of allocationIndices) {
+    if (!Number.isInteger(index) || index < 0 || index >= tree.allocations.length) {
+      throw new Error(`Allocation index ${index} out of bounds for tree of ${tree.allocations.length} allocations`);
+    }
+  }
+
+  const multiproof = getMultiProof(nodes, allocationIndices.map((index) => treeIndices[index]));
+
+  // getMultiProof orders leaves by descending tree index; order the values the same way
+  const ordered = [...allocationIndices].sort((a, b) => treeIndices[b] - treeIndices[a]);
+
+  return {
+    multiproof,
+    allocations: ordered.map((index) => ({
+      beneficiary: tree.allocations[index].beneficiary,
+      amount: tree.allocations[index].amount,
+    })),
+  };
+}
+
+/**
+ * Compute the root implied by a multiproof, with MerkleProof.processMultiProof semantics
+ * @throws Error if the multiproof is malformed
+ */
+export function processMultiProof({ leaves, proof, proofFlags }: Multiproof): Hex {
+  if (leaves.length + proof.length !== proofFlags.length + 1) {
+    throw new Error('Invalid multiproof: leaves and proof must have one more element than proofFlags');
+  }
+
+  // Leaves are consumed first, then the hashes computed along the way
+  const queue = [...leaves];
+  let head = 0;
+  let proofPos = 0;
+
+  const next = (): Hex => {
+    if (head >= queue.length) {
+      throw new Error('Invalid multiproof: ran out of leaves and hashes');
+    }
+    return queue[head++];
+  };
+
+  for (const flag of proofFlags) {
+    const a = next();
+    if (!flag && proofPos >= proof.length) {
+      throw new Error('Invalid multiproof: ran out of proof elements');
+    }
+    const b = flag ? next() : proof[proofPos++];
+    queue.push(hashPair(a, b));
+  }
+
+  if (proofFlags.length > 0) {
+    if (proofPos !== proof.length) {
+      throw new Error('Invalid multiproof: not every proof element was used');
+    }
+    return queue[queue.length - 1];
+  }
+
+  return leaves.length > 0 ? leaves[0] : proof[0];
+}
+
+/**
+ * Verify a multiproof against a root
+ */
+export function verifyMultiProof(multiproof: Multiproof, root: Hex): boolean {
+  try {
+    return processMultiProof(multiproof).toLowerCase() === root.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Pad an array of leaves to the next power of 2 by duplicating the last leaf
  */
@@ -1,6 +1,6 @@
 import type { Hex } from 'viem';
-import { getLeaf } from './merkle';
-import { verifyProof } from './merkle';
+import { getLeafForSpec, verifyProof } from './merkle';
+import { getBuildSpec } from './canonicalize';
 import type {
   MerkleTree,
   ProofPackage,
@@ -205,11 +205,19 @@ export function validateProofPackage(pkg: unknown): ProofPackageValidation {
 
 /**
  * Verify a proof package against a merkle root
- * This recomputes the leaf from beneficiary + amount and verifies the proof
+ * This recomputes the leaf from beneficiary + amount under the package's build spec
+ * and verifies the proof
  */
 export function verifyProofPackageAgainstRoot(pkg: ProofPackage, root: Hex): boolean {
+  let spec;
+  try {
+    spec = getBuildSpec(pkg.buildSpec?.version);
+  } catch {
+    return false;
+  }
+
   // Recompute the leaf from beneficiary and amount
-  const computedLeaf = getLeaf(pkg.beneficiary, pkg.amount);
+  const computedLeaf = getLeafForSpec(pkg.beneficiary, pkg.amount, spec);
 
   // Verify the proof using the computed leaf
   return verifyProof(pkg.proof, root, computedLeaf);
@@ -1,8 +1,9 @@
-import type { MerkleTree, Allocation, VestingParams, PlatformFeeParams } from '../types';
+import type { MerkleTree, Allocation, BuildSpec, VestingParams, PlatformFeeParams } from '../types';
 import type { Hex } from 'viem';
 import { v4 as uuidv4 } from 'uuid';
 import { buildTree } from './merkle';
-import { canonicalizeAllocations, computeInputHash, BUILD_SPEC } from './canonicalize';
+import { canonicalizeAllocations, computeInputHash, getBuildSpec, BUILD_SPEC } from './canonicalize';
+import { runTreeWorkerTask, WORKER_THRESHOLD } from './workers';
 
 /**
  * Input for rebuilding a merkle tree
@@ -12,6 +13,7 @@ export interface RebuildInput {
   token?: Hex;
   vesting?: VestingParams;
   platformFee?: PlatformFeeParams;
+  buildSpec?: BuildSpec; // Defaults to BUILD_SPEC
 }
 
 /**
@@ -26,11 +28,11 @@ export interface RebuildResult {
  * Rebuild a merkle tree from allocations
  * This function canonicalizes the input and builds a complete MerkleTree object
  *
- * @param input - Allocations and optional token/vesting parameters
+ * @param input - Allocations, optional token/vesting parameters and the build spec to use
  * @returns Complete MerkleTree with buildSpec, originalInput, and inputHash
  */
 export function rebuildTree(input: RebuildInput): MerkleTree {
-  const { allocations, token, vesting, platformFee } = input;
+  const { allocations, token, vesting, platformFee, buildSpec = BUILD_SPEC } = input;
 
   // Canonicalize allocations (normalize and sort)
   const canonicalAllocations = canonicalizeAllocations(allocations);
@@ -39,7 +41,7 @@ export function rebuildTree(input: RebuildInput): MerkleTree {
   const inputHash = computeInputHash(canonicalAllocations, token, vesting, platformFee);
 
   // Build the merkle tree with canonicalized allocations
-  const { root, allocations: allocationsWithProof } = buildTree(canonicalAllocations);
+  const { root, allocations: allocationsWithProof } = buildTree(canonicalAllocations, buildSpec);
 
   // Create the complete tree object with a new unique ID
   const tree: MerkleTree = {
@@ -50,7 +52,7 @@ export function rebuildTree(input: RebuildInput): MerkleTree {
     allocations: allocationsWithProof,
     vesting,
     platformFee,
-    buildSpec: BUILD_SPEC,
+    buildSpec,
     originalInput: {
       allocations,
       token,
@@ -63,14 +65,39 @@ export function rebuildTree(input: RebuildInput): MerkleTree {
   return tree;
 }
 
+/**
+ * Rebuild a merkle tree without blocking the event loop
+ * Large inputs are built by rebuildTree in a worker thread (see runTreeWorkerTask), so other
+ * requests keep being served during a build that takes seconds.
+ *
+ * @param input - Same as rebuildTree
+ * @param inlineBelow - Allocation count below which the tree is built on the calling thread
+ * @throws Error if the build fails, with rebuildTree's message (e.g., duplicate beneficiaries)
+ */
+export async function rebuildTreeInWorker(
+  input: RebuildInput,
+  inlineBelow: number = WORKER_THRESHOLD
+): Promise<MerkleTree> {
+  if (input.allocations.length < inlineBelow) {
+    return rebuildTree(input);
+  }
+
+  return runTreeWorkerTask({ task: 'rebuild', input });
+}
+
 /**
  * Verify that a rebuilt tree matches the original
  *
  * @param original - The original tree
  * @param rebuilt - The rebuilt tree to verify
- * @returns true if roots, inputHash, and all proofs match
+ * @returns true if build specs, roots, inputHash, and all proofs match
  */
 export function verifyRebuild(original: MerkleTree, rebuilt: MerkleTree): boolean {
+  // Trees built with different specs never share roots or proofs
+  if (original.buildSpec.version !== rebuilt.buildSpec.version) {
+    return false;
+  }
+
   // Check roots match
   if (original.root !== rebuilt.root) {
     return false;
@@ -123,17 +150,18 @@ export function verifyRebuild(original: MerkleTree, rebuilt: MerkleTree): boolea
  * @returns RebuildResult with the rebuilt tree and verification status
  * @throws Error if tree has no originalInput
  */
-export function rebuildFromStoredInput(tree: MerkleTree): RebuildResult {
+export async function rebuildFromStoredInput(tree: MerkleTree): Promise<RebuildResult> {
   if (!tree.originalInput) {
     throw new Error('No stored input found in tree - cannot rebuild');
   }
 
-  // Rebuild the tree from stored input
-  const rebuilt = rebuildTree({
+  // Rebuild the tree from stored input with the spec it was originally built with
+  const rebuilt = await rebuildTreeInWorker({
     allocations: tree.originalInput.allocations,
     token: tree.originalInput.token,
     vesting: tree.originalInput.vesting,
     platformFee: tree.originalInput.platformFee,
+    buildSpec: getBuildSpec(tree.buildSpec.version),
   });
 
   // Verify the rebuild matches the original
@@ -0,0 +1,168 @@
+import type { ReconcileRun, ReconcileStatus, StorageBackend } from '../types';
+import { SYSTEM_ACTOR, type AuditLog } from './audit';
+import { ReplicatedStorage } from './storage';
+
+/**
+ * Minutes between scheduled reconciliation runs
+ */
+export const DEFAULT_RECONCILE_INTERVAL_MINUTES = 60;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Load the reconciliation interval from RECONCILE_INTERVAL_MINUTES
+ * @returns The interval in milliseconds, or null when set to 0 (no scheduled runs)
+ * @throws Error if the value is not a non-negative integer
+ */
+export function loadReconcileIntervalMs(env: Record<string, string | undefined> = process.env): number | null {
+  const raw = env.RECONCILE_INTERVAL_MINUTES;
+  if (raw === undefined || raw === '') {
+    return DEFAULT_RECONCILE_INTERVAL_MINUTES * MINUTE_MS;
+  }
+
+  const minutes = Number(raw);
+  if (!Number.isInteger(minutes) || minutes < 0) {
+    throw new Error(`Invalid RECONCILE_INTERVAL_MINUTES: ${raw} (expected a non-negative integer)`);
+  }
+  return minutes === 0 ? null : minutes * MINUTE_MS;
+}
+
+/**
+ * Runs ReplicatedStorage.reconcile() on demand or on a schedule and remembers the last run
+ */
+export interface Reconciler {
+  readonly replicated: boolean;
+  // Concurrent calls share the run in progress, audited under the actor that started it
+  run(actor?: string): Promise<ReconcileRun>;
+  status(): ReconcileStatus;
+  // The timer does not keep the process alive on its own
+  start(intervalMs: number): void;
+  stop(): void;
+}
+
+/**
+ * Create the reconciler for a storage backend
+ * Storage without replicas has nothing to reconcile; run() then throws.
+ * With an audit log, every tree a run repaired gets a `reconcile` entry.
+ */
+export function createReconciler(storage: StorageBackend, audit?: AuditLog): Reconciler {
+  const replicated = storage instanceof ReplicatedStorage;
+  let lastRun: ReconcileRun | null = null;
+  let inFlight: Promise<ReconcileRun> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let intervalMs: number | null = null;
+  let nextRunAt: Date | null = null;
+
+  async function reconcile(actor: string): Promise<ReconcileRun> {
+    if (!(storage instanceof ReplicatedStorage)) {
+      throw new Error('Storage has no replicas to reconcile');
+    }
+
+    const startedAt = new Date();
+    let result: Pick<ReconcileRun, 'synced' | 'errors' | 'backends'>;
+    try {
+      result = await storage.reconcile();
+    } catch (error) {
+      result = {
+        synced: 0,
+        errors: [`Reconciliation failed: ${error instanceof Error ? error.message : 'Unknown error'}`],
+        backends: [],
+      };
+    }
+
+    const finishedAt = new Date();
+    lastRun = {
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      ...result,
+    };
+
+    if (audit) {
+      await recordRepairs(audit, actor, lastRun);
+    }
+    return lastRun;
+  }
+
+  const reconciler: Reconciler = {
+    replicated,
+
+    run(actor = SYSTEM_ACTOR) {
+      inFlight ??= reconcile(actor).finally(() => {
+        inFlight = null;
+      });
+      return inFlight;
+    },
+
+    status() {
+      return {
+        replicated,
+        running: inFlight !== null,
+        intervalMs,
+        ...(nextRunAt && { nextRunAt: nextRunAt.toISOString() }),
+        lastRun,
+      };
+    },
+
+    start(ms) {
+      reconciler.stop();
+      intervalMs = ms;
+      nextRunAt = new Date(Date.now() + ms);
+
+      timer = setInterval(async () => {
+        nextRunAt = new Date(Date.now() + ms);
+        try {
+          const run = await reconciler.run();
+          if (run.synced > 0) {
+            console.log(`Reconciliation synced ${run.synced} tree copy(ies)`);
+          }
+          for (const error of run.errors) {
+            console.warn(error);
+          }
+        } catch (error) {
+          console.warn('Reconciliation job failed:', error instanceof Error ? error.message : 'Unknown error');
+        }
+      }, ms);
+      timer.unref?.();
+    },
+
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+      }
+      timer = null;
+      intervalMs = null;
+      nextRunAt = null;
+    },
+  };
+
+  return reconciler;
+}
+
+/**
+ * Append one `reconcile` entry per repaired tree, naming the backends whose copy was repaired
+ * A failed append is logged; the repairs have already happened.
+ */
+async function recordRepairs(audit: AuditLog, actor: string, run: ReconcileRun): Promise<void> {
+  const repairs = new Map<string, string[]>();
+  for (const backend of run.backends) {
+    for (const treeId of backend.repaired) {
+      repairs.set(treeId, [...(repairs.get(treeId) ?? []), backend.backend]);
+    }
+  }
+
+  for (const [treeId, backends] of repairs) {
+    try {
+      await audit.append({
+        actor,
+        action: 'reconcile',
+        treeId,
+        result: 'success',
+        status: 200,
+        details: { backends: backends.join(',') },
+      });
+    } catch (error) {
+      console.error('Failed to record audit entry for reconcile:', error);
+    }
+  }
+}
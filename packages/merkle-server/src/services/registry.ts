@@ -1,4 +1,16 @@
-import type { Hex } from 'viem';
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  createWalletClient,
+  http,
+  isAddress,
+  isHex,
+  verifyTypedData,
+  type Hex,
+  type LocalAccount,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
 
 /**
  * Registry entry stored on-chain
@@ -36,9 +48,19 @@ export interface RegistrationAuthorization {
  * Registry client interface for on-chain interactions
  */
 export interface RegistryClient {
-  register(entry: Omit<RegistryEntry, 'registeredAt' | 'registrant'>): Promise<{ txHash: Hex }>;
+  /**
+   * Register an entry. Without an authorization, the client signs one with its owner key.
+   */
+  register(
+    entry: Omit<RegistryEntry, 'registeredAt' | 'registrant'>,
+    authorization?: RegistrationAuthorization
+  ): Promise<{ txHash: Hex }>;
   lookup(key: RegistryKey): Promise<RegistryEntry | null>;
   lookupByCid(cid: string): Promise<RegistryEntry[]>;
+  /**
+   * Check that the RPC endpoint answers and the registry contract is deployed
+   */
+  health(): Promise<{ healthy: boolean; error?: string }>;
 }
 
 /**
@@ -88,3 +110,342 @@ export function parseRegistryKey(key: string): RegistryKey {
     merkleRoot: merkleRoot as Hex,
   };
 }
+
+const registryEntryComponents = [
+  { name: 'chainId', type: 'uint256' },
+  { name: 'distributor', type: 'address' },
+  { name: 'merkleRoot', type: 'bytes32' },
+  { name: 'ipfsCid', type: 'string' },
+  { name: 'registeredAt', type: 'uint64' },
+  { name: 'registrant', type: 'address' },
+] as const;
+
+/**
+ * ABI of MerkleTreeRegistry (packages/contracts/src/MerkleTreeRegistry.sol)
+ */
+export const REGISTRY_ABI = [
+  {
+    type: 'function',
+    name: 'register',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'chainId', type: 'uint256' },
+      { name: 'distributor', type: 'address' },
+      { name: 'merkleRoot', type: 'bytes32' },
+      { name: 'ipfsCid', type: 'string' },
+      { name: 'deadline', type: 'uint256' },
+      { name: 'signature', type: 'bytes' },
+    ],
+    outputs: [{ name: 'key', type: 'bytes32' }],
+  },
+  {
+    type: 'function',
+    name: 'lookup',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'chainId', type: 'uint256' },
+      { name: 'distributor', type: 'address' },
+      { name: 'merkleRoot', type: 'bytes32' },
+    ],
+    outputs: [{ name: 'entry', type: 'tuple', components: registryEntryComponents }],
+  },
+  {
+    type: 'function',
+    name: 'lookupByCid',
+    stateMutability: 'view',
+    inputs: [{ name: 'ipfsCid', type: 'string' }],
+    outputs: [{ name: 'entries', type: 'tuple[]', components: registryEntryComponents }],
+  },
+  {
+    type: 'function',
+    name: 'owner',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  { type: 'error', name: 'ZeroAddress', inputs: [] },
+  { type: 'error', name: 'ZeroMerkleRoot', inputs: [] },
+  { type: 'error', name: 'EmptyCid', inputs: [] },
+  { type: 'error', name: 'AuthorizationExpired', inputs: [] },
+  { type: 'error', name: 'InvalidAuthorization', inputs: [] },
+  { type: 'error', name: 'AlreadyRegistered', inputs: [{ name: 'key', type: 'bytes32' }] },
+] as const;
+
+/**
+ * EIP-712 domain of a deployed registry
+ */
+export interface RegistryDomain {
+  chainId: number; // Chain the registry is deployed on
+  verifyingContract: Hex;
+}
+
+const REGISTRATION_TYPES = {
+  Registration: [
+    { name: 'chainId', type: 'uint256' },
+    { name: 'distributor', type: 'address' },
+    { name: 'merkleRoot', type: 'bytes32' },
+    { name: 'ipfsCid', type: 'string' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+type RegistrationEntry = Omit<RegistryEntry, 'registeredAt' | 'registrant'>;
+
+function registrationTypedData(domain: RegistryDomain, entry: RegistrationEntry, deadline: number) {
+  return {
+    domain: { name: 'MerkleTreeRegistry', version: '1', ...domain },
+    types: REGISTRATION_TYPES,
+    primaryType: 'Registration' as const,
+    message: {
+      chainId: BigInt(entry.chainId),
+      distributor: entry.distributorAddress,
+      merkleRoot: entry.merkleRoot,
+      ipfsCid: entry.ipfsCid,
+      deadline: BigInt(deadline),
+    },
+  };
+}
+
+/**
+ * Sign an EIP-712 registration authorization as the registry owner
+ * @param deadline - Unix timestamp after which the registry rejects the authorization
+ */
+export async function signRegistrationAuthorization(
+  owner: LocalAccount,
+  domain: RegistryDomain,
+  entry: RegistrationEntry,
+  deadline: number
+): Promise<RegistrationAuthorization> {
+  const signature = await owner.signTypedData(registrationTypedData(domain, entry, deadline));
+
+  return {
+    owner: owner.address,
+    merkleRoot: entry.merkleRoot,
+    ipfsCid: entry.ipfsCid,
+    deadline,
+    signature,
+  };
+}
+
+/**
+ * Verify that an authorization was signed by its owner for exactly this entry
+ * and has not expired. Whether that owner controls the registry is checked on-chain.
+ */
+export async function verifyRegistrationAuthorization(
+  domain: RegistryDomain,
+  entry: RegistrationEntry,
+  authorization: RegistrationAuthorization,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<boolean> {
+  if (
+    authorization.merkleRoot.toLowerCase() !== entry.merkleRoot.toLowerCase() ||
+    authorization.ipfsCid !== entry.ipfsCid ||
+    authorization.deadline < now
+  ) {
+    return false;
+  }
+
+  try {
+    return await verifyTypedData({
+      address: authorization.owner,
+      ...registrationTypedData(domain, entry, authorization.deadline),
+      signature: authorization.signature,
+    });
+  } catch {
+    // Malformed signatures throw instead of returning false
+    return false;
+  }
+}
+
+/**
+ * Configuration for the on-chain registry client
+ */
+export interface RegistryClientConfig {
+  rpcUrl: string;
+  registryAddress: Hex;
+  privateKey?: Hex; // Account that submits registrations (pays gas)
+  ownerPrivateKey?: Hex; // Registry owner key for signing authorizations; defaults to privateKey
+  authorizationTtlSeconds?: number;
+}
+
+const DEFAULT_AUTHORIZATION_TTL_SECONDS = 3600;
+
+/**
+ * Create a registry client for a deployed MerkleTreeRegistry
+ *
+ * Lookups only need an RPC URL. Registering needs a submitting account, plus either the
+ * owner key or a pre-signed authorization from the owner.
+ */
+export function createRegistryClient(config: RegistryClientConfig): RegistryClient {
+  const transport = http(config.rpcUrl);
+  const publicClient = createPublicClient({ transport });
+  const account = config.privateKey ? privateKeyToAccount(config.privateKey) : undefined;
+  const ownerKey = config.ownerPrivateKey ?? config.privateKey;
+  const ownerAccount = ownerKey ? privateKeyToAccount(ownerKey) : undefined;
+  const walletClient = account ? createWalletClient({ account, transport }) : undefined;
+  const ttl = config.authorizationTtlSeconds ?? DEFAULT_AUTHORIZATION_TTL_SECONDS;
+  const contract = { address: config.registryAddress, abi: REGISTRY_ABI } as const;
+
+  let domain: RegistryDomain | undefined;
+  async function getDomain(): Promise<RegistryDomain> {
+    domain ??= { chainId: await publicClient.getChainId(), verifyingContract: config.registryAddress };
+    return domain;
+  }
+
+  return {
+    async register(entry, authorization) {
+      if (!account || !walletClient) {
+        throw new Error('Registry client has no account configured for transactions');
+      }
+
+      const registryDomain = await getDomain();
+
+      if (!authorization) {
+        if (!ownerAccount) {
+          throw new Error('Registration requires an owner authorization or a configured owner key');
+        }
+        const deadline = Math.floor(Date.now() / 1000) + ttl;
+        authorization = await signRegistrationAuthorization(ownerAccount, registryDomain, entry, deadline);
+      } else if (!(await verifyRegistrationAuthorization(registryDomain, entry, authorization))) {
+        throw new Error('Invalid registration authorization: signature, fields or deadline do not match');
+      }
+
+      const owner = await publicClient.readContract({ ...contract, functionName: 'owner' });
+      if (owner.toLowerCase() !== authorization.owner.toLowerCase()) {
+        throw new Error(`Registration authorization signed by ${authorization.owner}, but registry owner is ${owner}`);
+      }
+
+      try {
+        // Simulate first so reverts surface with their decoded error name
+        const { request } = await publicClient.simulateContract({
+          ...contract,
+          account,
+          functionName: 'register',
+          args: [
+            BigInt(entry.chainId),
+            entry.distributorAddress,
+            entry.merkleRoot,
+            entry.ipfsCid,
+            BigInt(authorization.deadline),
+            authorization.signature,
+          ],
+        });
+        const txHash = await walletClient.writeContract({ ...request, chain: null });
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+
+        if (receipt.status !== 'success') {
+          throw new Error(`transaction ${txHash} reverted`);
+        }
+
+        return { txHash };
+      } catch (error) {
+        throw new Error(`Registry register failed: ${describeContractError(error)}`);
+      }
+    },
+
+    async lookup(key) {
+      const entry = await publicClient.readContract({
+        ...contract,
+        functionName: 'lookup',
+        args: [BigInt(key.chainId), key.distributorAddress, key.merkleRoot],
+      });
+
+      // Unknown keys come back as a zeroed struct
+      return entry.registeredAt === 0n ? null : toRegistryEntry(entry);
+    },
+
+    async lookupByCid(cid) {
+      const entries = await publicClient.readContract({
+        ...contract,
+        functionName: 'lookupByCid',
+        args: [cid],
+      });
+
+      return entries.map(toRegistryEntry);
+    },
+
+    async health() {
+      let code: Hex | undefined;
+      try {
+        code = await publicClient.getCode({ address: config.registryAddress });
+      } catch (error) {
+        // shortMessage leaves out the RPC URL, which may embed a provider API key
+        return { healthy: false, error: `Registry RPC request failed: ${describeContractError(error)}` };
+      }
+
+      if (!code || code === '0x') {
+        return { healthy: false, error: `No contract deployed at registry address ${config.registryAddress}` };
+      }
+      return { healthy: true };
+    },
+  };
+}
+
+/**
+ * Create a registry client from the environment, or null when no registry is configured
+ *
+ * - REGISTRY_CONTRACT_ADDRESS: MerkleTreeRegistry contract address (enables the registry)
+ * - REGISTRY_RPC_URL: JSON-RPC endpoint of the chain the registry is deployed on
+ * - REGISTRY_PRIVATE_KEY: account that submits registrations
+ * - REGISTRY_OWNER_PRIVATE_KEY: registry owner key (defaults to REGISTRY_PRIVATE_KEY)
+ */
+export function createRegistryClientFromEnv(
+  env: Record<string, string | undefined> = process.env
+): RegistryClient | null {
+  const { REGISTRY_CONTRACT_ADDRESS, REGISTRY_RPC_URL, REGISTRY_PRIVATE_KEY, REGISTRY_OWNER_PRIVATE_KEY } = env;
+
+  if (!REGISTRY_CONTRACT_ADDRESS) {
+    return null;
+  }
+
+  if (!isAddress(REGISTRY_CONTRACT_ADDRESS)) {
+    throw new Error(`Invalid registry config: REGISTRY_CONTRACT_ADDRESS is not an address: ${REGISTRY_CONTRACT_ADDRESS}`);
+  }
+  if (!REGISTRY_RPC_URL) {
+    throw new Error('Invalid registry config: REGISTRY_RPC_URL is required when REGISTRY_CONTRACT_ADDRESS is set');
+  }
+  for (const [name, value] of Object.entries({ REGISTRY_PRIVATE_KEY, REGISTRY_OWNER_PRIVATE_KEY })) {
+    if (value !== undefined && !(isHex(value) && value.length === 66)) {
+      throw new Error(`Invalid registry config: ${name} must be a 32-byte hex string`);
+    }
+  }
+
+  return createRegistryClient({
+    rpcUrl: REGISTRY_RPC_URL,
+    registryAddress: REGISTRY_CONTRACT_ADDRESS,
+    privateKey: REGISTRY_PRIVATE_KEY as Hex | undefined,
+    ownerPrivateKey: REGISTRY_OWNER_PRIVATE_KEY as Hex | undefined,
+  });
+}
+
+function toRegistryEntry(entry: {
+  chainId: bigint;
+  distributor: Hex;
+  merkleRoot: Hex;
+  ipfsCid: string;
+  registeredAt: bigint;
+  registrant: Hex;
+}): RegistryEntry {
+  return {
+    chainId: Number(entry.chainId),
+    distributorAddress: entry.distributor,
+    merkleRoot: entry.merkleRoot,
+    ipfsCid: entry.ipfsCid,
+    registeredAt: Number(entry.registeredAt),
+    registrant: entry.registrant,
+  };
+}
+
+/**
+ * Reduce a viem error to the contract error name when the call reverted
+ */
+function describeContractError(error: unknown): string {
+  if (error instanceof BaseError) {
+    const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (revert instanceof ContractFunctionRevertedError && revert.data?.errorName) {
+      return revert.data.errorName;
+    }
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
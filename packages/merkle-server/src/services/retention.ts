@@ -0,0 +1,156 @@
+import type { MerkleTree, StorageBackend, Tombstone } from '../types';
+import { SYSTEM_ACTOR, type AuditLog } from './audit';
+import type { RegistryClient } from './registry';
+import { WriteQuorumError } from './storage';
+
+/**
+ * Days a soft-deleted tree stays restorable before the purge job may hard-delete it
+ */
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Load the deletion retention period from DELETION_RETENTION_DAYS
+ * @throws Error if the value is not a non-negative integer
+ */
+export function loadRetentionDays(env: Record<string, string | undefined> = process.env): number {
+  const raw = env.DELETION_RETENTION_DAYS;
+  if (raw === undefined || raw === '') {
+    return DEFAULT_RETENTION_DAYS;
+  }
+
+  const days = Number(raw);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error(`Invalid DELETION_RETENTION_DAYS: ${raw} (expected a non-negative integer)`);
+  }
+  return days;
+}
+
+/**
+ * Create the tombstone for a tree deleted now
+ */
+export function createTombstone(retentionDays: number, now = new Date(), deletedBy?: string): Tombstone {
+  return {
+    deletedAt: now.toISOString(),
+    purgeAfter: new Date(now.getTime() + retentionDays * DAY_MS).toISOString(),
+    ...(deletedBy ? { deletedBy } : {}),
+  };
+}
+
+/**
+ * Whether a tree's root is known to be deployed on-chain
+ * Known means a backup was registered through this server, or the registry (when configured)
+ * has an entry for one of the tree's backup CIDs with the same root.
+ *
+ * @throws Error if the registry lookup fails
+ */
+export async function isTreeDeployed(tree: MerkleTree, registry: RegistryClient | null): Promise<boolean> {
+  const backups = tree.backups ?? [];
+
+  if (backups.some((backup) => backup.registryTxHash)) {
+    return true;
+  }
+
+  if (!registry) {
+    return false;
+  }
+
+  const root = tree.root.toLowerCase();
+  for (const backup of backups) {
+    const entries = await registry.lookupByCid(backup.cid);
+    if (entries.some((entry) => entry.merkleRoot.toLowerCase() === root)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Hard-delete every soft-deleted tree whose retention period has passed
+ * With an audit log, each purged tree gets a `purge` entry by the system actor. A purge that
+ * reached the primary but missed the replica write quorum still counts as purged: it is reported
+ * as an error and audited as a 503 failure with the number of backends that applied it.
+ */
+export async function purgeExpiredTrees(
+  storage: StorageBackend,
+  now = new Date(),
+  audit?: AuditLog
+): Promise<{ purged: string[]; errors: string[] }> {
+  const purged: string[] = [];
+  const errors: string[] = [];
+  const cutoff = now.toISOString();
+
+  for (const deleted of await storage.listDeleted()) {
+    if (deleted.tombstone.purgeAfter > cutoff) continue;
+
+    const details: Record<string, string> = {
+      deletedAt: deleted.tombstone.deletedAt,
+      purgeAfter: deleted.tombstone.purgeAfter,
+    };
+    let status = 200;
+    try {
+      if (!(await storage.purge(deleted.id))) continue;
+      purged.push(deleted.id);
+    } catch (error) {
+      errors.push(`Failed to purge tree ${deleted.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (!(error instanceof WriteQuorumError)) continue;
+
+      purged.push(deleted.id);
+      status = 503;
+      details.appliedBackends = String(error.applied + 1);
+      details.requiredBackends = String(error.required + 1);
+    }
+
+    try {
+      await audit?.append({
+        actor: SYSTEM_ACTOR,
+        action: 'purge',
+        treeId: deleted.id,
+        root: deleted.root,
+        result: status < 400 ? 'success' : 'failure',
+        status,
+        details,
+      });
+    } catch (error) {
+      console.error('Failed to record audit entry for purge:', error);
+    }
+  }
+
+  return { purged, errors };
+}
+
+/**
+ * Run purgeExpiredTrees on an interval until stopped
+ * The timer does not keep the process alive on its own.
+ */
+export function startPurgeJob(
+  storage: StorageBackend,
+  audit?: AuditLog,
+  intervalMs = DEFAULT_PURGE_INTERVAL_MS
+): { stop(): void } {
+  const run = async () => {
+    try {
+      const { purged, errors } = await purgeExpiredTrees(storage, new Date(), audit);
+      if (purged.length > 0) {
+        console.log(`Purged ${purged.length} deleted tree(s) past retention: ${purged.join(', ')}`);
+      }
+      for (const error of errors) {
+        console.warn(error);
+      }
+    } catch (error) {
+      console.warn('Purge job failed:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref?.();
+
+  return {
+    stop() {
+      clearInterval(timer);
+    },
+  };
+}
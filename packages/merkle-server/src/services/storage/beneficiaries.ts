@@ -0,0 +1,87 @@
+import type { BeneficiaryTreeEntry, MerkleTree } from '../../types';
+
+/**
+ * Build a tree's reverse index entries, keyed by lowercased beneficiary
+ */
+export function getBeneficiaryEntries(tree: MerkleTree): Map<string, BeneficiaryTreeEntry> {
+  const entries = new Map<string, BeneficiaryTreeEntry>();
+
+  for (const alloc of tree.allocations) {
+    const key = toBeneficiaryKey(alloc.beneficiary);
+    if (!key) continue;
+
+    entries.set(key, {
+      id: tree.id,
+      root: tree.root,
+      token: tree.token,
+      createdAt: tree.createdAt,
+      amount: alloc.amount,
+      vesting: tree.vesting,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Address-prefix directory an index key is filed under (its first byte in lowercase hex)
+ * Keeps per-address directories from piling up in a single directory on filesystems.
+ */
+export function toBeneficiaryShard(key: string): string {
+  return key.slice(2, 4);
+}
+
+/**
+ * Beneficiaries of `previous` that `tree` no longer includes (when a tree is saved again)
+ */
+export function getRemovedBeneficiaries(previous: MerkleTree | null, tree: MerkleTree): string[] {
+  if (!previous) {
+    return [];
+  }
+
+  const current = getBeneficiaryEntries(tree);
+  return Array.from(getBeneficiaryEntries(previous).keys()).filter((key) => !current.has(key));
+}
+
+/**
+ * Whether saving `tree` over `previous` leaves its reverse index entries as they are
+ * Allocations are fixed by the input hash and root, so only a changed tree is reindexed.
+ */
+export function isBeneficiaryIndexCurrent(previous: MerkleTree | null, tree: MerkleTree): boolean {
+  return previous !== null && previous.inputHash === tree.inputHash && previous.root === tree.root;
+}
+
+/**
+ * Run `fn` over `items`, at most `limit` at a time
+ */
+export async function forEachConcurrently<T>(
+  items: Iterable<T>,
+  limit: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  const queue = Array.from(items);
+  const workers = Array.from({ length: Math.min(limit, queue.length) }, async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) {
+      await fn(item);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * Order reverse index entries oldest first, breaking ties by tree ID
+ */
+export function sortBeneficiaryEntries(entries: BeneficiaryTreeEntry[]): BeneficiaryTreeEntry[] {
+  return entries.sort((a, b) =>
+    a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+  );
+}
+
+/**
+ * Lowercased index key for a beneficiary, or null if it is not an address
+ * (keys become file and object names, so anything else is rejected)
+ */
+export function toBeneficiaryKey(beneficiary: string): string | null {
+  const key = beneficiary.toLowerCase();
+  return /^0x[0-9a-f]{40}$/.test(key) ? key : null;
+}
@@ -0,0 +1,173 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { z } from 'zod';
+import type { StorageBackend } from '../../types';
+import { FilesystemBackend } from './filesystem';
+import { MemoryBackend } from './memory';
+import { ReplicatedStorage } from './replicated';
+import { FileReplicaOutbox } from './outbox';
+import { SqliteBackend } from './sqlite';
+import { S3Backend } from './s3';
+
+/**
+ * Default directory for the filesystem backend (packages/merkle-server/data/trees)
+ */
+export const DEFAULT_DATA_DIR = join(import.meta.dir, '../../../data/trees');
+
+/**
+ * Default database file for the SQLite backend
+ */
+export const DEFAULT_SQLITE_PATH = join(import.meta.dir, '../../../data/trees.sqlite');
+
+const backendConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('memory') }),
+  z.object({ type: z.literal('filesystem'), dataDir: z.string().min(1).default(DEFAULT_DATA_DIR) }),
+  z.object({ type: z.literal('sqlite'), path: z.string().min(1).default(DEFAULT_SQLITE_PATH) }),
+  z.object({
+    type: z.literal('s3'),
+    bucket: z.string().min(1),
+    prefix: z.string().optional(),
+    endpoint: z.string().url().optional(),
+    region: z.string().optional(),
+    accessKeyId: z.string().optional(),
+    secretAccessKey: z.string().optional(),
+  }),
+]);
+
+const storageConfigSchema = z
+  .object({
+    primary: backendConfigSchema,
+    replicas: z.array(backendConfigSchema).default([]),
+    // Replicas that must apply each write before it returns (0: primary only)
+    writeQuorum: z.number().int().min(0).optional(),
+    // Where failed replica writes wait for retry; defaults to DEFAULT_REPLICA_OUTBOX_PATH
+    outboxPath: z.string().min(1).optional(),
+  })
+  .refine((config) => (config.writeQuorum ?? 0) <= config.replicas.length, {
+    message: 'cannot exceed the number of replicas',
+    path: ['writeQuorum'],
+  });
+
+/**
+ * Configuration for a single storage backend
+ */
+export type BackendConfig = z.infer<typeof backendConfigSchema>;
+
+/**
+ * Storage topology: one primary plus optional replicas
+ */
+export type StorageConfig = z.infer<typeof storageConfigSchema>;
+
+/**
+ * Load the storage configuration from the environment
+ *
+ * - STORAGE_CONFIG: path to a JSON file `{ primary, replicas }` (takes precedence)
+ * - STORAGE_PRIMARY: backend spec, e.g. `memory`, `filesystem:/var/lib/trees`,
+ *   `sqlite:/var/lib/trees.db` or `s3:bucket/prefix/` (S3 credentials and endpoint
+ *   come from Bun's S3_* / AWS_* variables)
+ * - STORAGE_REPLICAS: comma-separated backend specs
+ * - STORAGE_WRITE_QUORUM: replicas that must apply each write, e.g. 1 for primary plus one replica
+ * - STORAGE_OUTBOX_PATH: file holding replica writes queued for retry
+ *
+ * Defaults to a single filesystem backend at DEFAULT_DATA_DIR.
+ */
+export function loadStorageConfig(env: Record<string, string | undefined> = process.env): StorageConfig {
+  if (env.STORAGE_CONFIG) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(env.STORAGE_CONFIG, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Failed to read storage config ${env.STORAGE_CONFIG}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    return parseStorageConfig(raw);
+  }
+
+  const replicaSpecs = (env.STORAGE_REPLICAS ?? '')
+    .split(',')
+    .map((spec) => spec.trim())
+    .filter((spec) => spec.length > 0);
+
+  return parseStorageConfig({
+    primary: parseBackendSpec(env.STORAGE_PRIMARY || 'filesystem'),
+    replicas: replicaSpecs.map(parseBackendSpec),
+    ...(env.STORAGE_WRITE_QUORUM && { writeQuorum: Number(env.STORAGE_WRITE_QUORUM) }),
+    ...(env.STORAGE_OUTBOX_PATH && { outboxPath: env.STORAGE_OUTBOX_PATH }),
+  });
+}
+
+/**
+ * Validate a storage configuration object
+ * @throws Error describing every invalid field
+ */
+export function parseStorageConfig(raw: unknown): StorageConfig {
+  const result = storageConfigSchema.safeParse(raw);
+
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'config'}: ${issue.message}`);
+    throw new Error(`Invalid storage config: ${issues.join('; ')}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Parse a `type[:argument]` backend spec such as `filesystem:/data/trees`
+ */
+export function parseBackendSpec(spec: string): Record<string, unknown> {
+  const separator = spec.indexOf(':');
+  const type = separator === -1 ? spec : spec.slice(0, separator);
+  const argument = separator === -1 ? undefined : spec.slice(separator + 1);
+
+  switch (type) {
+    case 'memory':
+      return { type };
+    case 'filesystem':
+      return argument ? { type, dataDir: argument } : { type };
+    case 'sqlite':
+      return argument ? { type, path: argument } : { type };
+    case 's3': {
+      const slash = argument?.indexOf('/') ?? -1;
+      return slash === -1
+        ? { type, bucket: argument }
+        : { type, bucket: argument!.slice(0, slash), prefix: argument!.slice(slash + 1) };
+    }
+    default:
+      throw new Error(`Unknown storage backend type: ${type}`);
+  }
+}
+
+/**
+ * Instantiate a single backend from its configuration
+ */
+export function createBackend(config: BackendConfig): StorageBackend {
+  switch (config.type) {
+    case 'memory':
+      return new MemoryBackend();
+    case 'filesystem':
+      return new FilesystemBackend(config.dataDir);
+    case 'sqlite':
+      return new SqliteBackend(config.path);
+    case 's3':
+      return new S3Backend(config);
+  }
+}
+
+/**
+ * Instantiate the configured storage
+ * Returns the primary directly when there are no replicas; otherwise replica writes that fail are
+ * queued in a file outbox
+ */
+export function createStorage(config: StorageConfig): StorageBackend {
+  const primary = createBackend(config.primary);
+
+  if (config.replicas.length === 0) {
+    return primary;
+  }
+
+  return new ReplicatedStorage(primary, config.replicas.map(createBackend), {
+    outbox: new FileReplicaOutbox(config.outboxPath),
+    writeQuorum: config.writeQuorum,
+  });
+}
@@ -1,16 +1,51 @@
 import { LRUCache } from 'lru-cache';
-import { mkdir, readdir, readFile, writeFile, unlink, access } from 'node:fs/promises';
+import { mkdir, readdir, readFile, writeFile, unlink, access, rename, rm } from 'node:fs/promises';
 import { join, resolve, sep } from 'node:path';
-import type { MerkleTree, MerkleTreeSummary, StorageBackend } from '../../types';
+import type { Hex } from 'viem';
+import type {
+  BeneficiaryTreeEntry,
+  DeletedTreeSummary,
+  MerkleTree,
+  MerkleTreeSummary,
+  StorageBackend,
+  Tombstone,
+  TreeListQuery,
+} from '../../types';
+import { summarizeTree } from './summary';
+import { applyTreeListQuery } from './query';
+import {
+  forEachConcurrently,
+  getBeneficiaryEntries,
+  getRemovedBeneficiaries,
+  isBeneficiaryIndexCurrent,
+  sortBeneficiaryEntries,
+  toBeneficiaryKey,
+  toBeneficiaryShard,
+} from './beneficiaries';
+import { parseStoredTree, verifyStoredTree, type IntegrityOptions } from './integrity';
+
+// Reverse index entry files written or removed at once
+const INDEX_WRITE_CONCURRENCY = 16;
 
 /**
  * Filesystem-based storage backend with LRU cache
+ * Each tree is `<id>.json`; its list summary is kept alongside in `summaries/<id>.json`
+ * so listing reads small summary files instead of every tree, and its beneficiary reverse
+ * index as one entry per beneficiary in `addresses/<first byte>/<address>/<id>.json`, so a
+ * lookup reads only the trees the address is in. Soft-deleted trees move
+ * to `deleted/<id>.json` next to a `deleted/<id>.tombstone.json` summary.
+ * Trees are verified when loaded from disk (see verifyTreeIntegrity); a file that fails is
+ * reported with an error rather than served or treated as missing.
  */
 export class FilesystemBackend implements StorageBackend {
   readonly name = 'filesystem';
   private cache: LRUCache<string, MerkleTree>;
+  private beneficiaryIndexReady?: Promise<void>;
+  private verifyIntegrity: boolean;
+
+  constructor(private dataDir: string, options: IntegrityOptions = {}) {
+    this.verifyIntegrity = options.verifyIntegrity ?? true;
 
-  constructor(private dataDir: string) {
     // LRU cache with max 100 trees, TTL of 1 hour
     this.cache = new LRUCache<string, MerkleTree>({
       max: 100,
@@ -50,19 +85,156 @@ export class FilesystemBackend implements StorageBackend {
     return join(this.dataDir, `${id}.json`);
   }
 
+  /**
+   * Get the file path for a tree's list summary
+   */
+  private getSummaryPath(id: string): string {
+    return join(this.dataDir, 'summaries', `${id}.json`);
+  }
+
+  /**
+   * Write a tree's list summary
+   */
+  private async writeSummary(summary: MerkleTreeSummary): Promise<void> {
+    await mkdir(join(this.dataDir, 'summaries'), { recursive: true });
+    await writeFile(this.getSummaryPath(summary.id), JSON.stringify(summary));
+  }
+
+  /**
+   * Read a tree's list summary, rebuilding it from the tree file when it is missing
+   * (trees saved before summaries were kept) or null if the tree does not exist
+   */
+  private async readSummary(id: string): Promise<MerkleTreeSummary | null> {
+    try {
+      return JSON.parse(await readFile(this.getSummaryPath(id), 'utf-8')) as MerkleTreeSummary;
+    } catch {
+      const tree = await this.get(id);
+      if (!tree) {
+        return null;
+      }
+
+      const summary = summarizeTree(tree);
+      await this.writeSummary(summary);
+      return summary;
+    }
+  }
+
+  private getTrashPath(id: string): string {
+    return join(this.dataDir, 'deleted', `${id}.json`);
+  }
+
+  private getTombstonePath(id: string): string {
+    return join(this.dataDir, 'deleted', `${id}.tombstone.json`);
+  }
+
+  /**
+   * Get the directory holding an address's reverse index entries (one file per tree)
+   */
+  private getAddressDir(key: string): string {
+    return join(this.dataDir, 'addresses', toBeneficiaryShard(key), key);
+  }
+
+  /**
+   * Write a tree's reverse index entries and drop those of beneficiaries it no longer includes
+   */
+  private async indexBeneficiaries(tree: MerkleTree, removed: string[] = []): Promise<void> {
+    await forEachConcurrently(getBeneficiaryEntries(tree), INDEX_WRITE_CONCURRENCY, async ([key, entry]) => {
+      const dir = this.getAddressDir(key);
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, `${tree.id}.json`), JSON.stringify(entry));
+    });
+    await this.unindexBeneficiaries(tree.id, removed);
+  }
+
+  /**
+   * Drop a tree's reverse index entries; every indexed address is checked when the tree could not be read
+   */
+  private async unindexBeneficiaries(id: string, keys?: Iterable<string>): Promise<void> {
+    await forEachConcurrently(keys ?? (await this.listIndexedAddresses()), INDEX_WRITE_CONCURRENCY, async (key) => {
+      await unlink(join(this.getAddressDir(key), `${id}.json`)).catch(() => {});
+    });
+  }
+
+  /**
+   * Every address with a reverse index directory
+   */
+  private async listIndexedAddresses(): Promise<string[]> {
+    const root = join(this.dataDir, 'addresses');
+    const keys: string[] = [];
+
+    for (const shard of await readdir(root).catch(() => [] as string[])) {
+      if (shard.startsWith('.')) continue;
+      keys.push(...(await readdir(join(root, shard)).catch(() => [] as string[])));
+    }
+
+    return keys;
+  }
+
+  /**
+   * Index trees saved before the reverse index existed, once per data directory
+   * A marker file records that every tree on disk has been indexed. Trees that fail to load
+   * are logged and left out rather than failing every lookup. The per-shard index files of
+   * earlier versions (`beneficiaries/`) are removed once the new index is complete.
+   */
+  private ensureBeneficiaryIndex(): Promise<void> {
+    this.beneficiaryIndexReady ??= (async () => {
+      const marker = join(this.dataDir, 'addresses', '.complete');
+      if (await access(marker).then(() => true, () => false)) {
+        return;
+      }
+
+      await this.ensureDataDir();
+      for (const file of await readdir(this.dataDir)) {
+        if (!file.endsWith('.json')) continue;
+
+        const id = file.replace('.json', '');
+        let tree: MerkleTree | null;
+        try {
+          tree = await this.get(id);
+        } catch (error) {
+          console.warn(
+            `Beneficiary index skipped tree ${id}:`,
+            error instanceof Error ? error.message : 'Unknown error'
+          );
+          continue;
+        }
+
+        if (tree) {
+          await this.indexBeneficiaries(tree);
+        }
+      }
+
+      await mkdir(join(this.dataDir, 'addresses'), { recursive: true });
+      await writeFile(marker, '');
+      await rm(join(this.dataDir, 'beneficiaries'), { recursive: true, force: true });
+    })().catch((error) => {
+      this.beneficiaryIndexReady = undefined;
+      throw error;
+    });
+
+    return this.beneficiaryIndexReady;
+  }
+
   /**
    * Save a merkle tree to storage
    */
   async save(tree: MerkleTree): Promise<void> {
     this.validateId(tree.id);
     await this.ensureDataDir();
+    // Saving over a copy that fails verification repairs it; its allocations still say what to unindex
+    const previous = await this.readUnverified(tree.id);
     const path = this.getTreePath(tree.id);
-    await writeFile(path, JSON.stringify(tree, null, 2));
+    await writeFile(path, JSON.stringify(tree));
+    await this.writeSummary(summarizeTree(tree));
+    if (!isBeneficiaryIndexCurrent(previous, tree)) {
+      await this.indexBeneficiaries(tree, getRemovedBeneficiaries(previous, tree));
+    }
     this.cache.set(tree.id, tree);
   }
 
   /**
    * Get a merkle tree by ID
+   * @throws Error if the stored file is corrupt or fails the integrity check
    */
   async get(id: string): Promise<MerkleTree | null> {
     this.validateId(id);
@@ -73,16 +245,34 @@ export class FilesystemBackend implements StorageBackend {
       return cached;
     }
 
-    // Load from file
-    try {
-      const path = this.getTreePath(id);
-      const data = await readFile(path, 'utf-8');
-      const tree = JSON.parse(data) as MerkleTree;
+    const tree = await this.readTree(id, this.verifyIntegrity);
+    if (tree) {
       this.cache.set(id, tree);
-      return tree;
+    }
+    return tree;
+  }
+
+  /**
+   * Get a tree without verifying it, or null if it is missing or unparseable
+   */
+  private async readUnverified(id: string): Promise<MerkleTree | null> {
+    return this.cache.get(id) ?? (await this.readTree(id).catch(() => null));
+  }
+
+  /**
+   * Load a tree file, bypassing the cache
+   * @throws Error if the file is not valid JSON, or fails the integrity check when `verify` is set
+   */
+  private async readTree(id: string, verify = false): Promise<MerkleTree | null> {
+    let data: string;
+    try {
+      data = await readFile(this.getTreePath(id), 'utf-8');
     } catch {
       return null;
     }
+
+    const tree = parseStoredTree(id, data);
+    return verify ? verifyStoredTree(tree, data) : tree;
   }
 
   /**
@@ -90,8 +280,14 @@ export class FilesystemBackend implements StorageBackend {
    */
   async delete(id: string): Promise<boolean> {
     this.validateId(id);
+
+    // A copy that fails verification can still be deleted
+    const tree = await this.readUnverified(id);
     this.cache.delete(id);
 
+    await unlink(this.getSummaryPath(id)).catch(() => {});
+    await this.unindexBeneficiaries(id, tree ? getBeneficiaryEntries(tree).keys() : undefined);
+
     try {
       const path = this.getTreePath(id);
       await unlink(path);
@@ -102,9 +298,115 @@ export class FilesystemBackend implements StorageBackend {
   }
 
   /**
-   * List all merkle trees (summaries only)
+   * Move a tree to the trash
+   * The tombstone is written before the tree file moves, so a trashed tree always has one
+   */
+  async softDelete(id: string, tombstone: Tombstone): Promise<boolean> {
+    this.validateId(id);
+
+    const tree = this.cache.get(id) ?? (await this.readTree(id));
+    if (!tree) {
+      return false;
+    }
+
+    const deleted: DeletedTreeSummary = { ...summarizeTree(tree), tombstone };
+    await mkdir(join(this.dataDir, 'deleted'), { recursive: true });
+    await writeFile(this.getTombstonePath(id), JSON.stringify(deleted));
+    await rename(this.getTreePath(id), this.getTrashPath(id));
+
+    this.cache.delete(id);
+    await unlink(this.getSummaryPath(id)).catch(() => {});
+    await this.unindexBeneficiaries(id, getBeneficiaryEntries(tree).keys());
+    return true;
+  }
+
+  /**
+   * Move a tree from the trash back to the live set
+   */
+  async restore(id: string): Promise<boolean> {
+    this.validateId(id);
+
+    let tree: MerkleTree;
+    try {
+      tree = JSON.parse(await readFile(this.getTrashPath(id), 'utf-8')) as MerkleTree;
+    } catch {
+      return false;
+    }
+
+    await this.save(tree);
+    await unlink(this.getTrashPath(id));
+    await unlink(this.getTombstonePath(id)).catch(() => {});
+    return true;
+  }
+
+  /**
+   * List trees in the trash from their tombstone files
+   */
+  async listDeleted(): Promise<DeletedTreeSummary[]> {
+    const dir = join(this.dataDir, 'deleted');
+    const files = await readdir(dir).catch(() => [] as string[]);
+    const deleted: DeletedTreeSummary[] = [];
+
+    for (const file of files) {
+      if (!file.endsWith('.tombstone.json')) continue;
+      deleted.push(JSON.parse(await readFile(join(dir, file), 'utf-8')) as DeletedTreeSummary);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Get a tree in the trash from its tombstone file
+   */
+  async getDeleted(id: string): Promise<DeletedTreeSummary | null> {
+    this.validateId(id);
+
+    let data: string;
+    try {
+      data = await readFile(this.getTombstonePath(id), 'utf-8');
+    } catch {
+      return null;
+    }
+    return JSON.parse(data) as DeletedTreeSummary;
+  }
+
+  /**
+   * Hard-delete a tree from the trash
+   */
+  async purge(id: string): Promise<boolean> {
+    this.validateId(id);
+
+    let data: string;
+    try {
+      data = await readFile(this.getTrashPath(id), 'utf-8');
+    } catch {
+      return false;
+    }
+
+    let tree: MerkleTree | null = null;
+    try {
+      tree = JSON.parse(data) as MerkleTree;
+    } catch {
+      // A copy that no longer parses is still purged
+    }
+
+    await unlink(this.getTrashPath(id));
+    await unlink(this.getTombstonePath(id)).catch(() => {});
+
+    // Soft delete already dropped the tree's index entries; drop any an interrupted one left,
+    // unless a live tree has taken the ID since
+    if (tree && !(await access(this.getTreePath(id)).then(() => true, () => false))) {
+      await this.unindexBeneficiaries(id, getBeneficiaryEntries(tree).keys());
+    }
+    return true;
+  }
+
+  /**
+   * List merkle trees matching a query (summaries only)
+   * Every summary file is read and filtered in memory on each call, whatever the filters or page
+   * size, so a page costs O(trees stored). Use SQLite where many trees are listed.
    */
-  async list(): Promise<MerkleTreeSummary[]> {
+  async list(query?: TreeListQuery): Promise<MerkleTreeSummary[]> {
     await this.ensureDataDir();
 
     const files = await readdir(this.dataDir);
@@ -113,27 +415,36 @@ export class FilesystemBackend implements StorageBackend {
     for (const file of files) {
       if (!file.endsWith('.json')) continue;
 
-      const id = file.replace('.json', '');
-      const tree = await this.get(id);
-
-      if (tree) {
-        const totalAmount = tree.allocations.reduce(
-          (sum, alloc) => sum + BigInt(alloc.amount),
-          0n
-        );
-
-        summaries.push({
-          id: tree.id,
-          root: tree.root,
-          token: tree.token,
-          createdAt: tree.createdAt,
-          allocationCount: tree.allocations.length,
-          totalAmount: totalAmount.toString(),
-        });
+      const summary = await this.readSummary(file.replace('.json', ''));
+      if (summary) {
+        summaries.push(summary);
       }
     }
 
-    return summaries;
+    return applyTreeListQuery(summaries, query);
+  }
+
+  /**
+   * Every tree a beneficiary appears in, reading only the address's own reverse index entries
+   */
+  async findTreesByBeneficiary(beneficiary: Hex): Promise<BeneficiaryTreeEntry[]> {
+    const key = toBeneficiaryKey(beneficiary);
+    if (!key) {
+      return [];
+    }
+
+    await this.ensureBeneficiaryIndex();
+
+    const dir = this.getAddressDir(key);
+    const files = await readdir(dir).catch(() => [] as string[]);
+    const entries: BeneficiaryTreeEntry[] = [];
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      entries.push(JSON.parse(await readFile(join(dir, file), 'utf-8')) as BeneficiaryTreeEntry);
+    }
+
+    return sortBeneficiaryEntries(entries);
   }
 
   /**
@@ -4,4 +4,44 @@
 
 export { FilesystemBackend } from './filesystem';
 export { MemoryBackend } from './memory';
-export { ReplicatedStorage } from './replicated';
+export { ReplicatedStorage, WriteQuorumError, type ReplicatedStorageOptions } from './replicated';
+export {
+  FileReplicaOutbox,
+  MemoryReplicaOutbox,
+  getRetryDelayMs,
+  DEFAULT_REPLICA_OUTBOX_PATH,
+  type ReplicaOutbox,
+} from './outbox';
+export { SqliteBackend } from './sqlite';
+export { S3Backend, type S3BackendConfig } from './s3';
+export { summarizeTree, toTreeOverview } from './summary';
+export { verifyStoredTree, type IntegrityOptions } from './integrity';
+export {
+  findAllocation,
+  findAllocations,
+  findTreesByBeneficiary,
+  getBeneficiaryIndex,
+  listAllocations,
+  applyAllocationListQuery,
+  getTreeSummary,
+  getTreeOverview,
+  getDeletedTree,
+} from './lookup';
+export {
+  applyTreeListQuery,
+  listTreePage,
+  encodeTreeListCursor,
+  decodeTreeListCursor,
+  type TreeListPageQuery,
+} from './query';
+export {
+  loadStorageConfig,
+  parseStorageConfig,
+  parseBackendSpec,
+  createBackend,
+  createStorage,
+  DEFAULT_DATA_DIR,
+  DEFAULT_SQLITE_PATH,
+  type BackendConfig,
+  type StorageConfig,
+} from './config';
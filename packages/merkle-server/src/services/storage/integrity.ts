@@ -0,0 +1,59 @@
+import { createHash } from 'node:crypto';
+import { LRUCache } from 'lru-cache';
+import type { MerkleTree } from '../../types';
+import { assertTreeIntegrity } from '../integrity';
+import { runTreeWorkerTask, WORKER_THRESHOLD } from '../workers';
+
+/**
+ * Options shared by the persistent backends
+ */
+export interface IntegrityOptions {
+  verifyIntegrity?: boolean; // Verify trees when they are read (default true)
+}
+
+// Verifying a large tree rehashes every leaf, so content that already passed is remembered by digest
+const verifiedDigests = new LRUCache<string, true>({ max: 1_000 });
+
+/**
+ * Digest of a tree's stored bytes, used to remember trees that already passed verification
+ */
+export function digestStoredTree(raw: string): string {
+  return createHash('sha256').update(raw).digest('hex');
+}
+
+/**
+ * Verify a tree read from a backend, skipping content that already passed
+ * Trees of WORKER_THRESHOLD or more allocations are verified in a worker thread from their stored
+ * JSON, so the first read of a large tree does not block other requests.
+ *
+ * @param raw - The tree's stored JSON
+ * @param digest - Digest of the stored content (defaults to digestStoredTree(raw))
+ * @throws Error if the tree fails verification (see assertTreeIntegrity)
+ */
+export async function verifyStoredTree(
+  tree: MerkleTree,
+  raw: string,
+  digest: string = digestStoredTree(raw)
+): Promise<MerkleTree> {
+  if (!verifiedDigests.has(digest)) {
+    if (Array.isArray(tree.allocations) && tree.allocations.length >= WORKER_THRESHOLD) {
+      await runTreeWorkerTask({ task: 'verify', raw });
+    } else {
+      assertTreeIntegrity(tree);
+    }
+    verifiedDigests.set(digest, true);
+  }
+  return tree;
+}
+
+/**
+ * Parse a stored tree, reporting unparseable content as an integrity failure rather than a missing tree
+ * @throws Error if the content is not valid JSON
+ */
+export function parseStoredTree(id: string, raw: string): MerkleTree {
+  try {
+    return JSON.parse(raw) as MerkleTree;
+  } catch {
+    throw new Error(`Integrity check failed for tree ${id}: stored content is not valid JSON`);
+  }
+}
@@ -0,0 +1,233 @@
+import type { Hex } from 'viem';
+import type {
+  AllocationBatchLookup,
+  AllocationListItem,
+  AllocationListQuery,
+  AllocationListResult,
+  AllocationLookup,
+  AllocationWithProof,
+  BeneficiaryTreeEntry,
+  DeletedTreeSummary,
+  MerkleTree,
+  MerkleTreeHeader,
+  MerkleTreeOverview,
+  MerkleTreeSummary,
+  StorageBackend,
+} from '../../types';
+import { summarizeTree, toTreeOverview } from './summary';
+import { getBeneficiaryEntries, sortBeneficiaryEntries } from './beneficiaries';
+
+// Stored trees are never modified in place, so an index stays valid for as long as the
+// backend keeps handing out the same tree object (memory map, filesystem cache)
+const beneficiaryIndexes = new WeakMap<MerkleTree, Map<string, number>>();
+
+/**
+ * Map of lowercased beneficiary to allocation index, built once per tree object
+ */
+export function getBeneficiaryIndex(tree: MerkleTree): Map<string, number> {
+  let index = beneficiaryIndexes.get(tree);
+  if (!index) {
+    index = new Map(tree.allocations.map((alloc, i) => [alloc.beneficiary.toLowerCase(), i]));
+    beneficiaryIndexes.set(tree, index);
+  }
+  return index;
+}
+
+/**
+ * Look up a single beneficiary's allocation in a stored tree
+ * Uses the backend's indexed lookup when it has one, otherwise loads the whole tree
+ *
+ * @returns null if the tree does not exist
+ */
+export async function findAllocation(
+  backend: StorageBackend,
+  id: string,
+  beneficiary: Hex
+): Promise<AllocationLookup | null> {
+  if (backend.findAllocation) {
+    return backend.findAllocation(id, beneficiary);
+  }
+
+  const tree = await backend.get(id);
+  if (!tree) {
+    return null;
+  }
+
+  const { allocations, ...header } = tree;
+  const index = getBeneficiaryIndex(tree).get(beneficiary.toLowerCase());
+
+  return {
+    tree: header,
+    allocation: index === undefined ? null : allocations[index],
+  };
+}
+
+/**
+ * Look up several beneficiaries' allocations in a stored tree
+ * Uses the backend's indexed lookup when it has one, otherwise loads the whole tree
+ *
+ * @returns Found allocations and missing beneficiaries, each in request order;
+ *          null if the tree does not exist
+ */
+export async function findAllocations(
+  backend: StorageBackend,
+  id: string,
+  beneficiaries: Hex[]
+): Promise<AllocationBatchLookup | null> {
+  if (backend.findAllocations) {
+    return backend.findAllocations(id, beneficiaries);
+  }
+
+  const tree = await backend.get(id);
+  if (!tree) {
+    return null;
+  }
+
+  const { allocations, ...header } = tree;
+  const index = getBeneficiaryIndex(tree);
+  const found: AllocationWithProof[] = [];
+  const missing: Hex[] = [];
+
+  for (const beneficiary of beneficiaries) {
+    const i = index.get(beneficiary.toLowerCase());
+    if (i === undefined) {
+      missing.push(beneficiary);
+    } else {
+      found.push(allocations[i]);
+    }
+  }
+
+  return { tree: header, allocations: found, missing };
+}
+
+/**
+ * List a tree's allocations matching a query, in tree order
+ * Uses the backend's indexed listing when it has one, otherwise loads the whole tree
+ *
+ * @returns null if the tree does not exist
+ */
+export async function listAllocations(
+  backend: StorageBackend,
+  id: string,
+  query: AllocationListQuery = {}
+): Promise<AllocationListResult | null> {
+  if (backend.listAllocations) {
+    return backend.listAllocations(id, query);
+  }
+
+  const tree = await backend.get(id);
+  if (!tree) {
+    return null;
+  }
+
+  const { allocations, ...header } = tree;
+  return { tree: header, allocations: applyAllocationListQuery(allocations, query) };
+}
+
+/**
+ * Filter and limit allocations in memory
+ * Reference semantics for StorageBackend.listAllocations
+ */
+export function applyAllocationListQuery(
+  allocations: AllocationWithProof[],
+  query: AllocationListQuery = {}
+): AllocationListItem[] {
+  const prefix = query.beneficiaryPrefix?.toLowerCase();
+  const minAmount = query.minAmount === undefined ? undefined : BigInt(query.minAmount);
+  const maxAmount = query.maxAmount === undefined ? undefined : BigInt(query.maxAmount);
+  const limit = query.limit ?? Infinity;
+  const items: AllocationListItem[] = [];
+
+  for (let index = (query.afterIndex ?? -1) + 1; index < allocations.length && items.length < limit; index++) {
+    const alloc = allocations[index];
+
+    if (prefix !== undefined && !alloc.beneficiary.toLowerCase().startsWith(prefix)) continue;
+    if (minAmount !== undefined && BigInt(alloc.amount) < minAmount) continue;
+    if (maxAmount !== undefined && BigInt(alloc.amount) > maxAmount) continue;
+
+    const item: AllocationListItem = { index, beneficiary: alloc.beneficiary, amount: alloc.amount, leaf: alloc.leaf };
+    if (query.includeProofs !== false) {
+      item.proof = alloc.proof;
+    }
+    items.push(item);
+  }
+
+  return items;
+}
+
+/**
+ * Get a tree in the trash with its tombstone
+ * Uses the backend's direct lookup when it has one, otherwise lists the trash
+ *
+ * @returns null if the tree is not in the trash
+ */
+export async function getDeletedTree(backend: StorageBackend, id: string): Promise<DeletedTreeSummary | null> {
+  if (backend.getDeleted) {
+    return backend.getDeleted(id);
+  }
+
+  return (await backend.listDeleted()).find((deleted) => deleted.id === id) ?? null;
+}
+
+/**
+ * Get a tree's header and list summary
+ * Uses the backend's stored summary when it has one, otherwise loads the whole tree
+ *
+ * @returns null if the tree does not exist
+ */
+export async function getTreeSummary(
+  backend: StorageBackend,
+  id: string
+): Promise<{ tree: MerkleTreeHeader; summary: MerkleTreeSummary } | null> {
+  if (backend.getSummary) {
+    return backend.getSummary(id);
+  }
+
+  const tree = await backend.get(id);
+  if (!tree) {
+    return null;
+  }
+
+  const { allocations: _allocations, ...header } = tree;
+  return { tree: header, summary: summarizeTree(tree) };
+}
+
+/**
+ * Get a tree's metadata and totals without its allocations or original input
+ *
+ * @returns null if the tree does not exist
+ */
+export async function getTreeOverview(backend: StorageBackend, id: string): Promise<MerkleTreeOverview | null> {
+  const result = await getTreeSummary(backend, id);
+  if (!result) {
+    return null;
+  }
+
+  return toTreeOverview(result.tree, result.summary);
+}
+
+/**
+ * Find every tree a beneficiary appears in, oldest first
+ * Uses the backend's reverse index when it has one, otherwise loads every tree
+ */
+export async function findTreesByBeneficiary(
+  backend: StorageBackend,
+  beneficiary: Hex
+): Promise<BeneficiaryTreeEntry[]> {
+  if (backend.findTreesByBeneficiary) {
+    return backend.findTreesByBeneficiary(beneficiary);
+  }
+
+  const key = beneficiary.toLowerCase();
+  const entries: BeneficiaryTreeEntry[] = [];
+
+  for (const summary of await backend.list()) {
+    const tree = await backend.get(summary.id);
+    const entry = tree && getBeneficiaryEntries(tree).get(key);
+    if (entry) {
+      entries.push(entry);
+    }
+  }
+
+  return sortBeneficiaryEntries(entries);
+}
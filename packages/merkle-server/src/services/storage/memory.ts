@@ -1,4 +1,16 @@
-import type { MerkleTree, MerkleTreeSummary, StorageBackend } from '../../types';
+import type { Hex } from 'viem';
+import type {
+  BeneficiaryTreeEntry,
+  DeletedTreeSummary,
+  MerkleTree,
+  MerkleTreeSummary,
+  StorageBackend,
+  Tombstone,
+  TreeListQuery,
+} from '../../types';
+import { summarizeTree } from './summary';
+import { applyTreeListQuery } from './query';
+import { getBeneficiaryEntries, sortBeneficiaryEntries } from './beneficiaries';
 
 /**
  * In-memory storage backend (primarily for testing)
@@ -6,12 +18,29 @@ import type { MerkleTree, MerkleTreeSummary, StorageBackend } from '../../types'
 export class MemoryBackend implements StorageBackend {
   readonly name = 'memory';
   private trees = new Map<string, MerkleTree>();
+  // Lowercased beneficiary -> tree ID -> entry
+  private beneficiaries = new Map<string, Map<string, BeneficiaryTreeEntry>>();
+  private deleted = new Map<string, { tree: MerkleTree; tombstone: Tombstone }>();
 
   /**
    * Save a merkle tree to memory
    */
   async save(tree: MerkleTree): Promise<void> {
+    const previous = this.trees.get(tree.id);
+    if (previous) {
+      this.unindexBeneficiaries(previous);
+    }
+
     this.trees.set(tree.id, tree);
+
+    for (const [key, entry] of getBeneficiaryEntries(tree)) {
+      let entries = this.beneficiaries.get(key);
+      if (!entries) {
+        entries = new Map();
+        this.beneficiaries.set(key, entries);
+      }
+      entries.set(tree.id, entry);
+    }
   }
 
   /**
@@ -25,32 +54,76 @@ export class MemoryBackend implements StorageBackend {
    * Delete a merkle tree
    */
   async delete(id: string): Promise<boolean> {
+    const tree = this.trees.get(id);
+    if (!tree) {
+      return false;
+    }
+
+    this.unindexBeneficiaries(tree);
     return this.trees.delete(id);
   }
 
   /**
-   * List all merkle trees (summaries only)
+   * Move a tree to the trash
+   */
+  async softDelete(id: string, tombstone: Tombstone): Promise<boolean> {
+    const tree = this.trees.get(id);
+    if (!tree) {
+      return false;
+    }
+
+    this.deleted.set(id, { tree, tombstone });
+    return this.delete(id);
+  }
+
+  /**
+   * Move a tree from the trash back to the live set
    */
-  async list(): Promise<MerkleTreeSummary[]> {
-    const summaries: MerkleTreeSummary[] = [];
-
-    for (const tree of this.trees.values()) {
-      const totalAmount = tree.allocations.reduce(
-        (sum, alloc) => sum + BigInt(alloc.amount),
-        0n
-      );
-
-      summaries.push({
-        id: tree.id,
-        root: tree.root,
-        token: tree.token,
-        createdAt: tree.createdAt,
-        allocationCount: tree.allocations.length,
-        totalAmount: totalAmount.toString(),
-      });
+  async restore(id: string): Promise<boolean> {
+    const entry = this.deleted.get(id);
+    if (!entry) {
+      return false;
     }
 
-    return summaries;
+    await this.save(entry.tree);
+    return this.deleted.delete(id);
+  }
+
+  /**
+   * List trees in the trash
+   */
+  async listDeleted(): Promise<DeletedTreeSummary[]> {
+    return Array.from(this.deleted.values(), ({ tree, tombstone }) => ({ ...summarizeTree(tree), tombstone }));
+  }
+
+  /**
+   * Get a tree in the trash
+   */
+  async getDeleted(id: string): Promise<DeletedTreeSummary | null> {
+    const entry = this.deleted.get(id);
+    return entry ? { ...summarizeTree(entry.tree), tombstone: entry.tombstone } : null;
+  }
+
+  /**
+   * Hard-delete a tree from the trash
+   */
+  async purge(id: string): Promise<boolean> {
+    return this.deleted.delete(id);
+  }
+
+  /**
+   * Every tree a beneficiary appears in, from the reverse index
+   */
+  async findTreesByBeneficiary(beneficiary: Hex): Promise<BeneficiaryTreeEntry[]> {
+    const entries = this.beneficiaries.get(beneficiary.toLowerCase());
+    return sortBeneficiaryEntries(entries ? Array.from(entries.values()) : []);
+  }
+
+  /**
+   * List merkle trees matching a query (summaries only)
+   */
+  async list(query?: TreeListQuery): Promise<MerkleTreeSummary[]> {
+    return applyTreeListQuery(Array.from(this.trees.values(), summarizeTree), query);
   }
 
   /**
@@ -65,5 +138,18 @@ export class MemoryBackend implements StorageBackend {
    */
   clearAll(): void {
     this.trees.clear();
+    this.beneficiaries.clear();
+    this.deleted.clear();
+  }
+
+  private unindexBeneficiaries(tree: MerkleTree): void {
+    for (const alloc of tree.allocations) {
+      const key = alloc.beneficiary.toLowerCase();
+      const entries = this.beneficiaries.get(key);
+      entries?.delete(tree.id);
+      if (entries?.size === 0) {
+        this.beneficiaries.delete(key);
+      }
+    }
   }
 }
@@ -0,0 +1,134 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { PendingReplicaWrite } from '../../types';
+
+/**
+ * Default replica outbox file (packages/merkle-server/data/replica-outbox.json)
+ */
+export const DEFAULT_REPLICA_OUTBOX_PATH = join(import.meta.dir, '../../../data/replica-outbox.json');
+
+/**
+ * Delay before the first retry of a failed replica write; doubles with every failed attempt
+ */
+export const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Upper bound for the retry delay
+ */
+export const DEFAULT_RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * How often the retry job looks for due writes
+ */
+export const DEFAULT_RETRY_INTERVAL_MS = 1000;
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ */
+export function getRetryDelayMs(
+  attempts: number,
+  baseDelayMs = DEFAULT_RETRY_BASE_DELAY_MS,
+  maxDelayMs = DEFAULT_RETRY_MAX_DELAY_MS
+): number {
+  return Math.min(baseDelayMs * 2 ** Math.max(attempts - 1, 0), maxDelayMs);
+}
+
+/**
+ * Queue of replica writes waiting to be retried, in the order they were enqueued
+ */
+export interface ReplicaOutbox {
+  list(): Promise<PendingReplicaWrite[]>;
+  add(write: PendingReplicaWrite): Promise<void>;
+  // Replaces the write with the same ID, keeping its position
+  update(write: PendingReplicaWrite): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * Shared bookkeeping for outboxes: the queue is loaded once and changes are serialized
+ */
+abstract class QueuedOutbox implements ReplicaOutbox {
+  private tail: Promise<unknown> = Promise.resolve();
+  private writes?: PendingReplicaWrite[];
+
+  protected abstract load(): Promise<PendingReplicaWrite[]>;
+  protected abstract persist(writes: PendingReplicaWrite[]): Promise<void>;
+
+  list(): Promise<PendingReplicaWrite[]> {
+    return this.serialize(async () => [...(await this.current())]);
+  }
+
+  add(write: PendingReplicaWrite): Promise<void> {
+    return this.change((writes) => [...writes, write]);
+  }
+
+  update(write: PendingReplicaWrite): Promise<void> {
+    return this.change((writes) => writes.map((existing) => (existing.id === write.id ? write : existing)));
+  }
+
+  remove(id: string): Promise<void> {
+    return this.change((writes) => writes.filter((existing) => existing.id !== id));
+  }
+
+  private async current(): Promise<PendingReplicaWrite[]> {
+    this.writes ??= await this.load();
+    return this.writes;
+  }
+
+  private change(fn: (writes: PendingReplicaWrite[]) => PendingReplicaWrite[]): Promise<void> {
+    return this.serialize(async () => {
+      const next = fn(await this.current());
+      await this.persist(next);
+      this.writes = next;
+    });
+  }
+
+  private serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.tail.then(fn);
+    // Keep the queue going after a failed change; the caller still sees the error
+    this.tail = next.catch(() => {});
+    return next;
+  }
+}
+
+/**
+ * In-memory outbox (primarily for testing; pending writes are lost on restart)
+ */
+export class MemoryReplicaOutbox extends QueuedOutbox {
+  protected async load(): Promise<PendingReplicaWrite[]> {
+    return [];
+  }
+
+  protected async persist(): Promise<void> {}
+}
+
+/**
+ * Outbox stored as a JSON array, replaced atomically on every change
+ */
+export class FileReplicaOutbox extends QueuedOutbox {
+  constructor(private path: string = DEFAULT_REPLICA_OUTBOX_PATH) {
+    super();
+  }
+
+  protected async load(): Promise<PendingReplicaWrite[]> {
+    let data: string;
+    try {
+      data = await readFile(this.path, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    try {
+      return JSON.parse(data) as PendingReplicaWrite[];
+    } catch {
+      throw new Error(`Replica outbox ${this.path} is corrupt`);
+    }
+  }
+
+  protected async persist(writes: PendingReplicaWrite[]): Promise<void> {
+    const temp = `${this.path}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(temp, JSON.stringify(writes, null, 2));
+    await rename(temp, this.path);
+  }
+}
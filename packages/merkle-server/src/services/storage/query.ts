@@ -0,0 +1,141 @@
+import type {
+  MerkleTreeSummary,
+  StorageBackend,
+  TreeListPage,
+  TreeListPosition,
+  TreeListQuery,
+  TreeSortField,
+} from '../../types';
+
+/**
+ * Page request for listTreePage: a list query with an opaque cursor instead of a position
+ */
+export type TreeListPageQuery = Omit<TreeListQuery, 'after' | 'limit'> & {
+  cursor?: string;
+  limit: number;
+};
+
+interface CursorPayload extends TreeListPosition {
+  sortBy: TreeSortField;
+  order: 'asc' | 'desc';
+}
+
+/**
+ * Filter, sort and limit summaries in memory
+ * Reference semantics for StorageBackend.list; backends that cannot push the
+ * query down to their store use this directly
+ */
+export function applyTreeListQuery(summaries: MerkleTreeSummary[], query: TreeListQuery = {}): MerkleTreeSummary[] {
+  const sortBy = query.sortBy ?? 'createdAt';
+  const direction = query.order === 'desc' ? -1 : 1;
+  const token = query.token?.toLowerCase();
+  const root = query.root?.toLowerCase();
+
+  const matches = summaries.filter((summary) => {
+    if (token !== undefined && summary.token?.toLowerCase() !== token) return false;
+    if (root !== undefined && summary.root.toLowerCase() !== root) return false;
+    if (query.createdFrom !== undefined && summary.createdAt < query.createdFrom) return false;
+    if (query.createdTo !== undefined && summary.createdAt >= query.createdTo) return false;
+    if (query.after && direction * comparePositions(getTreeListPosition(summary, sortBy), query.after, sortBy) <= 0) {
+      return false;
+    }
+    return true;
+  });
+
+  matches.sort(
+    (a, b) => direction * comparePositions(getTreeListPosition(a, sortBy), getTreeListPosition(b, sortBy), sortBy)
+  );
+
+  return query.limit === undefined ? matches : matches.slice(0, query.limit);
+}
+
+/**
+ * Keyset position of a summary under a sort field
+ */
+export function getTreeListPosition(summary: MerkleTreeSummary, sortBy: TreeSortField): TreeListPosition {
+  return { value: String(summary[sortBy]), id: summary.id };
+}
+
+/**
+ * Encode the position after `summary` as an opaque cursor
+ */
+export function encodeTreeListCursor(
+  summary: MerkleTreeSummary,
+  sortBy: TreeSortField,
+  order: 'asc' | 'desc'
+): string {
+  const payload: CursorPayload = { sortBy, order, ...getTreeListPosition(summary, sortBy) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeTreeListCursor
+ * @throws Error if the cursor is malformed or was issued for another sort order
+ */
+export function decodeTreeListCursor(cursor: string, sortBy: TreeSortField, order: 'asc' | 'desc'): TreeListPosition {
+  let payload: Partial<CursorPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (typeof payload?.value !== 'string' || typeof payload.id !== 'string') {
+    throw new Error('Invalid cursor');
+  }
+  if (payload.sortBy !== sortBy || payload.order !== order) {
+    throw new Error('Cursor was issued for a different sortBy or order');
+  }
+  if (!isValidSortValue(payload.value, sortBy)) {
+    throw new Error('Invalid cursor');
+  }
+
+  return { value: payload.value, id: payload.id };
+}
+
+/**
+ * List one page of trees, with a cursor for the next page when there is one
+ * @throws Error if the cursor is invalid (see decodeTreeListCursor)
+ */
+export async function listTreePage(backend: StorageBackend, query: TreeListPageQuery): Promise<TreeListPage> {
+  const { cursor, limit, ...filters } = query;
+  const sortBy = filters.sortBy ?? 'createdAt';
+  const order = filters.order ?? 'asc';
+
+  // Ask for one extra summary to learn whether another page follows
+  const summaries = await backend.list({
+    ...filters,
+    after: cursor === undefined ? undefined : decodeTreeListCursor(cursor, sortBy, order),
+    limit: limit + 1,
+  });
+
+  if (summaries.length <= limit) {
+    return { items: summaries };
+  }
+
+  const items = summaries.slice(0, limit);
+  return { items, nextCursor: encodeTreeListCursor(items[items.length - 1], sortBy, order) };
+}
+
+function comparePositions(a: TreeListPosition, b: TreeListPosition, sortBy: TreeSortField): number {
+  const byValue = compareSortValues(a.value, b.value, sortBy);
+  if (byValue !== 0) return byValue;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function compareSortValues(a: string, b: string, sortBy: TreeSortField): number {
+  switch (sortBy) {
+    case 'createdAt':
+      return a < b ? -1 : a > b ? 1 : 0;
+    case 'allocationCount':
+      return Number(a) - Number(b);
+    case 'totalAmount': {
+      const diff = BigInt(a) - BigInt(b);
+      return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+    }
+  }
+}
+
+function isValidSortValue(value: string, sortBy: TreeSortField): boolean {
+  return sortBy === 'createdAt' || /^\d+$/.test(value);
+}
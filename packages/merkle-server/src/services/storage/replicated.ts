@@ -1,21 +1,99 @@
-import type { MerkleTree, MerkleTreeSummary, StorageBackend } from '../../types';
+import type { Hex } from 'viem';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AllocationBatchLookup,
+  BackendDivergence,
+  BackendHealth,
+  AllocationListQuery,
+  AllocationListResult,
+  AllocationLookup,
+  BeneficiaryTreeEntry,
+  DeletedTreeSummary,
+  MerkleTree,
+  MerkleTreeHeader,
+  MerkleTreeSummary,
+  PendingReplicaWrite,
+  ReconcileResult,
+  ReplicaRetryResult,
+  StorageBackend,
+  Tombstone,
+  TreeListQuery,
+} from '../../types';
+import {
+  findAllocation,
+  findAllocations,
+  findTreesByBeneficiary,
+  getDeletedTree,
+  getTreeSummary,
+  listAllocations,
+} from './lookup';
+import {
+  DEFAULT_RETRY_BASE_DELAY_MS,
+  DEFAULT_RETRY_INTERVAL_MS,
+  DEFAULT_RETRY_MAX_DELAY_MS,
+  getRetryDelayMs,
+  MemoryReplicaOutbox,
+  type ReplicaOutbox,
+} from './outbox';
+
+/**
+ * Options for ReplicatedStorage
+ */
+export interface ReplicatedStorageOptions {
+  outbox?: ReplicaOutbox; // Defaults to an in-memory outbox
+  writeQuorum?: number; // Replicas that must apply each write before it returns; defaults to 0
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+}
+
+/**
+ * A write reached the primary but fewer replicas than the write quorum
+ * The write is not rolled back: it stays on the primary and is queued for the missing replicas.
+ */
+export class WriteQuorumError extends Error {
+  constructor(
+    readonly treeId: string,
+    readonly applied: number,
+    readonly required: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'WriteQuorumError';
+  }
+}
 
 /**
  * Replicated storage coordinator
- * Writes to all backends, reads from primary with replica fallback
+ * Writes to the primary, then to all replicas in parallel; reads from primary with replica fallback.
+ * Replica writes that fail are queued in a durable outbox and retried with exponential backoff.
  */
 export class ReplicatedStorage implements StorageBackend {
   readonly name = 'replicated';
+  private outbox: ReplicaOutbox;
+  private writeQuorum: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private retrying: Promise<ReplicaRetryResult> | null = null;
 
   constructor(
     private primary: StorageBackend,
-    private replicas: StorageBackend[] = []
-  ) {}
+    private replicas: StorageBackend[] = [],
+    options: ReplicatedStorageOptions = {}
+  ) {
+    this.outbox = options.outbox ?? new MemoryReplicaOutbox();
+    this.writeQuorum = options.writeQuorum ?? 0;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+
+    if (!Number.isInteger(this.writeQuorum) || this.writeQuorum < 0 || this.writeQuorum > replicas.length) {
+      throw new Error(`Invalid write quorum ${this.writeQuorum}: expected 0 to ${replicas.length} replica(s)`);
+    }
+  }
 
   /**
    * Save a merkle tree to all backends
    * PRIMARY_REQUIRED: If primary write fails, the overall save fails
-   * Replica failures are logged but don't fail the operation
+   * Replica failures are queued for retry and only fail the save below the write quorum
    */
   async save(tree: MerkleTree): Promise<void> {
     // Primary write must succeed
@@ -27,120 +105,244 @@ export class ReplicatedStorage implements StorageBackend {
       );
     }
 
-    // Write to replicas, log failures but continue
-    for (const replica of this.replicas) {
-      try {
-        await replica.save(tree);
-      } catch (error) {
-        console.warn(
-          `Replica ${replica.name} write failed:`,
-          error instanceof Error ? error.message : 'Unknown error'
-        );
-      }
-    }
+    await this.writeReplicas(tree.id, { op: 'save' }, (replica) => replica.save(tree));
   }
 
   /**
    * Get a merkle tree by ID
-   * Reads from primary first, falls back to replicas if not found
+   * Reads from primary first, falls back to replicas if not found or if a backend's
+   * copy cannot be read, e.g. because it fails the integrity check
+   * @throws Error if no backend has a usable copy and at least one read failed
    */
   async get(id: string): Promise<MerkleTree | null> {
-    // Try primary first
-    const primaryTree = await this.primary.get(id);
-    if (primaryTree) {
-      return primaryTree;
-    }
+    return this.readFirst(id, (backend) => backend.get(id));
+  }
 
-    // Try replicas
-    for (const replica of this.replicas) {
-      const replicaTree = await replica.get(id);
-      if (replicaTree) {
-        return replicaTree;
-      }
-    }
+  /**
+   * Look up a single beneficiary
+   * Same fallback order as get(), using each backend's indexed lookup if it has one
+   */
+  async findAllocation(id: string, beneficiary: Hex): Promise<AllocationLookup | null> {
+    return this.readFirst(id, (backend) => findAllocation(backend, id, beneficiary));
+  }
 
-    return null;
+  /**
+   * Look up several beneficiaries
+   * Same fallback order as get(), using each backend's indexed lookup if it has one
+   */
+  async findAllocations(id: string, beneficiaries: Hex[]): Promise<AllocationBatchLookup | null> {
+    return this.readFirst(id, (backend) => findAllocations(backend, id, beneficiaries));
+  }
+
+  /**
+   * List a tree's allocations
+   * Same fallback order as get(), using each backend's indexed listing if it has one
+   */
+  async listAllocations(id: string, query: AllocationListQuery): Promise<AllocationListResult | null> {
+    return this.readFirst(id, (backend) => listAllocations(backend, id, query));
+  }
+
+  /**
+   * Get tree metadata and totals
+   * Same fallback order as get(), using each backend's stored summary if it has one
+   */
+  async getSummary(id: string): Promise<{ tree: MerkleTreeHeader; summary: MerkleTreeSummary } | null> {
+    return this.readFirst(id, (backend) => getTreeSummary(backend, id));
   }
 
   /**
    * Delete a merkle tree from all backends
    */
   async delete(id: string): Promise<boolean> {
-    let anyDeleted = false;
-
-    // Delete from primary
     const primaryDeleted = await this.primary.delete(id);
-    if (primaryDeleted) {
-      anyDeleted = true;
-    }
+    const replicasDeleted = await this.writeReplicas(id, { op: 'delete' }, (replica) => replica.delete(id));
+    return primaryDeleted || replicasDeleted.some(Boolean);
+  }
 
-    // Delete from replicas
-    for (const replica of this.replicas) {
-      try {
-        const replicaDeleted = await replica.delete(id);
-        if (replicaDeleted) {
-          anyDeleted = true;
-        }
-      } catch (error) {
-        console.warn(
-          `Replica ${replica.name} delete failed:`,
-          error instanceof Error ? error.message : 'Unknown error'
-        );
-      }
-    }
+  /**
+   * Soft-delete a tree in all backends
+   * PRIMARY_REQUIRED: the primary result decides; replica failures are queued for retry
+   */
+  async softDelete(id: string, tombstone: Tombstone): Promise<boolean> {
+    const deleted = await this.primary.softDelete(id, tombstone);
+    await this.writeReplicas(id, { op: 'soft-delete', tombstone }, (replica) => replica.softDelete(id, tombstone));
+    return deleted;
+  }
 
-    return anyDeleted;
+  /**
+   * Restore a tree in all backends
+   * PRIMARY_REQUIRED: the primary result decides; replica failures are queued for retry
+   */
+  async restore(id: string): Promise<boolean> {
+    const restored = await this.primary.restore(id);
+    await this.writeReplicas(id, { op: 'restore' }, (replica) => replica.restore(id));
+    return restored;
   }
 
   /**
-   * List all merkle trees (from primary)
+   * List trees in the trash (from primary)
    */
-  async list(): Promise<MerkleTreeSummary[]> {
-    return this.primary.list();
+  async listDeleted(): Promise<DeletedTreeSummary[]> {
+    return this.primary.listDeleted();
   }
 
   /**
-   * Health check - returns aggregate status
-   * Unhealthy if primary is unhealthy
+   * Get a tree in the trash (from primary, like listDeleted())
    */
-  async health(): Promise<{ healthy: boolean; error?: string }> {
-    const primaryHealth = await this.primary.health();
+  async getDeleted(id: string): Promise<DeletedTreeSummary | null> {
+    return getDeletedTree(this.primary, id);
+  }
 
-    if (!primaryHealth.healthy) {
-      return {
-        healthy: false,
-        error: `Primary backend unhealthy: ${primaryHealth.error}`,
-      };
-    }
+  /**
+   * Purge a tree from the trash of all backends
+   * PRIMARY_REQUIRED: the primary result decides; replica failures are queued for retry
+   */
+  async purge(id: string): Promise<boolean> {
+    const purged = await this.primary.purge(id);
+    await this.writeReplicas(id, { op: 'purge' }, (replica) => replica.purge(id));
+    return purged;
+  }
 
-    // Check replicas
-    const replicaIssues: string[] = [];
-    for (const replica of this.replicas) {
-      const replicaHealth = await replica.health();
-      if (!replicaHealth.healthy) {
-        replicaIssues.push(`${replica.name}: ${replicaHealth.error}`);
-      }
+  /**
+   * List merkle trees matching a query (from primary)
+   */
+  async list(query?: TreeListQuery): Promise<MerkleTreeSummary[]> {
+    return this.primary.list(query);
+  }
+
+  /**
+   * Every tree a beneficiary appears in (from primary, like list())
+   */
+  async findTreesByBeneficiary(beneficiary: Hex): Promise<BeneficiaryTreeEntry[]> {
+    return findTreesByBeneficiary(this.primary, beneficiary);
+  }
+
+  /**
+   * Health check - returns aggregate status, each backend's status and latency, and the number of
+   * queued replica writes
+   * Unhealthy if any backend is unhealthy or the outbox cannot be read
+   */
+  async health(): Promise<{
+    healthy: boolean;
+    error?: string;
+    backends: BackendHealth[];
+    pendingReplicaWrites?: number;
+  }> {
+    const backends = await Promise.all(
+      [this.primary, ...this.replicas].map(async (backend, i): Promise<BackendHealth> => {
+        const startedAt = performance.now();
+        let result: { healthy: boolean; error?: string };
+        try {
+          result = await backend.health();
+        } catch (error) {
+          result = { healthy: false, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+
+        return {
+          backend: backend.name,
+          role: i === 0 ? 'primary' : 'replica',
+          ...result,
+          latencyMs: Math.round(performance.now() - startedAt),
+        };
+      })
+    );
+
+    let pendingReplicaWrites: number | undefined;
+    let outboxError: string | undefined;
+    try {
+      pendingReplicaWrites = await this.pendingWriteCount();
+    } catch (error) {
+      outboxError = `Replica outbox unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
 
-    if (replicaIssues.length > 0) {
-      return {
-        healthy: false,
-        error: `Replica issues: ${replicaIssues.join(', ')}`,
-      };
+    const [primaryHealth, ...replicaHealth] = backends;
+    const replicaIssues = replicaHealth
+      .filter((replica) => !replica.healthy)
+      .map((replica) => `${replica.backend}: ${replica.error}`);
+
+    let error: string | undefined;
+    if (!primaryHealth.healthy) {
+      error = `Primary backend unhealthy: ${primaryHealth.error}`;
+    } else if (replicaIssues.length > 0) {
+      error = `Replica issues: ${replicaIssues.join(', ')}`;
+    } else {
+      error = outboxError;
     }
 
-    return { healthy: true };
+    return {
+      healthy: error === undefined,
+      ...(error !== undefined && { error }),
+      backends,
+      ...(pendingReplicaWrites !== undefined && { pendingReplicaWrites }),
+    };
+  }
+
+  /**
+   * Number of replica writes waiting in the outbox
+   */
+  async pendingWriteCount(): Promise<number> {
+    return (await this.outbox.list()).length;
+  }
+
+  /**
+   * Retry queued replica writes that are due
+   * Writes for the same replica and tree are applied in the order they were queued; a failure
+   * pushes the write back with exponential backoff and holds later writes for that tree.
+   * Concurrent calls share the pass in progress.
+   */
+  retryPendingWrites(now: Date = new Date()): Promise<ReplicaRetryResult> {
+    this.retrying ??= this.retryDueWrites(now).finally(() => {
+      this.retrying = null;
+    });
+    return this.retrying;
+  }
+
+  /**
+   * Retry queued replica writes on a timer
+   * The timer does not keep the process alive on its own
+   */
+  startRetryJob(intervalMs = DEFAULT_RETRY_INTERVAL_MS): { stop(): void } {
+    const timer = setInterval(async () => {
+      try {
+        const { completed } = await this.retryPendingWrites();
+        if (completed > 0) {
+          console.log(`Applied ${completed} queued replica write(s)`);
+        }
+      } catch (error) {
+        console.warn('Replica retry job failed:', error instanceof Error ? error.message : 'Unknown error');
+      }
+    }, intervalMs);
+    timer.unref?.();
+
+    return {
+      stop() {
+        clearInterval(timer);
+      },
+    };
   }
 
   /**
    * Reconcile data across all backends
-   * Syncs missing data from any backend to all others
+   * Every copy of every tree is compared with a source copy: the primary's when it can be read,
+   * otherwise the first readable replica's. Missing, differing and unreadable copies are
+   * overwritten with the source. Trees in the primary's trash are soft-deleted on replicas that
+   * still hold them live instead of being copied back.
    */
-  async reconcile(): Promise<{ synced: number; errors: string[] }> {
+  async reconcile(): Promise<ReconcileResult> {
     const allBackends = [this.primary, ...this.replicas];
     const errors: string[] = [];
     let synced = 0;
 
+    const backends: BackendDivergence[] = allBackends.map((backend, i) => ({
+      backend: backend.name,
+      role: i === 0 ? 'primary' : 'replica',
+      missing: [],
+      differing: [],
+      unreadable: [],
+      deleted: [],
+      repaired: [],
+    }));
+
     // Get all unique tree IDs across all backends
     const allTreeIds = new Set<string>();
     for (const backend of allBackends) {
@@ -156,34 +358,75 @@ export class ReplicatedStorage implements StorageBackend {
       }
     }
 
-    // For each tree ID, ensure it exists in all backends
+    const trash = new Map<string, Tombstone>();
+    try {
+      for (const deleted of await this.primary.listDeleted()) {
+        trash.set(deleted.id, deleted.tombstone);
+      }
+    } catch (error) {
+      // Without the trash, a tree deleted on the primary could be copied back from a replica
+      errors.push(
+        `Failed to list deleted trees from ${this.primary.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return { synced, errors, backends };
+    }
+
     for (const treeId of allTreeIds) {
-      // Find a backend that has this tree
-      let sourceTree: MerkleTree | null = null;
-      for (const backend of allBackends) {
+      // null: the backend does not have the tree; undefined: the read failed
+      const copies: Array<MerkleTree | null | undefined> = [];
+      for (const [i, backend] of allBackends.entries()) {
         try {
-          sourceTree = await backend.get(treeId);
-          if (sourceTree) break;
+          copies.push(await backend.get(treeId));
         } catch (error) {
-          errors.push(
-            `Failed to get tree ${treeId} from ${backend.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          copies.push(undefined);
+          backends[i].unreadable.push(treeId);
+          console.warn(
+            `Reconcile: ${backend.name} could not read tree ${treeId}:`,
+            error instanceof Error ? error.message : 'Unknown error'
           );
         }
       }
 
-      if (!sourceTree) {
-        errors.push(`Tree ${treeId} not found in any backend`);
+      const tombstone = trash.get(treeId);
+      if (tombstone) {
+        for (const [i, backend] of allBackends.entries()) {
+          if (i === 0 || !copies[i]) continue;
+
+          backends[i].deleted.push(treeId);
+          try {
+            await backend.softDelete(treeId, tombstone);
+            backends[i].repaired.push(treeId);
+            synced++;
+          } catch (error) {
+            errors.push(
+              `Failed to delete tree ${treeId} from ${backend.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+          }
+        }
+        continue;
+      }
+
+      const source = copies.find((copy) => copy);
+      if (!source) {
+        errors.push(`Tree ${treeId} has no readable copy in any backend`);
         continue;
       }
 
-      // Copy to backends that don't have it
-      for (const backend of allBackends) {
+      for (const [i, backend] of allBackends.entries()) {
+        const copy = copies[i];
+        if (copy === source) continue;
+
+        if (copy === null) {
+          backends[i].missing.push(treeId);
+        } else if (copy !== undefined) {
+          if (Bun.deepEquals(copy, source)) continue;
+          backends[i].differing.push(treeId);
+        }
+
         try {
-          const existingTree = await backend.get(treeId);
-          if (!existingTree) {
-            await backend.save(sourceTree);
-            synced++;
-          }
+          await backend.save(source);
+          backends[i].repaired.push(treeId);
+          synced++;
         } catch (error) {
           errors.push(
             `Failed to sync tree ${treeId} to ${backend.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -192,6 +435,188 @@ export class ReplicatedStorage implements StorageBackend {
       }
     }
 
-    return { synced, errors };
+    return { synced, errors, backends };
+  }
+
+  /**
+   * Return the first result from primary then replicas, skipping backends that have no
+   * result or fail to read; a failed read is logged and only thrown when no backend succeeds
+   * A tree the primary has in its trash is not found, even while a replica still holds the live
+   * copy its queued soft delete has not reached yet.
+   */
+  private async readFirst<T>(id: string, read: (backend: StorageBackend) => Promise<T | null>): Promise<T | null> {
+    let failure: unknown;
+
+    for (const backend of [this.primary, ...this.replicas]) {
+      try {
+        const result = await read(backend);
+        if (result) {
+          return result;
+        }
+        if (backend === this.primary && (await getDeletedTree(this.primary, id))) {
+          return null;
+        }
+      } catch (error) {
+        failure ??= error;
+        console.warn(
+          `Backend ${backend.name} could not read tree ${id}:`,
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      }
+    }
+
+    if (failure !== undefined) {
+      throw failure;
+    }
+    return null;
+  }
+
+  /**
+   * Apply a write to every replica in parallel
+   * A replica whose write fails, or that still has earlier writes for the tree queued, gets the write
+   * queued in the outbox instead, so writes to one tree reach each replica in order.
+   * @returns Each replica's result, or undefined where the write was queued
+   * @throws WriteQuorumError if fewer replicas than the write quorum applied the write
+   */
+  private async writeReplicas<T>(
+    treeId: string,
+    write: Pick<PendingReplicaWrite, 'op' | 'tombstone'>,
+    apply: (replica: StorageBackend) => Promise<T>
+  ): Promise<Array<T | undefined>> {
+    const pending = await this.outbox.list();
+
+    const results = await Promise.all(
+      this.replicas.map(async (replica, i) => {
+        if (pending.some((queued) => queued.replica === i && queued.treeId === treeId)) {
+          await this.enqueue(i, treeId, write);
+          return { applied: false as const };
+        }
+
+        try {
+          return { applied: true as const, value: await apply(replica) };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.warn(`Replica ${replica.name} ${write.op} failed, queued for retry:`, message);
+          await this.enqueue(i, treeId, write, message);
+          return { applied: false as const };
+        }
+      })
+    );
+
+    const applied = results.filter((result) => result.applied).length;
+    if (applied < this.writeQuorum) {
+      throw new WriteQuorumError(
+        treeId,
+        applied,
+        this.writeQuorum,
+        `Write quorum not met: ${applied} of ${this.replicas.length} replica(s) applied the ${write.op} of tree ${treeId}, ${this.writeQuorum} required`
+      );
+    }
+
+    return results.map((result) => (result.applied ? result.value : undefined));
+  }
+
+  /**
+   * Queue a replica write; `error` is set when the write was attempted and failed
+   */
+  private async enqueue(
+    replica: number,
+    treeId: string,
+    write: Pick<PendingReplicaWrite, 'op' | 'tombstone'>,
+    error?: string
+  ): Promise<void> {
+    const now = Date.now();
+    // A write queued behind earlier ones has not been attempted and is due right away
+    const attempts = error === undefined ? 0 : 1;
+    const delayMs = attempts === 0 ? 0 : getRetryDelayMs(attempts, this.retryBaseDelayMs, this.retryMaxDelayMs);
+
+    await this.outbox.add({
+      id: uuidv4(),
+      replica,
+      backend: this.replicas[replica].name,
+      treeId,
+      ...write,
+      enqueuedAt: new Date(now).toISOString(),
+      attempts,
+      nextAttemptAt: new Date(now + delayMs).toISOString(),
+      ...(error !== undefined && { lastError: error }),
+    });
+  }
+
+  private async retryDueWrites(now: Date): Promise<ReplicaRetryResult> {
+    let completed = 0;
+    let failed = 0;
+    // Replica and tree pairs with an earlier write still queued
+    const held = new Set<string>();
+
+    for (const write of await this.outbox.list()) {
+      const key = `${write.replica}:${write.treeId}`;
+      if (held.has(key)) continue;
+
+      const replica = this.replicas[write.replica];
+      if (!replica || replica.name !== write.backend) {
+        // The replica set changed since the write was queued; reconcile() repairs the new replicas
+        console.warn(
+          `Dropping queued ${write.op} of tree ${write.treeId} for replica ${write.backend}: replica no longer configured`
+        );
+        await this.outbox.remove(write.id);
+        continue;
+      }
+
+      if (Date.parse(write.nextAttemptAt) > now.getTime()) {
+        held.add(key);
+        continue;
+      }
+
+      try {
+        await this.applyPendingWrite(replica, write);
+        await this.outbox.remove(write.id);
+        completed++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const attempts = write.attempts + 1;
+        const delayMs = getRetryDelayMs(attempts, this.retryBaseDelayMs, this.retryMaxDelayMs);
+        console.warn(
+          `Replica ${replica.name} ${write.op} of tree ${write.treeId} failed again (attempt ${attempts}):`,
+          message
+        );
+
+        held.add(key);
+        await this.outbox.update({
+          ...write,
+          attempts,
+          nextAttemptAt: new Date(now.getTime() + delayMs).toISOString(),
+          lastError: message,
+        });
+        failed++;
+      }
+    }
+
+    return { completed, failed, pending: await this.pendingWriteCount() };
+  }
+
+  private async applyPendingWrite(replica: StorageBackend, write: PendingReplicaWrite): Promise<void> {
+    switch (write.op) {
+      case 'save': {
+        // A tree no longer live on the primary is handled by the delete queued after this write
+        const tree = await this.primary.get(write.treeId);
+        if (tree) {
+          await replica.save(tree);
+        }
+        return;
+      }
+      case 'delete':
+        await replica.delete(write.treeId);
+        return;
+      case 'soft-delete':
+        await replica.softDelete(write.treeId, write.tombstone!);
+        return;
+      case 'restore':
+        await replica.restore(write.treeId);
+        return;
+      case 'purge':
+        await replica.purge(write.treeId);
+        return;
+    }
   }
 }
@@ -0,0 +1,493 @@
+import { S3Client } from 'bun';
+import { keccak256, toBytes, type Hex } from 'viem';
+import type {
+  BeneficiaryTreeEntry,
+  DeletedTreeSummary,
+  MerkleTree,
+  MerkleTreeSummary,
+  StorageBackend,
+  Tombstone,
+  TreeListQuery,
+} from '../../types';
+import { summarizeTree } from './summary';
+import { applyTreeListQuery } from './query';
+import {
+  forEachConcurrently,
+  getBeneficiaryEntries,
+  getRemovedBeneficiaries,
+  isBeneficiaryIndexCurrent,
+  sortBeneficiaryEntries,
+  toBeneficiaryKey,
+} from './beneficiaries';
+import { parseStoredTree, verifyStoredTree, type IntegrityOptions } from './integrity';
+
+/**
+ * Connection settings for an S3-compatible bucket
+ * Unset credentials/endpoint fall back to Bun's S3_* / AWS_* environment variables
+ */
+export interface S3BackendConfig extends IntegrityOptions {
+  bucket: string;
+  prefix?: string; // Key prefix, e.g. 'merkle-trees/'
+  endpoint?: string;
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+/**
+ * Pointer object stored at `trees/<id>.json`
+ */
+interface TreePointer {
+  id: string;
+  contentHash: Hex;
+  summary: MerkleTreeSummary;
+}
+
+/**
+ * Pointer object for a soft-deleted tree, stored at `deleted/<id>.json`
+ */
+interface DeletedTreePointer extends TreePointer {
+  tombstone: Tombstone;
+}
+
+// Reverse index entry objects written or removed at once
+const INDEX_WRITE_CONCURRENCY = 16;
+
+/**
+ * S3-compatible object storage backend
+ *
+ * Tree bodies are stored under content-hash keys (`objects/<keccak256>.json`) and
+ * verified against that hash on read. A small pointer per tree (`trees/<id>.json`)
+ * maps the ID to its current object and carries the list summary, so list() is a
+ * prefix listing over pointers rather than a download of every tree. The beneficiary
+ * reverse index is one object per beneficiary and tree under `addresses/<address>/<id>.json`,
+ * so a lookup lists and reads only the trees the address is in.
+ * Soft delete moves the pointer to `deleted/<id>.json`; the body stays until purge.
+ *
+ * A matching hash only proves the body is the one the pointer names, since both could be
+ * rewritten together, so get() also runs verifyTreeIntegrity.
+ */
+export class S3Backend implements StorageBackend {
+  readonly name = 's3';
+  private client: S3Client;
+  private prefix: string;
+  private beneficiaryIndexReady?: Promise<void>;
+  private verifyIntegrity: boolean;
+
+  constructor(config: S3BackendConfig) {
+    this.client = new S3Client({
+      bucket: config.bucket,
+      endpoint: config.endpoint,
+      region: config.region,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    });
+    this.prefix = config.prefix ?? '';
+    this.verifyIntegrity = config.verifyIntegrity ?? true;
+  }
+
+  /**
+   * Validate tree ID so it cannot escape the key layout
+   */
+  private validateId(id: string): void {
+    if (!/^[a-zA-Z0-9-]+$/.test(id)) {
+      throw new Error('Invalid tree ID format');
+    }
+  }
+
+  private pointerKey(id: string): string {
+    return `${this.prefix}trees/${id}.json`;
+  }
+
+  private objectKey(contentHash: Hex): string {
+    return `${this.prefix}objects/${contentHash}.json`;
+  }
+
+  private deletedPointerKey(id: string): string {
+    return `${this.prefix}deleted/${id}.json`;
+  }
+
+  private addressPrefix(key: string): string {
+    return `${this.prefix}addresses/${key}/`;
+  }
+
+  /**
+   * Save a merkle tree
+   * The body is written before the pointer, so readers never see a dangling pointer
+   */
+  async save(tree: MerkleTree): Promise<void> {
+    this.validateId(tree.id);
+
+    const body = JSON.stringify(tree);
+    const contentHash = keccak256(toBytes(body));
+    const previous = await this.readPointer(tree.id);
+
+    await this.client.write(this.objectKey(contentHash), body, { type: 'application/json' });
+
+    const pointer: TreePointer = { id: tree.id, contentHash, summary: summarizeTree(tree) };
+    await this.client.write(this.pointerKey(tree.id), JSON.stringify(pointer), { type: 'application/json' });
+
+    if (!previous) {
+      await this.indexBeneficiaries(tree);
+    } else if (previous.contentHash !== contentHash) {
+      const previousTree = await this.readTreeObject(previous.contentHash);
+      if (!isBeneficiaryIndexCurrent(previousTree, tree)) {
+        await this.indexBeneficiaries(tree, getRemovedBeneficiaries(previousTree, tree));
+      }
+      await this.deleteObject(this.objectKey(previous.contentHash));
+    }
+  }
+
+  /**
+   * Get a merkle tree by ID
+   * @throws Error if the body its pointer names is missing, does not match its content hash,
+   *         or fails the integrity check
+   */
+  async get(id: string): Promise<MerkleTree | null> {
+    this.validateId(id);
+
+    const pointer = await this.readPointer(id);
+    if (!pointer) {
+      return null;
+    }
+
+    // A pointer without its body is a damaged tree, not a missing one
+    const body = await this.readObject(this.objectKey(pointer.contentHash));
+    if (body === null) {
+      throw new Error(`Integrity check failed for tree ${id}: stored object ${pointer.contentHash} is missing`);
+    }
+
+    const actualHash = keccak256(toBytes(body));
+    if (actualHash !== pointer.contentHash) {
+      throw new Error(
+        `Integrity check failed for tree ${id}: expected ${pointer.contentHash}, got ${actualHash}`
+      );
+    }
+
+    const tree = parseStoredTree(id, body);
+    return this.verifyIntegrity ? verifyStoredTree(tree, body, pointer.contentHash) : tree;
+  }
+
+  /**
+   * Delete a merkle tree (pointer and body)
+   */
+  async delete(id: string): Promise<boolean> {
+    this.validateId(id);
+
+    const pointer = await this.readPointer(id);
+    if (!pointer) {
+      return false;
+    }
+
+    const tree = await this.readTreeObject(pointer.contentHash);
+
+    await this.deleteObject(this.pointerKey(id));
+    await this.deleteObject(this.objectKey(pointer.contentHash));
+    await this.unindexBeneficiaries(id, tree ? getBeneficiaryEntries(tree).keys() : undefined);
+    return true;
+  }
+
+  /**
+   * Move a tree to the trash
+   * The deleted pointer is written before the live one is removed, so the body is never orphaned
+   */
+  async softDelete(id: string, tombstone: Tombstone): Promise<boolean> {
+    this.validateId(id);
+
+    const pointer = await this.readPointer(id);
+    if (!pointer) {
+      return false;
+    }
+
+    const deleted: DeletedTreePointer = { ...pointer, tombstone };
+    await this.client.write(this.deletedPointerKey(id), JSON.stringify(deleted), { type: 'application/json' });
+    await this.deleteObject(this.pointerKey(id));
+
+    const tree = await this.readTreeObject(pointer.contentHash);
+    await this.unindexBeneficiaries(id, tree ? getBeneficiaryEntries(tree).keys() : undefined);
+    return true;
+  }
+
+  /**
+   * Move a tree from the trash back to the live set
+   */
+  async restore(id: string): Promise<boolean> {
+    this.validateId(id);
+
+    const deleted = await this.readDeletedPointer(id);
+    if (!deleted) {
+      return false;
+    }
+
+    const { tombstone: _tombstone, ...pointer } = deleted;
+    await this.client.write(this.pointerKey(id), JSON.stringify(pointer), { type: 'application/json' });
+
+    const tree = await this.readTreeObject(pointer.contentHash);
+    if (tree) {
+      await this.indexBeneficiaries(tree);
+    }
+
+    await this.deleteObject(this.deletedPointerKey(id));
+    return true;
+  }
+
+  /**
+   * List trees in the trash by listing the deleted pointer prefix
+   */
+  async listDeleted(): Promise<DeletedTreeSummary[]> {
+    const deleted: DeletedTreeSummary[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.list({ prefix: `${this.prefix}deleted/`, continuationToken });
+
+      for (const object of page.contents ?? []) {
+        const body = await this.readObject(object.key);
+        if (body !== null) {
+          const pointer = JSON.parse(body) as DeletedTreePointer;
+          deleted.push({ ...pointer.summary, tombstone: pointer.tombstone });
+        }
+      }
+
+      continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return deleted;
+  }
+
+  /**
+   * Get a tree in the trash from its deleted pointer
+   */
+  async getDeleted(id: string): Promise<DeletedTreeSummary | null> {
+    this.validateId(id);
+
+    const deleted = await this.readDeletedPointer(id);
+    return deleted ? { ...deleted.summary, tombstone: deleted.tombstone } : null;
+  }
+
+  /**
+   * Hard-delete a tree from the trash (body, then pointer)
+   */
+  async purge(id: string): Promise<boolean> {
+    this.validateId(id);
+
+    const deleted = await this.readDeletedPointer(id);
+    if (!deleted) {
+      return false;
+    }
+
+    const tree = await this.readTreeObject(deleted.contentHash).catch(() => null);
+    await this.deleteObject(this.objectKey(deleted.contentHash));
+    await this.deleteObject(this.deletedPointerKey(id));
+
+    // Soft delete already dropped the tree's index entries; drop any an interrupted one left,
+    // unless a live tree has taken the ID since
+    if (tree && !(await this.readPointer(id))) {
+      await this.unindexBeneficiaries(id, getBeneficiaryEntries(tree).keys());
+    }
+    return true;
+  }
+
+  /**
+   * Every tree a beneficiary appears in, by listing the address's own reverse index entries
+   */
+  async findTreesByBeneficiary(beneficiary: Hex): Promise<BeneficiaryTreeEntry[]> {
+    const key = toBeneficiaryKey(beneficiary);
+    if (!key) {
+      return [];
+    }
+
+    await this.ensureBeneficiaryIndex();
+
+    const entries: BeneficiaryTreeEntry[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.list({ prefix: this.addressPrefix(key), continuationToken });
+
+      for (const object of page.contents ?? []) {
+        const body = await this.readObject(object.key);
+        if (body !== null) {
+          entries.push(JSON.parse(body) as BeneficiaryTreeEntry);
+        }
+      }
+
+      continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return sortBeneficiaryEntries(entries);
+  }
+
+  /**
+   * List merkle trees matching a query by listing the pointer prefix
+   * Object stores cannot filter on summary fields, so the query is applied to the pointers
+   */
+  async list(query?: TreeListQuery): Promise<MerkleTreeSummary[]> {
+    const summaries: MerkleTreeSummary[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.list({ prefix: `${this.prefix}trees/`, continuationToken });
+
+      for (const object of page.contents ?? []) {
+        const body = await this.readObject(object.key);
+        if (body !== null) {
+          summaries.push((JSON.parse(body) as TreePointer).summary);
+        }
+      }
+
+      continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return applyTreeListQuery(summaries, query);
+  }
+
+  /**
+   * Health check - lists at most one key under the prefix
+   */
+  async health(): Promise<{ healthy: boolean; error?: string }> {
+    try {
+      await this.client.list({ prefix: this.prefix, maxKeys: 1 });
+      return { healthy: true };
+    } catch (error) {
+      return {
+        healthy: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Write a tree's reverse index entries and drop those of beneficiaries it no longer includes
+   */
+  private async indexBeneficiaries(tree: MerkleTree, removed: string[] = []): Promise<void> {
+    await forEachConcurrently(getBeneficiaryEntries(tree), INDEX_WRITE_CONCURRENCY, async ([key, entry]) => {
+      await this.client.write(`${this.addressPrefix(key)}${tree.id}.json`, JSON.stringify(entry), {
+        type: 'application/json',
+      });
+    });
+    await this.unindexBeneficiaries(tree.id, removed);
+  }
+
+  /**
+   * Drop a tree's reverse index entries
+   * When the tree body is missing, the whole index is listed for the tree's entries.
+   */
+  private async unindexBeneficiaries(id: string, keys?: Iterable<string>): Promise<void> {
+    if (keys) {
+      await forEachConcurrently(keys, INDEX_WRITE_CONCURRENCY, async (key) => {
+        await this.deleteObject(`${this.addressPrefix(key)}${id}.json`);
+      });
+      return;
+    }
+
+    await this.deletePrefix(`${this.prefix}addresses/`, (key) => key.endsWith(`/${id}.json`));
+  }
+
+  /**
+   * Delete every object under a prefix whose key passes `filter`
+   */
+  private async deletePrefix(prefix: string, filter: (key: string) => boolean = () => true): Promise<void> {
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.list({ prefix, continuationToken });
+      const keys = (page.contents ?? []).map((object) => object.key).filter(filter);
+      await forEachConcurrently(keys, INDEX_WRITE_CONCURRENCY, (key) => this.deleteObject(key));
+      continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  /**
+   * Index trees saved before the reverse index existed, once per bucket prefix
+   * A marker object records that every stored tree has been indexed. Trees that fail to load
+   * are logged and left out rather than failing every lookup. The per-shard index objects of
+   * earlier versions (`beneficiaries/`) are deleted once the new index is complete.
+   */
+  private ensureBeneficiaryIndex(): Promise<void> {
+    this.beneficiaryIndexReady ??= (async () => {
+      const marker = `${this.prefix}addresses/.complete`;
+      if ((await this.readObject(marker)) !== null) {
+        return;
+      }
+
+      let continuationToken: string | undefined;
+      do {
+        const page = await this.client.list({ prefix: `${this.prefix}trees/`, continuationToken });
+
+        for (const object of page.contents ?? []) {
+          const id = object.key.slice(`${this.prefix}trees/`.length, -'.json'.length);
+          let tree: MerkleTree | null;
+          try {
+            tree = await this.get(id);
+          } catch (error) {
+            console.warn(
+              `Beneficiary index skipped tree ${id}:`,
+              error instanceof Error ? error.message : 'Unknown error'
+            );
+            continue;
+          }
+
+          if (tree) {
+            await this.indexBeneficiaries(tree);
+          }
+        }
+
+        continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+      } while (continuationToken);
+
+      await this.client.write(marker, '');
+      await this.deletePrefix(`${this.prefix}beneficiaries/`);
+    })().catch((error) => {
+      this.beneficiaryIndexReady = undefined;
+      throw error;
+    });
+
+    return this.beneficiaryIndexReady;
+  }
+
+  /**
+   * Read a tree body by content hash without verifying it (index maintenance only)
+   */
+  private async readTreeObject(contentHash: Hex): Promise<MerkleTree | null> {
+    const body = await this.readObject(this.objectKey(contentHash));
+    return body === null ? null : (JSON.parse(body) as MerkleTree);
+  }
+
+  private async readDeletedPointer(id: string): Promise<DeletedTreePointer | null> {
+    const body = await this.readObject(this.deletedPointerKey(id));
+    return body === null ? null : (JSON.parse(body) as DeletedTreePointer);
+  }
+
+  private async readPointer(id: string): Promise<TreePointer | null> {
+    const body = await this.readObject(this.pointerKey(id));
+    return body === null ? null : (JSON.parse(body) as TreePointer);
+  }
+
+  /**
+   * Read an object as text, or null if the key does not exist
+   */
+  private async readObject(key: string): Promise<string | null> {
+    try {
+      return await this.client.file(key).text();
+    } catch (error) {
+      if (isNoSuchKey(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async deleteObject(key: string): Promise<void> {
+    try {
+      await this.client.delete(key);
+    } catch (error) {
+      if (!isNoSuchKey(error)) {
+        throw error;
+      }
+    }
+  }
+}
+
+function isNoSuchKey(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'NoSuchKey';
+}
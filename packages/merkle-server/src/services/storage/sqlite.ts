@@ -0,0 +1,571 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { Hex } from 'viem';
+import type {
+  AllocationBatchLookup,
+  AllocationListQuery,
+  AllocationListResult,
+  AllocationLookup,
+  AllocationWithProof,
+  BeneficiaryTreeEntry,
+  DeletedTreeSummary,
+  MerkleTree,
+  MerkleTreeHeader,
+  MerkleTreeSummary,
+  StorageBackend,
+  Tombstone,
+  TreeListQuery,
+  TreeSortField,
+} from '../../types';
+import { summarizeTree } from './summary';
+import { assertAllocationIntegrity } from '../integrity';
+import { verifyStoredTree, type IntegrityOptions } from './integrity';
+
+interface TreeRow {
+  id: string;
+  root: string;
+  token: string | null;
+  created_at: string;
+  allocation_count: number;
+  total_amount: string;
+  header: string;
+}
+
+interface AllocationRow {
+  beneficiary: string;
+  amount: string;
+  leaf: string;
+  proof: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS trees (
+    id TEXT PRIMARY KEY,
+    root TEXT NOT NULL,
+    root_key TEXT NOT NULL,
+    token TEXT,
+    token_key TEXT,
+    created_at TEXT NOT NULL,
+    allocation_count INTEGER NOT NULL,
+    total_amount TEXT NOT NULL,
+    header TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS trees_created_at ON trees (created_at);
+
+  CREATE TABLE IF NOT EXISTS allocations (
+    tree_id TEXT NOT NULL REFERENCES trees (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    beneficiary TEXT NOT NULL,
+    beneficiary_key TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    leaf TEXT NOT NULL,
+    proof TEXT NOT NULL,
+    PRIMARY KEY (tree_id, position)
+  );
+  CREATE INDEX IF NOT EXISTS allocations_beneficiary ON allocations (tree_id, beneficiary_key);
+  CREATE INDEX IF NOT EXISTS allocations_beneficiary_trees ON allocations (beneficiary_key);
+
+  CREATE TABLE IF NOT EXISTS deleted_trees (
+    id TEXT PRIMARY KEY,
+    summary TEXT NOT NULL,
+    tree TEXT NOT NULL
+  );
+`;
+
+// Created after migrate(), since older databases lack the key columns until then
+const KEY_INDEXES = `
+  DROP INDEX IF EXISTS trees_root;
+  DROP INDEX IF EXISTS trees_token;
+  CREATE INDEX IF NOT EXISTS trees_root_key ON trees (root_key);
+  CREATE INDEX IF NOT EXISTS trees_token_key ON trees (token_key);
+`;
+
+/**
+ * SQL sort key for each list sort field: the ORDER BY columns, the placeholders
+ * a keyset position binds to, and how to bind a position's value
+ */
+const SORT_KEYS: Record<
+  TreeSortField,
+  { columns: string[]; params: string[]; bind(value: string): Record<string, string | number> }
+> = {
+  createdAt: {
+    columns: ['created_at'],
+    params: ['$afterValue'],
+    bind: (value) => ({ afterValue: value }),
+  },
+  allocationCount: {
+    columns: ['allocation_count'],
+    params: ['$afterValue'],
+    bind: (value) => ({ afterValue: Number(value) }),
+  },
+  totalAmount: {
+    columns: ['length(total_amount)', 'total_amount'],
+    params: ['$afterLength', '$afterValue'],
+    bind: (value) => ({ afterLength: value.length, afterValue: value }),
+  },
+};
+
+/**
+ * SQLite storage backend (bun:sqlite)
+ * Tree metadata and allocations live in separate tables, so listing and
+ * single-beneficiary proof lookups never deserialize a whole tree.
+ * Whole trees read with get() or getSummary() are verified (see verifyTreeIntegrity); allocations
+ * returned by the lookup paths are checked against the stored root (see assertAllocationIntegrity).
+ */
+export class SqliteBackend implements StorageBackend {
+  readonly name = 'sqlite';
+  private db: Database;
+  private verifyIntegrity: boolean;
+
+  /**
+   * @param path - Database file path, or ':memory:' for an in-memory database
+   */
+  constructor(path: string = ':memory:', options: IntegrityOptions = {}) {
+    this.verifyIntegrity = options.verifyIntegrity ?? true;
+
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true, strict: true });
+    this.db.exec('PRAGMA journal_mode = WAL;');
+    this.db.exec('PRAGMA foreign_keys = ON;');
+    this.db.exec(SCHEMA);
+    this.migrate();
+    this.db.exec(KEY_INDEXES);
+  }
+
+  /**
+   * Save a merkle tree, replacing any existing tree with the same ID
+   */
+  async save(tree: MerkleTree): Promise<void> {
+    const { allocations, ...header } = tree;
+    const summary = summarizeTree(tree);
+
+    const upsertTree = this.db.prepare(`
+      INSERT INTO trees (id, root, root_key, token, token_key, created_at, allocation_count, total_amount, header)
+      VALUES ($id, $root, $rootKey, $token, $tokenKey, $createdAt, $allocationCount, $totalAmount, $header)
+      ON CONFLICT (id) DO UPDATE SET
+        root = excluded.root,
+        root_key = excluded.root_key,
+        token = excluded.token,
+        token_key = excluded.token_key,
+        created_at = excluded.created_at,
+        allocation_count = excluded.allocation_count,
+        total_amount = excluded.total_amount,
+        header = excluded.header
+    `);
+    const clearAllocations = this.db.prepare('DELETE FROM allocations WHERE tree_id = $id');
+    const insertAllocation = this.db.prepare(`
+      INSERT INTO allocations (tree_id, position, beneficiary, beneficiary_key, amount, leaf, proof)
+      VALUES ($treeId, $position, $beneficiary, $beneficiaryKey, $amount, $leaf, $proof)
+    `);
+
+    this.db.transaction(() => {
+      upsertTree.run({
+        id: tree.id,
+        root: tree.root,
+        rootKey: tree.root.toLowerCase(),
+        token: tree.token ?? null,
+        tokenKey: tree.token?.toLowerCase() ?? null,
+        createdAt: tree.createdAt,
+        allocationCount: summary.allocationCount,
+        totalAmount: summary.totalAmount,
+        header: JSON.stringify(header),
+      });
+      clearAllocations.run({ id: tree.id });
+
+      allocations.forEach((alloc, position) => {
+        insertAllocation.run({
+          treeId: tree.id,
+          position,
+          beneficiary: alloc.beneficiary,
+          beneficiaryKey: alloc.beneficiary.toLowerCase(),
+          amount: alloc.amount,
+          leaf: alloc.leaf,
+          proof: JSON.stringify(alloc.proof),
+        });
+      });
+    })();
+  }
+
+  /**
+   * Get a merkle tree by ID
+   * @throws Error if the stored rows fail the integrity check
+   */
+  async get(id: string): Promise<MerkleTree | null> {
+    const header = this.getHeader(id);
+    if (!header) {
+      return null;
+    }
+
+    const rows = this.db
+      .query<AllocationRow, { id: string }>(
+        'SELECT beneficiary, amount, leaf, proof FROM allocations WHERE tree_id = $id ORDER BY position'
+      )
+      .all({ id });
+
+    const tree = { ...header, allocations: rows.map(toAllocation) } as MerkleTree;
+    return this.verifyIntegrity ? verifyStoredTree(tree, JSON.stringify(tree)) : tree;
+  }
+
+  /**
+   * Look up one beneficiary via the (tree_id, beneficiary) index
+   */
+  async findAllocation(id: string, beneficiary: Hex): Promise<AllocationLookup | null> {
+    const header = this.getHeader(id);
+    if (!header) {
+      return null;
+    }
+
+    const row = this.db
+      .query<AllocationRow, { id: string; key: string }>(
+        'SELECT beneficiary, amount, leaf, proof FROM allocations WHERE tree_id = $id AND beneficiary_key = $key'
+      )
+      .get({ id, key: beneficiary.toLowerCase() });
+
+    const allocation = row ? toAllocation(row) : null;
+    if (allocation && this.verifyIntegrity) {
+      assertAllocationIntegrity(header, [allocation]);
+    }
+    return { tree: header, allocation };
+  }
+
+  /**
+   * Look up several beneficiaries in one indexed query
+   */
+  async findAllocations(id: string, beneficiaries: Hex[]): Promise<AllocationBatchLookup | null> {
+    const header = this.getHeader(id);
+    if (!header) {
+      return null;
+    }
+
+    const rows = this.db
+      .query<AllocationRow, { id: string; keys: string }>(
+        `SELECT beneficiary, amount, leaf, proof FROM allocations
+         WHERE tree_id = $id AND beneficiary_key IN (SELECT value FROM json_each($keys))`
+      )
+      .all({ id, keys: JSON.stringify(beneficiaries.map((beneficiary) => beneficiary.toLowerCase())) });
+
+    const byKey = new Map(rows.map((row) => [row.beneficiary.toLowerCase(), toAllocation(row)]));
+    if (this.verifyIntegrity) {
+      assertAllocationIntegrity(header, [...byKey.values()]);
+    }
+    const allocations: AllocationWithProof[] = [];
+    const missing: Hex[] = [];
+
+    for (const beneficiary of beneficiaries) {
+      const allocation = byKey.get(beneficiary.toLowerCase());
+      if (allocation) {
+        allocations.push(allocation);
+      } else {
+        missing.push(beneficiary);
+      }
+    }
+
+    return { tree: header, allocations, missing };
+  }
+
+  /**
+   * Every tree a beneficiary appears in, via the beneficiary_key index
+   */
+  async findTreesByBeneficiary(beneficiary: Hex): Promise<BeneficiaryTreeEntry[]> {
+    const rows = this.db
+      .query<
+        { id: string; root: string; token: string | null; created_at: string; amount: string; vesting: string | null },
+        { key: string }
+      >(`
+        SELECT t.id, t.root, t.token, t.created_at, a.amount, json_extract(t.header, '$.vesting') AS vesting
+        FROM allocations a JOIN trees t ON t.id = a.tree_id
+        WHERE a.beneficiary_key = $key
+        ORDER BY t.created_at, t.id
+      `)
+      .all({ key: beneficiary.toLowerCase() });
+
+    return rows.map((row) => ({
+      id: row.id,
+      root: row.root as Hex,
+      token: (row.token ?? undefined) as Hex | undefined,
+      createdAt: row.created_at,
+      amount: row.amount,
+      vesting: row.vesting ? JSON.parse(row.vesting) : undefined,
+    }));
+  }
+
+  /**
+   * Page through a tree's allocations in SQL, reading proofs only when requested
+   */
+  async listAllocations(id: string, query: AllocationListQuery): Promise<AllocationListResult | null> {
+    const header = this.getHeader(id);
+    if (!header) {
+      return null;
+    }
+
+    const where = ['tree_id = $id', 'position > $afterIndex'];
+    const params: Record<string, string | number> = { id, afterIndex: query.afterIndex ?? -1 };
+
+    if (query.beneficiaryPrefix !== undefined) {
+      where.push('substr(beneficiary_key, 1, length($prefix)) = $prefix');
+      params.prefix = query.beneficiaryPrefix.toLowerCase();
+    }
+    // Amounts are canonical decimal strings, so (length, text) compares them numerically
+    if (query.minAmount !== undefined) {
+      where.push('(length(amount), amount) >= ($minLength, $minAmount)');
+      Object.assign(params, { minLength: query.minAmount.length, minAmount: query.minAmount });
+    }
+    if (query.maxAmount !== undefined) {
+      where.push('(length(amount), amount) <= ($maxLength, $maxAmount)');
+      Object.assign(params, { maxLength: query.maxAmount.length, maxAmount: query.maxAmount });
+    }
+
+    const includeProofs = query.includeProofs !== false;
+    // Proofs are still read when verifying, since they tie each leaf to the root
+    const readProofs = includeProofs || this.verifyIntegrity;
+    let sql = `SELECT position, beneficiary, amount, leaf${readProofs ? ', proof' : ''} FROM allocations`;
+    sql += ` WHERE ${where.join(' AND ')} ORDER BY position`;
+    if (query.limit !== undefined) {
+      sql += ' LIMIT $limit';
+      params.limit = query.limit;
+    }
+
+    const rows = this.db
+      .query<AllocationRow & { position: number }, Record<string, string | number>>(sql)
+      .all(params);
+
+    if (this.verifyIntegrity) {
+      assertAllocationIntegrity(header, rows.map(toAllocation));
+    }
+
+    return {
+      tree: header,
+      allocations: rows.map((row) => ({
+        index: row.position,
+        beneficiary: row.beneficiary as Hex,
+        amount: row.amount,
+        leaf: row.leaf as Hex,
+        ...(includeProofs ? { proof: JSON.parse(row.proof) as Hex[] } : {}),
+      })),
+    };
+  }
+
+  /**
+   * Get tree metadata and totals from the header and summary columns
+   * When verifying, the summary comes from the verified tree instead, since a header edit
+   * cannot be caught from the summary columns alone.
+   * @throws Error if the stored rows fail the integrity check
+   */
+  async getSummary(id: string): Promise<{ tree: MerkleTreeHeader; summary: MerkleTreeSummary } | null> {
+    if (this.verifyIntegrity) {
+      const tree = await this.get(id);
+      if (!tree) {
+        return null;
+      }
+      const { allocations: _allocations, ...header } = tree;
+      return { tree: header, summary: summarizeTree(tree) };
+    }
+
+    const row = this.db
+      .query<TreeRow, { id: string }>(
+        'SELECT id, root, token, created_at, allocation_count, total_amount, header FROM trees WHERE id = $id'
+      )
+      .get({ id });
+
+    if (!row) {
+      return null;
+    }
+
+    return { tree: JSON.parse(row.header) as MerkleTreeHeader, summary: toSummary(row) };
+  }
+
+  /**
+   * Delete a merkle tree (allocations cascade)
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = this.db.query('DELETE FROM trees WHERE id = $id').run({ id });
+    return result.changes > 0;
+  }
+
+  /**
+   * Move a tree to the deleted_trees table, in one transaction
+   */
+  async softDelete(id: string, tombstone: Tombstone): Promise<boolean> {
+    const tree = await this.get(id);
+    if (!tree) {
+      return false;
+    }
+
+    const deleted: DeletedTreeSummary = { ...summarizeTree(tree), tombstone };
+    const insertDeleted = this.db.prepare(
+      'INSERT OR REPLACE INTO deleted_trees (id, summary, tree) VALUES ($id, $summary, $tree)'
+    );
+    const deleteTree = this.db.prepare('DELETE FROM trees WHERE id = $id');
+
+    this.db.transaction(() => {
+      insertDeleted.run({ id, summary: JSON.stringify(deleted), tree: JSON.stringify(tree) });
+      deleteTree.run({ id });
+    })();
+
+    return true;
+  }
+
+  /**
+   * Move a tree from deleted_trees back to the live tables
+   */
+  async restore(id: string): Promise<boolean> {
+    const row = this.db
+      .query<{ tree: string }, { id: string }>('SELECT tree FROM deleted_trees WHERE id = $id')
+      .get({ id });
+
+    if (!row) {
+      return false;
+    }
+
+    await this.save(JSON.parse(row.tree) as MerkleTree);
+    this.db.query('DELETE FROM deleted_trees WHERE id = $id').run({ id });
+    return true;
+  }
+
+  /**
+   * List trees in deleted_trees
+   */
+  async listDeleted(): Promise<DeletedTreeSummary[]> {
+    const rows = this.db.query<{ summary: string }, []>('SELECT summary FROM deleted_trees ORDER BY id').all();
+    return rows.map((row) => JSON.parse(row.summary) as DeletedTreeSummary);
+  }
+
+  /**
+   * Get a tree in deleted_trees
+   */
+  async getDeleted(id: string): Promise<DeletedTreeSummary | null> {
+    const row = this.db
+      .query<{ summary: string }, { id: string }>('SELECT summary FROM deleted_trees WHERE id = $id')
+      .get({ id });
+
+    return row ? (JSON.parse(row.summary) as DeletedTreeSummary) : null;
+  }
+
+  /**
+   * Hard-delete a tree from deleted_trees
+   */
+  async purge(id: string): Promise<boolean> {
+    const result = this.db.query('DELETE FROM deleted_trees WHERE id = $id').run({ id });
+    return result.changes > 0;
+  }
+
+  /**
+   * List merkle trees matching a query, filtered, sorted and limited in SQL
+   * over the indexed summary columns; token and root match the lowercase key columns
+   */
+  async list(query: TreeListQuery = {}): Promise<MerkleTreeSummary[]> {
+    const where: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.token !== undefined) {
+      where.push('token_key = $token');
+      params.token = query.token.toLowerCase();
+    }
+    if (query.root !== undefined) {
+      where.push('root_key = $root');
+      params.root = query.root.toLowerCase();
+    }
+    if (query.createdFrom !== undefined) {
+      where.push('created_at >= $createdFrom');
+      params.createdFrom = query.createdFrom;
+    }
+    if (query.createdTo !== undefined) {
+      where.push('created_at < $createdTo');
+      params.createdTo = query.createdTo;
+    }
+
+    // Amounts are canonical decimal strings, so (length, text) orders them numerically
+    const sortKey = SORT_KEYS[query.sortBy ?? 'createdAt'];
+    const direction = query.order === 'desc' ? 'DESC' : 'ASC';
+
+    if (query.after) {
+      const operator = direction === 'ASC' ? '>' : '<';
+      where.push(`(${sortKey.columns.join(', ')}, id) ${operator} (${sortKey.params.join(', ')}, $afterId)`);
+      Object.assign(params, sortKey.bind(query.after.value), { afterId: query.after.id });
+    }
+
+    let sql = 'SELECT id, root, token, created_at, allocation_count, total_amount FROM trees';
+    if (where.length > 0) {
+      sql += ` WHERE ${where.join(' AND ')}`;
+    }
+    sql += ` ORDER BY ${sortKey.columns.map((column) => `${column} ${direction}`).join(', ')}, id ${direction}`;
+    if (query.limit !== undefined) {
+      sql += ' LIMIT $limit';
+      params.limit = query.limit;
+    }
+
+    const rows = this.db.query<Omit<TreeRow, 'header'>, Record<string, string | number>>(sql).all(params);
+
+    return rows.map(toSummary);
+  }
+
+  /**
+   * Health check - runs a trivial query
+   */
+  async health(): Promise<{ healthy: boolean; error?: string }> {
+    try {
+      this.db.query('SELECT 1').get();
+      return { healthy: true };
+    } catch (error) {
+      return {
+        healthy: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Add the lowercase root and token columns to databases created before they existed
+   */
+  private migrate(): void {
+    const columns = this.db.query<{ name: string }, []>('PRAGMA table_info(trees)').all();
+    if (columns.some(({ name }) => name === 'root_key')) {
+      return;
+    }
+
+    this.db.transaction(() => {
+      this.db.exec('ALTER TABLE trees ADD COLUMN root_key TEXT');
+      this.db.exec('ALTER TABLE trees ADD COLUMN token_key TEXT');
+      this.db.exec('UPDATE trees SET root_key = lower(root), token_key = lower(token)');
+    })();
+  }
+
+  private getHeader(id: string): MerkleTreeHeader | null {
+    const row = this.db
+      .query<Pick<TreeRow, 'header'>, { id: string }>('SELECT header FROM trees WHERE id = $id')
+      .get({ id });
+
+    return row ? (JSON.parse(row.header) as MerkleTreeHeader) : null;
+  }
+}
+
+function toSummary(row: Omit<TreeRow, 'header'>): MerkleTreeSummary {
+  return {
+    id: row.id,
+    root: row.root as Hex,
+    token: (row.token ?? undefined) as Hex | undefined,
+    createdAt: row.created_at,
+    allocationCount: row.allocation_count,
+    totalAmount: row.total_amount,
+  };
+}
+
+function toAllocation(row: AllocationRow): AllocationWithProof {
+  return {
+    beneficiary: row.beneficiary as Hex,
+    amount: row.amount,
+    leaf: row.leaf as Hex,
+    proof: JSON.parse(row.proof) as Hex[],
+  };
+}
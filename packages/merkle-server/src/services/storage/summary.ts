@@ -0,0 +1,35 @@
+import type { MerkleTree, MerkleTreeHeader, MerkleTreeOverview, MerkleTreeSummary } from '../../types';
+
+/**
+ * Build the list summary for a merkle tree
+ */
+export function summarizeTree(tree: MerkleTree): MerkleTreeSummary {
+  const totalAmount = tree.allocations.reduce(
+    (sum, alloc) => sum + BigInt(alloc.amount),
+    0n
+  );
+
+  return {
+    id: tree.id,
+    root: tree.root,
+    token: tree.token,
+    createdAt: tree.createdAt,
+    allocationCount: tree.allocations.length,
+    totalAmount: totalAmount.toString(),
+  };
+}
+
+/**
+ * Combine a tree's header and list summary into its overview (metadata and totals, no allocations)
+ */
+export function toTreeOverview(tree: MerkleTreeHeader, summary: MerkleTreeSummary): MerkleTreeOverview {
+  return {
+    ...summary,
+    buildSpec: tree.buildSpec,
+    inputHash: tree.inputHash,
+    vesting: tree.vesting,
+    platformFee: tree.platformFee,
+    version: tree.version,
+    backups: tree.backups,
+  };
+}
@@ -0,0 +1,26 @@
+import { rebuildTree } from './rebuild';
+import { assertTreeIntegrity } from './integrity';
+import type { TreeWorkerTask } from './workers';
+
+declare const self: Worker;
+
+/**
+ * Worker thread entry for runTreeWorkerTask
+ * Runs one task and posts back `{ result }`, or `{ error }` with the task error's message
+ */
+self.onmessage = (event: MessageEvent<TreeWorkerTask>) => {
+  try {
+    const task = event.data;
+    switch (task.task) {
+      case 'rebuild':
+        self.postMessage({ result: rebuildTree(task.input) });
+        return;
+      case 'verify':
+        assertTreeIntegrity(JSON.parse(task.raw));
+        self.postMessage({ result: true });
+        return;
+    }
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : 'Tree worker task failed' });
+  }
+};
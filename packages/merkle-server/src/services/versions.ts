@@ -0,0 +1,147 @@
+import type {
+  Allocation,
+  AllocationDiff,
+  MerkleTree,
+  StorageBackend,
+  TreeVersionSummary,
+} from '../types';
+import { getBuildSpec } from './canonicalize';
+import { rebuildTreeInWorker } from './rebuild';
+import { summarizeTree } from './storage/summary';
+
+/**
+ * Apply an allocation diff to a list of allocations
+ * Beneficiaries are matched case-insensitively; each may appear in at most one operation
+ *
+ * @throws Error if the diff is empty, touches a beneficiary twice, adds an existing
+ *         beneficiary, removes or changes a missing one, or removes every allocation
+ */
+export function applyAllocationDiff(allocations: Allocation[], diff: AllocationDiff): Allocation[] {
+  const add = diff.add ?? [];
+  const remove = diff.remove ?? [];
+  const change = diff.change ?? [];
+
+  if (add.length + remove.length + change.length === 0) {
+    throw new Error('Diff must add, remove or change at least one allocation');
+  }
+
+  const touched = new Set<string>();
+  for (const beneficiary of [...add.map((a) => a.beneficiary), ...remove, ...change.map((a) => a.beneficiary)]) {
+    const key = beneficiary.toLowerCase();
+    if (touched.has(key)) {
+      throw new Error(`Beneficiary ${beneficiary} appears more than once in the diff`);
+    }
+    touched.add(key);
+  }
+
+  const byBeneficiary = new Map(allocations.map((alloc) => [alloc.beneficiary.toLowerCase(), alloc]));
+
+  for (const alloc of add) {
+    if (byBeneficiary.has(alloc.beneficiary.toLowerCase())) {
+      throw new Error(`Cannot add ${alloc.beneficiary}: already in tree`);
+    }
+  }
+  for (const beneficiary of remove) {
+    if (!byBeneficiary.has(beneficiary.toLowerCase())) {
+      throw new Error(`Cannot remove ${beneficiary}: not in tree`);
+    }
+  }
+  for (const alloc of change) {
+    if (!byBeneficiary.has(alloc.beneficiary.toLowerCase())) {
+      throw new Error(`Cannot change ${alloc.beneficiary}: not in tree`);
+    }
+  }
+
+  const removed = new Set(remove.map((beneficiary) => beneficiary.toLowerCase()));
+  const changed = new Map(change.map((alloc) => [alloc.beneficiary.toLowerCase(), alloc.amount]));
+
+  const result: Allocation[] = [];
+  for (const alloc of allocations) {
+    const key = alloc.beneficiary.toLowerCase();
+    if (removed.has(key)) continue;
+    result.push({ beneficiary: alloc.beneficiary, amount: changed.get(key) ?? alloc.amount });
+  }
+  result.push(...add.map((alloc) => ({ beneficiary: alloc.beneficiary, amount: alloc.amount })));
+
+  if (result.length === 0) {
+    throw new Error('Cannot remove every allocation');
+  }
+
+  return result;
+}
+
+/**
+ * Build the next version of a tree by applying an allocation diff
+ * Token, vesting, platform fee and build spec carry over from the parent
+ *
+ * @returns A new tree (new ID) linked to its parent; not yet saved
+ * @throws Error if the diff cannot be applied (see applyAllocationDiff)
+ */
+export async function createTreeVersion(parent: MerkleTree, diff: AllocationDiff): Promise<MerkleTree> {
+  const allocations = applyAllocationDiff(parent.allocations, diff);
+
+  const tree = await rebuildTreeInWorker({
+    allocations,
+    token: parent.token,
+    vesting: parent.vesting,
+    platformFee: parent.platformFee,
+    buildSpec: getBuildSpec(parent.buildSpec.version),
+  });
+
+  return {
+    ...tree,
+    version: {
+      number: (parent.version?.number ?? 1) + 1,
+      parentId: parent.id,
+      parentRoot: parent.root,
+      diff,
+    },
+  };
+}
+
+/**
+ * Summarize a tree as an entry in its version history
+ */
+export function summarizeTreeVersion(tree: MerkleTree): TreeVersionSummary {
+  const { allocationCount, totalAmount } = summarizeTree(tree);
+
+  return {
+    id: tree.id,
+    number: tree.version?.number ?? 1,
+    root: tree.root,
+    createdAt: tree.createdAt,
+    allocationCount,
+    totalAmount,
+    parentId: tree.version?.parentId,
+    diff: tree.version?.diff,
+  };
+}
+
+/**
+ * Walk parent links from a tree back to its original version
+ * Stops early if an ancestor has been deleted
+ *
+ * @returns Version history from the original tree to `id`, or null if `id` does not exist
+ */
+export async function getTreeLineage(storage: StorageBackend, id: string): Promise<TreeVersionSummary[] | null> {
+  const tree = await storage.get(id);
+  if (!tree) {
+    return null;
+  }
+
+  const lineage = [summarizeTreeVersion(tree)];
+  const visited = new Set([tree.id]);
+
+  let parentId = tree.version?.parentId;
+  while (parentId && !visited.has(parentId)) {
+    visited.add(parentId);
+
+    const parent = await storage.get(parentId);
+    if (!parent) break;
+
+    lineage.push(summarizeTreeVersion(parent));
+    parentId = parent.version?.parentId;
+  }
+
+  return lineage.reverse();
+}
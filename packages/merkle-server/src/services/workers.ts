@@ -0,0 +1,41 @@
+import type { MerkleTree } from '../types';
+import type { RebuildInput } from './rebuild';
+
+/**
+ * Trees with at least this many allocations are built or verified in a worker thread
+ * Smaller trees take a few milliseconds, less than starting a worker.
+ */
+export const WORKER_THRESHOLD = 1_000;
+
+/**
+ * Work handed to a tree worker (see treeWorker.ts)
+ * - rebuild: rebuildTree(input), answering with the tree
+ * - verify: assertTreeIntegrity on the parsed raw tree JSON, answering with true
+ */
+export type TreeWorkerTask = { task: 'rebuild'; input: RebuildInput } | { task: 'verify'; raw: string };
+
+type TreeWorkerResult<T extends TreeWorkerTask> = T extends { task: 'rebuild' } ? MerkleTree : true;
+
+/**
+ * Run a task in a new worker thread, so hashing a large tree does not block the event loop
+ * The task data is copied to the worker and the result copied back.
+ *
+ * @throws Error with the task's error message, or if the worker fails
+ */
+export async function runTreeWorkerTask<T extends TreeWorkerTask>(task: T): Promise<TreeWorkerResult<T>> {
+  const worker = new Worker(new URL('./treeWorker.ts', import.meta.url).href);
+  try {
+    const message = await new Promise<{ result?: TreeWorkerResult<T>; error?: string }>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<{ result?: TreeWorkerResult<T>; error?: string }>) => resolve(event.data);
+      worker.onerror = (event) => reject(new Error(`Tree worker failed: ${event.message}`));
+      worker.postMessage(task);
+    });
+
+    if (message.result === undefined) {
+      throw new Error(message.error);
+    }
+    return message.result;
+  } finally {
+    worker.terminate();
+  }
+}
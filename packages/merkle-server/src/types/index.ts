@@ -1,4 +1,9 @@
 import type { Hex } from 'viem';
+import type { IpfsClient } from '../services/ipfs';
+import type { RegistryClient } from '../services/registry';
+import type { ApiKeyPrincipal, Authenticator } from '../services/auth';
+import type { AuditLog } from '../services/audit';
+import type { Reconciler } from '../services/reconciliation';
 
 /**
  * Vesting schedule parameters (matches on-chain MerkleVestingDeployer)
@@ -45,7 +50,12 @@ export interface AllocationWithProof extends Allocation {
  * BuildSpec tracks the exact algorithm used to build a merkle tree
  * This allows future rebuilds to match the original exactly
  */
-export interface BuildSpec {
+export type BuildSpec = BuildSpecV1 | BuildSpecV2;
+
+/**
+ * Original spec, matching MerkleVestingDeployer's on-chain leaf encoding
+ */
+export interface BuildSpecV1 {
   version: '1.0.0';
   leafEncoding: 'abi.encodePacked(address,uint256)';
   hashFunction: 'keccak256';
@@ -55,6 +65,42 @@ export interface BuildSpec {
   paddingStrategy: 'duplicate-last';
 }
 
+/**
+ * OpenZeppelin StandardMerkleTree (`@openzeppelin/merkle-tree`) compatible spec:
+ * double-hashed abi.encode leaves, sorted by hash, in an unpadded heap-array tree
+ */
+export interface BuildSpecV2 {
+  version: '2.0.0';
+  leafEncoding: 'keccak256(keccak256(abi.encode(address,uint256)))';
+  hashFunction: 'keccak256';
+  sortPairs: true;
+  sortAllocations: 'beneficiary-asc';
+  duplicateHandling: 'reject';
+  paddingStrategy: 'none';
+  sortLeaves: 'hash-asc';
+  treeFormat: 'standard-v1';
+}
+
+/**
+ * JSON dump of a StandardMerkleTree, loadable with `StandardMerkleTree.load()`
+ */
+export interface StandardMerkleTreeDump {
+  format: 'standard-v1';
+  leafEncoding: ['address', 'uint256'];
+  tree: Hex[];
+  values: Array<{ value: [Hex, string]; treeIndex: number }>;
+}
+
+/**
+ * Multiproof in OpenZeppelin MerkleProof.multiProofVerify format
+ * Leaves are in the order the verifier consumes them, not allocation order
+ */
+export interface Multiproof {
+  leaves: Hex[];
+  proof: Hex[];
+  proofFlags: boolean[];
+}
+
 /**
  * Canonicalized allocation with normalized address
  */
@@ -82,6 +128,71 @@ export interface MerkleTree {
     platformFee?: PlatformFeeParams;
   };
   inputHash: Hex;
+  backups?: BackupRecord[]; // Off-site copies, oldest first
+  version?: TreeVersion; // Set on trees created as amendments of another tree
+}
+
+/**
+ * Allocation changes applied to a parent tree to produce a new version
+ */
+export interface AllocationDiff {
+  add?: Allocation[];
+  remove?: Hex[]; // Beneficiaries to drop
+  change?: Allocation[]; // Beneficiaries with their new amounts
+}
+
+/**
+ * Link from an amended tree to the tree it was derived from
+ */
+export interface TreeVersion {
+  number: number; // Original trees are version 1
+  parentId: string;
+  parentRoot: Hex;
+  diff: AllocationDiff;
+}
+
+/**
+ * One entry in a tree's version history
+ */
+export interface TreeVersionSummary {
+  id: string;
+  number: number;
+  root: Hex;
+  createdAt: string;
+  allocationCount: number;
+  totalAmount: string;
+  parentId?: string;
+  diff?: AllocationDiff;
+}
+
+/**
+ * Record of one off-site (IPFS) copy of a tree
+ */
+export interface BackupRecord {
+  cid: string;
+  contentHash: Hex; // computeContentHash of the tree at backup time
+  backedUpAt: string; // ISO timestamp
+  pinned: boolean;
+  registryTxHash?: Hex; // Set when the CID was registered on-chain
+}
+
+/**
+ * Differences between two stored trees, from `fromId` to `toId`
+ * Amount deltas are signed decimal strings (to - from)
+ */
+export interface TreeDiff {
+  fromId: string;
+  toId: string;
+  fromRoot: Hex;
+  toRoot: Hex;
+  added: Allocation[];
+  removed: Allocation[];
+  changed: Array<{ beneficiary: Hex; fromAmount: string; toAmount: string; delta: string }>;
+  fromTotal: string;
+  toTotal: string;
+  totalDelta: string;
+  vestingChanged: boolean;
+  platformFeeChanged: boolean;
 }
 
 /**
@@ -96,6 +207,42 @@ export interface MerkleTreeSummary {
   totalAmount: string;
 }
 
+/**
+ * Fields GET /trees can sort by; ties are always broken by id
+ */
+export type TreeSortField = 'createdAt' | 'allocationCount' | 'totalAmount';
+
+/**
+ * Filters, sort order and page bounds for StorageBackend.list
+ * All fields are optional; an empty query lists every tree by createdAt ascending
+ */
+export interface TreeListQuery {
+  token?: Hex; // Case-insensitive
+  root?: Hex; // Case-insensitive
+  createdFrom?: string; // ISO timestamp, inclusive
+  createdTo?: string; // ISO timestamp, exclusive
+  sortBy?: TreeSortField; // Default createdAt
+  order?: 'asc' | 'desc'; // Default asc
+  after?: TreeListPosition; // Only return summaries that sort after this position
+  limit?: number;
+}
+
+/**
+ * Keyset position in a sorted tree listing: the sort field's value and the id of a summary
+ */
+export interface TreeListPosition {
+  value: string; // createdAt, or the decimal count/amount
+  id: string;
+}
+
+/**
+ * One page of GET /trees
+ */
+export interface TreeListPage {
+  items: MerkleTreeSummary[];
+  nextCursor?: string; // Pass as ?cursor= to fetch the next page
+}
+
 /**
  * Request to create a new merkle tree
  */
@@ -104,6 +251,7 @@ export interface CreateTreeRequest {
   token?: Hex;
   vesting?: VestingParams;
   platformFee?: PlatformFeeParams;
+  buildSpecVersion?: BuildSpec['version']; // Defaults to '1.0.0'
 }
 
 /**
@@ -117,6 +265,23 @@ export interface ProofResponse {
   root: Hex;
 }
 
+/**
+ * Proofs for a batch of addresses
+ */
+export interface BatchProofResponse {
+  root: Hex;
+  proofs: ProofResponse[]; // One per found address, in request order
+  missing: Hex[]; // Requested addresses that are not in the tree
+}
+
+/**
+ * Multiproof response for a set of addresses
+ */
+export interface MultiproofResponse extends Multiproof {
+  root: Hex;
+  allocations: Allocation[]; // Values of `leaves`, in the same order
+}
+
 /**
  * Vesting status for a specific beneficiary
  */
@@ -139,6 +304,127 @@ export interface VestingStatus {
   root: Hex;
 }
 
+/**
+ * Tree metadata without the allocation list
+ */
+export type MerkleTreeHeader = Omit<MerkleTree, 'allocations'>;
+
+/**
+ * Result of looking up a single beneficiary in a stored tree
+ */
+export interface AllocationLookup {
+  tree: MerkleTreeHeader;
+  allocation: AllocationWithProof | null; // null if the beneficiary is not in the tree
+}
+
+/**
+ * Result of looking up several beneficiaries in a stored tree
+ */
+export interface AllocationBatchLookup {
+  tree: MerkleTreeHeader;
+  allocations: AllocationWithProof[]; // Found beneficiaries, in request order
+  missing: Hex[]; // Requested beneficiaries that are not in the tree
+}
+
+/**
+ * One tree a beneficiary appears in (reverse index entry)
+ */
+export interface BeneficiaryTreeEntry {
+  id: string; // Tree ID
+  root: Hex;
+  token?: Hex;
+  createdAt: string;
+  amount: string;
+  vesting?: VestingParams;
+}
+
+/**
+ * Vesting progress of one beneficiary's allocation
+ */
+export interface BeneficiaryVestingSummary {
+  vestingStart: number;
+  vestingEnd: number;
+  cliffEnd: number;
+  vestedAmount: string;
+  unvestedAmount: string;
+  percentVested: number; // 0-100
+  cliffPassed: boolean;
+  fullyVested: boolean;
+}
+
+/**
+ * Response for GET /beneficiaries/:address
+ */
+export interface BeneficiaryTreesResponse {
+  beneficiary: Hex;
+  trees: Array<Omit<BeneficiaryTreeEntry, 'vesting'> & { vesting?: BeneficiaryVestingSummary }>;
+}
+
+/**
+ * Filters and page bounds for listing the allocations of one tree
+ */
+export interface AllocationListQuery {
+  beneficiaryPrefix?: string; // Lowercase hex prefix, e.g. "0xab"
+  minAmount?: string; // Inclusive
+  maxAmount?: string; // Inclusive
+  afterIndex?: number; // Only return allocations after this position in the tree
+  limit?: number;
+  includeProofs?: boolean; // Default true
+}
+
+/**
+ * An allocation with its position in the tree; proof is omitted when not requested
+ */
+export interface AllocationListItem extends Allocation {
+  index: number;
+  leaf: Hex;
+  proof?: Hex[];
+}
+
+/**
+ * Matching allocations of a stored tree, in tree order
+ */
+export interface AllocationListResult {
+  tree: MerkleTreeHeader;
+  allocations: AllocationListItem[];
+}
+
+/**
+ * One page of GET /trees/:id/allocations
+ */
+export interface AllocationListPage {
+  items: AllocationListItem[];
+  nextCursor?: string; // Pass as ?cursor= to fetch the next page
+}
+
+/**
+ * Tree metadata and totals without allocations or original input
+ */
+export interface MerkleTreeOverview extends MerkleTreeSummary {
+  buildSpec: BuildSpec;
+  inputHash: Hex;
+  vesting?: VestingParams;
+  platformFee?: PlatformFeeParams;
+  version?: TreeVersion;
+  backups?: BackupRecord[];
+}
+
+/**
+ * Marks a soft-deleted tree; the tree stays restorable until purgeAfter
+ */
+export interface Tombstone {
+  deletedAt: string; // ISO timestamp
+  purgeAfter: string; // ISO timestamp; the purge job hard-deletes the tree after this
+  deletedBy?: string; // API key name, when authentication is enabled
+}
+
+/**
+ * Summary of a soft-deleted tree
+ */
+export interface DeletedTreeSummary extends MerkleTreeSummary {
+  tombstone: Tombstone;
+}
+
 /**
  * Storage backend interface for merkle trees
  */
@@ -146,9 +432,29 @@ export interface StorageBackend {
   readonly name: string;
   save(tree: MerkleTree): Promise<void>;
   get(id: string): Promise<MerkleTree | null>;
-  delete(id: string): Promise<boolean>;
-  list(): Promise<MerkleTreeSummary[]>;
+  delete(id: string): Promise<boolean>; // Hard delete; routes soft-delete instead
+  // Soft delete: move a live tree to the trash (false if there is no live tree)
+  softDelete(id: string, tombstone: Tombstone): Promise<boolean>;
+  // Move a tree from the trash back to the live set (false if it is not in the trash)
+  restore(id: string): Promise<boolean>;
+  listDeleted(): Promise<DeletedTreeSummary[]>;
+  // Optional fast path for one tree in the trash, without listing all of it
+  getDeleted?(id: string): Promise<DeletedTreeSummary | null>;
+  // Hard-delete a tree from the trash (false if it is not in the trash)
+  purge(id: string): Promise<boolean>;
+  // Backends apply the query themselves so they can filter, sort and limit without loading every tree
+  list(query?: TreeListQuery): Promise<MerkleTreeSummary[]>;
   health(): Promise<{ healthy: boolean; error?: string }>;
+  // Optional fast path for proof lookups that avoids loading every allocation
+  findAllocation?(id: string, beneficiary: Hex): Promise<AllocationLookup | null>;
+  // Optional fast path for looking up many beneficiaries at once
+  findAllocations?(id: string, beneficiaries: Hex[]): Promise<AllocationBatchLookup | null>;
+  // Optional reverse index: every tree a beneficiary appears in, oldest first
+  findTreesByBeneficiary?(beneficiary: Hex): Promise<BeneficiaryTreeEntry[]>;
+  // Optional fast path for paging through allocations without loading the whole tree
+  listAllocations?(id: string, query: AllocationListQuery): Promise<AllocationListResult | null>;
+  // Optional fast path for tree metadata and totals without loading allocations
+  getSummary?(id: string): Promise<{ tree: MerkleTreeHeader; summary: MerkleTreeSummary } | null>;
 }
 
 /**
@@ -233,3 +539,208 @@ export interface RecoveryResult {
   source: 'local' | 'ipfs' | 'registry';
   tree: MerkleTree;
 }
+
+/**
+ * Replica mutation that can be queued for retry
+ */
+export type ReplicaWriteOp = 'save' | 'delete' | 'soft-delete' | 'restore' | 'purge';
+
+/**
+ * A replica write that failed and waits in the outbox
+ * A queued `save` copies whatever the primary holds for the tree when it is retried.
+ */
+export interface PendingReplicaWrite {
+  id: string;
+  replica: number; // Index into the configured replicas
+  backend: string; // Replica backend name, checked against the configuration on retry
+  treeId: string;
+  op: ReplicaWriteOp;
+  tombstone?: Tombstone; // For soft-delete
+  enqueuedAt: string; // ISO timestamp
+  attempts: number;
+  nextAttemptAt: string; // ISO timestamp
+  lastError?: string;
+}
+
+/**
+ * Result of one pass over the replica outbox
+ */
+export interface ReplicaRetryResult {
+  completed: number;
+  failed: number;
+  pending: number; // Writes left in the outbox, including ones not yet due
+}
+
+/**
+ * How one backend differed from the source copy during reconciliation
+ * Tree IDs are listed by what was found before the backend was repaired
+ */
+export interface BackendDivergence {
+  backend: string; // Backend name
+  role: 'primary' | 'replica';
+  missing: string[]; // Trees the backend did not have
+  differing: string[]; // Trees whose content differed from the source copy
+  unreadable: string[]; // Trees the backend failed to read, e.g. corrupt copies
+  deleted: string[]; // Trees still live here but in the primary's trash
+  repaired: string[]; // Trees whose copy here was rewritten or soft-deleted
+}
+
+/**
+ * Result of ReplicatedStorage.reconcile()
+ */
+export interface ReconcileResult {
+  synced: number; // Copies written or soft-deleted to bring backends in line
+  errors: string[];
+  backends: BackendDivergence[]; // Primary first, then replicas in order
+}
+
+/**
+ * One reconciliation run
+ */
+export interface ReconcileRun extends ReconcileResult {
+  startedAt: string; // ISO timestamp
+  finishedAt: string; // ISO timestamp
+  durationMs: number;
+}
+
+/**
+ * Reconciliation scheduler state, as shown by GET /admin/storage/status
+ */
+export interface ReconcileStatus {
+  replicated: boolean; // false when storage has no replicas (nothing to reconcile)
+  running: boolean;
+  intervalMs: number | null; // null when no scheduled job is running
+  nextRunAt?: string; // ISO timestamp
+  lastRun: ReconcileRun | null;
+}
+
+/**
+ * Health of one backend, as reported by ReplicatedStorage.health()
+ */
+export interface BackendHealth {
+  backend: string;
+  role: 'primary' | 'replica';
+  healthy: boolean;
+  error?: string;
+  latencyMs: number;
+}
+
+/**
+ * State of one dependency in a readiness report
+ * `degraded`: still usable but partly failing, e.g. storage with a replica down
+ */
+export type ComponentStatus = 'up' | 'degraded' | 'down' | 'disabled';
+
+/**
+ * Health of one dependency in a readiness report
+ */
+export interface ComponentHealth {
+  status: ComponentStatus;
+  latencyMs?: number; // Omitted for disabled components
+  error?: string;
+  backends?: BackendHealth[]; // Replicated storage only
+  pendingReplicaWrites?: number; // Replicated storage only
+}
+
+/**
+ * GET /health/ready response
+ * `unavailable` when storage is down; `degraded` when another component is not up
+ */
+export interface ReadinessReport {
+  status: 'ok' | 'degraded' | 'unavailable';
+  timestamp: string;
+  components: {
+    storage: ComponentHealth;
+    ipfs: ComponentHealth;
+    registry: ComponentHealth; // `disabled` when no registry is configured
+  };
+}
+
+/**
+ * Mutating operations recorded in the audit log
+ */
+export type AuditAction =
+  | 'create'
+  | 'create-csv'
+  | 'create-version'
+  | 'rebuild'
+  | 'backup'
+  | 'recover'
+  | 'delete'
+  | 'restore'
+  | 'reconcile'
+  | 'purge';
+
+/**
+ * What a route reports about the tree it acted on, for its audit entry
+ */
+export interface AuditTarget {
+  id: string;
+  root?: Hex;
+  inputHash?: Hex;
+  details?: Record<string, string>; // Action-specific context, e.g. a backup CID or a version's parent
+}
+
+/**
+ * Audit log entry as recorded by a route, before sequencing and hashing
+ */
+export interface AuditRecord {
+  actor: string; // API key name, 'anonymous' when authentication is disabled, or 'system' for scheduled jobs
+  action: AuditAction;
+  treeId?: string;
+  root?: Hex;
+  inputHash?: Hex;
+  result: 'success' | 'failure';
+  status: number; // HTTP status of the response (200 for scheduled jobs that succeeded)
+  details?: Record<string, string>;
+}
+
+/**
+ * Stored audit log entry
+ * `hash` covers every other field, including prevHash, so editing, removing or
+ * reordering entries breaks the chain
+ */
+export interface AuditEntry extends AuditRecord {
+  seq: number; // 1-based position in the log
+  timestamp: string; // ISO timestamp
+  prevHash: Hex; // Hash of the previous entry; zero for the first
+  hash: Hex;
+}
+
+/**
+ * Audit log filters
+ */
+export interface AuditQuery {
+  treeId?: string;
+  actor?: string;
+  action?: AuditAction;
+  after?: number; // Only entries with a greater seq
+  limit?: number;
+}
+
+/**
+ * One page of audit entries, oldest first
+ */
+export interface AuditPage {
+  items: AuditEntry[];
+  nextCursor?: string; // Pass as `cursor` for the next page
+}
+
+/**
+ * Hono environment shared by the app and its routes
+ * Services are injected per app via context variables
+ */
+export interface AppEnv {
+  Variables: {
+    storage: StorageBackend;
+    ipfs: IpfsClient;
+    registry: RegistryClient | null; // null when no on-chain registry is configured
+    auth: Authenticator | null; // null when no API keys are configured (authentication disabled)
+    apiKey?: ApiKeyPrincipal; // Set by requireRole once a request has authenticated
+    retentionDays: number; // How long soft-deleted trees stay restorable
+    audit: AuditLog;
+    auditTarget?: AuditTarget; // Set by audited routes once they know the tree they acted on
+    reconciler: Reconciler;
+    healthCheckTimeoutMs: number; // Per-component limit for readiness checks
+  };
+}
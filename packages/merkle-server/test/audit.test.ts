@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  computeAuditHash,
+  createAuditLogFromEnv,
+  DEFAULT_AUDIT_LOG_PATH,
+  FileAuditLog,
+  GENESIS_AUDIT_HASH,
+  listAuditPage,
+  MemoryAuditLog,
+  verifyAuditChain,
+  type AuditLog,
+} from '../src/services/audit';
+import type { AuditRecord } from '../src/types';
+
+const TEST_AUDIT_DIR = join(import.meta.dir, '../data/test-audit');
+const TEST_AUDIT_PATH = join(TEST_AUDIT_DIR, 'audit.jsonl');
+
+describe('Audit Service', () => {
+  const record = (treeId: string, action: AuditRecord['action'] = 'create'): AuditRecord => ({
+    actor: 'issuer',
+    action,
+    treeId,
+    root: `0x${'11'.repeat(32)}`,
+    result: 'success',
+    status: 201,
+  });
+
+  afterEach(async () => {
+    await rm(TEST_AUDIT_DIR, { recursive: true, force: true });
+  });
+
+  const logs: Array<[string, () => AuditLog]> = [
+    ['memory', () => new MemoryAuditLog()],
+    ['file', () => new FileAuditLog(TEST_AUDIT_PATH)],
+  ];
+
+  for (const [name, create] of logs) {
+    describe(name, () => {
+      it('chains entries from the genesis hash', async () => {
+        const log = create();
+        const first = await log.append(record('a'));
+        const second = await log.append(record('b'));
+
+        expect(first.seq).toBe(1);
+        expect(first.prevHash).toBe(GENESIS_AUDIT_HASH);
+        expect(second.seq).toBe(2);
+        expect(second.prevHash).toBe(first.hash);
+        expect(verifyAuditChain(await log.entries())).toEqual({ valid: true, entries: 2 });
+      });
+
+      it('serializes concurrent appends', async () => {
+        const log = create();
+        await Promise.all(['a', 'b', 'c', 'd'].map((id) => log.append(record(id))));
+
+        const entries = await log.entries();
+        expect(entries.map((entry) => entry.seq)).toEqual([1, 2, 3, 4]);
+        expect(verifyAuditChain(entries).valid).toBe(true);
+      });
+
+      it('filters by tree, actor and action', async () => {
+        const log = create();
+        await log.append(record('a'));
+        await log.append(record('b'));
+        await log.append(record('a', 'delete'));
+
+        expect((await log.query({ treeId: 'a' })).map((entry) => entry.action)).toEqual(['create', 'delete']);
+        expect(await log.query({ action: 'delete' })).toHaveLength(1);
+        expect(await log.query({ actor: 'admin' })).toHaveLength(0);
+        expect((await log.query({ after: 1, limit: 1 }))[0].treeId).toBe('b');
+      });
+    });
+  }
+
+  describe('FileAuditLog', () => {
+    it('continues the chain across instances', async () => {
+      await new FileAuditLog(TEST_AUDIT_PATH).append(record('a'));
+      const entry = await new FileAuditLog(TEST_AUDIT_PATH).append(record('b'));
+
+      expect(entry.seq).toBe(2);
+      expect(verifyAuditChain(await new FileAuditLog(TEST_AUDIT_PATH).entries()).valid).toBe(true);
+    });
+
+    it('reports unparseable lines', async () => {
+      const log = new FileAuditLog(TEST_AUDIT_PATH);
+      await log.append(record('a'));
+      await writeFile(TEST_AUDIT_PATH, (await readFile(TEST_AUDIT_PATH, 'utf-8')) + '{not json\n');
+
+      await expect(log.entries()).rejects.toThrow('corrupt at line 2');
+    });
+  });
+
+  describe('verifyAuditChain', () => {
+    async function entries() {
+      const log = new MemoryAuditLog();
+      for (const id of ['a', 'b', 'c']) {
+        await log.append(record(id));
+      }
+      return log.entries();
+    }
+
+    it('detects edited entries', async () => {
+      const log = await entries();
+      log[1] = { ...log[1], actor: 'someone-else' };
+
+      expect(verifyAuditChain(log)).toEqual({ valid: false, entries: 3, brokenAt: 2 });
+    });
+
+    it('detects removed and reordered entries', async () => {
+      const log = await entries();
+
+      expect(verifyAuditChain([log[0], log[2]]).brokenAt).toBe(3);
+      expect(verifyAuditChain([log[1], log[0], log[2]]).brokenAt).toBe(2);
+    });
+
+    it('detects an entry rehashed without fixing its successor', async () => {
+      const log = await entries();
+      const { hash: _, ...fields } = { ...log[0], status: 500 };
+      log[0] = { ...fields, hash: computeAuditHash(fields) };
+
+      expect(verifyAuditChain(log).brokenAt).toBe(2);
+    });
+  });
+
+  describe('listAuditPage', () => {
+    it('returns a cursor while more entries follow', async () => {
+      const log = new MemoryAuditLog();
+      for (const id of ['a', 'b', 'c']) {
+        await log.append(record(id));
+      }
+
+      const first = await listAuditPage(log, { limit: 2 });
+      expect(first.items.map((entry) => entry.treeId)).toEqual(['a', 'b']);
+      expect(first.nextCursor).toBe('2');
+
+      const second = await listAuditPage(log, { limit: 2, cursor: first.nextCursor });
+      expect(second.items.map((entry) => entry.treeId)).toEqual(['c']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+  });
+
+  describe('createAuditLogFromEnv', () => {
+    it('uses AUDIT_LOG_PATH or the default file', async () => {
+      await createAuditLogFromEnv({ AUDIT_LOG_PATH: TEST_AUDIT_PATH }).append(record('a'));
+      expect(await readFile(TEST_AUDIT_PATH, 'utf-8')).toContain('"treeId":"a"');
+
+      expect(createAuditLogFromEnv({})).toBeInstanceOf(FileAuditLog);
+      expect(DEFAULT_AUDIT_LOG_PATH).toEndWith('audit.jsonl');
+    });
+  });
+});
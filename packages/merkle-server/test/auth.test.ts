@@ -0,0 +1,125 @@
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { createHash } from 'node:crypto';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  createAuthenticator,
+  createAuthenticatorFromEnv,
+  hasRole,
+  loadAuthConfig,
+  parseAuthConfig,
+} from '../src/services/auth';
+
+const TEST_CONFIG_DIR = join(import.meta.dir, '../data/test-auth');
+
+const ISSUER_KEY = 'issuer-key-0123456789';
+const ADMIN_KEY = 'admin-key-0123456789';
+
+describe('Auth Service', () => {
+  describe('loadAuthConfig', () => {
+    it('returns no config when no keys are configured', () => {
+      expect(loadAuthConfig({})).toBeNull();
+    });
+
+    it('only disables authentication without keys when AUTH_DISABLED=true', () => {
+      expect(() => createAuthenticatorFromEnv({})).toThrow('No API keys configured');
+      expect(() => createAuthenticatorFromEnv({ AUTH_DISABLED: '1' })).toThrow('AUTH_DISABLED=true');
+      expect(createAuthenticatorFromEnv({ AUTH_DISABLED: 'true' })).toBeNull();
+      expect(createAuthenticatorFromEnv({ AUTH_DISABLED: 'true', API_KEYS: `admin:${ADMIN_KEY}` })).not.toBeNull();
+    });
+
+    it('reads role:key entries from API_KEYS', () => {
+      const config = loadAuthConfig({ API_KEYS: `issuer:${ISSUER_KEY}, admin:${ADMIN_KEY}` });
+
+      expect(config?.keys).toEqual([
+        { name: 'API_KEYS[0]', role: 'issuer', key: ISSUER_KEY },
+        { name: 'API_KEYS[1]', role: 'admin', key: ADMIN_KEY },
+      ]);
+    });
+
+    it('rejects unknown roles and short keys', () => {
+      expect(() => loadAuthConfig({ API_KEYS: `owner:${ADMIN_KEY}` })).toThrow('Invalid API key config');
+      expect(() => loadAuthConfig({ API_KEYS: 'admin:short' })).toThrow('at least 16 characters');
+      expect(() => loadAuthConfig({ API_KEYS: 'admin' })).toThrow('exactly one of key or sha256');
+    });
+
+    describe('from a key file', () => {
+      beforeEach(async () => {
+        await mkdir(TEST_CONFIG_DIR, { recursive: true });
+      });
+
+      afterEach(async () => {
+        await rm(TEST_CONFIG_DIR, { recursive: true, force: true });
+      });
+
+      it('reads the file named by API_KEYS_FILE', async () => {
+        const path = join(TEST_CONFIG_DIR, 'keys.json');
+        const sha256 = createHash('sha256').update(ADMIN_KEY).digest('hex');
+        await writeFile(path, JSON.stringify({
+          keys: [
+            { name: 'ci', role: 'issuer', key: ISSUER_KEY },
+            { name: 'ops', role: 'admin', sha256 },
+          ],
+        }));
+
+        const config = loadAuthConfig({ API_KEYS_FILE: path, API_KEYS: 'ignored' });
+
+        expect(config?.keys.map((entry) => entry.name)).toEqual(['ci', 'ops']);
+      });
+
+      it('reports unreadable key files', () => {
+        expect(() => loadAuthConfig({ API_KEYS_FILE: join(TEST_CONFIG_DIR, 'missing.json') })).toThrow(
+          'Failed to read API key file'
+        );
+      });
+    });
+  });
+
+  describe('parseAuthConfig', () => {
+    it('rejects entries with both or neither of key and sha256', () => {
+      const sha256 = createHash('sha256').update(ADMIN_KEY).digest('hex');
+
+      expect(() => parseAuthConfig({ keys: [{ name: 'a', role: 'admin', key: ADMIN_KEY, sha256 }] })).toThrow(
+        'exactly one of key or sha256'
+      );
+      expect(() => parseAuthConfig({ keys: [] })).toThrow('at least one key');
+    });
+
+    it('rejects keys used by more than one entry', () => {
+      const sha256 = createHash('sha256').update(ADMIN_KEY).digest('hex');
+
+      expect(() =>
+        parseAuthConfig({
+          keys: [
+            { name: 'a', role: 'reader', key: ADMIN_KEY },
+            { name: 'b', role: 'admin', sha256 },
+          ],
+        })
+      ).toThrow('key for b is used more than once');
+    });
+  });
+
+  describe('createAuthenticator', () => {
+    it('resolves plain and hashed keys to their principal', () => {
+      const auth = createAuthenticator({
+        keys: [
+          { name: 'ci', role: 'issuer', key: ISSUER_KEY },
+          { name: 'ops', role: 'admin', sha256: createHash('sha256').update(ADMIN_KEY).digest('hex').toUpperCase() },
+        ],
+      });
+
+      expect(auth.authenticate(ISSUER_KEY)).toEqual({ name: 'ci', role: 'issuer' });
+      expect(auth.authenticate(ADMIN_KEY)).toEqual({ name: 'ops', role: 'admin' });
+      expect(auth.authenticate('not-a-key')).toBeNull();
+    });
+  });
+
+  describe('hasRole', () => {
+    it('orders roles reader < issuer < admin', () => {
+      expect(hasRole('admin', 'issuer')).toBe(true);
+      expect(hasRole('issuer', 'issuer')).toBe(true);
+      expect(hasRole('issuer', 'admin')).toBe(false);
+      expect(hasRole('reader', 'issuer')).toBe(false);
+    });
+  });
+});
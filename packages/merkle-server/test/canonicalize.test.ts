@@ -186,6 +186,25 @@ describe('Canonicalization Service', () => {
       expect(hash1).toMatch(/^0x[a-f0-9]{64}$/);
     });
 
+    it('matches known hashes', () => {
+      const allocations = canonicalizeAllocations([
+        { beneficiary: alice, amount: '1000' },
+        { beneficiary: bob, amount: '2000' },
+      ]);
+
+      expect(computeInputHash(allocations)).toBe(
+        '0xad905da26c059f13dcd40572b7ba91fe57fb6f92d2f0c18e3e68a63a571626bd'
+      );
+      expect(
+        computeInputHash(
+          allocations,
+          '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+          { vestingStart: 1000000, vestingDuration: 31536000, cliffDuration: 0 },
+          { feeRecipient: '0x2222222222222222222222222222222222222222', feeBps: 250 }
+        )
+      ).toBe('0xf9ff5d4b58e36df880ada1bb6c0f34b9962a5934e063143f5a8b224cab9e87d1');
+    });
+
     it('produces different hash for different allocations', () => {
       const allocations1 = [
         { beneficiary: alice, amount: '1000' },
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'bun:test';
+import { parseAllocationsCsv } from '../src/services/csv';
+
+describe('CSV Service', () => {
+  const alice = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+  const bob = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+  const carol = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+  describe('parseAllocationsCsv', () => {
+    it('parses rows without a header', () => {
+      const result = parseAllocationsCsv(`${alice},1000\n${bob},2000\n`);
+
+      expect(result.errors).toEqual([]);
+      expect(result.allocations).toEqual([
+        { beneficiary: alice, amount: '1000' },
+        { beneficiary: bob, amount: '2000' },
+      ]);
+    });
+
+    it('uses header names to locate columns', () => {
+      const result = parseAllocationsCsv(`amount,note,address\n1000,first,${alice}\n`);
+
+      expect(result.errors).toEqual([]);
+      expect(result.allocations).toEqual([{ beneficiary: alice, amount: '1000' }]);
+    });
+
+    it('parses TSV and detects the tab delimiter', () => {
+      const result = parseAllocationsCsv(`beneficiary\tamount\r\n${alice}\t1000\r\n${bob}\t2000`);
+
+      expect(result.errors).toEqual([]);
+      expect(result.allocations).toHaveLength(2);
+    });
+
+    it('handles quoted fields and blank lines', () => {
+      const result = parseAllocationsCsv(`"beneficiary","amount"\n\n"${alice}","1000"\n`);
+
+      expect(result.errors).toEqual([]);
+      expect(result.allocations).toEqual([{ beneficiary: alice, amount: '1000' }]);
+    });
+
+    it('scales decimal token amounts when decimals is set', () => {
+      const result = parseAllocationsCsv(`${alice},1.5\n${bob},2\n${carol},.25`, { decimals: 18 });
+
+      expect(result.errors).toEqual([]);
+      expect(result.allocations.map((a) => a.amount)).toEqual([
+        '1500000000000000000',
+        '2000000000000000000',
+        '250000000000000000',
+      ]);
+    });
+
+    it('rejects decimal amounts without decimals option', () => {
+      const result = parseAllocationsCsv(`${alice},1.5`);
+
+      expect(result.allocations).toEqual([]);
+      expect(result.errors).toEqual([
+        expect.objectContaining({ row: 1, column: 'amount' }),
+      ]);
+    });
+
+    it('rejects amounts with more precision than decimals', () => {
+      const result = parseAllocationsCsv(`${alice},1.123`, { decimals: 2 });
+
+      expect(result.errors[0].row).toBe(1);
+      expect(result.errors[0].message).toContain('more than 2 decimal places');
+    });
+
+    it('reports row-numbered errors for bad addresses', () => {
+      const result = parseAllocationsCsv(`beneficiary,amount\n${alice},1000\n0x1234,2000\n`);
+
+      expect(result.errors).toEqual([
+        { row: 3, column: 'beneficiary', message: 'Invalid address: 0x1234' },
+      ]);
+      expect(result.allocations).toHaveLength(1);
+    });
+
+    it('reports duplicates case-insensitively with the first row', () => {
+      const result = parseAllocationsCsv(`${alice},1000\n${bob},2000\n${alice.toLowerCase()},3000`);
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].row).toBe(3);
+      expect(result.errors[0].message).toContain('first seen on row 1');
+    });
+
+    it('reports overflowing amounts', () => {
+      const overflow = (1n << 256n).toString();
+      const result = parseAllocationsCsv(`${alice},${overflow}`);
+
+      expect(result.errors[0].row).toBe(1);
+      expect(result.errors[0].message).toContain('overflows uint256');
+    });
+
+    it('reports overflow after decimal scaling', () => {
+      const maxUint = ((1n << 256n) - 1n).toString();
+      const result = parseAllocationsCsv(`${alice},${maxUint}`, { decimals: 1 });
+
+      expect(result.errors[0].message).toContain('overflows uint256');
+    });
+
+    it('collects errors from every row', () => {
+      const result = parseAllocationsCsv(`bad,1\n${alice},abc\n${bob}`);
+
+      expect(result.errors.map((e) => e.row)).toEqual([1, 2, 3]);
+    });
+
+    it('reports an error for unterminated quotes', () => {
+      const result = parseAllocationsCsv(`"${alice},1000`);
+
+      expect(result.errors[0].message).toBe('Unterminated quoted field');
+    });
+
+    it('reports an error when there are no rows', () => {
+      const result = parseAllocationsCsv('beneficiary,amount\n');
+
+      expect(result.errors[0].message).toBe('No allocation rows found');
+    });
+
+    it('stops at maxRows', () => {
+      const result = parseAllocationsCsv(`${alice},1\n${bob},2\n${carol},3`, { maxRows: 2 });
+
+      expect(result.errors).toEqual([{ row: 3, message: 'Maximum 2 allocations allowed' }]);
+    });
+
+    it('throws on invalid decimals option', () => {
+      expect(() => parseAllocationsCsv(`${alice},1`, { decimals: -1 })).toThrow();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'bun:test';
+import { diffTrees, treeDiffToCsv } from '../src/services/diff';
+import { rebuildTree } from '../src/services/rebuild';
+import type { Hex } from 'viem';
+import type { Allocation, PlatformFeeParams, VestingParams } from '../src/types';
+
+describe('Diff Service', () => {
+  const alice = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' as Hex;
+  const bob = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Hex;
+  const carol = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' as Hex;
+
+  const allocations: Allocation[] = [
+    { beneficiary: alice, amount: '1000' },
+    { beneficiary: bob, amount: '2000' },
+  ];
+
+  const vesting: VestingParams = { vestingStart: 1000000, vestingDuration: 31536000, cliffDuration: 0 };
+  const platformFee: PlatformFeeParams = {
+    feeRecipient: '0x2222222222222222222222222222222222222222' as Hex,
+    feeBps: 250,
+  };
+
+  describe('diffTrees', () => {
+    it('reports added, removed and changed beneficiaries', () => {
+      const from = rebuildTree({ allocations });
+      const to = rebuildTree({
+        allocations: [
+          { beneficiary: alice, amount: '1500' },
+          { beneficiary: carol, amount: '300' },
+        ],
+      });
+
+      const diff = diffTrees(from, to);
+
+      expect(diff.fromId).toBe(from.id);
+      expect(diff.toRoot).toBe(to.root);
+      expect(diff.added).toEqual([{ beneficiary: carol.toLowerCase() as Hex, amount: '300' }]);
+      expect(diff.removed).toEqual([{ beneficiary: bob.toLowerCase() as Hex, amount: '2000' }]);
+      expect(diff.changed).toEqual([
+        { beneficiary: alice.toLowerCase() as Hex, fromAmount: '1000', toAmount: '1500', delta: '500' },
+      ]);
+      expect(diff.fromTotal).toBe('3000');
+      expect(diff.toTotal).toBe('1800');
+      expect(diff.totalDelta).toBe('-1200');
+    });
+
+    it('reports no changes for identical allocations', () => {
+      const diff = diffTrees(rebuildTree({ allocations }), rebuildTree({ allocations: [...allocations].reverse() }));
+
+      expect(diff.added).toEqual([]);
+      expect(diff.removed).toEqual([]);
+      expect(diff.changed).toEqual([]);
+      expect(diff.totalDelta).toBe('0');
+      expect(diff.vestingChanged).toBe(false);
+      expect(diff.platformFeeChanged).toBe(false);
+    });
+
+    it('detects vesting and platform fee differences', () => {
+      const base = rebuildTree({ allocations, vesting, platformFee });
+
+      expect(diffTrees(base, rebuildTree({ allocations, vesting, platformFee })).vestingChanged).toBe(false);
+      expect(diffTrees(base, rebuildTree({ allocations, platformFee })).vestingChanged).toBe(true);
+      expect(
+        diffTrees(base, rebuildTree({ allocations, vesting: { ...vesting, cliffDuration: 1 }, platformFee }))
+          .vestingChanged
+      ).toBe(true);
+      expect(
+        diffTrees(base, rebuildTree({ allocations, vesting, platformFee: { ...platformFee, feeBps: 100 } }))
+          .platformFeeChanged
+      ).toBe(true);
+      expect(diffTrees(base, rebuildTree({ allocations, vesting })).platformFeeChanged).toBe(true);
+    });
+  });
+
+  describe('treeDiffToCsv', () => {
+    it('renders one row per change and a total row', () => {
+      const from = rebuildTree({ allocations });
+      const to = rebuildTree({
+        allocations: [
+          { beneficiary: alice, amount: '1500' },
+          { beneficiary: carol, amount: '300' },
+        ],
+      });
+
+      const csv = treeDiffToCsv(diffTrees(from, to), from, to);
+
+      expect(csv.trimEnd().split('\n')).toEqual([
+        'type,beneficiary,fromAmount,toAmount,delta',
+        `added,${carol.toLowerCase()},0,300,300`,
+        `removed,${bob.toLowerCase()},2000,0,-2000`,
+        `changed,${alice.toLowerCase()},1000,1500,500`,
+        'total,,3000,1800,-1200',
+      ]);
+    });
+
+    it('adds parameter rows only when they differ', () => {
+      const from = rebuildTree({ allocations, vesting });
+      const to = rebuildTree({ allocations, platformFee });
+
+      const rows = treeDiffToCsv(diffTrees(from, to), from, to).trimEnd().split('\n');
+
+      expect(rows.slice(-2)).toEqual([
+        'vesting,,1000000/31536000/0,,',
+        `platformFee,,,${platformFee.feeRecipient}/250,`,
+      ]);
+    });
+  });
+});
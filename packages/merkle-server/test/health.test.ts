@@ -0,0 +1,123 @@
+import { describe, expect, it, beforeEach, afterAll } from 'bun:test';
+import { checkReadiness, DEFAULT_HEALTH_CHECK_TIMEOUT_MS, loadHealthCheckTimeoutMs } from '../src/services/health';
+import { createIpfsClient } from '../src/services/ipfs';
+import { MemoryBackend, ReplicatedStorage } from '../src/services/storage';
+import { startFakeIpfsNode } from './helpers/fakeIpfs';
+import { createFakeRegistry } from './helpers/fakeRegistry';
+
+describe('Health Service', () => {
+  const node = startFakeIpfsNode();
+  const ipfs = createIpfsClient({ apiUrl: node.url, retries: 0, timeoutMs: 1000 });
+  const registry = createFakeRegistry();
+
+  // Memory backend reporting the given health error
+  const unhealthy = (error: string) =>
+    Object.assign(new MemoryBackend(), { health: async () => ({ healthy: false, error }) });
+
+  beforeEach(() => {
+    node.failNext(0);
+    node.setDelay(0);
+    registry.setHealthError(undefined);
+  });
+
+  afterAll(() => {
+    node.stop();
+  });
+
+  describe('loadHealthCheckTimeoutMs', () => {
+    it('defaults to 3 seconds and reads HEALTH_CHECK_TIMEOUT_MS', () => {
+      expect(loadHealthCheckTimeoutMs({})).toBe(DEFAULT_HEALTH_CHECK_TIMEOUT_MS);
+      expect(loadHealthCheckTimeoutMs({ HEALTH_CHECK_TIMEOUT_MS: '500' })).toBe(500);
+    });
+
+    it('rejects values that are not positive integers', () => {
+      expect(() => loadHealthCheckTimeoutMs({ HEALTH_CHECK_TIMEOUT_MS: '0' })).toThrow('Invalid HEALTH_CHECK_TIMEOUT_MS');
+      expect(() => loadHealthCheckTimeoutMs({ HEALTH_CHECK_TIMEOUT_MS: 'soon' })).toThrow(
+        'Invalid HEALTH_CHECK_TIMEOUT_MS'
+      );
+    });
+  });
+
+  describe('checkReadiness', () => {
+    it('reports every component up with its latency', async () => {
+      const report = await checkReadiness({ storage: new MemoryBackend(), ipfs, registry });
+
+      expect(report.status).toBe('ok');
+      for (const component of Object.values(report.components)) {
+        expect(component.status).toBe('up');
+        expect(component.latencyMs).toBeGreaterThanOrEqual(0);
+      }
+    });
+
+    it('reports the registry as disabled when none is configured', async () => {
+      const report = await checkReadiness({ storage: new MemoryBackend(), ipfs, registry: null });
+
+      expect(report.status).toBe('ok');
+      expect(report.components.registry).toEqual({ status: 'disabled' });
+    });
+
+    it('is degraded when IPFS or the registry is down', async () => {
+      node.failNext(1);
+      registry.setHealthError('Registry RPC request failed: HTTP request failed.');
+
+      const report = await checkReadiness({ storage: new MemoryBackend(), ipfs, registry });
+
+      expect(report.status).toBe('degraded');
+      expect(report.components.ipfs).toMatchObject({ status: 'down', error: expect.stringContaining('HTTP 500') });
+      expect(report.components.registry).toMatchObject({ status: 'down', error: expect.stringContaining('RPC') });
+      expect(report.components.storage.status).toBe('up');
+    });
+
+    it('shows each storage backend and is degraded when only a replica is down', async () => {
+      const storage = new ReplicatedStorage(new MemoryBackend(), [new MemoryBackend(), unhealthy('disk full')]);
+
+      const report = await checkReadiness({ storage, ipfs, registry });
+
+      expect(report.status).toBe('degraded');
+      expect(report.components.storage).toMatchObject({
+        status: 'degraded',
+        error: 'Replica issues: memory: disk full',
+        pendingReplicaWrites: 0,
+      });
+      expect(report.components.storage.backends?.map(({ role, healthy }) => ({ role, healthy }))).toEqual([
+        { role: 'primary', healthy: true },
+        { role: 'replica', healthy: true },
+        { role: 'replica', healthy: false },
+      ]);
+    });
+
+    it('is unavailable when the primary storage is down', async () => {
+      const storage = new ReplicatedStorage(unhealthy('database locked'), [new MemoryBackend()]);
+
+      const report = await checkReadiness({ storage, ipfs, registry });
+
+      expect(report.status).toBe('unavailable');
+      expect(report.components.storage.status).toBe('down');
+
+      const single = await checkReadiness({ storage: unhealthy('database locked'), ipfs, registry });
+      expect(single.status).toBe('unavailable');
+      expect(single.components.storage).toMatchObject({ status: 'down', error: 'database locked' });
+    });
+
+    it('cuts off slow components', async () => {
+      node.setDelay(200);
+
+      const report = await checkReadiness({ storage: new MemoryBackend(), ipfs, registry }, 20);
+
+      expect(report.components.ipfs).toMatchObject({ status: 'down', error: 'Timed out after 20 ms' });
+      expect(report.components.ipfs.latencyMs).toBeLessThan(200);
+    });
+
+    it('reports checks that throw as down', async () => {
+      const storage = Object.assign(new MemoryBackend(), {
+        health: async (): Promise<{ healthy: boolean }> => {
+          throw new Error('connection reset');
+        },
+      });
+
+      const report = await checkReadiness({ storage, ipfs, registry });
+
+      expect(report.components.storage).toMatchObject({ status: 'down', error: 'connection reset' });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { keccak256, toHex } from 'viem';
+
+/**
+ * In-process stand-in for a Kubo node's RPC API (/api/v0/add, /cat, /pin/add, /version)
+ */
+export interface FakeIpfsNode {
+  url: string;
+  store: Map<string, string>;
+  pins: Set<string>;
+  requests: string[];
+  /** Respond with HTTP 500 to the next `count` requests */
+  failNext(count: number): void;
+  /** Delay every response by `ms` milliseconds */
+  setDelay(ms: number): void;
+  stop(): void;
+}
+
+export function startFakeIpfsNode(): FakeIpfsNode {
+  const store = new Map<string, string>();
+  const pins = new Set<string>();
+  const requests: string[] = [];
+  let failures = 0;
+  let delayMs = 0;
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      requests.push(url.pathname);
+
+      if (delayMs > 0) {
+        await Bun.sleep(delayMs);
+      }
+
+      if (req.method !== 'POST') {
+        return Response.json({ Message: 'method not allowed', Code: 0, Type: 'error' }, { status: 405 });
+      }
+
+      if (failures > 0) {
+        failures--;
+        return Response.json({ Message: 'simulated failure', Code: 0, Type: 'error' }, { status: 500 });
+      }
+
+      const arg = url.searchParams.get('arg') ?? '';
+
+      switch (url.pathname) {
+        case '/api/v0/add': {
+          const form = await req.formData();
+          const file = form.get('file');
+          if (!(file instanceof Blob)) {
+            return Response.json({ Message: 'file argument required', Code: 1, Type: 'error' }, { status: 400 });
+          }
+          const data = await file.text();
+          const cid = `bafk${keccak256(toHex(data)).slice(2, 54)}`;
+          store.set(cid, data);
+          if (url.searchParams.get('pin') !== 'false') {
+            pins.add(cid);
+          }
+          return Response.json({ Name: 'tree.json', Hash: cid, Size: `${data.length}` });
+        }
+        case '/api/v0/cat': {
+          const data = store.get(arg);
+          if (data === undefined) {
+            return Response.json({ Message: `block not found: ${arg}`, Code: 0, Type: 'error' }, { status: 500 });
+          }
+          return new Response(data);
+        }
+        case '/api/v0/pin/add': {
+          if (!store.has(arg)) {
+            return Response.json({ Message: `block not found: ${arg}`, Code: 0, Type: 'error' }, { status: 500 });
+          }
+          pins.add(arg);
+          return Response.json({ Pins: [arg] });
+        }
+        case '/api/v0/version':
+          return Response.json({ Version: '0.0.0-fake' });
+        default:
+          return Response.json({ Message: 'not found', Code: 0, Type: 'error' }, { status: 404 });
+      }
+    },
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.port}`,
+    store,
+    pins,
+    requests,
+    failNext(count: number) {
+      failures = count;
+    },
+    setDelay(ms: number) {
+      delayMs = ms;
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { keccak256, toHex, type Hex } from 'viem';
+import { createRegistryKey, type RegistryClient, type RegistryEntry } from '../../src/services/registry';
+
+/**
+ * In-memory RegistryClient with the contract's write-once semantics
+ */
+export interface FakeRegistry extends RegistryClient {
+  entries: Map<string, RegistryEntry>; // createRegistryKey(key) -> entry
+  /** Make the next register() call throw with this message */
+  failNextRegister(message: string): void;
+  /** Make health() report this error until cleared with undefined */
+  setHealthError(message: string | undefined): void;
+}
+
+const REGISTRANT = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' as Hex;
+
+export function createFakeRegistry(): FakeRegistry {
+  const entries = new Map<string, RegistryEntry>();
+  let nextFailure: string | undefined;
+  let healthError: string | undefined;
+
+  return {
+    entries,
+
+    failNextRegister(message: string) {
+      nextFailure = message;
+    },
+
+    setHealthError(message: string | undefined) {
+      healthError = message;
+    },
+
+    async register(entry) {
+      if (nextFailure) {
+        const message = nextFailure;
+        nextFailure = undefined;
+        throw new Error(message);
+      }
+
+      const key = createRegistryKey(entry);
+      if (entries.has(key)) {
+        throw new Error('Registry register failed: AlreadyRegistered');
+      }
+
+      entries.set(key, { ...entry, registeredAt: Math.floor(Date.now() / 1000), registrant: REGISTRANT });
+      return { txHash: keccak256(toHex(key)) };
+    },
+
+    async lookup(key) {
+      return entries.get(createRegistryKey(key)) ?? null;
+    },
+
+    async lookupByCid(cid) {
+      return [...entries.values()].filter((entry) => entry.ipfsCid === cid);
+    },
+
+    async health() {
+      return healthError ? { healthy: false, error: healthError } : { healthy: true };
+    },
+  };
+}
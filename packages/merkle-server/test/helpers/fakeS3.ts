@@ -0,0 +1,106 @@
+/**
+ * In-process stand-in for an S3-compatible server (path-style requests)
+ * Supports PUT/GET/HEAD/DELETE on objects and ListObjectsV2; signatures are not checked
+ */
+export interface FakeS3Server {
+  url: string;
+  objects: Map<string, string>; // "<bucket>/<key>" -> body
+  /** Respond with HTTP 503 to every request while true */
+  setUnavailable(unavailable: boolean): void;
+  stop(): void;
+}
+
+const PAGE_SIZE = 2; // Small pages so tests exercise continuation tokens
+
+export function startFakeS3Server(): FakeS3Server {
+  const objects = new Map<string, string>();
+  let unavailable = false;
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      if (unavailable) {
+        return s3Error(503, 'ServiceUnavailable', 'Service is unavailable');
+      }
+
+      const url = new URL(req.url);
+      const [bucket, ...keyParts] = url.pathname.slice(1).split('/');
+      const key = decodeURIComponent(keyParts.join('/'));
+
+      if (req.method === 'GET' && url.searchParams.get('list-type') === '2') {
+        return listObjects(bucket, url.searchParams);
+      }
+
+      const objectKey = `${bucket}/${key}`;
+
+      switch (req.method) {
+        case 'PUT':
+          objects.set(objectKey, await req.text());
+          return new Response(null, { status: 200, headers: { ETag: '"fake"' } });
+        case 'GET':
+        case 'HEAD': {
+          const body = objects.get(objectKey);
+          if (body === undefined) {
+            return s3Error(404, 'NoSuchKey', 'The specified key does not exist.');
+          }
+          return new Response(req.method === 'HEAD' ? null : body, {
+            headers: { 'Content-Length': `${Buffer.byteLength(body)}` },
+          });
+        }
+        case 'DELETE':
+          objects.delete(objectKey);
+          return new Response(null, { status: 204 });
+        default:
+          return s3Error(405, 'MethodNotAllowed', 'Method not allowed');
+      }
+    },
+  });
+
+  function listObjects(bucket: string, params: URLSearchParams): Response {
+    const prefix = params.get('prefix') ?? '';
+    const maxKeys = Math.min(parseInt(params.get('max-keys') ?? `${PAGE_SIZE}`, 10), PAGE_SIZE);
+    const start = parseInt(params.get('continuation-token') ?? '0', 10);
+
+    const keys = [...objects.keys()]
+      .filter((k) => k.startsWith(`${bucket}/${prefix}`))
+      .map((k) => k.slice(bucket.length + 1))
+      .sort();
+    const page = keys.slice(start, start + maxKeys);
+    const truncated = start + maxKeys < keys.length;
+
+    const xml =
+      '<?xml version="1.0" encoding="UTF-8"?><ListBucketResult>' +
+      `<Name>${bucket}</Name><Prefix>${escapeXml(prefix)}</Prefix>` +
+      `<KeyCount>${page.length}</KeyCount><MaxKeys>${maxKeys}</MaxKeys>` +
+      `<IsTruncated>${truncated}</IsTruncated>` +
+      (truncated ? `<NextContinuationToken>${start + maxKeys}</NextContinuationToken>` : '') +
+      page
+        .map((k) => `<Contents><Key>${escapeXml(k)}</Key><Size>${objects.get(`${bucket}/${k}`)!.length}</Size></Contents>`)
+        .join('') +
+      '</ListBucketResult>';
+
+    return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+  }
+
+  return {
+    url: `http://127.0.0.1:${server.port}`,
+    objects,
+    setUnavailable(value: boolean) {
+      unavailable = value;
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+}
+
+function s3Error(status: number, code: string, message: string): Response {
+  return new Response(
+    `<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${message}</Message></Error>`,
+    { status, headers: { 'Content-Type': 'application/xml' } }
+  );
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
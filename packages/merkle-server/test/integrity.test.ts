@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'bun:test';
+import { assertTreeIntegrity, verifyTreeIntegrity } from '../src/services/integrity';
+import { verifyStoredTree } from '../src/services/storage/integrity';
+import { WORKER_THRESHOLD } from '../src/services/workers';
+import { rebuildTree } from '../src/services/rebuild';
+import { STANDARD_BUILD_SPEC } from '../src/services/canonicalize';
+import type { Hex } from 'viem';
+import type { Allocation, MerkleTree } from '../src/types';
+
+describe('Integrity Service', () => {
+  const alice = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' as Hex;
+  const bob = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Hex;
+  const carol = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' as Hex;
+
+  const allocations: Allocation[] = [
+    { beneficiary: alice, amount: '1000' },
+    { beneficiary: bob, amount: '2000' },
+    { beneficiary: carol, amount: '3000' },
+  ];
+  const vesting = { vestingStart: 1000000, vestingDuration: 31536000, cliffDuration: 0 };
+
+  const tree = rebuildTree({ allocations, token: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', vesting });
+
+  describe('verifyTreeIntegrity', () => {
+    it('accepts intact trees under either build spec', () => {
+      expect(verifyTreeIntegrity(tree)).toEqual([]);
+      expect(verifyTreeIntegrity(rebuildTree({ allocations, buildSpec: STANDARD_BUILD_SPEC }))).toEqual([]);
+    });
+
+    it('survives a JSON round trip', () => {
+      expect(verifyTreeIntegrity(JSON.parse(JSON.stringify(tree)) as MerkleTree)).toEqual([]);
+    });
+
+    it('detects an edited amount', () => {
+      const tampered: MerkleTree = {
+        ...tree,
+        allocations: tree.allocations.map((alloc, i) => (i === 0 ? { ...alloc, amount: '999999' } : alloc)),
+      };
+
+      const problems = verifyTreeIntegrity(tampered);
+      expect(problems).toContain('1 leaf hash(es) do not match their allocation');
+      expect(problems).toContain('Allocations do not match the stored input');
+    });
+
+    it('detects a replaced root', () => {
+      const problems = verifyTreeIntegrity({ ...tree, root: `0x${'00'.repeat(32)}` });
+
+      expect(problems).toHaveLength(1);
+      expect(problems[0]).toContain('Root recomputed from allocations');
+    });
+
+    it('detects a replaced proof', () => {
+      const tampered: MerkleTree = {
+        ...tree,
+        allocations: tree.allocations.map((alloc, i) => (i === 1 ? { ...alloc, proof: [`0x${'22'.repeat(32)}`] } : alloc)),
+      };
+
+      expect(verifyTreeIntegrity(tampered)).toEqual(['1 proof(s) do not match the tree']);
+    });
+
+    it('detects allocations rebuilt consistently but not from the stored input', () => {
+      const other = rebuildTree({ allocations: [{ beneficiary: alice, amount: '5000' }], vesting });
+      const problems = verifyTreeIntegrity({ ...tree, root: other.root, allocations: other.allocations });
+
+      expect(problems).toEqual(['Allocations do not match the stored input']);
+    });
+
+    it('detects an edited inputHash or stored input', () => {
+      expect(verifyTreeIntegrity({ ...tree, inputHash: `0x${'11'.repeat(32)}` })[0]).toContain('inputHash');
+
+      const editedInput = {
+        ...tree,
+        originalInput: { ...tree.originalInput, vesting: { ...vesting, cliffDuration: 100 } },
+      };
+      const problems = verifyTreeIntegrity(editedInput);
+      expect(problems.some((problem) => problem.includes('inputHash'))).toBe(true);
+      expect(problems).toContain('vesting does not match the stored input');
+    });
+
+    it('detects tree parameters that drifted from the stored input', () => {
+      expect(verifyTreeIntegrity({ ...tree, vesting: { ...vesting, vestingDuration: 1 } })).toEqual([
+        'vesting does not match the stored input',
+      ]);
+      expect(verifyTreeIntegrity({ ...tree, token: undefined })).toEqual(['token does not match the stored input']);
+    });
+
+    it('reports unknown build specs and empty trees', () => {
+      expect(verifyTreeIntegrity({ ...tree, buildSpec: { ...tree.buildSpec, version: '9.9.9' } as never })[0])
+        .toContain('9.9.9');
+      expect(verifyTreeIntegrity({ ...tree, allocations: [] })).toEqual(['Tree has no allocations']);
+    });
+  });
+
+  describe('assertTreeIntegrity', () => {
+    it('names the tree and its problems', () => {
+      expect(() => assertTreeIntegrity(tree)).not.toThrow();
+      expect(() => assertTreeIntegrity({ ...tree, root: `0x${'00'.repeat(32)}` })).toThrow(
+        `Integrity check failed for tree ${tree.id}: Root recomputed from allocations`
+      );
+    });
+  });
+
+  describe('verifyStoredTree', () => {
+    const large = rebuildTree({
+      allocations: Array.from({ length: WORKER_THRESHOLD }, (_, i) => ({
+        beneficiary: `0x${(i + 1).toString(16).padStart(40, '0')}` as Hex,
+        amount: String(i + 1),
+      })),
+    });
+
+    it('verifies large trees in a worker', async () => {
+      const raw = JSON.stringify(large);
+      expect(await verifyStoredTree(large, raw)).toBe(large);
+    });
+
+    it('rejects a large tree with a replaced proof', async () => {
+      const stored = JSON.parse(JSON.stringify(large)) as MerkleTree;
+      stored.allocations[WORKER_THRESHOLD - 1].proof = [`0x${'33'.repeat(32)}`];
+
+      await expect(verifyStoredTree(stored, JSON.stringify(stored))).rejects.toThrow(
+        `Integrity check failed for tree ${large.id}: 1 proof(s) do not match the tree`
+      );
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, expect, it, mock } from 'bun:test';
+import { describe, expect, it, mock, beforeEach, afterAll } from 'bun:test';
 import type { Hex } from 'viem';
 import {
   serializeTreeForIpfs,
@@ -7,9 +7,12 @@ import {
   uploadTreeToIpfs,
   downloadTreeFromIpfs,
   verifyIpfsData,
+  createIpfsClient,
   type IpfsClient,
 } from '../src/services/ipfs';
 import type { MerkleTree } from '../src/types';
+import { startFakeIpfsNode } from './helpers/fakeIpfs';
+import { STANDARD_BUILD_SPEC } from '../src/services/canonicalize';
 
 describe('IPFS Service', () => {
   // Test merkle tree
@@ -123,6 +126,30 @@ describe('IPFS Service', () => {
       expect(deserialized).toEqual(mockTree);
     });
 
+    it('round-trips StandardMerkleTree build specs', () => {
+      const standardTree: MerkleTree = { ...mockTree, buildSpec: STANDARD_BUILD_SPEC };
+
+      expect(deserializeTreeFromIpfs(serializeTreeForIpfs(standardTree)).buildSpec).toEqual(STANDARD_BUILD_SPEC);
+    });
+
+    it('round-trips version links of amended trees', () => {
+      const version = {
+        number: 2,
+        parentId: 'parent-tree-id',
+        parentRoot: mockTree.root,
+        diff: { remove: [mockTree.allocations[0].beneficiary] },
+      };
+      const amendedTree: MerkleTree = { ...mockTree, version };
+
+      expect(deserializeTreeFromIpfs(serializeTreeForIpfs(amendedTree)).version).toEqual(version);
+    });
+
+    it('rejects unknown build spec versions', () => {
+      const unknown = { ...mockTree, buildSpec: { ...mockTree.buildSpec, version: '9.9.9' } };
+
+      expect(() => deserializeTreeFromIpfs(JSON.stringify(unknown))).toThrow('Invalid tree data');
+    });
+
     it('throws for invalid JSON', () => {
       expect(() => deserializeTreeFromIpfs('not valid json')).toThrow('Invalid JSON');
     });
@@ -172,6 +199,21 @@ describe('IPFS Service', () => {
       expect(hash).toMatch(/^0x[a-f0-9]{64}$/);
     });
 
+    it('ignores the backup history', () => {
+      const backedUp: MerkleTree = {
+        ...mockTree,
+        backups: [{
+          cid: 'bafktest',
+          contentHash: computeContentHash(mockTree),
+          backedUpAt: '2024-01-02T00:00:00.000Z',
+          pinned: true,
+        }],
+      };
+
+      expect(computeContentHash(backedUp)).toBe(computeContentHash(mockTree));
+      expect(serializeTreeForIpfs(backedUp)).not.toContain('bafktest');
+    });
+
     it('changes when any critical field changes', () => {
       const originalHash = computeContentHash(mockTree);
 
@@ -202,6 +244,7 @@ describe('IPFS Service', () => {
         upload: mock(async () => 'QmTest123456789'),
         download: mock(async () => ''),
         pin: mock(async () => {}),
+        health: mock(async () => ({ healthy: true })),
       };
 
       const result = await uploadTreeToIpfs(mockTree, mockClient);
@@ -218,6 +261,7 @@ describe('IPFS Service', () => {
         upload: mock(async () => ''),
         download: mock(async () => serialized),
         pin: mock(async () => {}),
+        health: mock(async () => ({ healthy: true })),
       };
 
       const tree = await downloadTreeFromIpfs('QmTest', mockClient);
@@ -233,6 +277,7 @@ describe('IPFS Service', () => {
         upload: mock(async () => ''),
         download: mock(async () => serialized),
         pin: mock(async () => {}),
+        health: mock(async () => ({ healthy: true })),
       };
 
       // Should return true for matching root
@@ -254,6 +299,7 @@ describe('IPFS Service', () => {
         }),
         download: mock(async () => ''),
         pin: mock(async () => {}),
+        health: mock(async () => ({ healthy: true })),
       };
 
       await uploadTreeToIpfs(mockTree, mockClient);
@@ -265,13 +311,85 @@ describe('IPFS Service', () => {
   });
 
   describe('createIpfsClient', () => {
-    it('is exported and returns an IpfsClient interface', async () => {
-      const { createIpfsClient } = await import('../src/services/ipfs');
-      const client = createIpfsClient();
+    const node = startFakeIpfsNode();
+    const client = createIpfsClient({ apiUrl: node.url, retries: 2, retryDelayMs: 1, timeoutMs: 1000 });
+
+    beforeEach(() => {
+      node.store.clear();
+      node.pins.clear();
+      node.requests.length = 0;
+      node.failNext(0);
+      node.setDelay(0);
+    });
+
+    afterAll(() => {
+      node.stop();
+    });
+
+    it('uploads, downloads and pins through the HTTP API', async () => {
+      const { cid, contentHash } = await uploadTreeToIpfs(mockTree, client);
+
+      expect(cid).toStartWith('bafk');
+      expect(contentHash).toBe(computeContentHash(mockTree));
+
+      await client.pin(cid);
+      expect(node.pins.has(cid)).toBe(true);
+
+      const downloaded = await downloadTreeFromIpfs(cid, client);
+      expect(downloaded).toEqual(mockTree);
+      expect(node.requests).toEqual(['/api/v0/add', '/api/v0/pin/add', '/api/v0/cat']);
+    });
+
+    it('retries server errors with backoff', async () => {
+      node.failNext(2);
+
+      const cid = await client.upload('{"hello":"world"}');
+
+      expect(node.store.get(cid)).toBe('{"hello":"world"}');
+      expect(node.requests).toHaveLength(3);
+    });
+
+    it('gives up after the configured retries', async () => {
+      node.failNext(5);
+
+      await expect(client.upload('data')).rejects.toThrow('HTTP 500: simulated failure');
+      expect(node.requests).toHaveLength(3);
+    });
+
+    it('does not retry client errors', async () => {
+      const badPath = createIpfsClient({ apiUrl: `${node.url}/missing`, retries: 2, retryDelayMs: 1 });
+
+      await expect(badPath.download('bafkmissing')).rejects.toThrow('HTTP 404');
+      expect(node.requests).toHaveLength(1);
+    });
+
+    it('times out slow requests', async () => {
+      node.setDelay(200);
+      const impatient = createIpfsClient({ apiUrl: node.url, retries: 0, timeoutMs: 20 });
+
+      await expect(impatient.download('bafkslow')).rejects.toThrow('IPFS cat request');
+    });
+
+    it('surfaces the node error message for unknown CIDs', async () => {
+      await expect(client.download('bafkunknown')).rejects.toThrow('block not found: bafkunknown');
+    });
+
+    it('checks health with a single version request', async () => {
+      expect(await client.health()).toEqual({ healthy: true });
+      expect(node.requests).toEqual(['/api/v0/version']);
+
+      node.requests.length = 0;
+      node.failNext(1);
+      const result = await client.health();
+      expect(result.healthy).toBe(false);
+      expect(result.error).toContain('HTTP 500');
+      expect(node.requests).toHaveLength(1);
+    });
+
+    it('reports unreachable nodes', async () => {
+      const offline = createIpfsClient({ apiUrl: 'http://127.0.0.1:1', retries: 0 });
 
-      expect(client).toHaveProperty('upload');
-      expect(client).toHaveProperty('download');
-      expect(client).toHaveProperty('pin');
+      await expect(offline.pin('bafk')).rejects.toThrow('IPFS pin/add request to http://127.0.0.1:1 failed');
     });
   });
 });
@@ -1,6 +1,59 @@
 import { describe, expect, it } from 'bun:test';
-import { getLeaf, hashPair, getRoot, getProof, buildTree, verifyProof } from '../src/services/merkle';
-import type { Hex } from 'viem';
+import {
+  getLeaf,
+  hashPair,
+  getRoot,
+  getProof,
+  getLayers,
+  getProofFromLayers,
+  getStandardLeaf,
+  getLeafForSpec,
+  makeStandardTree,
+  getStandardProof,
+  toStandardMerkleTreeDump,
+  getMultiProof,
+  getAllocationsMultiProof,
+  processMultiProof,
+  verifyMultiProof,
+  buildTree,
+  verifyProof,
+} from '../src/services/merkle';
+import { BUILD_SPEC, STANDARD_BUILD_SPEC } from '../src/services/canonicalize';
+import { getAddress, keccak256, toHex, type Hex } from 'viem';
+
+/**
+ * Deterministic allocations with distinct, realistic-looking addresses
+ */
+function generateAllocations(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    beneficiary: getAddress(`0x${keccak256(toHex(`beneficiary-${i}`)).slice(26)}`),
+    amount: `${(i + 1) * 1000}`,
+  }));
+}
+
+/**
+ * Proof construction before layers were cached: rebuild every layer for each leaf
+ */
+function referenceProof(leaves: Hex[], index: number): Hex[] {
+  let layer = [...leaves];
+  while ((layer.length & (layer.length - 1)) !== 0) {
+    layer.push(leaves[leaves.length - 1]);
+  }
+
+  const proof: Hex[] = [];
+  let currentIndex = index;
+  while (layer.length > 1) {
+    proof.push(layer[currentIndex % 2 === 0 ? currentIndex + 1 : currentIndex - 1]);
+    const nextLayer: Hex[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      nextLayer.push(hashPair(layer[i], layer[i + 1]));
+    }
+    layer = nextLayer;
+    currentIndex = Math.floor(currentIndex / 2);
+  }
+
+  return proof;
+}
 
 describe('Merkle Service', () => {
   // Test data matching Solidity tests
@@ -269,5 +322,217 @@ describe('Merkle Service', () => {
       expect(tree.allocations[1].beneficiary).toBe(bob);
       expect(tree.allocations[1].amount).toBe(bobAmount);
     });
+
+    it('matches the per-leaf reference proofs for every tree size up to 33', () => {
+      for (let count = 1; count <= 33; count++) {
+        const tree = buildTree(generateAllocations(count));
+        const leaves = tree.allocations.map((alloc) => alloc.leaf);
+
+        expect(tree.root).toBe(getRoot(leaves));
+        tree.allocations.forEach((alloc, index) => {
+          expect(alloc.proof).toEqual(referenceProof(leaves, index));
+        });
+      }
+    });
+
+    // Roots and proofs recorded before buildTree cached its layers
+    const goldenTrees: Array<[number, Hex, Hex]> = [
+      [1, '0x129b650732e71430304231edb61f2540f30535cb544a7fe0fb2f88690bb4cc85', '0x88ff657d75369af8d0bd5a7ebc6f8d7de7f78aa64e811b5067739d9d5eb73535'],
+      [2, '0xfec53b00c1b146ed24bce4419ff3094705910a1cdaf0bd26644efd8cf5b45da6', '0x0c3b3abe657988a6ce2bd58095f28cc02a4034cd9ffe1054890ebf0cdd372ad2'],
+      [3, '0xe23b58cd3706993ecd296e1b8d34f1678bbcdc4f4c95673075b0d16ea5b57776', '0x4a55328802cb9b92f51b1c75eb8eb307784f1c928a5e8808704e1ac41466f6fd'],
+      [5, '0x5e4012f19a939741ffbe432775f98e6867884ea51648e1627900898c140a6bed', '0x30cf0e3329f46c47c42ed32bef6be42eebbbd7852b11d940e86f79b37a758225'],
+      [8, '0x757dfe2c5dc8a7cf739a7fd2f0c6116f17ccd3ec8fae910eab13c7a75064364f', '0x0926fa26215b93164f2773a2134f3019fdd0ae9d645366860309aa6adb13154c'],
+      [13, '0x18d1673610eb40b6ac2158f66afab7c140ed2ccc8a298dbe5ee13ca0620bf855', '0x1db425c4eee99bb5567e6c9395741d7a7ce1cd78180612b085a67501820fd8ce'],
+      [100, '0x56fc2dc1e5bda7232c98ff6cf92afb5a2a7e2ff27686cefffce3b63e445191d9', '0xcf4b6d5d50ae1e6c25e12d8690222de96476ad3b7629b88c1e3d0de473b681f2'],
+      [1000, '0xce092d482d6add149db7bff0f277424be4949d4750e6fe3dab55ff7f0a980633', '0xb769975ca2c2493792ae0b882ae2ced829b5ed0c30908b9847658bb1953af4e0'],
+    ];
+
+    it.each(goldenTrees)('reproduces the recorded root and proofs for %d allocations', (count, root, proofsHash) => {
+      const tree = buildTree(generateAllocations(count));
+
+      expect(tree.root).toBe(root);
+      expect(keccak256(toHex(JSON.stringify(tree.allocations.map((alloc) => alloc.proof))))).toBe(proofsHash);
+    });
+  });
+
+  describe('getLayers', () => {
+    it('pads the leaf layer and ends at the root', () => {
+      const leaves = [getLeaf(alice, aliceAmount), getLeaf(bob, bobAmount), getLeaf(carol, carolAmount)];
+      const layers = getLayers(leaves);
+
+      expect(layers.map((layer) => layer.length)).toEqual([4, 2, 1]);
+      expect(layers[0][3]).toBe(leaves[2]);
+      expect(layers[2][0]).toBe(getRoot(leaves));
+    });
+
+    it('throws for empty leaves', () => {
+      expect(() => getLayers([])).toThrow('Cannot compute layers of empty leaves array');
+    });
+  });
+
+  describe('getProofFromLayers', () => {
+    it('matches getProof for every leaf', () => {
+      const leaves = generateAllocations(11).map((alloc) => getLeaf(alloc.beneficiary, alloc.amount));
+      const layers = getLayers(leaves);
+
+      leaves.forEach((_, index) => {
+        expect(getProofFromLayers(layers, index)).toEqual(getProof(leaves, index));
+      });
+    });
+  });
+
+  describe('StandardMerkleTree build spec (2.0.0)', () => {
+    // Example from the @openzeppelin/merkle-tree README
+    const readmeValues = [
+      { beneficiary: '0x1111111111111111111111111111111111111111' as Hex, amount: '5000000000000000000' },
+      { beneficiary: '0x2222222222222222222222222222222222222222' as Hex, amount: '2500000000000000000' },
+    ];
+
+    it('reproduces the root from the @openzeppelin/merkle-tree README', () => {
+      const tree = buildTree(readmeValues, STANDARD_BUILD_SPEC);
+
+      expect(tree.root).toBe('0xd4dee0beab2d53f2cc83e567171bd2820e49898130a22622b10ead383e90bd77');
+    });
+
+    it('double-hashes abi.encode leaves', () => {
+      const leaf = getStandardLeaf(alice, aliceAmount);
+
+      expect(leaf).toMatch(/^0x[a-f0-9]{64}$/);
+      expect(leaf).not.toBe(getLeaf(alice, aliceAmount));
+      expect(getLeafForSpec(alice, aliceAmount, STANDARD_BUILD_SPEC)).toBe(leaf);
+      expect(getLeafForSpec(alice, aliceAmount, BUILD_SPEC)).toBe(getLeaf(alice, aliceAmount));
+    });
+
+    it('keeps allocations in input order with verifiable proofs', () => {
+      for (const count of [1, 2, 3, 7, 33]) {
+        const allocations = generateAllocations(count);
+        const tree = buildTree(allocations, STANDARD_BUILD_SPEC);
+
+        expect(tree.allocations.map((alloc) => alloc.beneficiary)).toEqual(allocations.map((a) => a.beneficiary));
+        for (const alloc of tree.allocations) {
+          expect(alloc.leaf).toBe(getStandardLeaf(alloc.beneficiary, alloc.amount));
+          expect(verifyProof(alloc.proof, tree.root, alloc.leaf)).toBe(true);
+        }
+      }
+    });
+
+    it('does not pad: a single leaf is its own root', () => {
+      const tree = buildTree([{ beneficiary: alice, amount: aliceAmount }], STANDARD_BUILD_SPEC);
+
+      expect(tree.root).toBe(getStandardLeaf(alice, aliceAmount));
+      expect(tree.allocations[0].proof).toEqual([]);
+    });
+
+    it('lays out an n-leaf tree as a 2n-1 node heap array', () => {
+      const leaves = generateAllocations(3).map((alloc) => getStandardLeaf(alloc.beneficiary, alloc.amount));
+      const tree = makeStandardTree(leaves);
+
+      expect(tree).toHaveLength(5);
+      expect(tree.slice(2).reverse()).toEqual(leaves);
+      expect(tree[1]).toBe(hashPair(tree[3], tree[4]));
+      expect(tree[0]).toBe(hashPair(tree[1], tree[2]));
+      expect(getStandardProof(tree, 4)).toEqual([tree[3], tree[2]]);
+      expect(() => getStandardProof(tree, 5)).toThrow('out of bounds');
+    });
+
+    it('produces a StandardMerkleTree JSON dump', () => {
+      const tree = buildTree(readmeValues, STANDARD_BUILD_SPEC);
+      const dump = toStandardMerkleTreeDump({ allocations: tree.allocations, buildSpec: STANDARD_BUILD_SPEC });
+
+      expect(dump.format).toBe('standard-v1');
+      expect(dump.leafEncoding).toEqual(['address', 'uint256']);
+      expect(dump.tree).toHaveLength(3);
+      expect(dump.tree[0]).toBe(tree.root);
+      expect(dump.values.map((v) => v.value)).toEqual(readmeValues.map((v) => [v.beneficiary, v.amount]));
+
+      // Each value points at its own leaf, and the proof is the path from that index
+      dump.values.forEach(({ treeIndex }, index) => {
+        expect(dump.tree[treeIndex]).toBe(tree.allocations[index].leaf);
+        expect(getStandardProof(dump.tree, treeIndex)).toEqual(tree.allocations[index].proof);
+      });
+    });
+
+    it('refuses to dump trees built with another spec', () => {
+      const tree = buildTree(readmeValues);
+
+      expect(() => toStandardMerkleTreeDump({ allocations: tree.allocations, buildSpec: BUILD_SPEC })).toThrow(
+        'StandardMerkleTree dumps require build spec 2.0.0'
+      );
+    });
+  });
+
+  describe('multiproofs', () => {
+    it('follows the @openzeppelin/merkle-tree layout for a heap array', () => {
+      const leaves = generateAllocations(3).map((alloc) => getStandardLeaf(alloc.beneficiary, alloc.amount));
+      const tree = makeStandardTree(leaves);
+
+      // Leaves 3 and 4 are siblings; their parent's sibling (2) goes in the proof
+      expect(getMultiProof(tree, [3, 4])).toEqual({
+        leaves: [tree[4], tree[3]],
+        proof: [tree[2]],
+        proofFlags: [true, false],
+      });
+      expect(getMultiProof(tree, [])).toEqual({ leaves: [], proof: [tree[0]], proofFlags: [] });
+    });
+
+    it('rejects non-leaf and duplicate indices', () => {
+      const tree = makeStandardTree(generateAllocations(3).map((alloc) => getStandardLeaf(alloc.beneficiary, alloc.amount)));
+
+      expect(() => getMultiProof(tree, [1])).toThrow('is not a leaf');
+      expect(() => getMultiProof(tree, [5])).toThrow('is not a leaf');
+      expect(() => getMultiProof(tree, [3, 3])).toThrow('duplicate leaves');
+    });
+
+    for (const spec of [BUILD_SPEC, STANDARD_BUILD_SPEC]) {
+      it(`verifies every subset of a small tree (build spec ${spec.version})`, () => {
+        const tree = buildTree(generateAllocations(5), spec);
+
+        for (let mask = 1; mask < 1 << 5; mask++) {
+          const indices = [0, 1, 2, 3, 4].filter((i) => mask & (1 << i));
+          const { multiproof, allocations } = getAllocationsMultiProof({ ...tree, buildSpec: spec }, indices);
+
+          expect(multiproof.leaves).toHaveLength(indices.length);
+          expect(multiproof.leaves.length + multiproof.proof.length).toBe(multiproof.proofFlags.length + 1);
+          expect(processMultiProof(multiproof)).toBe(tree.root);
+          expect(allocations.map((alloc) => getLeafForSpec(alloc.beneficiary, alloc.amount, spec))).toEqual(
+            multiproof.leaves
+          );
+        }
+      });
+    }
+
+    it('needs no proof elements when proving every leaf', () => {
+      const tree = buildTree(generateAllocations(8));
+      const { multiproof } = getAllocationsMultiProof({ ...tree, buildSpec: BUILD_SPEC }, [0, 1, 2, 3, 4, 5, 6, 7]);
+
+      expect(multiproof.proof).toEqual([]);
+      expect(multiproof.proofFlags.every(Boolean)).toBe(true);
+      expect(verifyMultiProof(multiproof, tree.root)).toBe(true);
+    });
+
+    it('handles single-leaf trees', () => {
+      const tree = buildTree([{ beneficiary: alice, amount: aliceAmount }], STANDARD_BUILD_SPEC);
+      const { multiproof } = getAllocationsMultiProof({ ...tree, buildSpec: STANDARD_BUILD_SPEC }, [0]);
+
+      expect(multiproof).toEqual({ leaves: [tree.root], proof: [], proofFlags: [] });
+      expect(verifyMultiProof(multiproof, tree.root)).toBe(true);
+    });
+
+    it('rejects out-of-range allocation indices', () => {
+      const tree = buildTree(generateAllocations(3));
+
+      expect(() => getAllocationsMultiProof({ ...tree, buildSpec: BUILD_SPEC }, [3])).toThrow('out of bounds');
+    });
+
+    it('returns false for tampered or malformed multiproofs', () => {
+      const tree = buildTree(generateAllocations(6), STANDARD_BUILD_SPEC);
+      const { multiproof } = getAllocationsMultiProof({ ...tree, buildSpec: STANDARD_BUILD_SPEC }, [1, 4]);
+
+      expect(verifyMultiProof(multiproof, tree.root)).toBe(true);
+      expect(verifyMultiProof({ ...multiproof, leaves: [multiproof.leaves[0], getStandardLeaf(alice, aliceAmount)] }, tree.root)).toBe(false);
+      expect(verifyMultiProof({ ...multiproof, proof: multiproof.proof.slice(1) }, tree.root)).toBe(false);
+      expect(verifyMultiProof({ ...multiproof, proofFlags: multiproof.proofFlags.map((flag) => !flag) }, tree.root)).toBe(false);
+      expect(() => processMultiProof({ ...multiproof, proof: multiproof.proof.slice(1) })).toThrow('Invalid multiproof');
+    });
   });
 });
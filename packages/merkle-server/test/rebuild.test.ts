@@ -1,7 +1,8 @@
 import { describe, expect, it } from 'bun:test';
-import { rebuildTree, verifyRebuild, rebuildFromStoredInput } from '../src/services/rebuild';
-import { buildTree } from '../src/services/merkle';
-import { canonicalizeAllocations, computeInputHash, BUILD_SPEC } from '../src/services/canonicalize';
+import { rebuildTree, rebuildTreeInWorker, verifyRebuild, rebuildFromStoredInput } from '../src/services/rebuild';
+import { buildTree, getLeaf, hashPair } from '../src/services/merkle';
+import { WORKER_THRESHOLD } from '../src/services/workers';
+import { canonicalizeAllocations, computeInputHash, BUILD_SPEC, STANDARD_BUILD_SPEC } from '../src/services/canonicalize';
 import type { Hex } from 'viem';
 import type { MerkleTree, Allocation, VestingParams, PlatformFeeParams } from '../src/types';
 
@@ -53,6 +54,16 @@ describe('Rebuild Service', () => {
       }
     });
 
+    it('builds with the requested build spec', () => {
+      const rebuilt = rebuildTree({ allocations, buildSpec: STANDARD_BUILD_SPEC });
+      const original = buildTree(canonicalizeAllocations(allocations), STANDARD_BUILD_SPEC);
+
+      expect(rebuilt.buildSpec).toEqual(STANDARD_BUILD_SPEC);
+      expect(rebuilt.root).toBe(original.root);
+      expect(rebuilt.root).not.toBe(rebuildTree({ allocations }).root);
+      expect(rebuilt.inputHash).toBe(rebuildTree({ allocations }).inputHash);
+    });
+
     it('produces different root for different allocations', () => {
       const tree1 = rebuildTree({ allocations });
       const tree2 = rebuildTree({
@@ -174,6 +185,14 @@ describe('Rebuild Service', () => {
       expect(matches).toBe(true);
     });
 
+    it('returns false when build specs differ', () => {
+      const original = rebuildTree({ allocations });
+      const rebuilt = rebuildTree({ allocations, buildSpec: STANDARD_BUILD_SPEC });
+
+      expect(verifyRebuild(original, rebuilt)).toBe(false);
+      expect(verifyRebuild(rebuilt, rebuildTree({ allocations, buildSpec: STANDARD_BUILD_SPEC }))).toBe(true);
+    });
+
     it('returns false when roots differ', () => {
       const original = rebuildTree({ allocations });
       const different = rebuildTree({
@@ -241,20 +260,98 @@ describe('Rebuild Service', () => {
     });
   });
 
+  describe('rebuildTreeInWorker', () => {
+    it('builds the same tree in a worker thread as on the calling thread', async () => {
+      const input = { allocations, token, vesting: vestingParams, platformFee, buildSpec: STANDARD_BUILD_SPEC };
+
+      const inWorker = await rebuildTreeInWorker(input, 0);
+      const inline = rebuildTree(input);
+
+      expect(inWorker.root).toBe(inline.root);
+      expect(inWorker.inputHash).toBe(inline.inputHash);
+      expect(inWorker.allocations).toEqual(inline.allocations);
+      expect(inWorker.originalInput).toEqual(inline.originalInput);
+    });
+
+    it('matches a layer-by-layer reference build above the worker threshold', async () => {
+      // Not a power of two, so the last leaf is duplicated to pad the bottom layer
+      const count = WORKER_THRESHOLD + 500;
+      const large = Array.from({ length: count }, (_, i) => ({
+        beneficiary: `0x${(i + 1).toString(16).padStart(40, '0')}` as Hex,
+        amount: String((i + 1) * 1_000),
+      }));
+
+      const tree = await rebuildTreeInWorker({ allocations: large });
+
+      // Reference: pad with the last leaf, then hash each layer pairwise up to the root
+      const leaves = tree.allocations.map((alloc) => getLeaf(alloc.beneficiary, alloc.amount));
+      const layers: Hex[][] = [[...leaves]];
+      while ((layers[0].length & (layers[0].length - 1)) !== 0) {
+        layers[0].push(leaves[leaves.length - 1]);
+      }
+      while (layers[layers.length - 1].length > 1) {
+        const layer = layers[layers.length - 1];
+        layers.push(Array.from({ length: layer.length / 2 }, (_, i) => hashPair(layer[2 * i], layer[2 * i + 1])));
+      }
+
+      expect(tree.allocations).toHaveLength(count);
+      expect(tree.root).toBe(layers[layers.length - 1][0]);
+      expect(tree.allocations.map((alloc) => alloc.leaf)).toEqual(leaves);
+      for (const index of [0, 1, 777, count - 2, count - 1]) {
+        const proof = layers.slice(0, -1).map((layer, depth) => layer[(index >> depth) ^ 1]);
+        expect(tree.allocations[index].proof).toEqual(proof);
+      }
+    });
+
+    it('leaves the calling thread free while the worker builds', async () => {
+      let ticked = false;
+      setTimeout(() => {
+        ticked = true;
+      }, 0);
+
+      const tickedBeforeBuilt = await rebuildTreeInWorker({ allocations }, 0).then(() => ticked);
+
+      expect(tickedBeforeBuilt).toBe(true);
+    });
+
+    it('rejects with the build error from the worker', async () => {
+      const duplicated = [...allocations, { beneficiary: alice, amount: '1' }];
+
+      await expect(rebuildTreeInWorker({ allocations: duplicated }, 0)).rejects.toThrow('Duplicate beneficiary');
+    });
+  });
+
   describe('rebuildFromStoredInput', () => {
-    it('rebuilds using stored originalInput from tree', () => {
+    it('rebuilds using stored originalInput from tree', async () => {
       // Create an original tree with stored input
       const originalTree = rebuildTree({ allocations, token, vesting: vestingParams, platformFee });
 
       // Rebuild from stored input
-      const result = rebuildFromStoredInput(originalTree);
+      const result = await rebuildFromStoredInput(originalTree);
 
       expect(result.tree.root).toBe(originalTree.root);
       expect(result.tree.inputHash).toBe(originalTree.inputHash);
       expect(result.matchesOriginal).toBe(true);
     });
 
-    it('throws if tree has no originalInput', () => {
+    it('rebuilds with the build spec stored on the tree', async () => {
+      const originalTree = rebuildTree({ allocations, token, buildSpec: STANDARD_BUILD_SPEC });
+
+      const result = await rebuildFromStoredInput(originalTree);
+
+      expect(result.tree.buildSpec).toEqual(STANDARD_BUILD_SPEC);
+      expect(result.tree.root).toBe(originalTree.root);
+      expect(result.matchesOriginal).toBe(true);
+    });
+
+    it('throws for an unsupported stored build spec', async () => {
+      const originalTree = rebuildTree({ allocations });
+      const unknownSpec = { ...originalTree, buildSpec: { ...BUILD_SPEC, version: '9.9.9' } } as unknown as MerkleTree;
+
+      await expect(rebuildFromStoredInput(unknownSpec)).rejects.toThrow('Unsupported build spec version: 9.9.9');
+    });
+
+    it('throws if tree has no originalInput', async () => {
       // Create a tree without originalInput (simulating old format)
       const treeWithoutInput: MerkleTree = {
         id: 'test-id',
@@ -266,21 +363,21 @@ describe('Rebuild Service', () => {
         inputHash: '0x0000000000000000000000000000000000000000000000000000000000000000' as Hex,
       };
 
-      expect(() => rebuildFromStoredInput(treeWithoutInput)).toThrow('No stored input');
+      await expect(rebuildFromStoredInput(treeWithoutInput)).rejects.toThrow('No stored input');
     });
 
-    it('verifies inputHash matches after rebuild', () => {
+    it('verifies inputHash matches after rebuild', async () => {
       const originalTree = rebuildTree({ allocations });
 
-      const result = rebuildFromStoredInput(originalTree);
+      const result = await rebuildFromStoredInput(originalTree);
 
       expect(result.tree.inputHash).toBe(originalTree.inputHash);
     });
 
-    it('rebuilds tree with all allocations and proofs matching', () => {
+    it('rebuilds tree with all allocations and proofs matching', async () => {
       const originalTree = rebuildTree({ allocations });
 
-      const result = rebuildFromStoredInput(originalTree);
+      const result = await rebuildFromStoredInput(originalTree);
 
       expect(result.tree.allocations).toHaveLength(originalTree.allocations.length);
 
@@ -292,26 +389,26 @@ describe('Rebuild Service', () => {
       }
     });
 
-    it('preserves token in rebuilt tree', () => {
+    it('preserves token in rebuilt tree', async () => {
       const originalTree = rebuildTree({ allocations, token });
 
-      const result = rebuildFromStoredInput(originalTree);
+      const result = await rebuildFromStoredInput(originalTree);
 
       expect(result.tree.token).toBe(token);
     });
 
-    it('preserves vesting params in rebuilt tree', () => {
+    it('preserves vesting params in rebuilt tree', async () => {
       const originalTree = rebuildTree({ allocations, vesting: vestingParams });
 
-      const result = rebuildFromStoredInput(originalTree);
+      const result = await rebuildFromStoredInput(originalTree);
 
       expect(result.tree.vesting).toEqual(vestingParams);
     });
 
-    it('preserves platform fee in rebuilt tree', () => {
+    it('preserves platform fee in rebuilt tree', async () => {
       const originalTree = rebuildTree({ allocations, platformFee });
 
-      const result = rebuildFromStoredInput(originalTree);
+      const result = await rebuildFromStoredInput(originalTree);
 
       expect(result.tree.platformFee).toEqual(platformFee);
     });
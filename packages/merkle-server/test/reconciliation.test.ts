@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  createReconciler,
+  DEFAULT_RECONCILE_INTERVAL_MINUTES,
+  loadReconcileIntervalMs,
+} from '../src/services/reconciliation';
+import { rebuildTree } from '../src/services/rebuild';
+import { MemoryBackend, ReplicatedStorage } from '../src/services/storage';
+import { MemoryAuditLog } from '../src/services/audit';
+import type { Hex } from 'viem';
+
+describe('Reconciliation Service', () => {
+  const alice = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' as Hex;
+
+  describe('loadReconcileIntervalMs', () => {
+    it('defaults to 60 minutes and reads RECONCILE_INTERVAL_MINUTES', () => {
+      expect(loadReconcileIntervalMs({})).toBe(DEFAULT_RECONCILE_INTERVAL_MINUTES * 60_000);
+      expect(loadReconcileIntervalMs({ RECONCILE_INTERVAL_MINUTES: '5' })).toBe(300_000);
+      expect(loadReconcileIntervalMs({ RECONCILE_INTERVAL_MINUTES: '0' })).toBeNull();
+    });
+
+    it('rejects values that are not non-negative integers', () => {
+      expect(() => loadReconcileIntervalMs({ RECONCILE_INTERVAL_MINUTES: '-1' })).toThrow(
+        'Invalid RECONCILE_INTERVAL_MINUTES'
+      );
+      expect(() => loadReconcileIntervalMs({ RECONCILE_INTERVAL_MINUTES: 'hourly' })).toThrow(
+        'Invalid RECONCILE_INTERVAL_MINUTES'
+      );
+    });
+  });
+
+  describe('createReconciler', () => {
+    it('refuses to run without replicas', async () => {
+      const reconciler = createReconciler(new MemoryBackend());
+
+      expect(reconciler.replicated).toBe(false);
+      await expect(reconciler.run()).rejects.toThrow('Storage has no replicas to reconcile');
+      expect(reconciler.status()).toEqual({ replicated: false, running: false, intervalMs: null, lastRun: null });
+    });
+
+    it('runs reconcile and remembers the last run', async () => {
+      const primary = new MemoryBackend();
+      const replica = new MemoryBackend();
+      const reconciler = createReconciler(new ReplicatedStorage(primary, [replica]));
+      const tree = rebuildTree({ allocations: [{ beneficiary: alice, amount: '1' }] });
+      await primary.save(tree);
+
+      const run = await reconciler.run();
+
+      expect(run.synced).toBe(1);
+      expect(run.backends[1].missing).toEqual([tree.id]);
+      expect(run.durationMs).toBe(Date.parse(run.finishedAt) - Date.parse(run.startedAt));
+      expect(await replica.get(tree.id)).toEqual(tree);
+      expect(reconciler.status()).toMatchObject({ replicated: true, running: false, lastRun: run });
+    });
+
+    it('audits each repaired tree, as the system unless an actor is given', async () => {
+      const primary = new MemoryBackend();
+      const replica = new MemoryBackend();
+      const audit = new MemoryAuditLog();
+      const reconciler = createReconciler(new ReplicatedStorage(primary, [replica]), audit);
+      const first = rebuildTree({ allocations: [{ beneficiary: alice, amount: '1' }] });
+      const second = rebuildTree({ allocations: [{ beneficiary: alice, amount: '2' }] });
+      await primary.save(first);
+      await reconciler.run();
+
+      await replica.save(second);
+      await reconciler.run('ops-admin');
+      await reconciler.run();
+
+      expect((await audit.query()).map(({ actor, action, treeId, details }) => ({ actor, action, treeId, details }))).toEqual([
+        { actor: 'system', action: 'reconcile', treeId: first.id, details: { backends: 'memory' } },
+        { actor: 'ops-admin', action: 'reconcile', treeId: second.id, details: { backends: 'memory' } },
+      ]);
+    });
+
+    it('shares a run that is already in progress', async () => {
+      const reconciler = createReconciler(new ReplicatedStorage(new MemoryBackend(), [new MemoryBackend()]));
+
+      const first = reconciler.run();
+      const second = reconciler.run();
+
+      expect(second).toBe(first);
+      expect(reconciler.status().running).toBe(true);
+      await first;
+      expect(reconciler.status().running).toBe(false);
+    });
+
+    it('records a failed reconcile as a run with an error', async () => {
+      const storage = new ReplicatedStorage(new MemoryBackend(), [new MemoryBackend()]);
+      storage.reconcile = async () => {
+        throw new Error('replica offline');
+      };
+
+      const run = await createReconciler(storage).run();
+
+      expect(run.errors).toEqual(['Reconciliation failed: replica offline']);
+      expect(run.synced).toBe(0);
+    });
+
+    it('reports the schedule between start and stop', () => {
+      const reconciler = createReconciler(new ReplicatedStorage(new MemoryBackend(), [new MemoryBackend()]));
+
+      reconciler.start(60_000);
+      const status = reconciler.status();
+      expect(status.intervalMs).toBe(60_000);
+      expect(Date.parse(status.nextRunAt!)).toBeGreaterThan(Date.now());
+
+      reconciler.stop();
+      expect(reconciler.status()).not.toHaveProperty('nextRunAt');
+      expect(reconciler.status().intervalMs).toBeNull();
+    });
+  });
+});
@@ -1,13 +1,32 @@
-import { describe, expect, it } from 'bun:test';
-import type { Hex } from 'viem';
+import { describe, expect, it, beforeAll, afterAll } from 'bun:test';
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createPublicClient, createWalletClient, http, type Abi, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { foundry } from 'viem/chains';
 import {
   createRegistryKey,
   parseRegistryKey,
+  signRegistrationAuthorization,
+  verifyRegistrationAuthorization,
+  createRegistryClient,
+  createRegistryClientFromEnv,
   type RegistryKey,
   type RegistryEntry,
   type RegistrationAuthorization,
+  type RegistryDomain,
 } from '../src/services/registry';
 
+// Anvil's default funded accounts
+const OWNER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80' as Hex;
+const RELAYER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d' as Hex;
+const owner = privateKeyToAccount(OWNER_KEY);
+const relayer = privateKeyToAccount(RELAYER_KEY);
+
+const REGISTRY_ARTIFACT = join(import.meta.dir, '../../contracts/out/MerkleTreeRegistry.sol/MerkleTreeRegistry.json');
+const ANVIL = Bun.which('anvil');
+const ANVIL_PORT = 18545;
+
 describe('Registry Service', () => {
   const testKey: RegistryKey = {
     chainId: 1,
@@ -158,4 +177,237 @@ describe('Registry Service', () => {
       expect(keys.size).toBe(testCases.length);
     });
   });
+
+  describe('EIP-712 authorizations', () => {
+    const domain: RegistryDomain = {
+      chainId: 31337,
+      verifyingContract: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    };
+    const entry = {
+      chainId: 1,
+      distributorAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as Hex,
+      merkleRoot: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef' as Hex,
+      ipfsCid: 'bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy',
+    };
+    const deadline = Math.floor(Date.now() / 1000) + 3600;
+
+    it('signs an authorization that verifies for the same entry', async () => {
+      const auth = await signRegistrationAuthorization(owner, domain, entry, deadline);
+
+      expect(auth.owner).toBe(owner.address);
+      expect(auth.merkleRoot).toBe(entry.merkleRoot);
+      expect(auth.ipfsCid).toBe(entry.ipfsCid);
+      expect(auth.deadline).toBe(deadline);
+      expect(await verifyRegistrationAuthorization(domain, entry, auth)).toBe(true);
+    });
+
+    it('rejects authorizations for a different entry', async () => {
+      const auth = await signRegistrationAuthorization(owner, domain, entry, deadline);
+
+      expect(await verifyRegistrationAuthorization(domain, { ...entry, chainId: 137 }, auth)).toBe(false);
+      expect(await verifyRegistrationAuthorization(domain, { ...entry, ipfsCid: 'bafkreiother' }, auth)).toBe(false);
+      expect(
+        await verifyRegistrationAuthorization(
+          domain,
+          { ...entry, distributorAddress: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' },
+          auth
+        )
+      ).toBe(false);
+    });
+
+    it('rejects authorizations bound to another registry', async () => {
+      const auth = await signRegistrationAuthorization(owner, domain, entry, deadline);
+
+      expect(await verifyRegistrationAuthorization({ ...domain, chainId: 1 }, entry, auth)).toBe(false);
+    });
+
+    it('rejects a claimed owner that did not sign', async () => {
+      const auth = await signRegistrationAuthorization(relayer, domain, entry, deadline);
+
+      expect(await verifyRegistrationAuthorization(domain, entry, { ...auth, owner: owner.address })).toBe(false);
+    });
+
+    it('rejects expired and malformed authorizations', async () => {
+      const auth = await signRegistrationAuthorization(owner, domain, entry, deadline);
+
+      expect(await verifyRegistrationAuthorization(domain, entry, auth, deadline + 1)).toBe(false);
+      expect(await verifyRegistrationAuthorization(domain, entry, { ...auth, signature: '0xabcd' })).toBe(false);
+    });
+  });
+
+  describe('createRegistryClientFromEnv', () => {
+    it('returns null when no registry address is set', () => {
+      expect(createRegistryClientFromEnv({})).toBeNull();
+    });
+
+    it('creates a client from env vars', () => {
+      const client = createRegistryClientFromEnv({
+        REGISTRY_CONTRACT_ADDRESS: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+        REGISTRY_RPC_URL: 'http://127.0.0.1:8545',
+        REGISTRY_PRIVATE_KEY: OWNER_KEY,
+      });
+
+      expect(client).not.toBeNull();
+    });
+
+    it('rejects invalid config', () => {
+      expect(() => createRegistryClientFromEnv({ REGISTRY_CONTRACT_ADDRESS: '0x1234' })).toThrow('REGISTRY_CONTRACT_ADDRESS');
+      expect(() =>
+        createRegistryClientFromEnv({ REGISTRY_CONTRACT_ADDRESS: '0x5FbDB2315678afecb367f032d93F642f64180aa3' })
+      ).toThrow('REGISTRY_RPC_URL is required');
+      expect(() =>
+        createRegistryClientFromEnv({
+          REGISTRY_CONTRACT_ADDRESS: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+          REGISTRY_RPC_URL: 'http://127.0.0.1:8545',
+          REGISTRY_PRIVATE_KEY: '0x1234',
+        })
+      ).toThrow('REGISTRY_PRIVATE_KEY must be a 32-byte hex string');
+    });
+  });
+
+  describe('createRegistryClient health', () => {
+    const registryAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3' as Hex;
+    let code: Hex = '0x';
+
+    // Minimal JSON-RPC endpoint answering eth_getCode
+    const rpc = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const { id, method } = (await req.json()) as { id: number; method: string };
+        return method === 'eth_getCode'
+          ? Response.json({ jsonrpc: '2.0', id, result: code })
+          : Response.json({ jsonrpc: '2.0', id, error: { code: -32601, message: 'Method not found' } });
+      },
+    });
+
+    afterAll(() => {
+      rpc.stop(true);
+    });
+
+    it('is healthy when the registry contract is deployed', async () => {
+      code = '0x6080';
+      const client = createRegistryClient({ rpcUrl: `http://127.0.0.1:${rpc.port}`, registryAddress });
+
+      expect(await client.health()).toEqual({ healthy: true });
+    });
+
+    it('reports a missing contract', async () => {
+      code = '0x';
+      const client = createRegistryClient({ rpcUrl: `http://127.0.0.1:${rpc.port}`, registryAddress });
+
+      expect(await client.health()).toEqual({
+        healthy: false,
+        error: `No contract deployed at registry address ${registryAddress}`,
+      });
+    });
+
+    it('reports an unreachable RPC endpoint without its URL', async () => {
+      const client = createRegistryClient({ rpcUrl: 'http://127.0.0.1:1/v3/secret-key', registryAddress });
+
+      const result = await client.health();
+      expect(result.healthy).toBe(false);
+      expect(result.error).toStartWith('Registry RPC request failed');
+      expect(result.error).not.toContain('secret-key');
+    });
+  });
+
+  // Requires `anvil` on PATH and `forge build` output in packages/contracts/out
+  describe.skipIf(!ANVIL || !existsSync(REGISTRY_ARTIFACT))('createRegistryClient (anvil)', () => {
+    const rpcUrl = `http://127.0.0.1:${ANVIL_PORT}`;
+    let anvil: ReturnType<typeof Bun.spawn> | undefined;
+    let registryAddress: Hex;
+
+    const entry = {
+      chainId: 1,
+      distributorAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as Hex,
+      merkleRoot: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef' as Hex,
+      ipfsCid: 'bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy',
+    };
+
+    beforeAll(async () => {
+      anvil = Bun.spawn([ANVIL!, '--port', `${ANVIL_PORT}`, '--silent'], { stdout: 'ignore', stderr: 'ignore' });
+
+      const publicClient = createPublicClient({ chain: foundry, transport: http(rpcUrl) });
+      for (let attempt = 0; ; attempt++) {
+        try {
+          await publicClient.getChainId();
+          break;
+        } catch (error) {
+          if (attempt >= 50) throw error;
+          await Bun.sleep(100);
+        }
+      }
+
+      const artifact = JSON.parse(readFileSync(REGISTRY_ARTIFACT, 'utf-8')) as {
+        abi: Abi;
+        bytecode: { object: Hex };
+      };
+      const walletClient = createWalletClient({ account: owner, chain: foundry, transport: http(rpcUrl) });
+      const hash = await walletClient.deployContract({
+        abi: artifact.abi,
+        bytecode: artifact.bytecode.object,
+        args: [owner.address],
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      registryAddress = receipt.contractAddress!;
+    });
+
+    afterAll(() => {
+      anvil?.kill();
+    });
+
+    it('registers with the owner key and looks the entry up by key and CID', async () => {
+      const client = createRegistryClient({ rpcUrl, registryAddress, privateKey: OWNER_KEY });
+
+      const { txHash } = await client.register(entry);
+      expect(txHash).toMatch(/^0x[a-f0-9]{64}$/);
+
+      const found = await client.lookup(entry);
+      expect(found).toMatchObject({ ...entry, registrant: owner.address });
+      expect(found!.registeredAt).toBeGreaterThan(0);
+
+      const byCid = await client.lookupByCid(entry.ipfsCid);
+      expect(byCid).toHaveLength(1);
+      expect(byCid[0].merkleRoot).toBe(entry.merkleRoot);
+    });
+
+    it('returns null for unknown keys', async () => {
+      const client = createRegistryClient({ rpcUrl, registryAddress });
+
+      expect(await client.lookup({ ...entry, chainId: 999 })).toBeNull();
+      expect(await client.lookupByCid('bafkreiunknown')).toEqual([]);
+    });
+
+    it('rejects a second registration for the same key', async () => {
+      const client = createRegistryClient({ rpcUrl, registryAddress, privateKey: OWNER_KEY });
+
+      await expect(client.register({ ...entry, ipfsCid: 'bafkreiother' })).rejects.toThrow('AlreadyRegistered');
+    });
+
+    it('relays an owner-signed authorization from another account', async () => {
+      const relayed = { ...entry, chainId: 137 };
+      const domain = { chainId: foundry.id, verifyingContract: registryAddress };
+      const auth = await signRegistrationAuthorization(owner, domain, relayed, Math.floor(Date.now() / 1000) + 600);
+      const client = createRegistryClient({ rpcUrl, registryAddress, privateKey: RELAYER_KEY });
+
+      await client.register(relayed, auth);
+
+      const found = await client.lookup(relayed);
+      expect(found?.registrant).toBe(relayer.address);
+    });
+
+    it('is healthy against a deployed registry', async () => {
+      expect(await createRegistryClient({ rpcUrl, registryAddress }).health()).toEqual({ healthy: true });
+    });
+
+    it('refuses authorizations not signed by the registry owner', async () => {
+      const unauthorized = { ...entry, chainId: 10 };
+      const domain = { chainId: foundry.id, verifyingContract: registryAddress };
+      const auth = await signRegistrationAuthorization(relayer, domain, unauthorized, Math.floor(Date.now() / 1000) + 600);
+      const client = createRegistryClient({ rpcUrl, registryAddress, privateKey: RELAYER_KEY });
+
+      await expect(client.register(unauthorized, auth)).rejects.toThrow('registry owner is');
+      expect(await client.lookup(unauthorized)).toBeNull();
+    });
+  });
 });
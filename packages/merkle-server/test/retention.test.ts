@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  createTombstone,
+  DEFAULT_RETENTION_DAYS,
+  isTreeDeployed,
+  loadRetentionDays,
+  purgeExpiredTrees,
+} from '../src/services/retention';
+import { rebuildTree } from '../src/services/rebuild';
+import { MemoryBackend, ReplicatedStorage } from '../src/services/storage';
+import { MemoryAuditLog } from '../src/services/audit';
+import { createFakeRegistry } from './helpers/fakeRegistry';
+import type { Hex } from 'viem';
+import type { BackupRecord } from '../src/types';
+
+describe('Retention Service', () => {
+  const alice = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' as Hex;
+  const now = new Date('2024-06-01T00:00:00.000Z');
+
+  const backup: BackupRecord = {
+    cid: 'bafy-backup',
+    contentHash: `0x${'ab'.repeat(32)}`,
+    backedUpAt: now.toISOString(),
+    pinned: true,
+  };
+
+  describe('loadRetentionDays', () => {
+    it('defaults to 30 days and reads DELETION_RETENTION_DAYS', () => {
+      expect(loadRetentionDays({})).toBe(DEFAULT_RETENTION_DAYS);
+      expect(loadRetentionDays({ DELETION_RETENTION_DAYS: '7' })).toBe(7);
+      expect(loadRetentionDays({ DELETION_RETENTION_DAYS: '0' })).toBe(0);
+    });
+
+    it('rejects values that are not non-negative integers', () => {
+      expect(() => loadRetentionDays({ DELETION_RETENTION_DAYS: '-1' })).toThrow('Invalid DELETION_RETENTION_DAYS');
+      expect(() => loadRetentionDays({ DELETION_RETENTION_DAYS: '1.5' })).toThrow('Invalid DELETION_RETENTION_DAYS');
+      expect(() => loadRetentionDays({ DELETION_RETENTION_DAYS: 'week' })).toThrow('Invalid DELETION_RETENTION_DAYS');
+    });
+  });
+
+  describe('createTombstone', () => {
+    it('sets purgeAfter to the end of the retention period', () => {
+      expect(createTombstone(7, now, 'ops')).toEqual({
+        deletedAt: '2024-06-01T00:00:00.000Z',
+        purgeAfter: '2024-06-08T00:00:00.000Z',
+        deletedBy: 'ops',
+      });
+      expect(createTombstone(0, now)).not.toHaveProperty('deletedBy');
+    });
+  });
+
+  describe('isTreeDeployed', () => {
+    it('is true when a backup was registered on-chain', async () => {
+      const tree = { ...rebuildTree({ allocations: [{ beneficiary: alice, amount: '1' }] }), backups: [
+        { ...backup, registryTxHash: `0x${'cd'.repeat(32)}` as Hex },
+      ] };
+
+      expect(await isTreeDeployed(tree, null)).toBe(true);
+    });
+
+    it('checks the registry for the root under each backup CID', async () => {
+      const registry = createFakeRegistry();
+      const tree = { ...rebuildTree({ allocations: [{ beneficiary: alice, amount: '1' }] }), backups: [backup] };
+
+      expect(await isTreeDeployed(tree, registry)).toBe(false);
+
+      await registry.register({
+        chainId: 1,
+        distributorAddress: alice,
+        merkleRoot: tree.root,
+        ipfsCid: backup.cid,
+      });
+
+      expect(await isTreeDeployed(tree, registry)).toBe(true);
+      expect(await isTreeDeployed(tree, null)).toBe(false);
+    });
+  });
+
+  describe('purgeExpiredTrees', () => {
+    it('purges only trees past their retention period', async () => {
+      const storage = new MemoryBackend();
+      const expired = rebuildTree({ allocations: [{ beneficiary: alice, amount: '1' }] });
+      const retained = rebuildTree({ allocations: [{ beneficiary: alice, amount: '2' }] });
+      await storage.save(expired);
+      await storage.save(retained);
+
+      await storage.softDelete(expired.id, createTombstone(1, new Date('2024-05-01T00:00:00.000Z')));
+      await storage.softDelete(retained.id, createTombstone(30, new Date('2024-05-20T00:00:00.000Z')));
+
+      const result = await purgeExpiredTrees(storage, now);
+
+      expect(result).toEqual({ purged: [expired.id], errors: [] });
+      expect((await storage.listDeleted()).map((deleted) => deleted.id)).toEqual([retained.id]);
+    });
+
+    it('audits each purged tree as the system actor', async () => {
+      const storage = new MemoryBackend();
+      const audit = new MemoryAuditLog();
+      const tree = rebuildTree({ allocations: [{ beneficiary: alice, amount: '1' }] });
+      const tombstone = createTombstone(1, new Date('2024-05-01T00:00:00.000Z'));
+      await storage.save(tree);
+      await storage.softDelete(tree.id, tombstone);
+
+      await purgeExpiredTrees(storage, now, audit);
+
+      expect(await audit.query()).toMatchObject([
+        {
+          actor: 'system',
+          action: 'purge',
+          treeId: tree.id,
+          root: tree.root,
+          result: 'success',
+          details: { deletedAt: tombstone.deletedAt, purgeAfter: tombstone.purgeAfter },
+        },
+      ]);
+    });
+
+    it('reports and audits a purge that reached the primary but missed the write quorum', async () => {
+      const primary = new MemoryBackend();
+      const replica = Object.assign(new MemoryBackend(), {
+        purge: async (): Promise<boolean> => {
+          throw new Error('replica offline');
+        },
+      });
+      const storage = new ReplicatedStorage(primary, [replica], { writeQuorum: 1 });
+      const audit = new MemoryAuditLog();
+      const tree = rebuildTree({ allocations: [{ beneficiary: alice, amount: '1' }] });
+      await storage.save(tree);
+      await storage.softDelete(tree.id, createTombstone(1, new Date('2024-05-01T00:00:00.000Z')));
+
+      const result = await purgeExpiredTrees(storage, now, audit);
+
+      expect(result.purged).toEqual([tree.id]);
+      expect(result.errors).toEqual([expect.stringContaining('Write quorum not met')]);
+      expect(await primary.listDeleted()).toEqual([]);
+      expect(await audit.query()).toMatchObject([
+        {
+          action: 'purge',
+          treeId: tree.id,
+          result: 'failure',
+          status: 503,
+          details: { appliedBackends: '1', requiredBackends: '2' },
+        },
+      ]);
+    });
+  });
+});
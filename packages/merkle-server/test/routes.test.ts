@@ -1,9 +1,28 @@
-import { describe, expect, it, beforeEach } from 'bun:test';
+import { describe, expect, it, beforeEach, afterAll } from 'bun:test';
 import { createApp } from '../src/app';
-import { clearAll } from '../src/services/storage';
+import { MemoryBackend, MemoryReplicaOutbox, ReplicatedStorage } from '../src/services/storage';
+import { createIpfsClient, computeContentHash, deserializeTreeFromIpfs } from '../src/services/ipfs';
+import { startFakeIpfsNode } from './helpers/fakeIpfs';
+import { createFakeRegistry } from './helpers/fakeRegistry';
+import { createRegistryKey } from '../src/services/registry';
+import { createAuthenticator, type Role } from '../src/services/auth';
+import { MemoryAuditLog } from '../src/services/audit';
+import { rebuildTree } from '../src/services/rebuild';
 import type { Hex } from 'viem';
-
-const app = createApp({ logging: false });
+import type { MerkleTree } from '../src/types';
+
+const storage = new MemoryBackend();
+const ipfsNode = startFakeIpfsNode();
+const registry = createFakeRegistry();
+const auditLog = new MemoryAuditLog();
+const app = createApp({
+  logging: false,
+  auth: null,
+  storage,
+  ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 1, retryDelayMs: 1 }),
+  registry,
+  audit: auditLog,
+});
 
 // Test data
 const alice = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' as Hex;
@@ -23,7 +42,15 @@ const frontEndFeeBps = 100;
 
 describe('API Routes', () => {
   beforeEach(async () => {
-    await clearAll();
+    storage.clearAll();
+    ipfsNode.store.clear();
+    ipfsNode.pins.clear();
+    ipfsNode.failNext(0);
+    registry.entries.clear();
+  });
+
+  afterAll(() => {
+    ipfsNode.stop();
   });
 
   describe('GET /health', () => {
@@ -34,6 +61,108 @@ describe('API Routes', () => {
       const body = await res.json();
       expect(body.status).toBe('ok');
       expect(body.timestamp).toBeDefined();
+      expect(body).not.toHaveProperty('pendingReplicaWrites');
+    });
+
+    it('reports queued replica writes when replicas are configured', async () => {
+      const offline = Object.assign(new MemoryBackend(), {
+        save: async () => {
+          throw new Error('replica offline');
+        },
+      });
+      const replicatedApp = createApp({
+        logging: false,
+        auth: null,
+        storage: new ReplicatedStorage(new MemoryBackend(), [offline]),
+        ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 1, retryDelayMs: 1 }),
+        registry,
+        audit: auditLog,
+      });
+
+      await replicatedApp.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allocations: [{ beneficiary: alice, amount: aliceAmount }] }),
+      });
+
+      const body = await (await replicatedApp.request('/health')).json();
+      expect(body.pendingReplicaWrites).toBe(1);
+    });
+
+    it('reports an unreadable replica outbox instead of failing', async () => {
+      const corrupt = Object.assign(new MemoryReplicaOutbox(), {
+        list: async () => {
+          throw new Error('Replica outbox data/replica-outbox.json is corrupt');
+        },
+      });
+      const replicatedApp = createApp({
+        logging: false,
+        auth: null,
+        storage: new ReplicatedStorage(new MemoryBackend(), [new MemoryBackend()], { outbox: corrupt }),
+        ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 1, retryDelayMs: 1 }),
+        registry,
+        audit: auditLog,
+      });
+
+      const res = await replicatedApp.request('/health');
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({
+        status: 'ok',
+        outboxError: 'Replica outbox data/replica-outbox.json is corrupt',
+      });
+    });
+  });
+
+  describe('GET /health/live and /health/ready', () => {
+    it('reports liveness without checking dependencies', async () => {
+      const res = await app.request('/health/live');
+      expect(res.status).toBe(200);
+      expect((await res.json()).status).toBe('ok');
+    });
+
+    it('reports readiness per component', async () => {
+      const res = await app.request('/health/ready');
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.status).toBe('ok');
+      expect(Object.keys(body.components)).toEqual(['storage', 'ipfs', 'registry']);
+      expect(body.components.storage).toMatchObject({ status: 'up' });
+      expect(body.components.storage.latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('responds 503 when storage is down and 200 when only IPFS is', async () => {
+      const downApp = createApp({
+        logging: false,
+        auth: null,
+        storage: Object.assign(new MemoryBackend(), {
+          health: async () => ({ healthy: false, error: 'database locked' }),
+        }),
+        ipfs: createIpfsClient({ apiUrl: 'http://127.0.0.1:1', retries: 0 }),
+        registry: null,
+        audit: auditLog,
+      });
+
+      const res = await downApp.request('/health/ready');
+      expect(res.status).toBe(503);
+      expect((await res.json()).status).toBe('unavailable');
+
+      const degradedApp = createApp({
+        logging: false,
+        auth: null,
+        storage,
+        ipfs: createIpfsClient({ apiUrl: 'http://127.0.0.1:1', retries: 0 }),
+        registry: null,
+        audit: auditLog,
+      });
+
+      const degraded = await degradedApp.request('/health/ready');
+      expect(degraded.status).toBe(200);
+
+      const body = await degraded.json();
+      expect(body.status).toBe('degraded');
+      expect(body.components.ipfs.status).toBe('down');
+      expect(body.components.registry).toEqual({ status: 'disabled' });
     });
   });
 
@@ -67,6 +196,111 @@ describe('API Routes', () => {
       expect(body[0].allocationCount).toBe(2);
       expect(body[0].totalAmount).toBe('3000000000000000000000');
     });
+
+    it('returns every tree as an array unless a limit or cursor is given', async () => {
+      for (let i = 0; i < 101; i++) {
+        await storage.save(rebuildTree({ allocations: [{ beneficiary: alice, amount: String(i + 1) }] }));
+      }
+
+      const all = await (await app.request('/trees')).json();
+      expect(all).toHaveLength(101);
+
+      const sorted = await (await app.request('/trees?sortBy=totalAmount')).json();
+      expect(sorted).toHaveLength(101);
+
+      const paged = await (await app.request('/trees?limit=100')).json();
+      expect(paged.items).toHaveLength(100);
+      expect(paged.nextCursor).toBeDefined();
+    });
+
+    describe('pagination, filters and sorting', () => {
+      async function createTrees() {
+        const created = [];
+        for (const [allocations, treeToken] of [
+          [[{ beneficiary: alice, amount: aliceAmount }], token],
+          [[{ beneficiary: alice, amount: carolAmount }, { beneficiary: bob, amount: bobAmount }], undefined],
+          [[{ beneficiary: carol, amount: carolAmount }], token],
+        ] as const) {
+          const res = await app.request('/trees', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ allocations, token: treeToken }),
+          });
+          created.push(await res.json());
+        }
+        return created;
+      }
+
+      it('pages with nextCursor', async () => {
+        const created = await createTrees();
+
+        const first = await (await app.request('/trees?limit=2')).json();
+        expect(first.items).toHaveLength(2);
+        expect(first.nextCursor).toBeDefined();
+
+        const second = await (await app.request(`/trees?limit=2&cursor=${first.nextCursor}`)).json();
+        expect(second.items).toHaveLength(1);
+        expect(second.nextCursor).toBeUndefined();
+
+        const ids = [...first.items, ...second.items].map((summary: { id: string }) => summary.id);
+        expect(ids.sort()).toEqual(created.map((tree) => tree.id).sort());
+      });
+
+      it('filters by token and root', async () => {
+        const created = await createTrees();
+
+        const byToken = await (await app.request(`/trees?token=${token.toLowerCase()}`)).json();
+        expect(byToken.map((summary: { id: string }) => summary.id).sort()).toEqual(
+          [created[0].id, created[2].id].sort()
+        );
+
+        const byRoot = await (await app.request(`/trees?root=${created[1].root}`)).json();
+        expect(byRoot.map((summary: { id: string }) => summary.id)).toEqual([created[1].id]);
+      });
+
+      it('filters by creation date range', async () => {
+        await createTrees();
+
+        const future = await (await app.request('/trees?createdFrom=2999-01-01')).json();
+        expect(future).toEqual([]);
+
+        const past = await (await app.request('/trees?createdFrom=2000-01-01&createdTo=2999-01-01')).json();
+        expect(past).toHaveLength(3);
+      });
+
+      it('sorts by totalAmount and allocationCount', async () => {
+        const created = await createTrees();
+
+        const byAmount = await (await app.request('/trees?sortBy=totalAmount&order=desc')).json();
+        expect(byAmount.map((summary: { id: string }) => summary.id)).toEqual([
+          created[1].id,
+          created[0].id,
+          created[2].id,
+        ]);
+
+        const byCount = await (await app.request('/trees?sortBy=allocationCount&order=desc&limit=1')).json();
+        expect(byCount.items.map((summary: { id: string }) => summary.id)).toEqual([created[1].id]);
+      });
+
+      it('returns 400 for invalid parameters', async () => {
+        expect((await app.request('/trees?limit=0')).status).toBe(400);
+        expect((await app.request('/trees?limit=5000')).status).toBe(400);
+        expect((await app.request('/trees?sortBy=root')).status).toBe(400);
+        expect((await app.request('/trees?createdFrom=yesterday')).status).toBe(400);
+        expect((await app.request('/trees?token=0x1234')).status).toBe(400);
+        expect((await app.request('/trees?cursor=garbage')).status).toBe(400);
+      });
+
+      it('returns 400 when a cursor is reused with another sort order', async () => {
+        await createTrees();
+
+        const first = await (await app.request('/trees?limit=1')).json();
+        const res = await app.request(`/trees?limit=1&sortBy=totalAmount&cursor=${first.nextCursor}`);
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toContain('different sortBy or order');
+      });
+    });
   });
 
   describe('POST /trees', () => {
@@ -87,8 +321,96 @@ describe('API Routes', () => {
       const body = await res.json();
       expect(body.id).toBeDefined();
       expect(body.root).toMatch(/^0x[a-f0-9]{64}$/);
-      expect(body.allocations).toHaveLength(2);
+      expect(body.allocationCount).toBe(2);
+      expect(body.totalAmount).toBe((BigInt(aliceAmount) + BigInt(bobAmount)).toString());
       expect(body.createdAt).toBeDefined();
+      // Allocations and proofs are fetched separately, so a large tree is not sent back whole
+      expect(body.allocations).toBeUndefined();
+      expect(body.originalInput).toBeUndefined();
+    });
+
+    it('creates trees large enough to be built in a worker thread', async () => {
+      const allocations = Array.from({ length: 2_000 }, (_, i) => ({
+        beneficiary: `0x${(i + 1).toString(16).padStart(40, '0')}`,
+        amount: '1000',
+      }));
+
+      const res = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allocations }),
+      });
+
+      expect(res.status).toBe(201);
+      const body = await res.json();
+      expect(body.allocationCount).toBe(2_000);
+
+      const stored = await (await app.request(`/trees/${body.id}`)).json();
+      expect(stored.allocations).toHaveLength(2_000);
+      expect(stored.root).toBe(body.root);
+      expect(body.root).toBe(rebuildTree({ allocations: stored.originalInput.allocations }).root);
+    });
+
+    it('responds 503 with the tree ID when the replica write quorum is not met', async () => {
+      const primary = new MemoryBackend();
+      const offline = Object.assign(new MemoryBackend(), {
+        save: async () => {
+          throw new Error('replica offline');
+        },
+      });
+      const quorumApp = createApp({
+        logging: false,
+        auth: null,
+        storage: new ReplicatedStorage(primary, [offline], { writeQuorum: 1 }),
+        ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 1, retryDelayMs: 1 }),
+        registry,
+        audit: auditLog,
+      });
+
+      const res = await quorumApp.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allocations: [{ beneficiary: alice, amount: aliceAmount }] }),
+      });
+
+      expect(res.status).toBe(503);
+      const body = await res.json();
+      expect(body.error).toContain('Write quorum not met');
+      expect(body).toMatchObject({ appliedBackends: 1, requiredBackends: 2 });
+      expect(await primary.get(body.treeId)).not.toBeNull();
+    });
+
+    it('creates a StandardMerkleTree-compatible tree with buildSpecVersion 2.0.0', async () => {
+      const res = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [
+            { beneficiary: alice, amount: aliceAmount },
+            { beneficiary: bob, amount: bobAmount },
+          ],
+          buildSpecVersion: '2.0.0',
+        }),
+      });
+
+      expect(res.status).toBe(201);
+
+      const body = await res.json();
+      expect(body.buildSpec.version).toBe('2.0.0');
+      expect(body.buildSpec.treeFormat).toBe('standard-v1');
+    });
+
+    it('returns 400 for unsupported buildSpecVersion', async () => {
+      const res = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [{ beneficiary: alice, amount: aliceAmount }],
+          buildSpecVersion: '3.0.0',
+        }),
+      });
+
+      expect(res.status).toBe(400);
     });
 
     it('creates a tree with optional token', async () => {
@@ -121,7 +443,9 @@ describe('API Routes', () => {
 
       const body = await res.json();
       expect(body.platformFee).toEqual(platformFee);
-      expect(body.originalInput.platformFee).toEqual(platformFee);
+
+      const stored = await (await app.request(`/trees/${body.id}`)).json();
+      expect(stored.originalInput.platformFee).toEqual(platformFee);
     });
 
     it('includes leaf and proof for each allocation', async () => {
@@ -139,7 +463,8 @@ describe('API Routes', () => {
 
       expect(res.status).toBe(201);
 
-      const body = await res.json();
+      const body = await (await app.request(`/trees/${(await res.json()).id}`)).json();
+      expect(body.allocations).toHaveLength(3);
       for (const alloc of body.allocations) {
         expect(alloc.leaf).toMatch(/^0x[a-f0-9]{64}$/);
         expect(alloc.proof).toBeInstanceOf(Array);
@@ -164,7 +489,7 @@ describe('API Routes', () => {
 
       expect(res.status).toBe(201);
 
-      const body = await res.json();
+      const body = await (await app.request(`/trees/${(await res.json()).id}`)).json();
 
       // Check buildSpec
       expect(body.buildSpec).toBeDefined();
@@ -311,6 +636,92 @@ describe('API Routes', () => {
     });
   });
 
+  describe('POST /trees/csv', () => {
+    it('creates a tree from CSV rows', async () => {
+      const res = await app.request('/trees/csv', {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv' },
+        body: `beneficiary,amount\n${alice},${aliceAmount}\n${bob},${bobAmount}\n`,
+      });
+
+      expect(res.status).toBe(201);
+
+      const body = await res.json();
+      expect(body.root).toMatch(/^0x[a-f0-9]{64}$/);
+      expect(body.allocationCount).toBe(2);
+    });
+
+    it('produces the same root as the JSON endpoint', async () => {
+      const jsonRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [
+            { beneficiary: alice, amount: aliceAmount },
+            { beneficiary: bob, amount: bobAmount },
+          ],
+          token,
+        }),
+      });
+      const csvRes = await app.request(`/trees/csv?token=${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/tab-separated-values' },
+        body: `${bob}\t${bobAmount}\n${alice}\t${aliceAmount}`,
+      });
+
+      expect(csvRes.status).toBe(201);
+
+      const jsonTree = await jsonRes.json();
+      const csvTree = await csvRes.json();
+      expect(csvTree.root).toBe(jsonTree.root);
+      expect(csvTree.inputHash).toBe(jsonTree.inputHash);
+    });
+
+    it('scales decimal amounts and applies vesting and fee params', async () => {
+      const res = await app.request(
+        `/trees/csv?decimals=18&vestingStart=1000000&vestingDuration=31536000&cliffDuration=7776000` +
+          `&feeRecipient=${platformFee.feeRecipient}&feeBps=${platformFee.feeBps}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'text/csv' },
+          body: `${alice},1000\n${bob},0.5`,
+        }
+      );
+
+      expect(res.status).toBe(201);
+
+      const body = await (await app.request(`/trees/${(await res.json()).id}`)).json();
+      const amounts = body.allocations.map((a: { amount: string }) => a.amount).sort();
+      expect(amounts).toEqual([aliceAmount, '500000000000000000']);
+      expect(body.vesting).toEqual({ vestingStart: 1000000, vestingDuration: 31536000, cliffDuration: 7776000 });
+      expect(body.platformFee).toEqual(platformFee);
+    });
+
+    it('returns row-numbered errors', async () => {
+      const res = await app.request('/trees/csv', {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv' },
+        body: `beneficiary,amount\n${alice},${aliceAmount}\nnot-an-address,1\n${alice},5`,
+      });
+
+      expect(res.status).toBe(400);
+
+      const body = await res.json();
+      expect(body.error).toBe('CSV validation failed');
+      expect(body.rows.map((r: { row: number }) => r.row)).toEqual([3, 4]);
+    });
+
+    it('rejects invalid query params', async () => {
+      const res = await app.request('/trees/csv?token=0x1234', {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv' },
+        body: `${alice},${aliceAmount}`,
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
   describe('GET /trees/:id', () => {
     it('returns a tree by ID', async () => {
       // Create tree first
@@ -406,6 +817,65 @@ describe('API Routes', () => {
     });
   });
 
+  describe('POST /trees/:id/proofs', () => {
+    async function createTree() {
+      const res = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [
+            { beneficiary: alice, amount: aliceAmount },
+            { beneficiary: bob, amount: bobAmount },
+          ],
+        }),
+      });
+      return res.json();
+    }
+
+    function postProofs(id: string, addresses: unknown) {
+      return app.request(`/trees/${id}/proofs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ addresses }),
+      });
+    }
+
+    it('returns a proof per found address and lists misses', async () => {
+      const tree = await createTree();
+
+      const res = await postProofs(tree.id, [bob, carol, alice.toLowerCase()]);
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.root).toBe(tree.root);
+      expect(body.missing).toEqual([carol]);
+      expect(body.proofs.map((p: { beneficiary: Hex }) => p.beneficiary.toLowerCase())).toEqual([
+        bob.toLowerCase(),
+        alice.toLowerCase(),
+      ]);
+
+      // Each entry matches the single-address proof endpoint
+      const single = await (await app.request(`/trees/${tree.id}/proof/${alice}`)).json();
+      expect(body.proofs[1]).toEqual(single);
+    });
+
+    it('returns 400 for empty, invalid or duplicate addresses', async () => {
+      const tree = await createTree();
+
+      expect((await postProofs(tree.id, [])).status).toBe(400);
+      expect((await postProofs(tree.id, ['0x123'])).status).toBe(400);
+
+      const res = await postProofs(tree.id, [alice, alice.toLowerCase()]);
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain('Duplicate address');
+    });
+
+    it('returns 404 for non-existent tree', async () => {
+      const res = await postProofs('non-existent-id', [alice]);
+      expect(res.status).toBe(404);
+    });
+  });
+
   describe('GET /trees/:id/vesting/:address', () => {
     const ONE_DAY = 86400;
     const ONE_YEAR = 365 * ONE_DAY;
@@ -558,6 +1028,160 @@ describe('API Routes', () => {
       });
       expect(res.status).toBe(404);
     });
+
+    it('keeps a deleted tree deleted while its replica soft delete is queued', async () => {
+      const primary = new MemoryBackend();
+      const replica = Object.assign(new MemoryBackend(), {
+        softDelete: async (): Promise<boolean> => {
+          throw new Error('replica offline');
+        },
+      });
+      const replicatedApp = createApp({
+        logging: false,
+        auth: null,
+        storage: new ReplicatedStorage(primary, [replica]),
+        ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 1, retryDelayMs: 1 }),
+        registry,
+        audit: auditLog,
+      });
+      const tree = rebuildTree({ allocations: [{ beneficiary: alice, amount: aliceAmount }] });
+      await primary.save(tree);
+      await replica.save(tree);
+
+      expect((await replicatedApp.request(`/trees/${tree.id}`, { method: 'DELETE' })).status).toBe(200);
+
+      expect((await replicatedApp.request(`/trees/${tree.id}`)).status).toBe(404);
+      expect((await replicatedApp.request(`/trees/${tree.id}/restore`, { method: 'POST' })).status).toBe(200);
+      expect(await primary.get(tree.id)).toEqual(tree);
+    });
+
+    it('responds 503 and audits a delete or restore that missed the replica write quorum', async () => {
+      const primary = new MemoryBackend();
+      const replicaDown = async (): Promise<boolean> => {
+        throw new Error('replica offline');
+      };
+      const replica = Object.assign(new MemoryBackend(), { softDelete: replicaDown, restore: replicaDown });
+      const quorumApp = createApp({
+        logging: false,
+        auth: null,
+        storage: new ReplicatedStorage(primary, [replica], { writeQuorum: 1 }),
+        ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 1, retryDelayMs: 1 }),
+        registry,
+        audit: auditLog,
+      });
+      const tree = rebuildTree({ allocations: [{ beneficiary: alice, amount: aliceAmount }] });
+      await primary.save(tree);
+
+      const deleted = await quorumApp.request(`/trees/${tree.id}`, { method: 'DELETE' });
+      expect(deleted.status).toBe(503);
+      expect(await deleted.json()).toMatchObject({ treeId: tree.id, appliedBackends: 1, requiredBackends: 2 });
+      expect((await primary.listDeleted()).map((entry) => entry.id)).toEqual([tree.id]);
+
+      const restored = await quorumApp.request(`/trees/${tree.id}/restore`, { method: 'POST' });
+      expect(restored.status).toBe(503);
+      expect(await primary.get(tree.id)).not.toBeNull();
+
+      const entries = await auditLog.query({ treeId: tree.id });
+      expect(entries.map(({ action, status, root, details }) => ({ action, status, root, details }))).toEqual([
+        {
+          action: 'delete',
+          status: 503,
+          root: tree.root,
+          details: { purgeAfter: expect.any(String), appliedBackends: '1', requiredBackends: '2' },
+        },
+        { action: 'restore', status: 503, root: tree.root, details: { appliedBackends: '1', requiredBackends: '2' } },
+      ]);
+    });
+
+    it('soft-deletes with a retention period and restores', async () => {
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allocations: [{ beneficiary: alice, amount: aliceAmount }] }),
+      });
+      const created = await createRes.json();
+
+      const res = await app.request(`/trees/${created.id}`, { method: 'DELETE' });
+      const body = await res.json();
+      const retentionMs = new Date(body.purgeAfter).getTime() - new Date(body.deletedAt).getTime();
+      expect(retentionMs).toBe(30 * 24 * 60 * 60 * 1000);
+
+      const [deleted] = await storage.listDeleted();
+      expect(deleted.id).toBe(created.id);
+
+      const restoreRes = await app.request(`/trees/${created.id}/restore`, { method: 'POST' });
+      expect(restoreRes.status).toBe(200);
+
+      const getRes = await app.request(`/trees/${created.id}`);
+      expect(getRes.status).toBe(200);
+      expect((await getRes.json()).root).toBe(created.root);
+    });
+
+    it('returns 404 when restoring a tree that is not deleted', async () => {
+      const res = await app.request('/trees/non-existent-id/restore', { method: 'POST' });
+      expect(res.status).toBe(404);
+    });
+
+    it('refuses to restore over a live tree with the same ID', async () => {
+      const created = await (
+        await app.request('/trees', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ allocations: [{ beneficiary: alice, amount: aliceAmount }] }),
+        })
+      ).json();
+      const stored = (await storage.get(created.id))!;
+      await app.request(`/trees/${created.id}`, { method: 'DELETE' });
+      const replacement = { ...stored, allocations: [{ ...stored.allocations[0], amount: '1' }] };
+      await storage.save(replacement);
+
+      const res = await app.request(`/trees/${created.id}/restore`, { method: 'POST' });
+      expect(res.status).toBe(409);
+      expect((await res.json()).error).toContain('live tree with this ID exists');
+      expect((await storage.get(created.id))?.allocations[0].amount).toBe('1');
+      expect((await storage.listDeleted()).map((deleted) => deleted.id)).toEqual([created.id]);
+    });
+
+    it('refuses to delete a tree that fails to read', async () => {
+      const corruptApp = createApp({
+        logging: false,
+        auth: null,
+        storage: Object.assign(new MemoryBackend(), {
+          get: async (id: string) => {
+            throw new Error(`Integrity check failed for tree ${id}: stored content is not valid JSON`);
+          },
+        }),
+        ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 1, retryDelayMs: 1 }),
+        registry,
+        audit: auditLog,
+      });
+
+      const res = await corruptApp.request('/trees/corrupt-tree', { method: 'DELETE' });
+      expect(res.status).toBe(422);
+      expect((await res.json()).error).toBe(
+        'Tree cannot be deleted because it could not be read: Integrity check failed for tree corrupt-tree: stored content is not valid JSON'
+      );
+    });
+
+    it('refuses to delete trees whose root is registered on-chain', async () => {
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allocations: [{ beneficiary: alice, amount: aliceAmount }] }),
+      });
+      const created = await createRes.json();
+
+      const backupRes = await app.request(
+        `/trees/${created.id}/backup?register=true&chainId=1&distributor=${bob}`,
+        { method: 'POST' }
+      );
+      expect(backupRes.status).toBe(200);
+
+      const res = await app.request(`/trees/${created.id}`, { method: 'DELETE' });
+      expect(res.status).toBe(409);
+      expect((await res.json()).root).toBe(created.root);
+      expect((await app.request(`/trees/${created.id}`)).status).toBe(200);
+    });
   });
 
   describe('POST /trees/:id/rebuild', () => {
@@ -599,17 +1223,16 @@ describe('API Routes', () => {
       expect(body.error).toBe('Tree not found');
     });
 
-    it('rebuilds tree with vesting parameters', async () => {
-      const vestingStart = Math.floor(Date.now() / 1000);
-      const vestingDuration = 31536000; // 1 year
-      const cliffDuration = 7776000; // 90 days
-
+    it('rebuilds 2.0.0 trees with their stored build spec', async () => {
       const createRes = await app.request('/trees', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          allocations: [{ beneficiary: alice, amount: aliceAmount }],
-          vesting: { vestingStart, vestingDuration, cliffDuration },
+          allocations: [
+            { beneficiary: alice, amount: aliceAmount },
+            { beneficiary: bob, amount: bobAmount },
+          ],
+          buildSpecVersion: '2.0.0',
         }),
       });
       const created = await createRes.json();
@@ -623,12 +1246,365 @@ describe('API Routes', () => {
       expect(body.success).toBe(true);
       expect(body.rebuiltRoot).toBe(created.root);
     });
-  });
 
-  describe('POST /trees/rebuild-from-input', () => {
-    it('rebuilds tree from provided allocations', async () => {
-      const res = await app.request('/trees/rebuild-from-input', {
-        method: 'POST',
+    it('rebuilds tree with vesting parameters', async () => {
+      const vestingStart = Math.floor(Date.now() / 1000);
+      const vestingDuration = 31536000; // 1 year
+      const cliffDuration = 7776000; // 90 days
+
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [{ beneficiary: alice, amount: aliceAmount }],
+          vesting: { vestingStart, vestingDuration, cliffDuration },
+        }),
+      });
+      const created = await createRes.json();
+
+      const res = await app.request(`/trees/${created.id}/rebuild`, {
+        method: 'POST',
+      });
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.success).toBe(true);
+      expect(body.rebuiltRoot).toBe(created.root);
+    });
+  });
+
+  describe('tree versions', () => {
+    async function createTree() {
+      const res = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [
+            { beneficiary: alice, amount: aliceAmount },
+            { beneficiary: bob, amount: bobAmount },
+          ],
+          token,
+        }),
+      });
+      return res.json();
+    }
+
+    function postVersion(id: string, diff: unknown) {
+      return app.request(`/trees/${id}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(diff),
+      });
+    }
+
+    it('creates an amended version linked to its parent', async () => {
+      const original = await createTree();
+
+      const res = await postVersion(original.id, {
+        change: [{ beneficiary: bob, amount: carolAmount }],
+        add: [{ beneficiary: carol, amount: carolAmount }],
+      });
+      expect(res.status).toBe(201);
+
+      const version = await res.json();
+      expect(version.id).not.toBe(original.id);
+      expect(version.root).not.toBe(original.root);
+      expect(version.token).toBe(token);
+      expect(version.allocationCount).toBe(3);
+      expect(version.version.number).toBe(2);
+      expect(version.version.parentId).toBe(original.id);
+      expect(version.version.parentRoot).toBe(original.root);
+
+      // The parent is left untouched
+      const parentRes = await app.request(`/trees/${original.id}`);
+      expect((await parentRes.json()).root).toBe(original.root);
+    });
+
+    it('lists the version history with each root', async () => {
+      const original = await createTree();
+      const v2 = await (await postVersion(original.id, { remove: [bob] })).json();
+      const v3 = await (await postVersion(v2.id, { add: [{ beneficiary: carol, amount: carolAmount }] })).json();
+
+      const res = await app.request(`/trees/${v3.id}/versions`);
+      expect(res.status).toBe(200);
+
+      const versions = await res.json();
+      expect(versions.map((v: { id: string }) => v.id)).toEqual([original.id, v2.id, v3.id]);
+      expect(versions.map((v: { root: Hex }) => v.root)).toEqual([original.root, v2.root, v3.root]);
+      expect(versions.map((v: { number: number }) => v.number)).toEqual([1, 2, 3]);
+      expect(versions[1].diff).toEqual({ remove: [bob] });
+    });
+
+    it('returns 400 for diffs that do not apply', async () => {
+      const original = await createTree();
+
+      const res = await postVersion(original.id, { remove: [carol] });
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain('not in tree');
+
+      const emptyRes = await postVersion(original.id, {});
+      expect(emptyRes.status).toBe(400);
+    });
+
+    it('returns 400 for malformed diffs', async () => {
+      const original = await createTree();
+
+      const res = await postVersion(original.id, { add: [{ beneficiary: 'not-an-address', amount: '1' }] });
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toBe('Validation failed');
+    });
+
+    it('returns 404 for non-existent tree', async () => {
+      expect((await postVersion('non-existent-id', { remove: [alice] })).status).toBe(404);
+      expect((await app.request('/trees/non-existent-id/versions')).status).toBe(404);
+    });
+  });
+
+  describe('GET /trees/:id/allocations', () => {
+    async function createTree() {
+      const res = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [
+            { beneficiary: alice, amount: aliceAmount },
+            { beneficiary: bob, amount: bobAmount },
+            { beneficiary: carol, amount: carolAmount },
+          ],
+        }),
+      });
+      return (await app.request(`/trees/${(await res.json()).id}`)).json();
+    }
+
+    it('lists allocations in tree order with proofs', async () => {
+      const tree = await createTree();
+
+      const res = await app.request(`/trees/${tree.id}/allocations`);
+      expect(res.status).toBe(200);
+
+      const page = await res.json();
+      expect(page.nextCursor).toBeUndefined();
+      expect(page.items).toEqual(
+        tree.allocations.map((alloc: Record<string, unknown>, index: number) => ({ index, ...alloc }))
+      );
+    });
+
+    it('pages through allocations with a cursor', async () => {
+      const tree = await createTree();
+
+      const first = await (await app.request(`/trees/${tree.id}/allocations?limit=2`)).json();
+      expect(first.items.map((item: { index: number }) => item.index)).toEqual([0, 1]);
+      expect(first.nextCursor).toBeDefined();
+
+      const second = await (await app.request(`/trees/${tree.id}/allocations?limit=2&cursor=${first.nextCursor}`)).json();
+      expect(second.items.map((item: { index: number }) => item.index)).toEqual([2]);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('filters by beneficiary prefix and amount range', async () => {
+      const tree = await createTree();
+
+      const byPrefix = await (await app.request(`/trees/${tree.id}/allocations?beneficiaryPrefix=0xF39F`)).json();
+      expect(byPrefix.items.map((item: { beneficiary: Hex }) => item.beneficiary.toLowerCase())).toEqual([
+        alice.toLowerCase(),
+      ]);
+
+      const byAmount = await (
+        await app.request(`/trees/${tree.id}/allocations?minAmount=${aliceAmount}&maxAmount=${bobAmount}`)
+      ).json();
+      expect(byAmount.items.map((item: { amount: string }) => item.amount).sort()).toEqual([aliceAmount, bobAmount]);
+    });
+
+    it('omits proofs when includeProofs=false', async () => {
+      const tree = await createTree();
+
+      const page = await (await app.request(`/trees/${tree.id}/allocations?includeProofs=false`)).json();
+      expect(page.items).toHaveLength(3);
+      for (const item of page.items) {
+        expect(item).not.toHaveProperty('proof');
+        expect(item.leaf).toBeDefined();
+      }
+    });
+
+    it('returns 400 for invalid query parameters', async () => {
+      const tree = await createTree();
+
+      for (const query of ['beneficiaryPrefix=ab', 'minAmount=-1', 'limit=0', 'limit=1001', 'cursor=abc', 'includeProofs=no']) {
+        const res = await app.request(`/trees/${tree.id}/allocations?${query}`);
+        expect(res.status).toBe(400);
+      }
+    });
+
+    it('returns 404 for non-existent tree', async () => {
+      const res = await app.request('/trees/non-existent-id/allocations');
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /trees/:id/summary', () => {
+    it('returns metadata and totals without allocations or input', async () => {
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [
+            { beneficiary: alice, amount: aliceAmount },
+            { beneficiary: bob, amount: bobAmount },
+          ],
+          token,
+          platformFee,
+        }),
+      });
+      const tree = await createRes.json();
+
+      const res = await app.request(`/trees/${tree.id}/summary`);
+      expect(res.status).toBe(200);
+
+      const summary = await res.json();
+      expect(summary).toMatchObject({
+        id: tree.id,
+        root: tree.root,
+        token,
+        allocationCount: 2,
+        totalAmount: '3000000000000000000000',
+        inputHash: tree.inputHash,
+        platformFee,
+      });
+      expect(summary.buildSpec.version).toBe(tree.buildSpec.version);
+      expect(summary).not.toHaveProperty('allocations');
+      expect(summary).not.toHaveProperty('originalInput');
+    });
+
+    it('returns 404 for non-existent tree', async () => {
+      const res = await app.request('/trees/non-existent-id/summary');
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /trees/:id/diff/:otherId', () => {
+    async function createTree(allocations: Array<{ beneficiary: Hex; amount: string }>) {
+      const res = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allocations }),
+      });
+      return res.json();
+    }
+
+    it('returns the diff as JSON', async () => {
+      const from = await createTree([
+        { beneficiary: alice, amount: aliceAmount },
+        { beneficiary: bob, amount: bobAmount },
+      ]);
+      const to = await createTree([
+        { beneficiary: alice, amount: bobAmount },
+        { beneficiary: carol, amount: carolAmount },
+      ]);
+
+      const res = await app.request(`/trees/${from.id}/diff/${to.id}`);
+      expect(res.status).toBe(200);
+
+      const diff = await res.json();
+      expect(diff.fromRoot).toBe(from.root);
+      expect(diff.toRoot).toBe(to.root);
+      expect(diff.added.map((a: { beneficiary: Hex }) => a.beneficiary)).toEqual([carol.toLowerCase()]);
+      expect(diff.removed.map((a: { beneficiary: Hex }) => a.beneficiary)).toEqual([bob.toLowerCase()]);
+      expect(diff.changed).toEqual([
+        { beneficiary: alice.toLowerCase(), fromAmount: aliceAmount, toAmount: bobAmount, delta: aliceAmount },
+      ]);
+      expect(diff.totalDelta).toBe('-500000000000000000000');
+      expect(diff.vestingChanged).toBe(false);
+      expect(diff.platformFeeChanged).toBe(false);
+    });
+
+    it('returns the diff as CSV', async () => {
+      const from = await createTree([{ beneficiary: alice, amount: aliceAmount }]);
+      const to = await createTree([{ beneficiary: alice, amount: bobAmount }]);
+
+      const res = await app.request(`/trees/${from.id}/diff/${to.id}?format=csv`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('Content-Type')).toContain('text/csv');
+      expect(res.headers.get('Content-Disposition')).toContain('.csv');
+
+      const lines = (await res.text()).trimEnd().split('\n');
+      expect(lines).toEqual([
+        'type,beneficiary,fromAmount,toAmount,delta',
+        `changed,${alice.toLowerCase()},${aliceAmount},${bobAmount},${aliceAmount}`,
+        `total,,${aliceAmount},${bobAmount},${aliceAmount}`,
+      ]);
+    });
+
+    it('returns 400 for an unknown format', async () => {
+      const tree = await createTree([{ beneficiary: alice, amount: aliceAmount }]);
+
+      const res = await app.request(`/trees/${tree.id}/diff/${tree.id}?format=xml`);
+      expect(res.status).toBe(400);
+    });
+
+    it('returns 404 naming the missing tree', async () => {
+      const tree = await createTree([{ beneficiary: alice, amount: aliceAmount }]);
+
+      const res = await app.request(`/trees/${tree.id}/diff/non-existent-id`);
+      expect(res.status).toBe(404);
+
+      const body = await res.json();
+      expect(body.error).toBe('Tree not found');
+      expect(body.id).toBe('non-existent-id');
+    });
+  });
+
+  describe('GET /trees/:id/dump', () => {
+    it('returns a StandardMerkleTree dump for 2.0.0 trees', async () => {
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [
+            { beneficiary: alice, amount: aliceAmount },
+            { beneficiary: bob, amount: bobAmount },
+            { beneficiary: carol, amount: carolAmount },
+          ],
+          buildSpecVersion: '2.0.0',
+        }),
+      });
+      const created = await createRes.json();
+
+      const res = await app.request(`/trees/${created.id}/dump`);
+      expect(res.status).toBe(200);
+
+      const dump = await res.json();
+      expect(dump.format).toBe('standard-v1');
+      expect(dump.leafEncoding).toEqual(['address', 'uint256']);
+      expect(dump.tree[0]).toBe(created.root);
+      expect(dump.tree).toHaveLength(5);
+      expect(dump.values).toHaveLength(3);
+    });
+
+    it('returns 400 for 1.0.0 trees', async () => {
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allocations: [{ beneficiary: alice, amount: aliceAmount }] }),
+      });
+      const created = await createRes.json();
+
+      const res = await app.request(`/trees/${created.id}/dump`);
+      expect(res.status).toBe(400);
+
+      const body = await res.json();
+      expect(body.error).toContain('require build spec 2.0.0');
+    });
+
+    it('returns 404 for non-existent tree', async () => {
+      const res = await app.request('/trees/non-existent-id/dump');
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /trees/rebuild-from-input', () => {
+    it('rebuilds tree from provided allocations', async () => {
+      const res = await app.request('/trees/rebuild-from-input', {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           allocations: [
@@ -1016,94 +1992,271 @@ describe('API Routes', () => {
     });
   });
 
-  describe('POST /verify-package', () => {
-    it('verifies valid package', async () => {
-      // Create a tree and get a proof package
-      const createRes = await app.request('/trees', {
+  describe('POST /trees/:id/multiproof', () => {
+    async function createTree(buildSpecVersion?: string) {
+      const res = await app.request('/trees', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           allocations: [
             { beneficiary: alice, amount: aliceAmount },
             { beneficiary: bob, amount: bobAmount },
+            { beneficiary: carol, amount: carolAmount },
           ],
+          buildSpecVersion,
         }),
       });
-      const created = await createRes.json();
-
-      const downloadRes = await app.request(`/trees/${created.id}/download/${alice}`);
-      const pkg = await downloadRes.json();
-
-      // Verify the package
-      const res = await app.request('/verify-package', {
+      return res.json();
+    }
+
+    for (const buildSpecVersion of ['1.0.0', '2.0.0']) {
+      it(`returns a verifiable multiproof (build spec ${buildSpecVersion})`, async () => {
+        const created = await createTree(buildSpecVersion);
+
+        const res = await app.request(`/trees/${created.id}/multiproof`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ addresses: [carol, alice.toLowerCase()] }),
+        });
+        expect(res.status).toBe(200);
+
+        const body = await res.json();
+        expect(body.root).toBe(created.root);
+        expect(body.leaves).toHaveLength(2);
+        expect(body.allocations.map((alloc: { beneficiary: Hex }) => alloc.beneficiary).sort()).toEqual(
+          [alice, carol].map((address) => address.toLowerCase()).sort()
+        );
+
+        const verifyRes = await app.request('/verify-multiproof', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ root: body.root, leaves: body.leaves, proof: body.proof, proofFlags: body.proofFlags }),
+        });
+        expect(verifyRes.status).toBe(200);
+        expect((await verifyRes.json()).valid).toBe(true);
+      });
+    }
+
+    it('returns 404 listing addresses not in the tree', async () => {
+      const created = await createTree();
+      const stranger = '0x0000000000000000000000000000000000000001';
+
+      const res = await app.request(`/trees/${created.id}/multiproof`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(pkg),
+        body: JSON.stringify({ addresses: [alice, stranger] }),
       });
+      expect(res.status).toBe(404);
 
-      expect(res.status).toBe(200);
       const body = await res.json();
-      expect(body.valid).toBe(true);
+      expect(body.error).toBe('Addresses not found in tree');
+      expect(body.addresses).toEqual([stranger]);
     });
 
-    it('rejects tampered package', async () => {
-      // Create a tree and get a proof package
-      const createRes = await app.request('/trees', {
+    it('returns 400 for duplicate or missing addresses', async () => {
+      const created = await createTree();
+
+      const duplicateRes = await app.request(`/trees/${created.id}/multiproof`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          allocations: [{ beneficiary: alice, amount: aliceAmount }],
-        }),
+        body: JSON.stringify({ addresses: [alice, alice.toLowerCase()] }),
       });
-      const created = await createRes.json();
-
-      const downloadRes = await app.request(`/trees/${created.id}/download/${alice}`);
-      const pkg = await downloadRes.json();
-
-      // Tamper with the amount
-      pkg.amount = '9999999999999999999999';
+      expect(duplicateRes.status).toBe(400);
+      expect((await duplicateRes.json()).error).toContain('Duplicate address');
 
-      // Verify the tampered package
-      const res = await app.request('/verify-package', {
+      const emptyRes = await app.request(`/trees/${created.id}/multiproof`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(pkg),
+        body: JSON.stringify({ addresses: [] }),
       });
-
-      expect(res.status).toBe(200);
-      const body = await res.json();
-      expect(body.valid).toBe(false);
+      expect(emptyRes.status).toBe(400);
     });
 
-    it('returns validation errors for malformed package', async () => {
-      const malformedPkg = {
-        version: '1.0',
-        generatedAt: new Date().toISOString(),
-        // Missing required fields
-      };
+    it('returns 400 for more than 1000 addresses', async () => {
+      const created = await createTree();
+      const addresses = Array.from({ length: 1001 }, (_, i) => `0x${(i + 1).toString(16).padStart(40, '0')}`);
 
-      const res = await app.request('/verify-package', {
+      const res = await app.request(`/trees/${created.id}/multiproof`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(malformedPkg),
+        body: JSON.stringify({ addresses }),
       });
-
       expect(res.status).toBe(400);
-      const body = await res.json();
-      expect(body.valid).toBe(false);
-      expect(body.errors).toBeInstanceOf(Array);
-      expect(body.errors.length).toBeGreaterThan(0);
+      expect((await res.json()).details[0].message).toBe('Maximum 1000 addresses allowed');
     });
-  });
 
-  describe('POST /trees/:id/backup', () => {
-    it('returns backup info for existing tree', async () => {
-      // Create a tree first
-      const createRes = await app.request('/trees', {
+    it('returns 404 for non-existent tree', async () => {
+      const res = await app.request('/trees/non-existent-id/multiproof', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          allocations: [
+        body: JSON.stringify({ addresses: [alice] }),
+      });
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('POST /verify-multiproof', () => {
+    it('rejects a multiproof for another root', async () => {
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [
+            { beneficiary: alice, amount: aliceAmount },
+            { beneficiary: bob, amount: bobAmount },
+          ],
+        }),
+      });
+      const created = await createRes.json();
+
+      const multiproofRes = await app.request(`/trees/${created.id}/multiproof`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ addresses: [bob] }),
+      });
+      const multiproof = await multiproofRes.json();
+
+      const res = await app.request('/verify-multiproof', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...multiproof, root: `0x${'00'.repeat(32)}`, allocations: undefined }),
+      });
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).valid).toBe(false);
+    });
+
+    it('returns validation errors for malformed multiproofs', async () => {
+      const res = await app.request('/verify-multiproof', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ root: '0x1234', leaves: [], proof: [] }),
+      });
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.valid).toBe(false);
+      expect(body.errors.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('POST /verify-package', () => {
+    it('verifies valid package', async () => {
+      // Create a tree and get a proof package
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [
+            { beneficiary: alice, amount: aliceAmount },
+            { beneficiary: bob, amount: bobAmount },
+          ],
+        }),
+      });
+      const created = await createRes.json();
+
+      const downloadRes = await app.request(`/trees/${created.id}/download/${alice}`);
+      const pkg = await downloadRes.json();
+
+      // Verify the package
+      const res = await app.request('/verify-package', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(pkg),
+      });
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.valid).toBe(true);
+    });
+
+    it('verifies packages from 2.0.0 trees', async () => {
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [
+            { beneficiary: alice, amount: aliceAmount },
+            { beneficiary: bob, amount: bobAmount },
+          ],
+          buildSpecVersion: '2.0.0',
+        }),
+      });
+      const created = await createRes.json();
+
+      const downloadRes = await app.request(`/trees/${created.id}/download/${bob}`);
+      const pkg = await downloadRes.json();
+      expect(pkg.buildSpec.version).toBe('2.0.0');
+
+      const res = await app.request('/verify-package', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(pkg),
+      });
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.valid).toBe(true);
+    });
+
+    it('rejects tampered package', async () => {
+      // Create a tree and get a proof package
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [{ beneficiary: alice, amount: aliceAmount }],
+        }),
+      });
+      const created = await createRes.json();
+
+      const downloadRes = await app.request(`/trees/${created.id}/download/${alice}`);
+      const pkg = await downloadRes.json();
+
+      // Tamper with the amount
+      pkg.amount = '9999999999999999999999';
+
+      // Verify the tampered package
+      const res = await app.request('/verify-package', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(pkg),
+      });
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.valid).toBe(false);
+    });
+
+    it('returns validation errors for malformed package', async () => {
+      const malformedPkg = {
+        version: '1.0',
+        generatedAt: new Date().toISOString(),
+        // Missing required fields
+      };
+
+      const res = await app.request('/verify-package', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(malformedPkg),
+      });
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.valid).toBe(false);
+      expect(body.errors).toBeInstanceOf(Array);
+      expect(body.errors.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('POST /trees/:id/backup', () => {
+    it('uploads and pins the tree on IPFS', async () => {
+      // Create a tree first
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [
             { beneficiary: alice, amount: aliceAmount },
             { beneficiary: bob, amount: bobAmount },
           ],
@@ -1111,7 +2264,7 @@ describe('API Routes', () => {
         }),
       });
 
-      const tree = await createRes.json();
+      const tree = await (await app.request(`/trees/${(await createRes.json()).id}`)).json();
 
       // Request backup
       const res = await app.request(`/trees/${tree.id}/backup`, {
@@ -1122,9 +2275,49 @@ describe('API Routes', () => {
 
       const body = await res.json();
       expect(body.treeId).toBe(tree.id);
-      expect(body.contentHash).toMatch(/^0x[a-f0-9]{64}$/);
-      expect(body.size).toBeGreaterThan(0);
-      expect(body.message).toContain('IPFS');
+      expect(body.cid).toBeDefined();
+      expect(body.pinned).toBe(true);
+      expect(body.contentHash).toBe(computeContentHash(tree));
+      expect(ipfsNode.pins.has(body.cid)).toBe(true);
+
+      // Uploaded content round-trips to the stored tree
+      const uploaded = deserializeTreeFromIpfs(ipfsNode.store.get(body.cid)!);
+      expect(uploaded.root).toBe(tree.root);
+      expect(uploaded.allocations).toEqual(tree.allocations);
+    });
+
+    it('records the backup in the tree history', async () => {
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [{ beneficiary: alice, amount: aliceAmount }],
+        }),
+      });
+
+      const tree = await createRes.json();
+
+      const res = await app.request(`/trees/${tree.id}/backup`, {
+        method: 'POST',
+      });
+      const body = await res.json();
+
+      const getRes = await app.request(`/trees/${tree.id}`);
+      const stored = await getRes.json();
+      expect(stored.backups).toEqual([{
+        cid: body.cid,
+        contentHash: body.contentHash,
+        backedUpAt: body.backedUpAt,
+        pinned: true,
+      }]);
+
+      // A second backup appends to the history with the same content
+      const secondRes = await app.request(`/trees/${tree.id}/backup`, { method: 'POST' });
+      const second = await secondRes.json();
+      expect(second.contentHash).toBe(body.contentHash);
+
+      const updated = await (await app.request(`/trees/${tree.id}`)).json();
+      expect(updated.backups).toHaveLength(2);
     });
 
     it('includes contentHash and size', async () => {
@@ -1145,11 +2338,176 @@ describe('API Routes', () => {
       expect(res.status).toBe(200);
 
       const body = await res.json();
-      expect(body.contentHash).toBeDefined();
+      expect(body.contentHash).toMatch(/^0x[a-f0-9]{64}$/);
       expect(body.size).toBeDefined();
       expect(typeof body.size).toBe('number');
     });
 
+    it('returns 502 when the IPFS node fails', async () => {
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [{ beneficiary: alice, amount: aliceAmount }],
+        }),
+      });
+
+      const tree = await createRes.json();
+      ipfsNode.failNext(2);
+
+      const res = await app.request(`/trees/${tree.id}/backup`, {
+        method: 'POST',
+      });
+
+      expect(res.status).toBe(502);
+      const body = await res.json();
+      expect(body.error).toContain('IPFS upload failed');
+    });
+
+    describe('with register=true', () => {
+      const distributor = '0x5FbDB2315678afecb367f032d93F642f64180aa3' as Hex;
+
+      async function createTree() {
+        const createRes = await app.request('/trees', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            allocations: [{ beneficiary: alice, amount: aliceAmount }],
+          }),
+        });
+        return createRes.json();
+      }
+
+      it('registers the CID on-chain and records the transaction', async () => {
+        const tree = await createTree();
+
+        const res = await app.request(`/trees/${tree.id}/backup?register=true&chainId=1&distributor=${distributor}`, {
+          method: 'POST',
+        });
+
+        expect(res.status).toBe(200);
+        const body = await res.json();
+        expect(body.registryTxHash).toMatch(/^0x[a-f0-9]{64}$/);
+
+        const entry = await registry.lookup({ chainId: 1, distributorAddress: distributor, merkleRoot: tree.root });
+        expect(entry?.ipfsCid).toBe(body.cid);
+
+        const stored = await (await app.request(`/trees/${tree.id}`)).json();
+        expect(stored.backups[0].registryTxHash).toBe(body.registryTxHash);
+
+        const recovery = await (await app.request(`/trees/${tree.id}/recovery`)).json();
+        expect(recovery.sources).toEqual(['local', 'ipfs', 'registry']);
+      });
+
+      it('requires chainId and distributor', async () => {
+        const tree = await createTree();
+
+        const res = await app.request(`/trees/${tree.id}/backup?register=true&chainId=1`, {
+          method: 'POST',
+        });
+
+        expect(res.status).toBe(400);
+        const body = await res.json();
+        expect(body.details[0].message).toContain('chainId and distributor are required');
+        expect(ipfsNode.store.size).toBe(0);
+      });
+
+      it('returns 502 but keeps the IPFS backup when registration fails', async () => {
+        const tree = await createTree();
+        registry.failNextRegister('Registry register failed: InvalidAuthorization');
+
+        const res = await app.request(`/trees/${tree.id}/backup?register=true&chainId=1&distributor=${distributor}`, {
+          method: 'POST',
+        });
+
+        expect(res.status).toBe(502);
+        const body = await res.json();
+        expect(body.error).toBe('Registry registration failed: Registry register failed: InvalidAuthorization');
+        expect(body.cid).toBeDefined();
+        expect(body.registryTxHash).toBeUndefined();
+
+        const stored = await (await app.request(`/trees/${tree.id}`)).json();
+        expect(stored.backups).toHaveLength(1);
+        expect(stored.backups[0].registryTxHash).toBeUndefined();
+      });
+
+      it('returns 503 when no registry is configured', async () => {
+        const unregisteredApp = createApp({
+          logging: false,
+          auth: null,
+          storage,
+          ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 0 }),
+          registry: null,
+          audit: auditLog,
+        });
+        const tree = await createTree();
+
+        const res = await unregisteredApp.request(
+          `/trees/${tree.id}/backup?register=true&chainId=1&distributor=${distributor}`,
+          { method: 'POST' }
+        );
+
+        expect(res.status).toBe(503);
+        const body = await res.json();
+        expect(body.error).toBe('Registry not configured');
+      });
+    });
+
+    it('returns the backup with a warning when it cannot be recorded on the tree', async () => {
+      const backend = new MemoryBackend();
+      const backupApp = createApp({
+        logging: false,
+        auth: null,
+        storage: backend,
+        ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 1, retryDelayMs: 1 }),
+        registry,
+        audit: auditLog,
+      });
+      const tree = await (
+        await backupApp.request('/trees', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ allocations: [{ beneficiary: alice, amount: aliceAmount }] }),
+        })
+      ).json();
+      backend.save = async () => {
+        throw new Error('disk full');
+      };
+
+      const res = await backupApp.request(`/trees/${tree.id}/backup`, { method: 'POST' });
+
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(ipfsNode.pins.has(body.cid)).toBe(true);
+      expect(body.warning).toBe('Backup could not be recorded on the tree: disk full');
+    });
+
+    it('responds 503 with the backup when recording it misses the replica write quorum', async () => {
+      const primary = new MemoryBackend();
+      const replica = Object.assign(new MemoryBackend(), {
+        save: async () => {
+          throw new Error('replica offline');
+        },
+      });
+      const backupApp = createApp({
+        logging: false,
+        auth: null,
+        storage: new ReplicatedStorage(primary, [replica], { writeQuorum: 1 }),
+        ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 1, retryDelayMs: 1 }),
+        registry,
+        audit: auditLog,
+      });
+      const tree = rebuildTree({ allocations: [{ beneficiary: alice, amount: aliceAmount }] });
+      await primary.save(tree);
+
+      const res = await backupApp.request(`/trees/${tree.id}/backup`, { method: 'POST' });
+
+      expect(res.status).toBe(503);
+      const body = await res.json();
+      expect(body).toMatchObject({ treeId: tree.id, appliedBackends: 1, requiredBackends: 2 });
+      expect((await primary.get(tree.id))?.backups?.map((backup) => backup.cid)).toEqual([body.cid]);
+    });
+
     it('returns 404 for non-existent tree', async () => {
       const res = await app.request('/trees/non-existent-id/backup', {
         method: 'POST',
@@ -1182,6 +2540,33 @@ describe('API Routes', () => {
       expect(body.available).toBe(true);
       expect(body.root).toBe(tree.root);
       expect(body.inputHash).toBe(tree.inputHash);
+      expect(body.backedUp).toBe(false);
+      expect(body.sources).toEqual(['local']);
+      expect(body.backups).toEqual([]);
+    });
+
+    it('includes the backup history once backed up', async () => {
+      const createRes = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: [{ beneficiary: alice, amount: aliceAmount }],
+        }),
+      });
+      const tree = await createRes.json();
+
+      const backupRes = await app.request(`/trees/${tree.id}/backup`, { method: 'POST' });
+      const backup = await backupRes.json();
+
+      const res = await app.request(`/trees/${tree.id}/recovery`);
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.backedUp).toBe(true);
+      expect(body.sources).toEqual(['local', 'ipfs']);
+      expect(body.contentHash).toBe(backup.contentHash);
+      expect(body.latestBackup.cid).toBe(backup.cid);
+      expect(body.backups).toHaveLength(1);
     });
 
     it('returns 404 with recovery hints when tree missing', async () => {
@@ -1236,21 +2621,559 @@ describe('API Routes', () => {
       expect(res.status).toBe(400);
     });
 
-    it('returns error for CID recovery without IPFS', async () => {
+    it('returns error when neither input nor cid is provided', async () => {
       const res = await app.request('/trees/recover', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          cid: 'QmTest123',
-        }),
+        body: JSON.stringify({}),
       });
 
       expect(res.status).toBe(400);
 
       const body = await res.json();
-      expect(body.error).toContain('IPFS');
       expect(body.hint).toContain('input.allocations');
     });
+
+    describe('from IPFS CID', () => {
+      async function createAndBackUp(): Promise<{ tree: MerkleTree; cid: string }> {
+        const createRes = await app.request('/trees', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            allocations: [
+              { beneficiary: alice, amount: aliceAmount },
+              { beneficiary: bob, amount: bobAmount },
+            ],
+            token,
+          }),
+        });
+        const { id } = await createRes.json();
+
+        const backupRes = await app.request(`/trees/${id}/backup`, { method: 'POST' });
+        const { cid } = await backupRes.json();
+
+        return { tree: (await storage.get(id))!, cid };
+      }
+
+      it('downloads and verifies the tree', async () => {
+        const { tree, cid } = await createAndBackUp();
+
+        const res = await app.request('/trees/recover', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cid }),
+        });
+
+        expect(res.status).toBe(200);
+
+        const body = await res.json();
+        expect(body.success).toBe(true);
+        expect(body.source).toBe('ipfs');
+        expect(body.cid).toBe(cid);
+        expect(body.saved).toBe(false);
+        expect(body.tree.id).toBe(tree.id);
+        expect(body.tree.root).toBe(tree.root);
+      });
+
+      it('saves the recovered tree back into storage', async () => {
+        const { tree, cid } = await createAndBackUp();
+        // Lose the local copy outright
+        await storage.delete(tree.id);
+
+        const res = await app.request('/trees/recover', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cid, save: true }),
+        });
+
+        expect(res.status).toBe(200);
+        expect((await res.json()).saved).toBe(true);
+
+        const getRes = await app.request(`/trees/${tree.id}`);
+        expect(getRes.status).toBe(200);
+
+        const stored = await getRes.json();
+        expect(stored.root).toBe(tree.root);
+        expect(stored.backups).toHaveLength(1);
+        expect(stored.backups[0].cid).toBe(cid);
+      });
+
+      it('refuses to save over a tree in the trash', async () => {
+        const { tree, cid } = await createAndBackUp();
+        await app.request(`/trees/${tree.id}`, { method: 'DELETE' });
+
+        const res = await app.request('/trees/recover', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cid, save: true }),
+        });
+
+        expect(res.status).toBe(409);
+        expect((await res.json()).error).toContain(`POST /trees/${tree.id}/restore`);
+        expect(await storage.get(tree.id)).toBeNull();
+        expect((await storage.listDeleted()).map((deleted) => deleted.id)).toEqual([tree.id]);
+      });
+
+      it('rejects a tree that does not match its stored input', async () => {
+        const { tree, cid } = await createAndBackUp();
+        const tampered = JSON.parse(ipfsNode.store.get(cid)!);
+        tampered.originalInput.allocations[0].amount = '1';
+        ipfsNode.store.set(cid, JSON.stringify(tampered));
+
+        const res = await app.request('/trees/recover', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cid, save: true }),
+        });
+
+        expect(res.status).toBe(422);
+
+        const body = await res.json();
+        expect(body.root).toBe(tree.root);
+        expect(body.rebuiltRoot).not.toBe(tree.root);
+      });
+
+      it('returns 502 when the CID cannot be downloaded', async () => {
+        const res = await app.request('/trees/recover', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cid: 'bafkmissing' }),
+        });
+
+        expect(res.status).toBe(502);
+
+        const body = await res.json();
+        expect(body.error).toContain('IPFS download failed');
+      });
+
+      it('validates the cid', async () => {
+        const res = await app.request('/trees/recover', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cid: '' }),
+        });
+
+        expect(res.status).toBe(400);
+      });
+    });
+
+    describe('from the on-chain registry', () => {
+      const distributor = '0x5FbDB2315678afecb367f032d93F642f64180aa3' as Hex;
+
+      async function createAndRegister(allocations = [{ beneficiary: alice, amount: aliceAmount }]) {
+        const createRes = await app.request('/trees', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ allocations, token }),
+        });
+        const tree = await createRes.json();
+
+        const backupRes = await app.request(`/trees/${tree.id}/backup?register=true&chainId=1&distributor=${distributor}`, {
+          method: 'POST',
+        });
+        const { cid } = await backupRes.json();
+
+        return { tree, cid };
+      }
+
+      function recoverFromRegistry(body: Record<string, unknown>) {
+        return app.request('/trees/recover', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+      }
+
+      it('resolves the CID via the registry and saves the tree', async () => {
+        const { tree, cid } = await createAndRegister();
+        await app.request(`/trees/${tree.id}`, { method: 'DELETE' });
+
+        const downloadsBefore = ipfsNode.requests.filter((path) => path === '/api/v0/cat').length;
+        const res = await recoverFromRegistry({ chainId: 1, distributor, merkleRoot: tree.root, save: true });
+
+        expect(res.status).toBe(200);
+        // The tree is checked against the registered root and rebuilt from one download
+        expect(ipfsNode.requests.filter((path) => path === '/api/v0/cat').length - downloadsBefore).toBe(1);
+
+        const body = await res.json();
+        expect(body.success).toBe(true);
+        expect(body.source).toBe('registry');
+        expect(body.cid).toBe(cid);
+        expect(body.saved).toBe(true);
+        expect(body.tree.root).toBe(tree.root);
+
+        const stored = await (await app.request(`/trees/${tree.id}`)).json();
+        expect(stored.root).toBe(tree.root);
+      });
+
+      it('rejects content whose root differs from the registered root', async () => {
+        const { tree } = await createAndRegister();
+        const { cid: otherCid } = await createAndRegister([{ beneficiary: bob, amount: bobAmount }]);
+
+        // Point the registered entry at a different tree's content
+        const key = { chainId: 1, distributorAddress: distributor, merkleRoot: tree.root as Hex };
+        const entry = (await registry.lookup(key))!;
+        registry.entries.set(createRegistryKey(key), { ...entry, ipfsCid: otherCid });
+
+        const res = await recoverFromRegistry({ chainId: 1, distributor, merkleRoot: tree.root, save: true });
+
+        expect(res.status).toBe(422);
+
+        const body = await res.json();
+        expect(body.cid).toBe(otherCid);
+        expect(body.error).toContain('does not match the registered merkle root');
+      });
+
+      it('returns 404 when the key is not registered', async () => {
+        const res = await recoverFromRegistry({ chainId: 1, distributor, merkleRoot: `0x${'ab'.repeat(32)}` });
+
+        expect(res.status).toBe(404);
+
+        const body = await res.json();
+        expect(body.key).toBe(`1:${distributor.toLowerCase()}:0x${'ab'.repeat(32)}`);
+      });
+
+      it('validates the registry key', async () => {
+        const res = await recoverFromRegistry({ chainId: 1, distributor, merkleRoot: '0x1234' });
+
+        expect(res.status).toBe(400);
+      });
+
+      it('returns 503 when no registry is configured', async () => {
+        const unregisteredApp = createApp({
+          logging: false,
+          auth: null,
+          storage,
+          ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 0 }),
+          registry: null,
+          audit: auditLog,
+        });
+
+        const res = await unregisteredApp.request('/trees/recover', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ chainId: 1, distributor, merkleRoot: `0x${'ab'.repeat(32)}` }),
+        });
+
+        expect(res.status).toBe(503);
+      });
+    });
+  });
+
+  describe('GET /beneficiaries/:address', () => {
+    async function createTree(body: Record<string, unknown>) {
+      const res = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      return res.json();
+    }
+
+    it('lists every tree containing the address with amounts and vesting progress', async () => {
+      const plain = await createTree({
+        allocations: [
+          { beneficiary: alice, amount: aliceAmount },
+          { beneficiary: bob, amount: bobAmount },
+        ],
+        token,
+      });
+      const vested = await createTree({
+        allocations: [{ beneficiary: alice.toLowerCase(), amount: carolAmount }],
+        vesting: { vestingStart: 1000, vestingDuration: 1000, cliffDuration: 0 },
+      });
+      await createTree({ allocations: [{ beneficiary: bob, amount: bobAmount }] });
+
+      const res = await app.request(`/beneficiaries/${alice}`);
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.beneficiary).toBe(alice);
+      expect(body.trees.map((t: { id: string }) => t.id).sort()).toEqual([plain.id, vested.id].sort());
+
+      const plainEntry = body.trees.find((t: { id: string }) => t.id === plain.id);
+      expect(plainEntry).toEqual({ id: plain.id, root: plain.root, token, createdAt: plain.createdAt, amount: aliceAmount });
+
+      const vestedEntry = body.trees.find((t: { id: string }) => t.id === vested.id);
+      expect(vestedEntry.amount).toBe(carolAmount);
+      expect(vestedEntry.vesting).toMatchObject({
+        vestingStart: 1000,
+        vestingEnd: 2000,
+        vestedAmount: carolAmount,
+        unvestedAmount: '0',
+        fullyVested: true,
+      });
+    });
+
+    it('stops listing deleted trees', async () => {
+      const tree = await createTree({ allocations: [{ beneficiary: carol, amount: carolAmount }] });
+      await app.request(`/trees/${tree.id}`, { method: 'DELETE' });
+
+      const body = await (await app.request(`/beneficiaries/${carol}`)).json();
+      expect(body.trees).toEqual([]);
+    });
+
+    it('returns 400 for an invalid address', async () => {
+      const res = await app.request('/beneficiaries/not-an-address');
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('audit log', () => {
+    async function createTree() {
+      const res = await app.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allocations: [{ beneficiary: alice, amount: aliceAmount }] }),
+      });
+      return res.json();
+    }
+
+    it('records create, backup and delete for a tree in order', async () => {
+      const tree = await createTree();
+      await app.request(`/trees/${tree.id}/backup`, { method: 'POST' });
+      await app.request(`/trees/${tree.id}`, { method: 'DELETE' });
+
+      const res = await app.request(`/trees/${tree.id}/audit`);
+      expect(res.status).toBe(200);
+
+      const { items } = await res.json();
+      expect(items.map((entry: { action: string }) => entry.action)).toEqual(['create', 'backup', 'delete']);
+      expect(items[0]).toMatchObject({
+        actor: 'anonymous',
+        treeId: tree.id,
+        root: tree.root,
+        inputHash: tree.inputHash,
+        result: 'success',
+        status: 201,
+      });
+      expect(items[1].details.cid).toBeDefined();
+      expect(items[1].prevHash).toBe(items[0].hash);
+    });
+
+    it('records failed operations', async () => {
+      await app.request('/trees/missing-tree/rebuild', { method: 'POST' });
+
+      const { items } = await (await app.request('/trees/missing-tree/audit?action=rebuild')).json();
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ action: 'rebuild', treeId: 'missing-tree', result: 'failure', status: 404 });
+    });
+
+    it('links versions to their parent', async () => {
+      const parent = await createTree();
+      const res = await app.request(`/trees/${parent.id}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ add: [{ beneficiary: bob, amount: bobAmount }] }),
+      });
+      const version = await res.json();
+
+      const { items } = await (await app.request(`/trees/${version.id}/audit`)).json();
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ action: 'create-version', root: version.root, details: { parentId: parent.id } });
+    });
+
+    it('does not record reads', async () => {
+      const tree = await createTree();
+      await app.request(`/trees/${tree.id}`);
+      await app.request(`/trees/${tree.id}/proof/${alice}`);
+
+      const { items } = await (await app.request(`/trees/${tree.id}/audit`)).json();
+      expect(items).toHaveLength(1);
+    });
+
+    it('lists and pages the whole log via GET /audit', async () => {
+      const tree = await createTree();
+      await app.request(`/trees/${tree.id}/rebuild`, { method: 'POST' });
+      await app.request(`/trees/${tree.id}/rebuild`, { method: 'POST' });
+
+      const first = await (await app.request(`/audit?treeId=${tree.id}&limit=2`)).json();
+      expect(first.items.map((entry: { action: string }) => entry.action)).toEqual(['create', 'rebuild']);
+      expect(first.nextCursor).toBeDefined();
+
+      const second = await (await app.request(`/audit?treeId=${tree.id}&limit=2&cursor=${first.nextCursor}`)).json();
+      expect(second.items.map((entry: { action: string }) => entry.action)).toEqual(['rebuild']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('rejects invalid filters', async () => {
+      expect((await app.request('/audit?action=read')).status).toBe(400);
+      expect((await app.request('/audit?cursor=abc')).status).toBe(400);
+      expect((await app.request('/trees/some-id/audit?limit=0')).status).toBe(400);
+    });
+
+    it('verifies the hash chain', async () => {
+      await createTree();
+
+      const res = await app.request('/audit/verify');
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.valid).toBe(true);
+      expect(body.entries).toBeGreaterThan(0);
+    });
+  });
+
+  describe('storage admin', () => {
+    it('refuses to reconcile storage without replicas', async () => {
+      const res = await app.request('/admin/storage/reconcile', { method: 'POST' });
+      expect(res.status).toBe(409);
+      expect((await res.json()).error).toBe('Storage has no replicas to reconcile');
+
+      const status = await (await app.request('/admin/storage/status')).json();
+      expect(status).toEqual({ replicated: false, running: false, intervalMs: null, lastRun: null });
+    });
+
+    it('reconciles replicas and reports the last run', async () => {
+      const primary = new MemoryBackend();
+      const replica = new MemoryBackend();
+      const replicatedApp = createApp({
+        logging: false,
+        auth: null,
+        storage: new ReplicatedStorage(primary, [replica]),
+        ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 1, retryDelayMs: 1 }),
+        registry,
+        audit: auditLog,
+      });
+
+      const created = await replicatedApp.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allocations: [{ beneficiary: alice, amount: aliceAmount }] }),
+      });
+      const tree = await created.json();
+      await replica.delete(tree.id);
+
+      const res = await replicatedApp.request('/admin/storage/reconcile', { method: 'POST' });
+      expect(res.status).toBe(200);
+
+      const run = await res.json();
+      expect(run.synced).toBe(1);
+      expect(run.backends[1]).toMatchObject({ role: 'replica', missing: [tree.id], repaired: [tree.id] });
+      expect(await replica.get(tree.id)).not.toBeNull();
+
+      const [entry] = await auditLog.query({ treeId: tree.id, action: 'reconcile' });
+      expect(entry).toMatchObject({ actor: 'anonymous', result: 'success', details: { backends: 'memory' } });
+
+      const status = await (await replicatedApp.request('/admin/storage/status')).json();
+      expect(status).toMatchObject({ replicated: true, running: false, lastRun: run });
+    });
+  });
+
+  describe('authentication', () => {
+    const keys = {
+      reader: 'reader-key-0123456789',
+      issuer: 'issuer-key-0123456789',
+      admin: 'admin-key-0123456789',
+    };
+    const securedApp = createApp({
+      logging: false,
+      storage,
+      ipfs: createIpfsClient({ apiUrl: ipfsNode.url, retries: 1, retryDelayMs: 1 }),
+      registry,
+      audit: auditLog,
+      auth: createAuthenticator({
+        keys: Object.entries(keys).map(([role, key]) => ({ name: role, role: role as Role, key })),
+      }),
+    });
+
+    function createTree(headers: Record<string, string>) {
+      return securedApp.request('/trees', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ allocations: [{ beneficiary: alice, amount: aliceAmount }] }),
+      });
+    }
+
+    it('rejects mutating requests without a key', async () => {
+      const res = await createTree({});
+      expect(res.status).toBe(401);
+      expect(res.headers.get('WWW-Authenticate')).toContain('Bearer');
+      expect((await res.json()).error).toBe('Authentication required');
+    });
+
+    it('rejects unknown keys', async () => {
+      const res = await createTree({ Authorization: 'Bearer not-a-real-key' });
+      expect(res.status).toBe(401);
+      expect((await res.json()).error).toBe('Invalid API key');
+    });
+
+    it('rejects keys whose role is too low', async () => {
+      const res = await createTree({ Authorization: `Bearer ${keys.reader}` });
+      expect(res.status).toBe(403);
+      expect((await res.json()).error).toContain('issuer');
+    });
+
+    it('accepts bearer tokens and X-API-Key headers with a sufficient role', async () => {
+      expect((await createTree({ Authorization: `Bearer ${keys.issuer}` })).status).toBe(201);
+      expect((await createTree({ 'X-API-Key': keys.admin })).status).toBe(201);
+    });
+
+    it('keeps proof and vesting reads public', async () => {
+      const tree = await (await createTree({ 'X-API-Key': keys.issuer })).json();
+
+      expect((await securedApp.request(`/trees/${tree.id}/proof/${alice}`)).status).toBe(200);
+      expect((await securedApp.request(`/trees/${tree.id}/download/${alice}`)).status).toBe(200);
+      expect((await securedApp.request(`/beneficiaries/${alice}`)).status).toBe(200);
+      expect((await securedApp.request('/health')).status).toBe(200);
+      expect((await securedApp.request('/health/live')).status).toBe(200);
+      expect((await securedApp.request('/health/ready')).status).toBe(200);
+    });
+
+    it('requires reader for tree-wide reads and admin for deletion', async () => {
+      const tree = await (await createTree({ 'X-API-Key': keys.issuer })).json();
+
+      expect((await securedApp.request('/trees')).status).toBe(401);
+      expect((await securedApp.request(`/trees/${tree.id}`, { headers: { 'X-API-Key': keys.reader } })).status).toBe(200);
+      expect((await securedApp.request(`/trees/${tree.id}/summary`)).status).toBe(401);
+      expect(
+        (await securedApp.request(`/trees/${tree.id}/summary`, { headers: { 'X-API-Key': keys.reader } })).status
+      ).toBe(200);
+
+      const multiproof = (headers: Record<string, string>) =>
+        securedApp.request(`/trees/${tree.id}/multiproof`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({ addresses: [alice] }),
+        });
+      expect((await multiproof({})).status).toBe(401);
+      expect((await multiproof({ 'X-API-Key': keys.reader })).status).toBe(200);
+
+      const asIssuer = await securedApp.request(`/trees/${tree.id}`, {
+        method: 'DELETE',
+        headers: { 'X-API-Key': keys.issuer },
+      });
+      expect(asIssuer.status).toBe(403);
+
+      const asAdmin = await securedApp.request(`/trees/${tree.id}`, {
+        method: 'DELETE',
+        headers: { 'X-API-Key': keys.admin },
+      });
+      expect(asAdmin.status).toBe(200);
+    });
+
+    it('records the key name as the audit actor and keeps it from readers', async () => {
+      const tree = await (await createTree({ 'X-API-Key': keys.issuer })).json();
+
+      expect((await securedApp.request('/audit', { headers: { 'X-API-Key': keys.issuer } })).status).toBe(403);
+
+      const treeAudit = (key: string) =>
+        securedApp.request(`/trees/${tree.id}/audit`, { headers: { 'X-API-Key': key } });
+      expect((await treeAudit(keys.reader)).status).toBe(403);
+      expect((await (await treeAudit(keys.issuer)).json()).items[0].actor).toBe('issuer');
+
+      const res = await securedApp.request(`/audit?treeId=${tree.id}`, { headers: { 'X-API-Key': keys.admin } });
+      expect(res.status).toBe(200);
+      expect((await res.json()).items[0].actor).toBe('issuer');
+    });
+
+    it('restricts storage admin routes to admins', async () => {
+      const asIssuer = await securedApp.request('/admin/storage/status', { headers: { 'X-API-Key': keys.issuer } });
+      expect(asIssuer.status).toBe(403);
+
+      const asAdmin = await securedApp.request('/admin/storage/status', { headers: { 'X-API-Key': keys.admin } });
+      expect(asAdmin.status).toBe(200);
+    });
   });
 
   describe('404 handling', () => {
@@ -1,14 +1,35 @@
-import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
-import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { describe, expect, test, beforeEach, afterEach, afterAll, spyOn } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import type { MerkleTree } from '../src/types';
+import { keccak256, toBytes } from 'viem';
+import type { AllocationListQuery, MerkleTree, StorageBackend, Tombstone, TreeListQuery } from '../src/types';
 import { FilesystemBackend } from '../src/services/storage/filesystem';
 import { MemoryBackend } from '../src/services/storage/memory';
 import { ReplicatedStorage } from '../src/services/storage/replicated';
+import { FileReplicaOutbox, getRetryDelayMs, MemoryReplicaOutbox } from '../src/services/storage/outbox';
+import { SqliteBackend } from '../src/services/storage/sqlite';
+import {
+  findAllocation,
+  findAllocations,
+  findTreesByBeneficiary,
+  getBeneficiaryIndex,
+  getDeletedTree,
+  getTreeOverview,
+  listAllocations,
+} from '../src/services/storage/lookup';
+import { listTreePage } from '../src/services/storage/query';
+import { S3Backend } from '../src/services/storage/s3';
+import { summarizeTree } from '../src/services/storage/summary';
+import { startFakeS3Server } from './helpers/fakeS3';
+import { rebuildTree } from '../src/services/rebuild';
 
 // Test data
 const TEST_DATA_DIR = join(import.meta.dir, '../data/test-storage');
 
+// Fixtures use placeholder leaves and roots; integrity verification has its own tests
+const unverified = { verifyIntegrity: false };
+
 function createTestTree(id: string): MerkleTree {
   return {
     id,
@@ -62,7 +83,7 @@ describe('Storage Backends', () => {
       // Clean up test directory
       await rm(TEST_DATA_DIR, { recursive: true, force: true });
       await mkdir(TEST_DATA_DIR, { recursive: true });
-      backend = new FilesystemBackend(TEST_DATA_DIR);
+      backend = new FilesystemBackend(TEST_DATA_DIR, unverified);
     });
 
     afterEach(async () => {
@@ -214,6 +235,881 @@ describe('Storage Backends', () => {
     });
   });
 
+  describe('SqliteBackend', () => {
+    let backend: SqliteBackend;
+
+    beforeEach(() => {
+      backend = new SqliteBackend(':memory:', unverified);
+    });
+
+    afterEach(() => {
+      backend.close();
+    });
+
+    test('saves and retrieves a tree', async () => {
+      const tree: MerkleTree = {
+        ...createTestTree('sqlite-tree-1'),
+        backups: [{ cid: 'bafktest', contentHash: '0x1234', backedUpAt: new Date().toISOString(), pinned: true }],
+      };
+      await backend.save(tree);
+
+      const retrieved = await backend.get('sqlite-tree-1');
+      expect(retrieved).toEqual(tree);
+    });
+
+    test('preserves allocation order', async () => {
+      const tree = createTestTree('sqlite-order');
+      await backend.save(tree);
+
+      const retrieved = await backend.get('sqlite-order');
+      expect(retrieved?.allocations.map((a) => a.beneficiary)).toEqual(
+        tree.allocations.map((a) => a.beneficiary)
+      );
+    });
+
+    test('replaces an existing tree on save', async () => {
+      const tree = createTestTree('sqlite-replace');
+      await backend.save(tree);
+      await backend.save({ ...tree, root: '0xabcdef', allocations: tree.allocations.slice(0, 1) });
+
+      const retrieved = await backend.get('sqlite-replace');
+      expect(retrieved?.root).toBe('0xabcdef');
+      expect(retrieved?.allocations.length).toBe(1);
+    });
+
+    test('returns null for non-existent tree', async () => {
+      const result = await backend.get('non-existent');
+      expect(result).toBeNull();
+    });
+
+    test('deletes a tree and its allocations', async () => {
+      const tree = createTestTree('sqlite-tree-2');
+      await backend.save(tree);
+
+      const deleted = await backend.delete('sqlite-tree-2');
+      expect(deleted).toBe(true);
+      expect(await backend.get('sqlite-tree-2')).toBeNull();
+      expect(await backend.findAllocation('sqlite-tree-2', tree.allocations[0].beneficiary)).toBeNull();
+    });
+
+    test('delete returns false for non-existent tree', async () => {
+      const deleted = await backend.delete('non-existent');
+      expect(deleted).toBe(false);
+    });
+
+    test('lists summaries from indexed columns', async () => {
+      await backend.save(createTestTree('sqlite-list-1'));
+      await backend.save(createTestTree('sqlite-list-2'));
+
+      const summaries = await backend.list();
+      expect(summaries.length).toBe(2);
+      expect(summaries.map((s) => s.id)).toContain('sqlite-list-1');
+      expect(summaries.map((s) => s.id)).toContain('sqlite-list-2');
+      expect(summaries[0].allocationCount).toBe(2);
+      expect(summaries[0].totalAmount).toBe('3000000');
+      expect(summaries[0].token).toBe('0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48');
+    });
+
+    test('finds a single allocation case-insensitively', async () => {
+      const tree = createTestTree('sqlite-find');
+      await backend.save(tree);
+
+      const result = await backend.findAllocation(
+        'sqlite-find',
+        '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc'
+      );
+      expect(result?.tree.root).toBe(tree.root);
+      expect(result?.tree).not.toHaveProperty('allocations');
+      expect(result?.allocation).toEqual(tree.allocations[1]);
+    });
+
+    test('findAllocation distinguishes missing tree from missing beneficiary', async () => {
+      await backend.save(createTestTree('sqlite-miss'));
+
+      expect(await backend.findAllocation('nope', '0x0000000000000000000000000000000000000001')).toBeNull();
+
+      const result = await backend.findAllocation('sqlite-miss', '0x0000000000000000000000000000000000000001');
+      expect(result?.allocation).toBeNull();
+    });
+
+    test('persists to a database file', async () => {
+      const path = join(TEST_DATA_DIR, 'trees.sqlite');
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+
+      const first = new SqliteBackend(path, unverified);
+      await first.save(createTestTree('sqlite-file'));
+      first.close();
+
+      const second = new SqliteBackend(path, unverified);
+      expect((await second.get('sqlite-file'))?.id).toBe('sqlite-file');
+      second.close();
+
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+    });
+
+    test('adds the lowercase lookup columns to an older database', async () => {
+      const path = join(TEST_DATA_DIR, 'trees.sqlite');
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+      const tree = createTestTree('sqlite-old');
+
+      const first = new SqliteBackend(path, unverified);
+      await first.save(tree);
+      first.close();
+      const db = new Database(path);
+      db.exec(`
+        DROP INDEX trees_root_key;
+        DROP INDEX trees_token_key;
+        ALTER TABLE trees DROP COLUMN root_key;
+        ALTER TABLE trees DROP COLUMN token_key;
+      `);
+      db.close();
+
+      const second = new SqliteBackend(path, unverified);
+      expect((await second.list({ token: tree.token!.toLowerCase() as MerkleTree['root'] })).map(({ id }) => id)).toEqual([
+        'sqlite-old',
+      ]);
+      expect((await second.list({ root: tree.root }))[0].token).toBe(tree.token);
+      second.close();
+
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+    });
+
+    test('health check returns healthy', async () => {
+      const health = await backend.health();
+      expect(health.healthy).toBe(true);
+    });
+
+    test('health check returns unhealthy after close', async () => {
+      const closed = new SqliteBackend(':memory:', unverified);
+      closed.close();
+
+      const health = await closed.health();
+      expect(health.healthy).toBe(false);
+      expect(health.error).toBeDefined();
+    });
+
+    test('has correct name', () => {
+      expect(backend.name).toBe('sqlite');
+    });
+  });
+
+  describe('S3Backend', () => {
+    const s3 = startFakeS3Server();
+    let backend: S3Backend;
+
+    beforeEach(() => {
+      s3.objects.clear();
+      s3.setUnavailable(false);
+      backend = new S3Backend({
+        ...unverified,
+        bucket: 'trees',
+        prefix: 'merkle/',
+        endpoint: s3.url,
+        accessKeyId: 'test',
+        secretAccessKey: 'test',
+      });
+    });
+
+    afterAll(() => {
+      s3.stop();
+    });
+
+    test('saves and retrieves a tree', async () => {
+      const tree: MerkleTree = {
+        ...createTestTree('s3-tree-1'),
+        backups: [{ cid: 'bafktest', contentHash: '0x1234', backedUpAt: new Date().toISOString(), pinned: true }],
+      };
+      await backend.save(tree);
+
+      const retrieved = await backend.get('s3-tree-1');
+      expect(retrieved).toEqual(tree);
+    });
+
+    test('stores bodies under content-hash keys', async () => {
+      await backend.save(createTestTree('s3-keys'));
+
+      const keys = [...s3.objects.keys()].sort();
+      expect(keys).toHaveLength(4);
+      expect(keys.slice(0, 2)).toEqual([
+        'trees/merkle/addresses/0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc/s3-keys.json',
+        'trees/merkle/addresses/0x70997970c51812dc3a010c7d01b50e0d17dc79c8/s3-keys.json',
+      ]);
+      expect(keys[2]).toMatch(/^trees\/merkle\/objects\/0x[a-f0-9]{64}\.json$/);
+      expect(keys[3]).toBe('trees/merkle/trees/s3-keys.json');
+    });
+
+    test('removes the previous body when a tree changes', async () => {
+      const tree = createTestTree('s3-update');
+      await backend.save(tree);
+      await backend.save({ ...tree, root: '0xabcdef' });
+
+      // Pointer, body and one reverse index entry per beneficiary
+      expect(s3.objects.size).toBe(4);
+      expect((await backend.get('s3-update'))?.root).toBe('0xabcdef');
+    });
+
+    test('rejects bodies that do not match their content hash', async () => {
+      await backend.save(createTestTree('s3-tampered'));
+
+      const objectKey = [...s3.objects.keys()].find((k) => k.includes('/objects/'))!;
+      s3.objects.set(objectKey, s3.objects.get(objectKey)!.replace('1000000', '9000000'));
+
+      await expect(backend.get('s3-tampered')).rejects.toThrow('Integrity check failed');
+    });
+
+    test('returns null for non-existent tree', async () => {
+      expect(await backend.get('non-existent')).toBeNull();
+    });
+
+    test('deletes a tree', async () => {
+      await backend.save(createTestTree('s3-delete'));
+
+      expect(await backend.delete('s3-delete')).toBe(true);
+      expect(await backend.get('s3-delete')).toBeNull();
+      expect(s3.objects.size).toBe(0);
+    });
+
+    test('delete returns false for non-existent tree', async () => {
+      expect(await backend.delete('non-existent')).toBe(false);
+    });
+
+    test('lists trees across paginated prefix listings', async () => {
+      for (let i = 0; i < 5; i++) {
+        await backend.save(createTestTree(`s3-list-${i}`));
+      }
+
+      const summaries = await backend.list();
+      expect(summaries.map((s) => s.id).sort()).toEqual([
+        's3-list-0',
+        's3-list-1',
+        's3-list-2',
+        's3-list-3',
+        's3-list-4',
+      ]);
+      expect(summaries[0].totalAmount).toBe('3000000');
+    });
+
+    test('rejects invalid tree IDs', async () => {
+      await expect(backend.get('../escape')).rejects.toThrow('Invalid tree ID format');
+    });
+
+    test('health reflects bucket availability', async () => {
+      expect((await backend.health()).healthy).toBe(true);
+
+      s3.setUnavailable(true);
+      const health = await backend.health();
+      expect(health.healthy).toBe(false);
+      expect(health.error).toBeDefined();
+    });
+
+    test('works as an off-site replica', async () => {
+      const primary = new MemoryBackend();
+      const storage = new ReplicatedStorage(primary, [backend]);
+      const tree = createTestTree('s3-replica');
+
+      await storage.save(tree);
+      primary.clearAll();
+
+      expect(await storage.get('s3-replica')).toEqual(tree);
+    });
+
+    test('has correct name', () => {
+      expect(backend.name).toBe('s3');
+    });
+  });
+
+  describe('findAllocation', () => {
+    test('falls back to loading the tree for backends without an index', async () => {
+      const backend = new MemoryBackend();
+      const tree = createTestTree('lookup-tree');
+      await backend.save(tree);
+
+      const result = await findAllocation(backend, 'lookup-tree', '0x70997970c51812dc3a010c7d01b50e0d17dc79c8');
+      expect(result?.allocation).toEqual(tree.allocations[0]);
+      expect(result?.tree).not.toHaveProperty('allocations');
+      expect(await findAllocation(backend, 'missing', '0x70997970c51812dc3a010c7d01b50e0d17dc79c8')).toBeNull();
+    });
+
+    test('builds the beneficiary index once per tree object', async () => {
+      const tree = createTestTree('index-tree');
+      const index = getBeneficiaryIndex(tree);
+
+      expect(index.get('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc')).toBe(1);
+      expect(getBeneficiaryIndex(tree)).toBe(index);
+      expect(getBeneficiaryIndex({ ...tree })).not.toBe(index);
+    });
+  });
+
+  describe('list queries', () => {
+    const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+    const dai = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+    const s3 = startFakeS3Server();
+
+    // Five trees with distinct dates, sizes and totals; amounts of different lengths
+    // check that totals sort numerically rather than as text
+    const trees: MerkleTree[] = [
+      { id: 'tree-a', token: usdc, createdAt: '2024-01-01T00:00:00.000Z', amounts: ['900'] },
+      { id: 'tree-b', token: dai, createdAt: '2024-02-01T00:00:00.000Z', amounts: ['1000', '50'] },
+      { id: 'tree-c', token: usdc, createdAt: '2024-03-01T00:00:00.000Z', amounts: ['5', '5', '5'] },
+      { id: 'tree-d', token: undefined, createdAt: '2024-04-01T00:00:00.000Z', amounts: ['20000'] },
+      { id: 'tree-e', token: usdc, createdAt: '2024-04-01T00:00:00.000Z', amounts: ['4', '6'] },
+    ].map(({ id, token, createdAt, amounts }) => {
+      const tree = createTestTree(id);
+      return {
+        ...tree,
+        root: `0x${id.charCodeAt(5).toString(16).padStart(64, '0')}`,
+        token: token as MerkleTree['token'],
+        createdAt,
+        allocations: amounts.map((amount, i) => ({ ...tree.allocations[i % 2], amount })),
+      } as MerkleTree;
+    });
+
+    const backends: Array<[string, () => Promise<StorageBackend>]> = [
+      ['memory', async () => new MemoryBackend()],
+      ['filesystem', async () => {
+        await rm(TEST_DATA_DIR, { recursive: true, force: true });
+        return new FilesystemBackend(TEST_DATA_DIR, unverified);
+      }],
+      ['sqlite', async () => new SqliteBackend(':memory:', unverified)],
+      ['s3', async () => {
+        s3.objects.clear();
+        return new S3Backend({
+          ...unverified,
+          bucket: 'trees',
+          endpoint: s3.url,
+          accessKeyId: 'test',
+          secretAccessKey: 'test',
+        });
+      }],
+    ];
+
+    afterAll(async () => {
+      s3.stop();
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+    });
+
+    for (const [name, create] of backends) {
+      describe(name, () => {
+        let backend: StorageBackend;
+
+        beforeEach(async () => {
+          backend = await create();
+          for (const tree of trees) {
+            await backend.save(tree);
+          }
+        });
+
+        const ids = async (query: TreeListQuery) => (await backend.list(query)).map((summary) => summary.id);
+
+        test('sorts by createdAt ascending by default, breaking ties by id', async () => {
+          expect(await ids({})).toEqual(['tree-a', 'tree-b', 'tree-c', 'tree-d', 'tree-e']);
+          expect(await ids({ order: 'desc' })).toEqual(['tree-e', 'tree-d', 'tree-c', 'tree-b', 'tree-a']);
+        });
+
+        test('sorts by allocationCount and numerically by totalAmount', async () => {
+          expect(await ids({ sortBy: 'allocationCount' })).toEqual(['tree-a', 'tree-d', 'tree-b', 'tree-e', 'tree-c']);
+          expect(await ids({ sortBy: 'totalAmount' })).toEqual(['tree-e', 'tree-c', 'tree-a', 'tree-b', 'tree-d']);
+          expect(await ids({ sortBy: 'totalAmount', order: 'desc' })).toEqual([
+            'tree-d', 'tree-b', 'tree-a', 'tree-c', 'tree-e',
+          ]);
+        });
+
+        test('filters by token, root and creation date range', async () => {
+          expect(await ids({ token: usdc.toLowerCase() as MerkleTree['root'] })).toEqual(['tree-a', 'tree-c', 'tree-e']);
+          expect(await ids({ root: trees[1].root.toUpperCase().replace('0X', '0x') as MerkleTree['root'] })).toEqual([
+            'tree-b',
+          ]);
+          expect(await ids({ createdFrom: '2024-02-01T00:00:00.000Z', createdTo: '2024-04-01T00:00:00.000Z' })).toEqual([
+            'tree-b',
+            'tree-c',
+          ]);
+          expect(await ids({ token: usdc, createdFrom: '2024-02-01T00:00:00.000Z' })).toEqual(['tree-c', 'tree-e']);
+        });
+
+        test('limits and resumes after a position', async () => {
+          expect(await ids({ limit: 2 })).toEqual(['tree-a', 'tree-b']);
+          expect(await ids({ after: { value: '2024-04-01T00:00:00.000Z', id: 'tree-d' } })).toEqual(['tree-e']);
+          expect(await ids({ sortBy: 'totalAmount', order: 'desc', after: { value: '900', id: 'tree-a' }, limit: 1 }))
+            .toEqual(['tree-c']);
+        });
+
+        test('pages through every sort order with cursors', async () => {
+          for (const sortBy of ['createdAt', 'allocationCount', 'totalAmount'] as const) {
+            for (const order of ['asc', 'desc'] as const) {
+              const seen: string[] = [];
+              let cursor: string | undefined;
+              do {
+                const page = await listTreePage(backend, { sortBy, order, limit: 2, cursor });
+                expect(page.items.length).toBeLessThanOrEqual(2);
+                seen.push(...page.items.map((summary) => summary.id));
+                cursor = page.nextCursor;
+              } while (cursor);
+
+              expect(seen).toEqual(await ids({ sortBy, order }));
+            }
+          }
+        });
+      });
+    }
+
+    test('cursors are tied to their sort order', async () => {
+      const backend = new MemoryBackend();
+      for (const tree of trees) {
+        await backend.save(tree);
+      }
+
+      const page = await listTreePage(backend, { limit: 2 });
+      expect(page.nextCursor).toBeDefined();
+
+      await expect(listTreePage(backend, { limit: 2, order: 'desc', cursor: page.nextCursor })).rejects.toThrow(
+        'different sortBy or order'
+      );
+      await expect(listTreePage(backend, { limit: 2, cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+    });
+
+    test('filesystem lists from summary files and rebuilds missing ones', async () => {
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+      const backend = new FilesystemBackend(TEST_DATA_DIR, unverified);
+      await backend.save(trees[0]);
+      await backend.save(trees[1]);
+
+      // Trees saved before summaries were kept have no summary file
+      await rm(join(TEST_DATA_DIR, 'summaries', 'tree-b.json'));
+      backend.clearCache();
+
+      expect((await backend.list()).map((summary) => summary.id).sort()).toEqual(['tree-a', 'tree-b']);
+
+      // Once summaries exist, tree bodies are not read at all
+      await writeFile(join(TEST_DATA_DIR, 'tree-a.json'), 'not json');
+      await writeFile(join(TEST_DATA_DIR, 'tree-b.json'), 'not json');
+      backend.clearCache();
+
+      const summaries = await backend.list();
+      expect(summaries.map((summary) => summary.totalAmount)).toEqual(['900', '1050']);
+
+      // Deleting a tree removes its summary
+      await backend.delete('tree-a');
+      expect((await backend.list()).map((summary) => summary.id)).toEqual(['tree-b']);
+    });
+  });
+
+  describe('beneficiary index', () => {
+    const shared = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+    const only = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+    const vesting = { vestingStart: 1000, vestingDuration: 100, cliffDuration: 10 };
+    const s3 = startFakeS3Server();
+
+    // The shared beneficiary is in all three trees; the other only in tree-1
+    const trees: MerkleTree[] = [
+      { ...createTestTree('tree-1'), createdAt: '2024-01-01T00:00:00.000Z' },
+      { ...createTestTree('tree-2'), createdAt: '2024-02-01T00:00:00.000Z', vesting },
+      { ...createTestTree('tree-3'), createdAt: '2024-03-01T00:00:00.000Z' },
+    ].map((tree, i) => ({
+      ...tree,
+      allocations: i === 0 ? tree.allocations : [{ ...tree.allocations[0], amount: String(i) }],
+    }));
+
+    const backends: Array<[string, () => Promise<StorageBackend>]> = [
+      ['memory', async () => new MemoryBackend()],
+      ['filesystem', async () => {
+        await rm(TEST_DATA_DIR, { recursive: true, force: true });
+        return new FilesystemBackend(TEST_DATA_DIR, unverified);
+      }],
+      ['sqlite', async () => new SqliteBackend(':memory:', unverified)],
+      ['s3', async () => {
+        s3.objects.clear();
+        return new S3Backend({ ...unverified, bucket: 'trees', endpoint: s3.url, accessKeyId: 'test', secretAccessKey: 'test' });
+      }],
+      ['replicated', async () => new ReplicatedStorage(new SqliteBackend(':memory:', unverified), [new MemoryBackend()])],
+    ];
+
+    afterAll(async () => {
+      s3.stop();
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+    });
+
+    for (const [name, create] of backends) {
+      describe(name, () => {
+        let backend: StorageBackend;
+
+        beforeEach(async () => {
+          backend = await create();
+          for (const tree of trees) {
+            await backend.save(tree);
+          }
+        });
+
+        test('finds every tree a beneficiary is in, oldest first', async () => {
+          const entries = await findTreesByBeneficiary(backend, shared.toLowerCase() as MerkleTree['root']);
+
+          expect(entries).toEqual([
+            { id: 'tree-1', root: trees[0].root, token: trees[0].token, createdAt: trees[0].createdAt, amount: '1000000' },
+            { id: 'tree-2', root: trees[1].root, token: trees[1].token, createdAt: trees[1].createdAt, amount: '1', vesting },
+            { id: 'tree-3', root: trees[2].root, token: trees[2].token, createdAt: trees[2].createdAt, amount: '2' },
+          ]);
+          expect((await findTreesByBeneficiary(backend, only)).map((entry) => entry.id)).toEqual(['tree-1']);
+          expect(await findTreesByBeneficiary(backend, '0x0000000000000000000000000000000000000001')).toEqual([]);
+        });
+
+        test('drops entries when trees are deleted or lose a beneficiary', async () => {
+          await backend.delete('tree-2');
+          await backend.save({
+            ...trees[0],
+            root: '0xfedcba',
+            inputHash: '0xinputhash2',
+            allocations: [trees[0].allocations[0]],
+          });
+
+          expect((await findTreesByBeneficiary(backend, shared)).map((entry) => entry.id)).toEqual(['tree-1', 'tree-3']);
+          expect(await findTreesByBeneficiary(backend, only)).toEqual([]);
+        });
+      });
+    }
+
+    test('falls back to scanning trees for backends without an index', async () => {
+      const memory = new MemoryBackend();
+      for (const tree of trees) {
+        await memory.save(tree);
+      }
+      const backend: StorageBackend = {
+        name: 'plain',
+        save: (tree) => memory.save(tree),
+        get: (id) => memory.get(id),
+        delete: (id) => memory.delete(id),
+        list: (query) => memory.list(query),
+        health: () => memory.health(),
+        softDelete: (id, tombstone) => memory.softDelete(id, tombstone),
+        restore: (id) => memory.restore(id),
+        listDeleted: () => memory.listDeleted(),
+        purge: (id) => memory.purge(id),
+      };
+
+      expect((await findTreesByBeneficiary(backend, shared)).map((entry) => entry.id)).toEqual([
+        'tree-1',
+        'tree-2',
+        'tree-3',
+      ]);
+    });
+
+    test('filesystem indexes trees saved before the index existed', async () => {
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+      await new FilesystemBackend(TEST_DATA_DIR, unverified).save(trees[0]);
+
+      // Simulate a data directory written before the reverse index was kept
+      await rm(join(TEST_DATA_DIR, 'addresses'), { recursive: true, force: true });
+
+      const backend = new FilesystemBackend(TEST_DATA_DIR, unverified);
+      expect((await findTreesByBeneficiary(backend, only)).map((entry) => entry.id)).toEqual(['tree-1']);
+    });
+
+    test('filesystem keeps one entry file per beneficiary and tree', async () => {
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+      const backend = new FilesystemBackend(TEST_DATA_DIR, unverified);
+      for (const tree of trees) {
+        await backend.save(tree);
+      }
+
+      expect((await readdir(join(TEST_DATA_DIR, 'addresses'))).sort()).toEqual(['3c', '70']);
+      expect(await readdir(join(TEST_DATA_DIR, 'addresses', '3c'))).toEqual([only.toLowerCase()]);
+      // A lookup reads only the entries of the trees the address is in
+      expect(await readdir(join(TEST_DATA_DIR, 'addresses', '3c', only.toLowerCase()))).toEqual(['tree-1.json']);
+      expect((await readdir(join(TEST_DATA_DIR, 'addresses', '70', shared.toLowerCase()))).sort()).toEqual([
+        'tree-1.json',
+        'tree-2.json',
+        'tree-3.json',
+      ]);
+    });
+
+    test('filesystem and s3 replace the per-shard index of earlier versions', async () => {
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+      s3.objects.clear();
+      const filesystem = new FilesystemBackend(TEST_DATA_DIR, unverified);
+      const bucket = new S3Backend({ ...unverified, bucket: 'trees', endpoint: s3.url, accessKeyId: 'test', secretAccessKey: 'test' });
+      await filesystem.save(trees[0]);
+      await bucket.save(trees[0]);
+
+      // Simulate a store indexed by an earlier version, before the per-address entries were kept
+      await rm(join(TEST_DATA_DIR, 'addresses'), { recursive: true, force: true });
+      await mkdir(join(TEST_DATA_DIR, 'beneficiaries', '3c'), { recursive: true });
+      await writeFile(join(TEST_DATA_DIR, 'beneficiaries', '3c', 'tree-1.json'), '{}');
+      await writeFile(join(TEST_DATA_DIR, 'beneficiaries', '.complete'), '');
+      for (const key of [...s3.objects.keys()].filter((key) => key.startsWith('trees/addresses/'))) {
+        s3.objects.delete(key);
+      }
+      s3.objects.set('trees/beneficiaries/3c/tree-1.json', '{}');
+      s3.objects.set('trees/beneficiaries/.complete', '');
+
+      expect((await findTreesByBeneficiary(filesystem, only)).map((entry) => entry.id)).toEqual(['tree-1']);
+      expect((await findTreesByBeneficiary(bucket, only)).map((entry) => entry.id)).toEqual(['tree-1']);
+      expect(await readdir(TEST_DATA_DIR)).not.toContain('beneficiaries');
+      expect([...s3.objects.keys()].filter((key) => key.startsWith('trees/beneficiaries/'))).toEqual([]);
+    });
+
+    test('filesystem and s3 drop entries an interrupted soft delete left behind on purge', async () => {
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+      s3.objects.clear();
+      const filesystem = new FilesystemBackend(TEST_DATA_DIR, unverified);
+      const bucket = new S3Backend({ ...unverified, bucket: 'trees', endpoint: s3.url, accessKeyId: 'test', secretAccessKey: 'test' });
+      const tombstone = { deletedAt: '2024-06-01T00:00:00.000Z', purgeAfter: '2024-07-01T00:00:00.000Z' };
+      const entryPath = join(TEST_DATA_DIR, 'addresses', '3c', only.toLowerCase(), 'tree-1.json');
+      const entryKey = `trees/addresses/${only.toLowerCase()}/tree-1.json`;
+
+      for (const backend of [filesystem, bucket]) {
+        await backend.save(trees[0]);
+        await findTreesByBeneficiary(backend, only);
+      }
+      const fileEntry = await readFile(entryPath, 'utf-8');
+      const objectEntry = s3.objects.get(entryKey)!;
+      for (const backend of [filesystem, bucket]) {
+        await backend.softDelete('tree-1', tombstone);
+      }
+
+      // Put back an entry as if the soft delete stopped before unindexing the tree
+      await mkdir(join(entryPath, '..'), { recursive: true });
+      await writeFile(entryPath, fileEntry);
+      s3.objects.set(entryKey, objectEntry);
+      expect(await findTreesByBeneficiary(filesystem, only)).toHaveLength(1);
+      expect(await findTreesByBeneficiary(bucket, only)).toHaveLength(1);
+
+      expect(await filesystem.purge('tree-1')).toBe(true);
+      expect(await bucket.purge('tree-1')).toBe(true);
+      expect(await findTreesByBeneficiary(filesystem, only)).toEqual([]);
+      expect(await findTreesByBeneficiary(bucket, only)).toEqual([]);
+    });
+
+    test('filesystem and s3 leave the index alone when an unchanged tree is saved again', async () => {
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+      s3.objects.clear();
+      const filesystem = new FilesystemBackend(TEST_DATA_DIR, unverified);
+      const bucket = new S3Backend({ ...unverified, bucket: 'trees', endpoint: s3.url, accessKeyId: 'test', secretAccessKey: 'test' });
+      await filesystem.save(trees[0]);
+      await bucket.save(trees[0]);
+      // Run the one-off index of existing trees first
+      expect(await findTreesByBeneficiary(filesystem, only)).toHaveLength(1);
+      expect(await findTreesByBeneficiary(bucket, only)).toHaveLength(1);
+
+      // Drop the index entries behind the backends' backs; a reindex would bring them back
+      await rm(join(TEST_DATA_DIR, 'addresses', '3c'), { recursive: true, force: true });
+      s3.objects.delete(`trees/addresses/${only.toLowerCase()}/tree-1.json`);
+
+      await filesystem.save({ ...trees[0], backups: [] });
+      await bucket.save({ ...trees[0], backups: [] });
+
+      expect(await findTreesByBeneficiary(filesystem, only)).toEqual([]);
+      expect(await findTreesByBeneficiary(bucket, only)).toEqual([]);
+    });
+
+    test('filesystem skips trees that fail verification when rebuilding the index', async () => {
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+      const tree = rebuildTree({ allocations: [{ beneficiary: only, amount: '5' }] });
+      await new FilesystemBackend(TEST_DATA_DIR).save(tree);
+      await rm(join(TEST_DATA_DIR, 'addresses'), { recursive: true, force: true });
+      await writeFile(join(TEST_DATA_DIR, 'corrupt.json'), '{');
+
+      const warn = spyOn(console, 'warn').mockImplementation(() => {});
+      try {
+        const entries = await findTreesByBeneficiary(new FilesystemBackend(TEST_DATA_DIR), only);
+
+        expect(entries.map((entry) => entry.id)).toEqual([tree.id]);
+        expect(warn).toHaveBeenCalledWith('Beneficiary index skipped tree corrupt:', expect.stringContaining('not valid JSON'));
+      } finally {
+        warn.mockRestore();
+      }
+    });
+  });
+
+  describe('soft delete', () => {
+    const beneficiary = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+    const tombstone = { deletedAt: '2024-06-01T00:00:00.000Z', purgeAfter: '2024-07-01T00:00:00.000Z' };
+    const s3 = startFakeS3Server();
+
+    const backends: Array<[string, () => Promise<StorageBackend>]> = [
+      ['memory', async () => new MemoryBackend()],
+      ['filesystem', async () => {
+        await rm(TEST_DATA_DIR, { recursive: true, force: true });
+        return new FilesystemBackend(TEST_DATA_DIR, unverified);
+      }],
+      ['sqlite', async () => new SqliteBackend(':memory:', unverified)],
+      ['s3', async () => {
+        s3.objects.clear();
+        return new S3Backend({ ...unverified, bucket: 'trees', endpoint: s3.url, accessKeyId: 'test', secretAccessKey: 'test' });
+      }],
+      ['replicated', async () => new ReplicatedStorage(new SqliteBackend(':memory:', unverified), [new MemoryBackend()])],
+    ];
+
+    afterAll(async () => {
+      s3.stop();
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+    });
+
+    for (const [name, create] of backends) {
+      describe(name, () => {
+        let backend: StorageBackend;
+        const tree = createTestTree('trashed-tree');
+
+        beforeEach(async () => {
+          backend = await create();
+          await backend.save(tree);
+          await backend.save(createTestTree('live-tree'));
+        });
+
+        test('hides soft-deleted trees from every read path', async () => {
+          expect(await backend.softDelete(tree.id, tombstone)).toBe(true);
+
+          expect(await backend.get(tree.id)).toBeNull();
+          expect((await backend.list()).map((summary) => summary.id)).toEqual(['live-tree']);
+          expect(await findAllocation(backend, tree.id, beneficiary)).toBeNull();
+          expect((await findTreesByBeneficiary(backend, beneficiary)).map((entry) => entry.id)).toEqual(['live-tree']);
+          expect(await backend.listDeleted()).toEqual([{ ...summarizeTree(tree), tombstone }]);
+          expect(await getDeletedTree(backend, tree.id)).toEqual({ ...summarizeTree(tree), tombstone });
+          expect(await getDeletedTree(backend, 'live-tree')).toBeNull();
+        });
+
+        test('restores a soft-deleted tree with its indexes', async () => {
+          await backend.softDelete(tree.id, tombstone);
+
+          expect(await backend.restore(tree.id)).toBe(true);
+
+          expect(await backend.get(tree.id)).toEqual(tree);
+          expect((await findAllocation(backend, tree.id, beneficiary))?.allocation).toEqual(tree.allocations[0]);
+          expect((await findTreesByBeneficiary(backend, beneficiary)).map((entry) => entry.id).sort()).toEqual([
+            'live-tree',
+            'trashed-tree',
+          ]);
+          expect(await backend.listDeleted()).toEqual([]);
+        });
+
+        test('purges only trees in the trash', async () => {
+          expect(await backend.purge(tree.id)).toBe(false);
+
+          await backend.softDelete(tree.id, tombstone);
+
+          expect(await backend.purge(tree.id)).toBe(true);
+          expect(await backend.listDeleted()).toEqual([]);
+          expect(await backend.restore(tree.id)).toBe(false);
+        });
+
+        test('returns false for trees that are not live', async () => {
+          expect(await backend.softDelete('missing', tombstone)).toBe(false);
+          expect(await backend.restore('live-tree')).toBe(false);
+        });
+      });
+    }
+  });
+
+  describe('allocation listing', () => {
+    // Six allocations with amounts of different lengths, so range filters must compare numerically
+    const base = createTestTree('tree-allocations');
+    const tree: MerkleTree = {
+      ...base,
+      allocations: [
+        ['0xab00000000000000000000000000000000000001', '5'],
+        ['0xAB00000000000000000000000000000000000002', '1000'],
+        ['0xcd00000000000000000000000000000000000003', '90'],
+        ['0xab10000000000000000000000000000000000004', '100'],
+        ['0xef00000000000000000000000000000000000005', '20000'],
+        ['0xab00000000000000000000000000000000000006', '99'],
+      ].map(([beneficiary, amount], i) => ({
+        beneficiary: beneficiary as MerkleTree['root'],
+        amount,
+        leaf: `0xleaf${i}` as MerkleTree['root'],
+        proof: [`0xproof${i}` as MerkleTree['root']],
+      })),
+    };
+
+    const backends: Array<[string, () => Promise<StorageBackend>]> = [
+      ['memory', async () => new MemoryBackend()],
+      ['sqlite', async () => new SqliteBackend(':memory:', unverified)],
+      ['replicated', async () => new ReplicatedStorage(new SqliteBackend(':memory:', unverified), [new MemoryBackend()])],
+    ];
+
+    for (const [name, create] of backends) {
+      describe(name, () => {
+        let backend: StorageBackend;
+
+        beforeEach(async () => {
+          backend = await create();
+          await backend.save(tree);
+        });
+
+        const indices = async (query: AllocationListQuery) =>
+          (await listAllocations(backend, tree.id, query))?.allocations.map((item) => item.index);
+
+        test('lists allocations in tree order with their positions and proofs', async () => {
+          const result = await listAllocations(backend, tree.id);
+
+          expect(result?.tree.id).toBe(tree.id);
+          expect(result?.tree).not.toHaveProperty('allocations');
+          expect(result?.allocations).toHaveLength(6);
+          expect(result?.allocations[1]).toEqual({ index: 1, ...tree.allocations[1] });
+        });
+
+        test('filters by beneficiary prefix case-insensitively', async () => {
+          expect(await indices({ beneficiaryPrefix: '0xab' })).toEqual([0, 1, 3, 5]);
+          expect(await indices({ beneficiaryPrefix: '0xAB0' })).toEqual([0, 1, 5]);
+          expect(await indices({ beneficiaryPrefix: '0x' })).toEqual([0, 1, 2, 3, 4, 5]);
+          expect(await indices({ beneficiaryPrefix: '0x99' })).toEqual([]);
+        });
+
+        test('filters by inclusive amount range', async () => {
+          expect(await indices({ minAmount: '99' })).toEqual([1, 3, 4, 5]);
+          expect(await indices({ maxAmount: '100' })).toEqual([0, 2, 3, 5]);
+          expect(await indices({ minAmount: '90', maxAmount: '1000' })).toEqual([1, 2, 3, 5]);
+          expect(await indices({ beneficiaryPrefix: '0xab', minAmount: '100' })).toEqual([1, 3]);
+        });
+
+        test('limits and resumes after an index', async () => {
+          expect(await indices({ limit: 2 })).toEqual([0, 1]);
+          expect(await indices({ afterIndex: 1, limit: 2 })).toEqual([2, 3]);
+          expect(await indices({ beneficiaryPrefix: '0xab', afterIndex: 1 })).toEqual([3, 5]);
+          expect(await indices({ afterIndex: 5 })).toEqual([]);
+        });
+
+        test('looks up several beneficiaries in request order', async () => {
+          const missing = '0x9900000000000000000000000000000000000000' as MerkleTree['root'];
+          const result = await findAllocations(backend, tree.id, [
+            '0xEF00000000000000000000000000000000000005',
+            missing,
+            '0xab00000000000000000000000000000000000002',
+          ]);
+
+          expect(result?.tree).not.toHaveProperty('allocations');
+          expect(result?.allocations).toEqual([tree.allocations[4], tree.allocations[1]]);
+          expect(result?.missing).toEqual([missing]);
+          expect(await findAllocations(backend, 'missing', [missing])).toBeNull();
+        });
+
+        test('omits proofs when not requested', async () => {
+          const result = await listAllocations(backend, tree.id, { includeProofs: false, limit: 1 });
+
+          expect(result?.allocations).toEqual([
+            { index: 0, beneficiary: tree.allocations[0].beneficiary, amount: '5', leaf: tree.allocations[0].leaf },
+          ]);
+        });
+
+        test('summarizes a tree without its allocations or input', async () => {
+          const overview = await getTreeOverview(backend, tree.id);
+
+          expect(overview).toMatchObject({
+            id: tree.id,
+            root: tree.root,
+            allocationCount: 6,
+            totalAmount: '21294',
+            buildSpec: tree.buildSpec,
+            inputHash: tree.inputHash,
+          });
+          expect(overview).not.toHaveProperty('allocations');
+          expect(overview).not.toHaveProperty('originalInput');
+        });
+
+        test('returns null for missing trees', async () => {
+          expect(await listAllocations(backend, 'missing')).toBeNull();
+          expect(await getTreeOverview(backend, 'missing')).toBeNull();
+        });
+      });
+    }
+  });
+
   describe('ReplicatedStorage', () => {
     let primaryBackend: MemoryBackend;
     let replica1: MemoryBackend;
@@ -392,6 +1288,89 @@ describe('Storage Backends', () => {
       expect(await replica2.get('sync-tree-3')).not.toBeNull();
     });
 
+    test('reconcile reports per-backend divergence', async () => {
+      await replicatedStorage.save(createTestTree('in-sync'));
+      await primaryBackend.save(createTestTree('primary-only'));
+      await replica2.save(createTestTree('replica2-only'));
+
+      const result = await replicatedStorage.reconcile();
+
+      expect(result.errors).toEqual([]);
+      expect(result.synced).toBe(4);
+      expect(result.backends).toEqual([
+        { backend: 'memory', role: 'primary', missing: ['replica2-only'], differing: [], unreadable: [], deleted: [], repaired: ['replica2-only'] },
+        { backend: 'memory', role: 'replica', missing: ['primary-only', 'replica2-only'], differing: [], unreadable: [], deleted: [], repaired: ['primary-only', 'replica2-only'] },
+        { backend: 'memory', role: 'replica', missing: ['primary-only'], differing: [], unreadable: [], deleted: [], repaired: ['primary-only'] },
+      ]);
+
+      // A second run finds nothing left to do
+      const again = await replicatedStorage.reconcile();
+      expect(again.synced).toBe(0);
+      expect(again.backends.every((backend) => backend.missing.length === 0)).toBe(true);
+    });
+
+    test('reconcile overwrites differing replica copies with the primary copy', async () => {
+      const tree = createTestTree('drifted');
+      await replicatedStorage.save(tree);
+      await replica1.save({ ...tree, allocations: tree.allocations.slice(0, 1) });
+
+      const result = await replicatedStorage.reconcile();
+
+      expect(result.synced).toBe(1);
+      expect(result.backends[1].differing).toEqual(['drifted']);
+      expect(await replica1.get('drifted')).toEqual(tree);
+    });
+
+    test('does not serve a replica copy of a tree the primary has in its trash', async () => {
+      const tree = createTestTree('trashed-on-primary');
+      await replicatedStorage.save(tree);
+
+      // The replica soft delete is still queued, e.g. because the replica was down
+      const tombstone = { deletedAt: '2024-06-01T00:00:00.000Z', purgeAfter: '2024-07-01T00:00:00.000Z' };
+      await primaryBackend.softDelete(tree.id, tombstone);
+
+      expect(await replica1.get(tree.id)).toEqual(tree);
+      expect(await replicatedStorage.get(tree.id)).toBeNull();
+      expect(await replicatedStorage.findAllocation(tree.id, tree.allocations[0].beneficiary)).toBeNull();
+      expect(await replicatedStorage.getSummary(tree.id)).toBeNull();
+      expect((await replicatedStorage.getDeleted(tree.id))?.tombstone).toEqual(tombstone);
+    });
+
+    test('reconcile keeps soft-deleted trees deleted', async () => {
+      const tree = createTestTree('deleted-on-primary');
+      await replicatedStorage.save(tree);
+
+      // The replica soft delete was lost, e.g. because the replica was down
+      const tombstone = { deletedAt: '2024-06-01T00:00:00.000Z', purgeAfter: '2024-07-01T00:00:00.000Z' };
+      await primaryBackend.softDelete('deleted-on-primary', tombstone);
+
+      const result = await replicatedStorage.reconcile();
+
+      expect(result.errors).toEqual([]);
+      expect(result.backends[1].deleted).toEqual(['deleted-on-primary']);
+      expect(await primaryBackend.get('deleted-on-primary')).toBeNull();
+      expect(await replica1.get('deleted-on-primary')).toBeNull();
+      expect((await replica1.listDeleted()).map((deleted) => deleted.id)).toEqual(['deleted-on-primary']);
+    });
+
+    test('reconcile repairs unreadable copies', async () => {
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+      const tree = rebuildTree({ allocations: [{ beneficiary: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', amount: '5' }] });
+      const fsReplica = new FilesystemBackend(TEST_DATA_DIR);
+      const storage = new ReplicatedStorage(primaryBackend, [fsReplica]);
+      await storage.save(tree);
+
+      await writeFile(join(TEST_DATA_DIR, `${tree.id}.json`), '{');
+      fsReplica.clearCache();
+
+      const result = await storage.reconcile();
+
+      expect(result.backends[1].unreadable).toEqual([tree.id]);
+      expect(result.synced).toBe(1);
+      expect(await fsReplica.get(tree.id)).toEqual(tree);
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+    });
+
     test('health returns aggregate status', async () => {
       const health = await replicatedStorage.health();
       expect(health.healthy).toBe(true);
@@ -418,8 +1397,332 @@ describe('Storage Backends', () => {
       expect(health.error).toContain('Primary is down');
     });
 
+    describe('replica outbox', () => {
+      // Memory replica whose writes fail while `offline` is set
+      class FlakyBackend extends MemoryBackend {
+        offline = true;
+
+        override async save(tree: MerkleTree): Promise<void> {
+          this.assertOnline();
+          return super.save(tree);
+        }
+
+        override async softDelete(id: string, tombstone: Tombstone): Promise<boolean> {
+          this.assertOnline();
+          return super.softDelete(id, tombstone);
+        }
+
+        private assertOnline(): void {
+          if (this.offline) {
+            throw new Error('replica offline');
+          }
+        }
+      }
+
+      const later = (ms: number) => new Date(Date.now() + ms);
+
+      test('queues failed replica writes and applies them once due', async () => {
+        const flaky = new FlakyBackend();
+        const storage = new ReplicatedStorage(primaryBackend, [flaky, replica1]);
+        const tree = createTestTree('queued-tree');
+
+        await storage.save(tree);
+
+        expect(await replica1.get('queued-tree')).not.toBeNull();
+        expect(await storage.health()).toMatchObject({ pendingReplicaWrites: 1 });
+
+        flaky.offline = false;
+        expect(await storage.retryPendingWrites()).toEqual({ completed: 0, failed: 0, pending: 1 });
+
+        expect(await storage.retryPendingWrites(later(1000))).toEqual({ completed: 1, failed: 0, pending: 0 });
+        expect(await flaky.get('queued-tree')).toEqual(tree);
+      });
+
+      test('backs off exponentially while the replica keeps failing', async () => {
+        const outbox = new MemoryReplicaOutbox();
+        const storage = new ReplicatedStorage(primaryBackend, [new FlakyBackend()], {
+          outbox,
+          retryBaseDelayMs: 1000,
+        });
+        await storage.save(createTestTree('backoff-tree'));
+
+        const now = later(1000);
+        expect(await storage.retryPendingWrites(now)).toEqual({ completed: 0, failed: 1, pending: 1 });
+
+        const [pending] = await outbox.list();
+        expect(pending).toMatchObject({ backend: 'memory', treeId: 'backoff-tree', op: 'save', attempts: 2 });
+        expect(pending.lastError).toBe('replica offline');
+        expect(Date.parse(pending.nextAttemptAt)).toBe(now.getTime() + 2000);
+
+        expect(getRetryDelayMs(3, 1000, 60_000)).toBe(4000);
+        expect(getRetryDelayMs(20, 1000, 60_000)).toBe(60_000);
+      });
+
+      test('applies writes to a tree in order', async () => {
+        const flaky = new FlakyBackend();
+        const outbox = new MemoryReplicaOutbox();
+        const storage = new ReplicatedStorage(primaryBackend, [flaky], { outbox });
+        const tombstone = { deletedAt: '2024-06-01T00:00:00.000Z', purgeAfter: '2024-07-01T00:00:00.000Z' };
+
+        await storage.save(createTestTree('ordered-tree'));
+        flaky.offline = false;
+        await storage.softDelete('ordered-tree', tombstone);
+
+        // The soft delete waits behind the failed save instead of reaching the replica first
+        expect((await outbox.list()).map((write) => write.op)).toEqual(['save', 'soft-delete']);
+
+        // The queued save copies the primary's live copy, which is gone, so the tree is not resurrected
+        expect(await storage.retryPendingWrites(later(1000))).toMatchObject({ completed: 2, pending: 0 });
+        expect(await flaky.get('ordered-tree')).toBeNull();
+      });
+
+      test('writes replicas in parallel', async () => {
+        let started = 0;
+        let release!: () => void;
+        const bothStarted = new Promise<void>((resolve) => (release = resolve));
+        const gated = () =>
+          Object.assign(new MemoryBackend(), {
+            save: async () => {
+              if (++started === 2) release();
+              await bothStarted;
+            },
+          });
+
+        await new ReplicatedStorage(primaryBackend, [gated(), gated()]).save(createTestTree('parallel-tree'));
+
+        expect(started).toBe(2);
+      });
+
+      test('fails writes that do not reach the write quorum', async () => {
+        const quorumStorage = new ReplicatedStorage(primaryBackend, [new FlakyBackend(), replica1], { writeQuorum: 1 });
+        await quorumStorage.save(createTestTree('quorum-met'));
+
+        const strictStorage = new ReplicatedStorage(primaryBackend, [new FlakyBackend(), replica1], { writeQuorum: 2 });
+        await expect(strictStorage.save(createTestTree('quorum-missed'))).rejects.toThrow(
+          'Write quorum not met: 1 of 2 replica(s) applied the save of tree quorum-missed, 2 required'
+        );
+        // The failed replica write is still queued
+        expect(await strictStorage.pendingWriteCount()).toBe(1);
+
+        expect(() => new ReplicatedStorage(primaryBackend, [replica1], { writeQuorum: 2 })).toThrow(
+          'Invalid write quorum 2'
+        );
+      });
+
+      test('drops queued writes for replicas that are no longer configured', async () => {
+        const outbox = new MemoryReplicaOutbox();
+        await new ReplicatedStorage(primaryBackend, [replica1, new FlakyBackend()], { outbox }).save(
+          createTestTree('orphaned-write')
+        );
+
+        const storage = new ReplicatedStorage(primaryBackend, [replica1], { outbox });
+        expect(await storage.retryPendingWrites(later(1000))).toEqual({ completed: 0, failed: 0, pending: 0 });
+      });
+
+      test('file outbox survives a restart', async () => {
+        await rm(TEST_DATA_DIR, { recursive: true, force: true });
+        const path = join(TEST_DATA_DIR, 'outbox.json');
+        const flaky = new FlakyBackend();
+
+        await new ReplicatedStorage(primaryBackend, [flaky], { outbox: new FileReplicaOutbox(path) }).save(
+          createTestTree('durable-write')
+        );
+
+        flaky.offline = false;
+        const restarted = new ReplicatedStorage(primaryBackend, [flaky], { outbox: new FileReplicaOutbox(path) });
+        expect(await restarted.pendingWriteCount()).toBe(1);
+        expect(await restarted.retryPendingWrites(later(1000))).toMatchObject({ completed: 1, pending: 0 });
+        expect(await flaky.get('durable-write')).not.toBeNull();
+
+        await writeFile(path, '[{');
+        await expect(new FileReplicaOutbox(path).list()).rejects.toThrow(`Replica outbox ${path} is corrupt`);
+        await rm(TEST_DATA_DIR, { recursive: true, force: true });
+      });
+    });
+
+    test('works with SQLite as primary and replica', async () => {
+      const sqlitePrimary = new SqliteBackend(':memory:', unverified);
+      const sqliteReplica = new SqliteBackend(':memory:', unverified);
+      const storage = new ReplicatedStorage(sqlitePrimary, [replica1, sqliteReplica]);
+      const tree = createTestTree('sqlite-replicated');
+
+      await storage.save(tree);
+      expect(await sqliteReplica.get('sqlite-replicated')).toEqual(tree);
+
+      await sqlitePrimary.delete('sqlite-replicated');
+      expect((await storage.get('sqlite-replicated'))?.id).toBe('sqlite-replicated');
+
+      const lookup = await storage.findAllocation('sqlite-replicated', tree.allocations[0].beneficiary);
+      expect(lookup?.allocation).toEqual(tree.allocations[0]);
+
+      sqlitePrimary.close();
+      sqliteReplica.close();
+    });
+
     test('has correct name', () => {
       expect(replicatedStorage.name).toBe('replicated');
     });
   });
+
+  describe('integrity on read', () => {
+    const s3 = startFakeS3Server();
+    const tree = rebuildTree({
+      allocations: [
+        { beneficiary: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', amount: '1000000' },
+        { beneficiary: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', amount: '2000000' },
+      ],
+    });
+
+    // Raise the first allocation's amount in a serialized tree, leaving leaves and root alone
+    function tamper(json: string): string {
+      const stored = JSON.parse(json) as MerkleTree;
+      stored.allocations[0].amount = '999000000';
+      return JSON.stringify(stored);
+    }
+
+    beforeEach(async () => {
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+      s3.objects.clear();
+    });
+
+    afterEach(async () => {
+      await rm(TEST_DATA_DIR, { recursive: true, force: true });
+    });
+
+    afterAll(() => {
+      s3.stop();
+    });
+
+    test('filesystem rejects edited and unparseable tree files', async () => {
+      await new FilesystemBackend(TEST_DATA_DIR).save(tree);
+      const path = join(TEST_DATA_DIR, `${tree.id}.json`);
+      const original = await readFile(path, 'utf-8');
+
+      await writeFile(path, tamper(original));
+      await expect(new FilesystemBackend(TEST_DATA_DIR).get(tree.id)).rejects.toThrow(
+        `Integrity check failed for tree ${tree.id}`
+      );
+
+      await writeFile(path, original.slice(0, 100));
+      await expect(new FilesystemBackend(TEST_DATA_DIR).get(tree.id)).rejects.toThrow('not valid JSON');
+
+      await writeFile(path, original);
+      expect(await new FilesystemBackend(TEST_DATA_DIR).get(tree.id)).toEqual(tree);
+    });
+
+    test('filesystem repairs a corrupt copy on save', async () => {
+      await new FilesystemBackend(TEST_DATA_DIR).save(tree);
+      await writeFile(join(TEST_DATA_DIR, `${tree.id}.json`), '{');
+
+      const backend = new FilesystemBackend(TEST_DATA_DIR);
+      await backend.save(tree);
+      expect(await new FilesystemBackend(TEST_DATA_DIR).get(tree.id)).toEqual(tree);
+    });
+
+    test('sqlite rejects edited allocation rows', async () => {
+      const path = join(TEST_DATA_DIR, 'integrity.sqlite');
+      const backend = new SqliteBackend(path);
+      await backend.save(tree);
+      expect(await backend.get(tree.id)).toEqual(tree);
+
+      const db = new Database(path);
+      db.run("UPDATE allocations SET amount = '999000000' WHERE position = 0");
+      db.close();
+
+      await expect(backend.get(tree.id)).rejects.toThrow(`Integrity check failed for tree ${tree.id}`);
+      backend.close();
+    });
+
+    test('sqlite checks looked-up allocations and summaries against the stored root', async () => {
+      const path = join(TEST_DATA_DIR, 'lookups.sqlite');
+      const backend = new SqliteBackend(path);
+      await backend.save(tree);
+      const [edited, intact] = tree.allocations;
+
+      const failed = `Integrity check failed for tree ${tree.id}`;
+      const db = new Database(path);
+      db.run("UPDATE allocations SET proof = '[]' WHERE position = 0");
+
+      await expect(backend.findAllocation(tree.id, edited.beneficiary)).rejects.toThrow(failed);
+      await expect(backend.findAllocations(tree.id, [edited.beneficiary, intact.beneficiary])).rejects.toThrow(failed);
+      await expect(backend.listAllocations(tree.id, { includeProofs: false })).rejects.toThrow(failed);
+      expect((await backend.findAllocation(tree.id, intact.beneficiary))?.allocation).toEqual(intact);
+
+      db.run("UPDATE allocations SET proof = ?, amount = '999000000' WHERE position = 0", [JSON.stringify(edited.proof)]);
+      db.close();
+
+      await expect(backend.findAllocation(tree.id, edited.beneficiary)).rejects.toThrow(failed);
+      await expect(backend.getSummary(tree.id)).rejects.toThrow(failed);
+      backend.close();
+    });
+
+    test('replicated storage serves lookups from a replica when sqlite rows are edited', async () => {
+      const path = join(TEST_DATA_DIR, 'replicated.sqlite');
+      const primary = new SqliteBackend(path);
+      const storage = new ReplicatedStorage(primary, [new MemoryBackend()]);
+      await storage.save(tree);
+
+      const db = new Database(path);
+      db.run("UPDATE allocations SET amount = '999000000' WHERE position = 0");
+      db.close();
+
+      expect((await storage.findAllocation(tree.id, tree.allocations[0].beneficiary))?.allocation).toEqual(
+        tree.allocations[0]
+      );
+      primary.close();
+    });
+
+    test('s3 rejects a body rewritten together with its pointer', async () => {
+      const backend = new S3Backend({ bucket: 'trees', endpoint: s3.url, accessKeyId: 'test', secretAccessKey: 'test' });
+      await backend.save(tree);
+
+      const pointerKey = `trees/trees/${tree.id}.json`;
+      const pointer = JSON.parse(s3.objects.get(pointerKey)!);
+      const body = tamper(s3.objects.get(`trees/objects/${pointer.contentHash}.json`)!);
+      const contentHash = keccak256(toBytes(body));
+      s3.objects.set(`trees/objects/${contentHash}.json`, body);
+      s3.objects.set(pointerKey, JSON.stringify({ ...pointer, contentHash }));
+
+      await expect(backend.get(tree.id)).rejects.toThrow(`Integrity check failed for tree ${tree.id}`);
+    });
+
+    test('s3 rejects a pointer whose body is missing', async () => {
+      const backend = new S3Backend({ bucket: 'trees', endpoint: s3.url, accessKeyId: 'test', secretAccessKey: 'test' });
+      await backend.save(tree);
+
+      const pointer = JSON.parse(s3.objects.get(`trees/trees/${tree.id}.json`)!);
+      s3.objects.delete(`trees/objects/${pointer.contentHash}.json`);
+
+      await expect(backend.get(tree.id)).rejects.toThrow(
+        `Integrity check failed for tree ${tree.id}: stored object ${pointer.contentHash} is missing`
+      );
+      // The damaged tree can still be deleted
+      expect(await backend.delete(tree.id)).toBe(true);
+      expect(await backend.get(tree.id)).toBeNull();
+    });
+
+    test('replicated storage serves a healthy replica instead of a corrupt primary', async () => {
+      const replica = new MemoryBackend();
+      const storage = new ReplicatedStorage(new FilesystemBackend(TEST_DATA_DIR), [replica]);
+      await storage.save(tree);
+
+      const path = join(TEST_DATA_DIR, `${tree.id}.json`);
+      await writeFile(path, tamper(await readFile(path, 'utf-8')));
+
+      const fresh = new ReplicatedStorage(new FilesystemBackend(TEST_DATA_DIR), [replica]);
+      expect(await fresh.get(tree.id)).toEqual(tree);
+      expect((await fresh.findAllocation(tree.id, tree.allocations[0].beneficiary))?.allocation).toEqual(
+        tree.allocations[0]
+      );
+    });
+
+    test('replicated storage reports corruption when no copy is usable', async () => {
+      const storage = new ReplicatedStorage(new FilesystemBackend(TEST_DATA_DIR), [new MemoryBackend()]);
+      await new FilesystemBackend(TEST_DATA_DIR).save(tree);
+      await writeFile(join(TEST_DATA_DIR, `${tree.id}.json`), '{');
+
+      await expect(storage.get(tree.id)).rejects.toThrow('Integrity check failed');
+      expect(await storage.get('missing-tree')).toBeNull();
+    });
+  });
 });
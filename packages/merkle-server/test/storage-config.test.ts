@@ -0,0 +1,155 @@
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  loadStorageConfig,
+  parseBackendSpec,
+  createStorage,
+  DEFAULT_DATA_DIR,
+  FilesystemBackend,
+  MemoryBackend,
+  ReplicatedStorage,
+  SqliteBackend,
+} from '../src/services/storage';
+
+const TEST_CONFIG_DIR = join(import.meta.dir, '../data/test-config');
+
+describe('Storage Config', () => {
+  describe('parseBackendSpec', () => {
+    it('parses bare backend types', () => {
+      expect(parseBackendSpec('memory')).toEqual({ type: 'memory' });
+      expect(parseBackendSpec('filesystem')).toEqual({ type: 'filesystem' });
+    });
+
+    it('parses the filesystem data directory', () => {
+      expect(parseBackendSpec('filesystem:/var/lib/trees')).toEqual({
+        type: 'filesystem',
+        dataDir: '/var/lib/trees',
+      });
+    });
+
+    it('parses the sqlite database path', () => {
+      expect(parseBackendSpec('sqlite:/var/lib/trees.db')).toEqual({ type: 'sqlite', path: '/var/lib/trees.db' });
+    });
+
+    it('parses the s3 bucket and prefix', () => {
+      expect(parseBackendSpec('s3:trees-bucket')).toEqual({ type: 's3', bucket: 'trees-bucket' });
+      expect(parseBackendSpec('s3:trees-bucket/merkle/')).toEqual({
+        type: 's3',
+        bucket: 'trees-bucket',
+        prefix: 'merkle/',
+      });
+    });
+
+    it('requires an s3 bucket', () => {
+      expect(() => loadStorageConfig({ STORAGE_PRIMARY: 's3' })).toThrow('Invalid storage config');
+    });
+
+    it('rejects unknown backend types', () => {
+      expect(() => parseBackendSpec('floppy')).toThrow('Unknown storage backend type: floppy');
+    });
+  });
+
+  describe('loadStorageConfig', () => {
+    it('defaults to a single filesystem backend', () => {
+      const config = loadStorageConfig({});
+
+      expect(config).toEqual({
+        primary: { type: 'filesystem', dataDir: DEFAULT_DATA_DIR },
+        replicas: [],
+      });
+    });
+
+    it('reads primary and replicas from env vars', () => {
+      const config = loadStorageConfig({
+        STORAGE_PRIMARY: 'filesystem:/srv/trees',
+        STORAGE_REPLICAS: 'memory, filesystem:/mnt/backup',
+      });
+
+      expect(config).toEqual({
+        primary: { type: 'filesystem', dataDir: '/srv/trees' },
+        replicas: [
+          { type: 'memory' },
+          { type: 'filesystem', dataDir: '/mnt/backup' },
+        ],
+      });
+    });
+
+    it('reads the write quorum and outbox path', () => {
+      const config = loadStorageConfig({
+        STORAGE_PRIMARY: 'memory',
+        STORAGE_REPLICAS: 'memory,memory',
+        STORAGE_WRITE_QUORUM: '1',
+        STORAGE_OUTBOX_PATH: '/var/lib/outbox.json',
+      });
+
+      expect(config.writeQuorum).toBe(1);
+      expect(config.outboxPath).toBe('/var/lib/outbox.json');
+    });
+
+    it('rejects a write quorum larger than the replica set', () => {
+      expect(() => loadStorageConfig({ STORAGE_REPLICAS: 'memory', STORAGE_WRITE_QUORUM: '2' })).toThrow(
+        'writeQuorum: cannot exceed the number of replicas'
+      );
+      expect(() => loadStorageConfig({ STORAGE_REPLICAS: 'memory', STORAGE_WRITE_QUORUM: 'all' })).toThrow(
+        'Invalid storage config: writeQuorum'
+      );
+    });
+
+    describe('from a config file', () => {
+      beforeEach(async () => {
+        await rm(TEST_CONFIG_DIR, { recursive: true, force: true });
+        await mkdir(TEST_CONFIG_DIR, { recursive: true });
+      });
+
+      afterEach(async () => {
+        await rm(TEST_CONFIG_DIR, { recursive: true, force: true });
+      });
+
+      it('reads the file named by STORAGE_CONFIG', async () => {
+        const path = join(TEST_CONFIG_DIR, 'storage.json');
+        await writeFile(path, JSON.stringify({
+          primary: { type: 'memory' },
+          replicas: [{ type: 'filesystem', dataDir: '/mnt/replica' }],
+        }));
+
+        const config = loadStorageConfig({ STORAGE_CONFIG: path, STORAGE_PRIMARY: 'filesystem' });
+
+        expect(config.primary).toEqual({ type: 'memory' });
+        expect(config.replicas).toEqual([{ type: 'filesystem', dataDir: '/mnt/replica' }]);
+      });
+
+      it('reports invalid config files', async () => {
+        const path = join(TEST_CONFIG_DIR, 'storage.json');
+        await writeFile(path, JSON.stringify({ primary: { type: 'tape' } }));
+
+        expect(() => loadStorageConfig({ STORAGE_CONFIG: path })).toThrow('Invalid storage config');
+      });
+
+      it('reports unreadable config files', () => {
+        const path = join(TEST_CONFIG_DIR, 'missing.json');
+
+        expect(() => loadStorageConfig({ STORAGE_CONFIG: path })).toThrow('Failed to read storage config');
+      });
+    });
+  });
+
+  describe('createStorage', () => {
+    it('returns the primary backend when there are no replicas', () => {
+      expect(createStorage({ primary: { type: 'memory' }, replicas: [] })).toBeInstanceOf(MemoryBackend);
+      expect(
+        createStorage({ primary: { type: 'filesystem', dataDir: TEST_CONFIG_DIR }, replicas: [] })
+      ).toBeInstanceOf(FilesystemBackend);
+      expect(createStorage({ primary: { type: 'sqlite', path: ':memory:' }, replicas: [] })).toBeInstanceOf(SqliteBackend);
+    });
+
+    it('wraps replicas in ReplicatedStorage', () => {
+      const storage = createStorage({
+        primary: { type: 'filesystem', dataDir: TEST_CONFIG_DIR },
+        replicas: [{ type: 'memory' }],
+      });
+
+      expect(storage).toBeInstanceOf(ReplicatedStorage);
+    });
+  });
+});
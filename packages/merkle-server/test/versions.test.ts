@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'bun:test';
+import { applyAllocationDiff, createTreeVersion, getTreeLineage } from '../src/services/versions';
+import { rebuildTree, rebuildFromStoredInput } from '../src/services/rebuild';
+import { STANDARD_BUILD_SPEC } from '../src/services/canonicalize';
+import { MemoryBackend } from '../src/services/storage';
+import type { Hex } from 'viem';
+import type { Allocation } from '../src/types';
+
+describe('Versions Service', () => {
+  const alice = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' as Hex;
+  const bob = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Hex;
+  const carol = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' as Hex;
+  const token = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as Hex;
+
+  const allocations: Allocation[] = [
+    { beneficiary: alice, amount: '1000' },
+    { beneficiary: bob, amount: '2000' },
+  ];
+
+  describe('applyAllocationDiff', () => {
+    it('adds, removes and changes allocations', () => {
+      const result = applyAllocationDiff(allocations, {
+        add: [{ beneficiary: carol, amount: '500' }],
+        remove: [bob],
+        change: [{ beneficiary: alice, amount: '1001' }],
+      });
+
+      expect(result).toEqual([
+        { beneficiary: alice, amount: '1001' },
+        { beneficiary: carol, amount: '500' },
+      ]);
+    });
+
+    it('matches beneficiaries case-insensitively', () => {
+      const result = applyAllocationDiff(allocations, { remove: [bob.toLowerCase() as Hex] });
+
+      expect(result).toEqual([{ beneficiary: alice, amount: '1000' }]);
+    });
+
+    it('rejects empty diffs', () => {
+      expect(() => applyAllocationDiff(allocations, {})).toThrow('at least one allocation');
+    });
+
+    it('rejects diffs that touch a beneficiary twice', () => {
+      expect(() =>
+        applyAllocationDiff(allocations, { remove: [bob], change: [{ beneficiary: bob, amount: '1' }] })
+      ).toThrow('appears more than once');
+    });
+
+    it('rejects adding an existing beneficiary', () => {
+      expect(() => applyAllocationDiff(allocations, { add: [{ beneficiary: alice, amount: '1' }] })).toThrow(
+        'already in tree'
+      );
+    });
+
+    it('rejects removing or changing a missing beneficiary', () => {
+      expect(() => applyAllocationDiff(allocations, { remove: [carol] })).toThrow(`Cannot remove ${carol}`);
+      expect(() => applyAllocationDiff(allocations, { change: [{ beneficiary: carol, amount: '1' }] })).toThrow(
+        `Cannot change ${carol}`
+      );
+    });
+
+    it('rejects removing every allocation', () => {
+      expect(() => applyAllocationDiff(allocations, { remove: [alice, bob] })).toThrow('every allocation');
+    });
+  });
+
+  describe('createTreeVersion', () => {
+    it('rebuilds with the diff applied and links to the parent', async () => {
+      const parent = rebuildTree({ allocations, token });
+      const diff = { change: [{ beneficiary: bob, amount: '2500' }] };
+
+      const version = await createTreeVersion(parent, diff);
+
+      expect(version.id).not.toBe(parent.id);
+      expect(version.root).not.toBe(parent.root);
+      expect(version.token).toBe(token);
+      expect(version.version).toEqual({ number: 2, parentId: parent.id, parentRoot: parent.root, diff });
+      expect(version.root).toBe(
+        rebuildTree({ allocations: [allocations[0], { beneficiary: bob, amount: '2500' }], token }).root
+      );
+    });
+
+    it('keeps the parent build spec and stays rebuildable', async () => {
+      const parent = rebuildTree({ allocations, buildSpec: STANDARD_BUILD_SPEC });
+      const version = await createTreeVersion(parent, { add: [{ beneficiary: carol, amount: '500' }] });
+
+      expect(version.buildSpec).toEqual(STANDARD_BUILD_SPEC);
+      expect((await rebuildFromStoredInput(version)).matchesOriginal).toBe(true);
+    });
+
+    it('numbers successive versions', async () => {
+      const v1 = rebuildTree({ allocations });
+      const v2 = await createTreeVersion(v1, { add: [{ beneficiary: carol, amount: '500' }] });
+      const v3 = await createTreeVersion(v2, { remove: [carol] });
+
+      expect(v3.version?.number).toBe(3);
+      expect(v3.version?.parentId).toBe(v2.id);
+      expect(v3.root).toBe(v1.root);
+    });
+  });
+
+  describe('getTreeLineage', () => {
+    it('lists versions from the original tree to the requested one', async () => {
+      const storage = new MemoryBackend();
+      const v1 = rebuildTree({ allocations });
+      const v2 = await createTreeVersion(v1, { add: [{ beneficiary: carol, amount: '500' }] });
+      const v3 = await createTreeVersion(v2, { change: [{ beneficiary: carol, amount: '600' }] });
+      await Promise.all([v1, v2, v3].map((tree) => storage.save(tree)));
+
+      const lineage = await getTreeLineage(storage, v3.id);
+
+      expect(lineage?.map((entry) => [entry.id, entry.number, entry.root])).toEqual([
+        [v1.id, 1, v1.root],
+        [v2.id, 2, v2.root],
+        [v3.id, 3, v3.root],
+      ]);
+      expect(lineage?.[0].parentId).toBeUndefined();
+      expect(lineage?.[2].diff).toEqual(v3.version?.diff);
+      expect(lineage?.[2].allocationCount).toBe(3);
+      expect(lineage?.[2].totalAmount).toBe('3600');
+      expect((await getTreeLineage(storage, v2.id))?.map((entry) => entry.id)).toEqual([v1.id, v2.id]);
+    });
+
+    it('stops at deleted ancestors', async () => {
+      const storage = new MemoryBackend();
+      const v1 = rebuildTree({ allocations });
+      const v2 = await createTreeVersion(v1, { remove: [bob] });
+      await storage.save(v2);
+
+      const lineage = await getTreeLineage(storage, v2.id);
+
+      expect(lineage?.map((entry) => entry.id)).toEqual([v2.id]);
+      expect(lineage?.[0].parentId).toBe(v1.id);
+    });
+
+    it('returns null for unknown trees', async () => {
+      expect(await getTreeLineage(new MemoryBackend(), 'missing')).toBeNull();
+    });
+  });
+});